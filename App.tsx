@@ -7,15 +7,17 @@ import {
   LineChart as LucideLineChart, Lightbulb, Settings2,
   Stethoscope, Activity, TrendingUp, Target, FileUp, FileSpreadsheet,
   BarChart3, Binary, Scale, Search, ChevronDown, PieChart, BookOpen, ExternalLink,
-  Code2, Copy, Check, Beaker, Sigma, Mail, Github
+  Code2, Copy, Check, Beaker, Sigma, Mail, Github, HeartPulse, Coins
 } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import { 
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  AreaChart, Area, ReferenceLine 
+  AreaChart, Area, ReferenceLine, LineChart, Line, Legend, ScatterChart, Scatter 
 } from 'recharts';
-import { getAllCalculators, getCalculatorById } from './calculators/registry';
-import { Category } from './types';
+import { getAllCalculators, getCalculatorById, run } from './calculators/registry';
+import { describeSchema, coerceInput, formatTableInput, FieldDescriptor } from './calculators/schema';
+import { formatResult } from './calculators/format';
+import { Category, CalculationResult, Heatmap, SurvivalCurve, ScatterPlot, SensitivityTable } from './types';
 
 // --- Professional EpiStatKit Logo Component (Matches provided image) ---
 const EpiStatKitLogo = ({ className = "w-8 h-8" }: { className?: string }) => (
@@ -129,6 +131,152 @@ const PowerSpectrumTable = ({ data }: { data?: any[] }) => {
   );
 };
 
+const SensitivityTableView = ({ table }: { table: SensitivityTable }) => (
+  <div className="overflow-x-auto rounded-2xl border border-slate-100 bg-white">
+    <table className="w-full text-left text-xs">
+      <thead className="bg-slate-50 text-slate-400 font-black uppercase tracking-widest">
+        <tr>
+          <th className="px-4 py-3">{table.parameter}</th>
+          {table.columns.map(c => <th key={c} className="px-4 py-3">{c}</th>)}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-50">
+        {table.rows.map(row => (
+          <tr key={row.value} className={row.highlight ? 'bg-indigo-50/60' : 'hover:bg-indigo-50/30 transition-colors'}>
+            <td className="px-4 py-3 font-bold text-slate-600">{row.value}</td>
+            {row.cells.map((v, j) => (
+              <td key={j} className="px-4 py-3 font-mono text-indigo-700 font-bold">{isFinite(v) ? v.toFixed(table.precision ?? 2) : '—'}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Cell matrix shaded by sign and size (|value| of 3 or more is full strength)
+const HeatmapTable = ({ heatmap }: { heatmap: Heatmap }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-xs font-mono border-separate border-spacing-1">
+      <thead>
+        <tr>
+          <th />
+          {heatmap.columnLabels.map(label => <th key={label} className="text-[9px] font-black uppercase text-slate-400">{label}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {heatmap.values.map((row, i) => (
+          <tr key={heatmap.rowLabels[i]}>
+            <th className="text-[9px] font-black uppercase text-slate-400 text-left pr-2">{heatmap.rowLabels[i]}</th>
+            {row.map((v, j) => {
+              const strength = Math.min(1, Math.abs(v) / 3);
+              const background = v >= 0 ? `rgba(225, 29, 72, ${strength * 0.8})` : `rgba(37, 99, 235, ${strength * 0.8})`;
+              return (
+                <td key={j} className={`p-3 rounded-lg text-center ${strength > 0.6 ? 'text-white' : 'text-slate-700'}`} style={{ background }} title={v.toFixed(3)}>
+                  <div className="font-bold">{v.toFixed(2)}</div>
+                  {heatmap.cellText && <div className="text-[9px] opacity-80">{heatmap.cellText[i][j]}</div>}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const CURVE_COLOURS = ['#4f46e5', '#f43f5e', '#10b981', '#f59e0b', '#0ea5e9', '#8b5cf6'];
+
+// Step-function Kaplan-Meier curves with dashed confidence bands and a number-at-risk table
+const SurvivalPlot = ({ curve }: { curve: SurvivalCurve }) => (
+  <div className="space-y-4">
+    <div className="h-72 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+          <XAxis type="number" dataKey="time" domain={[0, 'dataMax']} ticks={curve.riskTimes} fontSize={10} tick={{fontSize: 10}} label={{ value: 'Time', position: 'insideBottom', offset: -10, fontSize: 10, fill: '#94a3b8', fontWeight: 'bold' }} />
+          <YAxis domain={[0, 1]} fontSize={10} tick={{fontSize: 10}} label={{ value: 'Survival', angle: -90, position: 'insideLeft', fontSize: 10, fill: '#94a3b8', fontWeight: 'bold' }} />
+          {curve.groups.length > 1 && <Legend verticalAlign="top" wrapperStyle={{ fontSize: '10px' }} />}
+          {curve.groups.map((group, i) => {
+            const colour = CURVE_COLOURS[i % CURVE_COLOURS.length];
+            return (
+              <React.Fragment key={group.label}>
+                <Line data={group.steps} type="stepAfter" dataKey="survival" name={group.label} stroke={colour} strokeWidth={2.5} dot={false} isAnimationActive={false} />
+                <Line data={group.steps} type="stepAfter" dataKey="lower" stroke={colour} strokeWidth={1} strokeDasharray="4 4" dot={false} legendType="none" isAnimationActive={false} />
+                <Line data={group.steps} type="stepAfter" dataKey="upper" stroke={colour} strokeWidth={1} strokeDasharray="4 4" dot={false} legendType="none" isAnimationActive={false} />
+              </React.Fragment>
+            );
+          })}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+    <div className="overflow-x-auto">
+      <table className="w-full text-center text-xs font-mono">
+        <thead>
+          <tr>
+            <th className="text-[9px] font-black uppercase text-slate-400 text-left pr-2">At risk</th>
+            {curve.riskTimes.map(t => <th key={t} className="text-[9px] font-black text-slate-400">{t}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {curve.groups.map((group, i) => (
+            <tr key={group.label}>
+              <th className="text-[9px] font-black uppercase text-left pr-2" style={{ color: CURVE_COLOURS[i % CURVE_COLOURS.length] }}>{group.label}</th>
+              {group.atRisk.map((n, j) => <td key={j} className="py-1 text-slate-600">{n}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const tickNumber = (v: number) => String(Number(v.toPrecision(3)));
+
+// Points grouped by label, in order of first appearance, for plots drawn as series
+const plotSeries = (plot: ScatterPlot) => {
+  const names = [...new Set(plot.points.map(p => p.label ?? ''))];
+  return names.map(name => {
+    const points = plot.points.filter(p => (p.label ?? '') === name);
+    return { name, points: plot.series === 'lines' ? [...points].sort((a, b) => a.x - b.x) : points };
+  });
+};
+
+// Diagnostic scatter with an optional dashed reference line; hovering a point shows its label.
+// Series plots colour each label separately, with a legend, and may join them as lines.
+const ScatterPlotChart = ({ plot }: { plot: ScatterPlot }) => (
+  <div className="h-64 w-full">
+    <ResponsiveContainer width="100%" height="100%">
+      <ScatterChart margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis type="number" dataKey="x" domain={['auto', 'auto']} fontSize={10} tick={{fontSize: 10}} tickFormatter={tickNumber} label={{ value: plot.xLabel, position: 'insideBottom', offset: -10, fontSize: 10, fill: '#94a3b8', fontWeight: 'bold' }} />
+        <YAxis type="number" dataKey="y" domain={['auto', 'auto']} fontSize={10} tick={{fontSize: 10}} tickFormatter={tickNumber} label={{ value: plot.yLabel, angle: -90, position: 'insideLeft', fontSize: 10, fill: '#94a3b8', fontWeight: 'bold' }} />
+        <Tooltip content={({ payload }: any) => {
+          const point = payload?.[0]?.payload;
+          if (!point || point.label === undefined) return null;
+          return (
+            <div className="bg-white rounded-xl shadow-lg px-3 py-2 text-xs font-mono text-slate-600">
+              <div className="font-bold text-slate-800">{point.label}</div>
+              <div>{plot.xLabel}: {point.x.toFixed(3)}</div>
+              <div>{plot.yLabel}: {point.y.toFixed(3)}</div>
+            </div>
+          );
+        }} />
+        {plot.series && <Legend verticalAlign="top" wrapperStyle={{ fontSize: '10px' }} />}
+        {plot.series
+          ? plotSeries(plot).map((series, i) => {
+            const colour = CURVE_COLOURS[i % CURVE_COLOURS.length];
+            return plot.series === 'lines'
+              ? <Scatter key={series.name} name={series.name} data={series.points} fill={colour} line={{ stroke: colour, strokeWidth: 2 }} shape={(props: any) => <circle cx={props.cx} cy={props.cy} r={2} fill={colour} />} isAnimationActive={false} />
+              : <Scatter key={series.name} name={series.name} data={series.points} fill={colour} fillOpacity={0.6} isAnimationActive={false} />;
+          })
+          : <Scatter data={plot.points} fill="#4f46e5" fillOpacity={0.7} isAnimationActive={false} />}
+        {plot.line && <Scatter data={plot.line} line={{ stroke: '#f43f5e', strokeDasharray: '5 5' }} shape={() => null} legendType="none" isAnimationActive={false} />}
+      </ScatterChart>
+    </ResponsiveContainer>
+  </div>
+);
+
 const PowerCurve = ({ calc, formData }: { calc: any, formData: any }) => {
   const dataPoints = useMemo(() => {
     if (!formData || !calc || Object.keys(formData).length === 0) return [];
@@ -149,12 +297,9 @@ const PowerCurve = ({ calc, formData }: { calc: any, formData: any }) => {
       }
       try {
         const res = calc.compute(testData);
-        const powerItem = res.results.find((r: any) => /power|1\s*-\s*β|1-beta/i.test(r.label));
-        if (powerItem) {
-          const valStr = powerItem.value.toString().replace('%', '');
-          const val = parseFloat(valStr);
-          const finalVal = val <= 1 ? val * 100 : val;
-          if (!isNaN(finalVal)) points.push({ n: currentN, power: finalVal });
+        const powerItem = res.results.find((r: CalculationResult) => /power|1\s*-\s*β|1-beta/i.test(r.label));
+        if (powerItem && typeof powerItem.estimate === 'number' && !isNaN(powerItem.estimate)) {
+          points.push({ n: currentN, power: powerItem.estimate * 100 });
         }
       } catch (e) {}
     }
@@ -198,7 +343,10 @@ const Sidebar = ({ isOpen, close }: { isOpen: boolean, close: () => void }) => {
     [Category.CONFIDENCE_INTERVALS]: true,
     [Category.EPIDEMIOLOGY]: true,
     [Category.SAMPLE_SIZE]: true,
-    [Category.HYPOTHESIS_TESTS]: true
+    [Category.HYPOTHESIS_TESTS]: true,
+    [Category.SURVIVAL]: true,
+    [Category.REGRESSION]: true,
+    [Category.HEALTH_ECONOMICS]: true
   });
 
   const calcs = useMemo(() => getAllCalculators(), []);
@@ -230,6 +378,9 @@ const Sidebar = ({ isOpen, close }: { isOpen: boolean, close: () => void }) => {
       case Category.HYPOTHESIS_TESTS: return <Binary size={16} />;
       case Category.EPIDEMIOLOGY: return <Activity size={16} />;
       case Category.SAMPLE_SIZE: return <Target size={16} />;
+      case Category.SURVIVAL: return <HeartPulse size={16} />;
+      case Category.REGRESSION: return <TrendingUp size={16} />;
+      case Category.HEALTH_ECONOMICS: return <Coins size={16} />;
       default: return <PieChart size={16} />;
     }
   };
@@ -279,28 +430,148 @@ const Sidebar = ({ isOpen, close }: { isOpen: boolean, close: () => void }) => {
   );
 };
 
+type FormValues = Record<string, string>;
+
+// Form state is kept as strings (checkboxes as "true"/"false") and coerced on submit
+const toFormValues = (fields: FieldDescriptor[], input: Record<string, unknown> = {}): FormValues =>
+  Object.fromEntries(fields.map(f => {
+    const value = input[f.name] !== undefined ? input[f.name] : f.default;
+    if (f.type === 'boolean') return [f.name, String(value === true)];
+    if (f.type === 'table' && Array.isArray(value)) return [f.name, formatTableInput(value)];
+    return [f.name, value === undefined || value === null ? '' : String(value)];
+  }));
+
+const formatFieldLabel = (field: FieldDescriptor) => field.description || field.name
+  .split('_')
+  .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+  .join(' ')
+  .replace(/([A-Z])/g, ' $1')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const fieldHint = (field: FieldDescriptor) => {
+  const parts = [];
+  if (field.min !== undefined && field.max !== undefined) parts.push(`${field.min} – ${field.max}`);
+  else if (field.min !== undefined) parts.push(`≥ ${field.min}`);
+  else if (field.max !== undefined) parts.push(`≤ ${field.max}`);
+  if (field.integer) parts.push('whole number');
+  if (!field.required && field.default === undefined) parts.push('optional');
+  return parts.join(' · ');
+};
+
+// Editable grid for matrix fields; the value is the "a, b; c, d" text that coerceInput reads
+const TableInput = ({ value, error, onChange }: { value: string, error?: string, onChange: (value: string) => void }) => {
+  const grid = value.trim() ? value.split(';').map(row => row.split(',').map(cell => cell.trim())) : [['', ''], ['', '']];
+  const cols = Math.max(...grid.map(row => row.length));
+  const rows = grid.map(row => [...row, ...Array(cols - row.length).fill('')]);
+
+  const update = (next: string[][]) => onChange(next.every(row => row.every(cell => cell === '')) ? '' : next.map(row => row.join(', ')).join('; '));
+  const setCell = (i: number, j: number, cell: string) => update(rows.map((row, r) => row.map((c, k) => (r === i && k === j ? cell : c))));
+  const buttonClass = 'px-2 py-1 rounded-lg bg-slate-100 text-[9px] font-black text-slate-500 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-30';
+
+  return (
+    <div className={`p-3 bg-slate-50 border rounded-2xl ${error ? 'border-rose-400' : 'border-slate-200'}`}>
+      <div className="overflow-x-auto">
+        <table className="text-xs font-mono">
+          <thead>
+            <tr>
+              <th />
+              {rows[0].map((_, j) => <th key={j} className="text-[9px] font-black text-slate-400 pb-1">C{j + 1}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <th className="text-[9px] font-black text-slate-400 pr-2">R{i + 1}</th>
+                {row.map((cell, j) => (
+                  <td key={j} className="p-0.5">
+                    <input type="number" min={0} step={1} className="w-16 p-2 bg-white border border-slate-200 rounded-lg text-center focus:ring-2 focus:ring-indigo-500 outline-none" value={cell} onChange={(e) => setCell(i, j, e.target.value)} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        <button type="button" className={buttonClass} onClick={() => update([...rows, Array(cols).fill('')])}>+ Row</button>
+        <button type="button" className={buttonClass} disabled={rows.length <= 2} onClick={() => update(rows.slice(0, -1))}>− Row</button>
+        <button type="button" className={buttonClass} onClick={() => update(rows.map(row => [...row, '']))}>+ Column</button>
+        <button type="button" className={buttonClass} disabled={cols <= 2} onClick={() => update(rows.map(row => row.slice(0, -1)))}>− Column</button>
+      </div>
+    </div>
+  );
+};
+
+const SchemaField = ({ field, value, error, onChange }: { field: FieldDescriptor, value: string, error?: string, onChange: (value: string) => void }) => {
+  const inputClass = `w-full p-4 bg-slate-50 border rounded-2xl text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none ${error ? 'border-rose-400' : 'border-slate-200'}`;
+  const hint = fieldHint(field);
+  const errorLine = error && <p className="text-[10px] font-bold text-rose-600 mt-1">{error}</p>;
+
+  if (field.type === 'boolean') {
+    return (
+      <div>
+        <label className="flex items-center space-x-3 cursor-pointer p-1">
+          <input type="checkbox" className="w-4 h-4 accent-indigo-600" checked={value === 'true'} onChange={(e) => onChange(String(e.target.checked))} />
+          <span className="text-[9px] font-black uppercase text-slate-500 tracking-tight">{formatFieldLabel(field)}</span>
+        </label>
+        {errorLine}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="text-[9px] font-black uppercase text-slate-400 tracking-tight mb-1 flex justify-between">
+        <span>{formatFieldLabel(field)}</span>
+        {hint && <span className="normal-case font-medium text-slate-300">{hint}</span>}
+      </label>
+      {field.type === 'enum' ? (
+        <select className={inputClass} value={value} onChange={(e) => onChange(e.target.value)}>
+          {field.default === undefined && <option value="">—</option>}
+          {(field.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+      ) : field.type === 'table' ? (
+        <TableInput value={value} error={error} onChange={onChange} />
+      ) : field.type === 'string' ? (
+        <textarea rows={3} placeholder="Enter data list" className={inputClass} value={value} onChange={(e) => onChange(e.target.value)} />
+      ) : (
+        <input type="number" step={field.integer ? 1 : 'any'} min={field.min} max={field.max} className={inputClass} value={value} onChange={(e) => onChange(e.target.value)} />
+      )}
+      {errorLine}
+    </div>
+  );
+};
+
 const CalculatorPage = () => {
   const { id } = useParams<{ id: string }>();
   const calc = useMemo(() => getCalculatorById(id || ''), [id]);
-  const [formData, setFormData] = useState<any>({});
+  const fields = useMemo(() => (calc ? describeSchema(calc.schema) : []), [calc]);
+  const [formValues, setFormValues] = useState<FormValues>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [parsedInput, setParsedInput] = useState<any>(null);
   const [results, setResults] = useState<any>(null);
   const [showPlots, setShowPlots] = useState(true);
   const [showRCode, setShowRCode] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  useEffect(() => { setResults(null); setFormData({}); setShowRCode(false); }, [id]);
+  useEffect(() => {
+    setResults(null); setParsedInput(null); setShowRCode(false);
+    setFormValues(toFormValues(fields)); setFieldErrors({}); setFormError(null);
+  }, [id, fields]);
 
   if (!calc) return <div className="p-20 text-center text-slate-400 font-medium">Tool not found.</div>;
 
-  const getZodShape = (zodObj: any): any => {
-    if (!zodObj) return {};
-    if (zodObj._def.shape) return zodObj._def.shape();
-    if (zodObj._def.schema) return getZodShape(zodObj._def.schema); 
-    if (zodObj._def.innerType) return getZodShape(zodObj._def.innerType);
-    return {};
-  };
+  // Data lists are the free-text fields; an imported sheet goes whole, header included, to a
+  // table field named "data", else fills the columns headed with their names (e.g. time,
+  // event, group), otherwise all of its numbers go to the first of them
+  const datasetField = fields.find(f => f.type === 'string');
 
-  const schemaShape = useMemo(() => getZodShape(calc.schema), [calc.schema]);
+  const updateField = (name: string, value: string) => {
+    setFormValues(prev => ({ ...prev, [name]: value }));
+    setFieldErrors(prev => ({ ...prev, [name]: undefined }));
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -312,39 +583,55 @@ const CalculatorPage = () => {
       const firstSheetName = workbook.SheetNames[0];
       const worksheet = workbook.Sheets[firstSheetName];
       const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+      if (fields.some(f => f.name === 'data' && f.type === 'string')) {
+        const rows = data.filter(row => row.some(v => v !== undefined && v !== null && String(v).trim() !== ''));
+        const width = Math.max(...rows.map(row => row.length));
+        updateField('data', rows.map(row => Array.from({ length: width }, (_, i) => String(row[i] ?? '').trim()).join('\t')).join('\n'));
+        return;
+      }
+      const header = (data[0] || []).map(h => String(h ?? '').trim().toLowerCase());
+      const columns = fields
+        .filter(f => f.type === 'string')
+        .map(f => ({ name: f.name, index: header.indexOf(f.name.toLowerCase()) }))
+        .filter(c => c.index >= 0);
+      if (columns.length > 0) {
+        columns.forEach(({ name, index }) => {
+          const cells = data.slice(1).map(row => row[index]).filter(v => v !== undefined && v !== null && String(v).trim() !== '');
+          updateField(name, cells.join('\n'));
+        });
+        return;
+      }
       const flatData = data.flat().filter(v => typeof v === 'number' || (!isNaN(parseFloat(v)) && v !== ''));
       const stringData = flatData.join(' ');
-      const datasetField = Object.keys(schemaShape).find(k => k === 'numbers' || k === 'text' || k === 'dataset' || k === 'var1' || k === 'var2');
-      if (datasetField) setFormData(prev => ({ ...prev, [datasetField]: stringData }));
+      if (datasetField) updateField(datasetField.name, stringData);
     };
     reader.readAsBinaryString(file);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    try {
-      const parsed = calc.schema.parse(formData);
-      setResults(calc.compute(parsed));
-    } catch (err: any) {
-      alert(err.errors?.[0]?.message || "Check your inputs.");
+  const calculate = (values: FormValues) => {
+    const result = run(calc.metadata.id, coerceInput(fields, values));
+    if ('errors' in result) {
+      // Issues on a field are shown under it; cross-field refinements have an empty path
+      const byField: Record<string, string> = {};
+      const general: string[] = [];
+      result.errors.forEach(({ path, message }) => {
+        const name = path.split('.')[0];
+        if (fields.some(f => f.name === name)) byField[name] = byField[name] || message;
+        else general.push(message);
+      });
+      setFieldErrors(byField);
+      setFormError(general.length > 0 ? general.join(' ') : null);
+      return;
     }
+    setFieldErrors({});
+    setFormError(null);
+    setParsedInput(result.input);
+    setResults(result.output);
   };
 
-  const hasDatasetInput = Object.keys(schemaShape).some(k => k === 'numbers' || k === 'text' || k === 'dataset' || k === 'var1' || k === 'var2');
-
-  const formatLabel = (key: string) => {
-    const field = schemaShape[key];
-    if (field && field._def && field._def.description) {
-      return field._def.description;
-    }
-
-    return key
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ')
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/\s+/g, ' ')
-      .trim();
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    calculate(formValues);
   };
 
   return (
@@ -361,7 +648,7 @@ const CalculatorPage = () => {
             <div className="flex justify-between items-center mb-6">
                <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Parameters</h3>
                <div className="flex space-x-3">
-                 {hasDatasetInput && (
+                 {datasetField && (
                    <>
                     <button onClick={() => fileInputRef.current?.click()} className="text-[10px] font-bold text-slate-500 hover:text-indigo-600 flex items-center space-x-1" title="Upload Excel or CSV">
                       <FileSpreadsheet size={12} /> <span>Import</span>
@@ -370,25 +657,19 @@ const CalculatorPage = () => {
                    </>
                  )}
                  <button onClick={() => {
-                   setFormData(calc.examples[0]);
-                   setResults(calc.compute(calc.schema.parse(calc.examples[0])));
+                   const values = toFormValues(fields, calc.examples[0] as Record<string, unknown>);
+                   setFormValues(values);
+                   calculate(values);
                  }} className="text-[10px] font-bold text-indigo-600 hover:underline">Sample Case</button>
                </div>
             </div>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              {Object.keys(schemaShape).map(key => {
-                const isDatasetField = key === 'numbers' || key === 'text' || key === 'dataset' || key === 'var1' || key === 'var2';
-                return (
-                  <div key={key}>
-                    <label className="text-[9px] font-black uppercase text-slate-400 tracking-tight mb-1 block">{formatLabel(key)}</label>
-                    <input type={isDatasetField ? "text" : "number"} step="any" placeholder={isDatasetField ? "Enter data list" : ""} className="w-full p-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none" value={formData[key] || ''} onChange={(e) => {
-                        const val = e.target.value;
-                        setFormData({...formData, [key]: isDatasetField ? val : parseFloat(val)})
-                      }} 
-                    />
-                  </div>
-                );
-              })}
+            <form onSubmit={handleSubmit} noValidate className="space-y-4">
+              {fields.map(field => (
+                <React.Fragment key={field.name}>
+                  <SchemaField field={field} value={formValues[field.name] ?? ''} error={fieldErrors[field.name]} onChange={(value) => updateField(field.name, value)} />
+                </React.Fragment>
+              ))}
+              {formError && <p className="text-xs font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-2xl p-3">{formError}</p>}
               <button type="submit" className="w-full py-5 bg-indigo-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-xl shadow-indigo-100">Calculate Results</button>
             </form>
           </div>
@@ -410,10 +691,10 @@ const CalculatorPage = () => {
                 </div>
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
-                  {(results.results as any[]).map((res: any, idx: number) => (
+                  {(results.results as CalculationResult[]).map((res, idx) => (
                     <div key={idx} className={`p-6 rounded-2xl ${res.isMain ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-100' : 'bg-slate-50 border border-slate-100'}`}>
                       <div className={`text-[10px] font-black uppercase mb-1 ${res.isMain ? 'text-indigo-200' : 'text-slate-400'}`}>{res.label}</div>
-                      <div className={`font-mono leading-none ${res.isMain ? 'text-2xl font-black' : 'text-lg font-bold text-slate-800'}`}>{res.value}</div>
+                      <div className={`font-mono leading-none ${res.isMain ? 'text-2xl font-black' : 'text-lg font-bold text-slate-800'}`}>{formatResult(res)}</div>
                       {res.description && <div className={`text-[9px] mt-2 opacity-70 ${res.isMain ? 'text-white' : 'text-slate-500'}`}>{res.description}</div>}
                     </div>
                   ))}
@@ -433,6 +714,30 @@ const CalculatorPage = () => {
                       <pre className="text-xs font-mono text-slate-600 whitespace-pre-wrap">{results.formula}</pre>
                     </div>
                   )}
+                  {results.heatmap && (
+                    <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100 md:col-span-2">
+                      <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">{results.heatmap.title}</h4>
+                      <HeatmapTable heatmap={results.heatmap} />
+                    </div>
+                  )}
+                  {showPlots && results.survivalCurve && (
+                    <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100 md:col-span-2">
+                      <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">Survival Curve</h4>
+                      <SurvivalPlot curve={results.survivalCurve} />
+                    </div>
+                  )}
+                  {showPlots && results.scatterPlots && results.scatterPlots.map(plot => (
+                    <div key={plot.title} className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
+                      <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">{plot.title}</h4>
+                      <ScatterPlotChart plot={plot} />
+                    </div>
+                  ))}
+                  {results.sensitivityTable && (
+                    <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100 md:col-span-2">
+                      <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">{results.sensitivityTable.title}</h4>
+                      <SensitivityTableView table={results.sensitivityTable} />
+                    </div>
+                  )}
                   {results.powerSpectrum && (
                     <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
                       <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">Power Spectrum Table</h4>
@@ -442,7 +747,7 @@ const CalculatorPage = () => {
                   {showPlots && (calc.metadata.category === Category.SAMPLE_SIZE || calc.metadata.category === Category.EPIDEMIOLOGY) && (
                     <div className="p-6 bg-slate-50 rounded-2xl border border-slate-100">
                         <h4 className="text-[10px] font-black uppercase text-slate-400 mb-4">Sensitivity Analysis (Power vs N)</h4>
-                        <PowerCurve calc={calc} formData={formData} />
+                        <PowerCurve calc={calc} formData={parsedInput} />
                     </div>
                   )}
                 </div>
@@ -464,7 +769,7 @@ const CalculatorPage = () => {
 };
 
 const HomeDashboard = () => {
-  const categories = [Category.DESCRIPTIVE, Category.CONFIDENCE_INTERVALS, Category.HYPOTHESIS_TESTS, Category.EPIDEMIOLOGY, Category.SAMPLE_SIZE];
+  const categories = [Category.DESCRIPTIVE, Category.CONFIDENCE_INTERVALS, Category.HYPOTHESIS_TESTS, Category.EPIDEMIOLOGY, Category.SAMPLE_SIZE, Category.SURVIVAL, Category.REGRESSION, Category.HEALTH_ECONOMICS];
   const calcs = getAllCalculators();
   return (
     <div className="p-6 md:p-16 max-w-7xl mx-auto space-y-16">
@@ -0,0 +1,240 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../types';
+import * as dist from './distributions';
+import { parseGroups, mean, median, variance, leveneTest } from './descriptive/utils';
+
+interface GroupStats {
+  label: string;
+  n: number;
+  mean: number;
+  sd: number;
+  values?: number[]; // Raw data, when given
+}
+
+// "mean, SD, n" per line, with the same optional "Label:" prefix as raw data groups
+const parseSummaryGroups = (input: string): GroupStats[] =>
+  parseGroups(input).map(({ label, values }) => ({ label, mean: values[0], sd: values[1], n: values[2] }));
+
+const readGroups = (data: { groups?: string, summary?: string }): GroupStats[] => {
+  if (data.groups && data.groups.trim()) {
+    return parseGroups(data.groups).map(({ label, values }) => ({
+      label, values, n: values.length, mean: mean(values), sd: Math.sqrt(variance(values))
+    }));
+  }
+  return parseSummaryGroups(data.summary || '');
+};
+
+const validGroups = (data: { groups?: string, summary?: string }) => {
+  if (data.groups && data.groups.trim()) {
+    const groups = parseGroups(data.groups);
+    return groups.length >= 2 && groups.every(g => g.values.length >= 2);
+  }
+  if (data.summary && data.summary.trim()) {
+    const groups = parseGroups(data.summary);
+    return groups.length >= 2 && groups.every(g => g.values.length === 3 && g.values[1] > 0 && g.values[2] >= 2);
+  }
+  return false;
+};
+
+// With every group constant the within-group variance is 0 and the F tests are undefined
+const hasWithinVariation = (data: { groups?: string, summary?: string }) =>
+  !(data.groups && data.groups.trim()) || !parseGroups(data.groups).every(g => variance(g.values) === 0);
+
+export const anova: CalculatorDefinition<{ groups?: string, summary?: string, conf: number }> = {
+  metadata: {
+    id: 'one-way-anova',
+    title: 'One-Way ANOVA',
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Compare the means of three or more groups with the ANOVA table, effect sizes, variance-homogeneity tests, Welch ANOVA and Tukey HSD / Games-Howell post-hoc comparisons.',
+    keywords: ['anova', 'f-test', 'welch', 'tukey', 'games-howell', 'post-hoc', 'levene', 'brown-forsythe', 'eta squared', 'p-value']
+  },
+  schema: z.object({
+    groups: z.string().optional().describe("Data Groups (one group per line, optional \"Label:\" prefix)"),
+    summary: z.string().optional().describe("Or Summary Statistics (one group per line: mean, SD, n)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(validGroups, {
+    message: "Provide at least 2 data groups with 2+ values each, or at least 2 summary lines of mean, SD (> 0) and n (≥ 2)."
+  }).refine(hasWithinVariation, {
+    message: "Every group is constant, so there is no within-group variation to test against. At least one group needs differing values."
+  }),
+  examples: [
+    {
+      groups: 'ctrl: 4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14\ntrt1: 4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69\ntrt2: 6.31, 5.12, 5.54, 5.50, 5.37, 5.29, 4.92, 6.15, 5.80, 5.26',
+      conf: 95
+    },
+    { summary: 'Placebo: 24.5, 6.2, 30\nLow dose: 21.3, 5.8, 28\nHigh dose: 18.9, 7.1, 31', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Welch BL",
+      year: 1951,
+      title: "On the comparison of several mean values: an alternative approach",
+      source: "Biometrika 38(3-4):330-336",
+      doi: "10.1093/biomet/38.3-4.330"
+    },
+    {
+      author: "Games PA, Howell JF",
+      year: 1976,
+      title: "Pairwise multiple comparison procedures with unequal n's and/or variances: a Monte Carlo study",
+      source: "Journal of Educational Statistics 1(2):113-125",
+      doi: "10.3102/10769986001002113"
+    },
+    {
+      author: "Brown MB, Forsythe AB",
+      year: 1974,
+      title: "Robust tests for the equality of variances",
+      source: "Journal of the American Statistical Association 69(346):364-367",
+      doi: "10.1080/01621459.1974.10482955"
+    }
+  ],
+  compute: (data) => {
+    const { conf } = data;
+    const groups = readGroups(data);
+    const k = groups.length;
+    const N = groups.reduce((s, g) => s + g.n, 0);
+    const grandMean = groups.reduce((s, g) => s + g.n * g.mean, 0) / N;
+
+    // ANOVA table
+    const ssb = groups.reduce((s, g) => s + g.n * Math.pow(g.mean - grandMean, 2), 0);
+    const ssw = groups.reduce((s, g) => s + (g.n - 1) * g.sd * g.sd, 0);
+    const sst = ssb + ssw;
+    const dfb = k - 1;
+    const dfw = N - k;
+    const msb = ssb / dfb;
+    const msw = ssw / dfw;
+    const f = msb / msw;
+    const p = 1 - dist.fCDF(f, dfb, dfw);
+
+    const etaSq = ssb / sst;
+    const omegaSq = Math.max(0, (ssb - dfb * msw) / (sst + msw));
+
+    // Welch ANOVA (oneway.test with var.equal = FALSE)
+    const w = groups.map(g => g.n / (g.sd * g.sd));
+    const sumW = w.reduce((s, v) => s + v, 0);
+    const welchMean = groups.reduce((s, g, i) => s + w[i] * g.mean, 0) / sumW;
+    const welchA = groups.reduce((s, g, i) => s + w[i] * Math.pow(g.mean - welchMean, 2), 0) / dfb;
+    const lambda = groups.reduce((s, g, i) => s + Math.pow(1 - w[i] / sumW, 2) / (g.n - 1), 0);
+    const welchF = welchA / (1 + (2 * (k - 2) / (k * k - 1)) * lambda);
+    const welchDf2 = (k * k - 1) / (3 * lambda);
+    const welchP = 1 - dist.fCDF(welchF, dfb, welchDf2);
+
+    const results: CalculationResult[] = [
+      { label: 'F-statistic', estimate: f, pValue: p, precision: 4, isMain: true },
+      { label: 'p-value', pValue: p, method: 'One-way ANOVA', isMain: true },
+      { label: 'Sum of Squares (Between)', estimate: ssb, precision: 4, description: `df = ${dfb}, MS = ${msb.toFixed(4)}` },
+      { label: 'Sum of Squares (Within)', estimate: ssw, precision: 4, description: `df = ${dfw}, MS = ${msw.toFixed(4)}` },
+      { label: 'Sum of Squares (Total)', estimate: sst, precision: 4, description: `df = ${N - 1}` },
+      { label: 'Mean Square (Between)', estimate: msb, precision: 4 },
+      { label: 'Mean Square (Within)', estimate: msw, precision: 4 },
+      { label: 'df (Between)', estimate: dfb },
+      { label: 'df (Within)', estimate: dfw },
+      { label: 'Eta-Squared (η²)', estimate: etaSq, precision: 4, isMain: true },
+      { label: 'Omega-Squared (ω²)', estimate: omegaSq, precision: 4 },
+      { label: 'Welch F', estimate: welchF, pValue: welchP, method: `Welch ANOVA, df = ${dfb}, ${welchDf2.toFixed(3)}`, precision: 4 },
+      { label: 'Welch p-value', pValue: welchP, method: 'Welch ANOVA (unequal variances)' }
+    ];
+
+    // Variance homogeneity needs the raw observations
+    const rawGroups = groups.filter((g): g is GroupStats & { values: number[] } => !!g.values);
+    const raw = rawGroups.length === groups.length;
+    if (raw) {
+      const levene = leveneTest(rawGroups.map(g => g.values), mean);
+      const bf = leveneTest(rawGroups.map(g => g.values), median);
+      results.push(
+        { label: "Levene's Test", estimate: levene.f, pValue: levene.p, method: `Centred on means, df = ${levene.df1}, ${levene.df2}`, precision: 4 },
+        { label: "Levene's p-value", pValue: levene.p, method: "Levene's test (mean)" },
+        { label: 'Brown-Forsythe Test', estimate: bf.f, pValue: bf.p, method: `Centred on medians, df = ${bf.df1}, ${bf.df2}`, precision: 4 },
+        { label: 'Brown-Forsythe p-value', pValue: bf.p, method: 'Brown-Forsythe test (median)' }
+      );
+    } else {
+      results.push({ label: "Levene's Test", text: 'Requires raw data' }, { label: 'Brown-Forsythe Test', text: 'Requires raw data' });
+    }
+
+    groups.forEach(g => {
+      results.push({ label: `Mean (${g.label})`, estimate: g.mean, precision: 4, description: `SD ${g.sd.toFixed(4)}, n = ${g.n}` });
+    });
+
+    // Pairwise comparisons in TukeyHSD order: later group minus earlier group
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < k - 1; i++) for (let j = i + 1; j < k; j++) pairs.push([i, j]);
+
+    const qTukey = dist.qtukey(conf / 100, k, dfw);
+    let tukeySignificant = 0;
+    pairs.forEach(([i, j]) => {
+      const a = groups[i], b = groups[j];
+      const diff = b.mean - a.mean;
+      const se = Math.sqrt((msw / 2) * (1 / a.n + 1 / b.n));
+      const pAdj = 1 - dist.ptukey(Math.abs(diff) / se, k, dfw);
+      if (pAdj < 1 - conf / 100) tukeySignificant++;
+      results.push({
+        label: `Tukey: ${b.label} − ${a.label}`, estimate: diff, lower: diff - qTukey * se, upper: diff + qTukey * se,
+        confLevel: conf, pValue: pAdj, method: 'Tukey HSD', precision: 4, description: `p adj = ${pAdj < 0.0001 ? '< 0.0001' : pAdj.toFixed(4)}`
+      });
+    });
+
+    pairs.forEach(([i, j]) => {
+      const a = groups[i], b = groups[j];
+      const diff = b.mean - a.mean;
+      const va = (a.sd * a.sd) / a.n, vb = (b.sd * b.sd) / b.n;
+      const se = Math.sqrt(va + vb);
+      const df = Math.pow(va + vb, 2) / (va * va / (a.n - 1) + vb * vb / (b.n - 1));
+      const pAdj = 1 - dist.ptukey((Math.abs(diff) / se) * Math.SQRT2, k, df);
+      const margin = (dist.qtukey(conf / 100, k, df) / Math.SQRT2) * se;
+      results.push({
+        label: `Games-Howell: ${b.label} − ${a.label}`, estimate: diff, lower: diff - margin, upper: diff + margin,
+        confLevel: conf, pValue: pAdj, method: 'Games-Howell', precision: 4, description: `p adj = ${pAdj < 0.0001 ? '< 0.0001' : pAdj.toFixed(4)}`
+      });
+    });
+
+    const labels = groups.map(g => JSON.stringify(g.label)).join(', ');
+    const rCode = raw
+      ? `# One-way ANOVA
+dat <- data.frame(
+  value = c(${rawGroups.map(g => g.values.join(', ')).join(',\n            ')}),
+  group = factor(rep(c(${labels}), times = c(${groups.map(g => g.n).join(', ')})),
+                 levels = c(${labels}))
+)
+fit <- aov(value ~ group, data = dat)
+summary(fit)
+TukeyHSD(fit, conf.level = ${conf / 100})
+
+# Welch ANOVA (unequal variances)
+oneway.test(value ~ group, data = dat, var.equal = FALSE)
+
+# Levene (mean) and Brown-Forsythe (median) tests (install.packages("car"))
+library(car)
+leveneTest(value ~ group, data = dat, center = mean)
+leveneTest(value ~ group, data = dat, center = median)
+
+# Games-Howell comparisons (install.packages("rstatix"))
+library(rstatix)
+games_howell_test(dat, value ~ group, conf.level = ${conf / 100})`
+      : `# One-way ANOVA from summary statistics (aov and TukeyHSD need raw data)
+m <- c(${groups.map(g => g.mean).join(', ')})
+s <- c(${groups.map(g => g.sd).join(', ')})
+n <- c(${groups.map(g => g.n).join(', ')})
+k <- length(m); N <- sum(n)
+ssb <- sum(n * (m - sum(n * m) / N)^2)
+ssw <- sum((n - 1) * s^2)
+mse <- ssw / (N - k)
+F <- (ssb / (k - 1)) / mse
+pf(F, k - 1, N - k, lower.tail = FALSE)
+
+# Tukey-Kramer comparison of groups i and j, as TukeyHSD computes it
+tukey <- function(i, j) {
+  d <- m[j] - m[i]
+  se <- sqrt(mse / 2 * (1 / n[i] + 1 / n[j]))
+  q <- qtukey(${conf / 100}, k, N - k)
+  c(diff = d, lwr = d - q * se, upr = d + q * se,
+    p.adj = ptukey(abs(d) / se, k, N - k, lower.tail = FALSE))
+}
+tukey(1, 2)`;
+
+    return {
+      results,
+      interpretation: `The one-way ANOVA gives F(${dfb}, ${dfw}) = ${f.toFixed(3)}, p = ${p.toFixed(4)}; group membership explains ${(etaSq * 100).toFixed(1)}% of the variance (η²). ${p < 1 - conf / 100 ? `At least one group mean differs; Tukey HSD finds ${tukeySignificant} of ${pairs.length} pairwise differences significant.` : 'No significant difference between the group means was detected.'} Welch's ANOVA, which does not assume equal variances, gives p = ${welchP.toFixed(4)}.`,
+      rCode,
+      formula: `F = MS_between / MS_within;  η² = SS_between / SS_total;  ω² = (SS_between - df_b·MS_within) / (SS_total + MS_within)`
+    };
+  }
+};
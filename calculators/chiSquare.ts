@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const chiSquare: CalculatorDefinition<{ 
   exposed_cases: number, 
@@ -47,19 +47,24 @@ export const chiSquare: CalculatorDefinition<{
     const correctedNum = yates ? Math.max(0, numerator - n / 2) : numerator;
     const chi2 = (n * Math.pow(correctedNum, 2)) / (row1 * row2 * col1 * col2);
     
-    const pValue = ciUtils.getChiSqPValue(chi2, 1);
+    const pValue = dist.getChiSqPValue(chi2, 1);
+
+    // The chi-square approximation is unreliable when any expected count is below 5
+    const minExpected = Math.min(row1 * col1, row1 * col2, row2 * col1, row2 * col2) / n;
+    const smallExpected = minExpected < 5;
     const formatP = (p: number) => p < 0.001 ? "< 0.001" : p.toFixed(4);
 
     const rCode = `# Chi-Square Test\ntab <- matrix(c(${a}, ${c}, ${b}, ${d}), nrow = 2)\ncolnames(tab) <- c("Cases", "Control")\nrownames(tab) <- c("Exposed", "Unexposed")\nchisq.test(tab, correct = ${yates ? "TRUE" : "FALSE"})`;
 
     return {
       results: [
-        { label: 'Chi-Square (χ²)', value: chi2.toFixed(4), isMain: true },
-        { label: 'p-value', value: formatP(pValue), isMain: true },
-        { label: 'Degrees of Freedom', value: 1 },
-        { label: 'Correction', value: yates ? 'Yates Correction applied' : 'None' }
+        { label: 'Chi-Square (χ²)', estimate: chi2, pValue, precision: 4, isMain: true },
+        { label: 'p-value', pValue, method: yates ? "Pearson's chi-squared test with Yates' correction" : "Pearson's chi-squared test", isMain: true },
+        { label: 'Degrees of Freedom', estimate: 1 },
+        { label: 'Correction', text: yates ? 'Yates Correction applied' : 'None' },
+        ...(smallExpected ? [{ label: 'Warning', text: "Expected count below 5; use Fisher's Exact Test (fisher-exact)" }] : [])
       ],
-      interpretation: `The Chi-square value is ${chi2.toFixed(3)} (p = ${formatP(pValue)}). ${pValue < 0.05 ? 'A statistically significant association exists.' : 'No statistically significant association was found.'}`,
+      interpretation: `The Chi-square value is ${chi2.toFixed(3)} (p = ${formatP(pValue)}). ${pValue < 0.05 ? 'A statistically significant association exists.' : 'No statistically significant association was found.'}${smallExpected ? ` The smallest expected count is ${minExpected.toFixed(2)}, below 5, so the chi-square approximation is unreliable; use Fisher's exact test instead.` : ''}`,
       rCode,
       formula: `χ² = n(|ad-bc| - c)² / (R1*R2*C1*C2)`
     };
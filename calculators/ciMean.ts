@@ -25,11 +25,11 @@ export const ciMean: CalculatorDefinition<{ mean: number, sd: number, n: number,
     
     return {
       results: [
-        { label: 'Sample Mean', value: mean, isMain: true },
-        { label: 'Standard Error', value: se.toFixed(4) },
-        { label: 'Margin of Error', value: me.toFixed(4) },
-        { label: 'Lower Bound', value: (mean - me).toFixed(4) },
-        { label: 'Upper Bound', value: (mean + me).toFixed(4) }
+        { label: 'Sample Mean', estimate: mean, isMain: true },
+        { label: 'Standard Error', estimate: se, precision: 4 },
+        { label: 'Margin of Error', estimate: me, precision: 4 },
+        { label: 'Lower Bound', estimate: mean - me, precision: 4 },
+        { label: 'Upper Bound', estimate: mean + me, precision: 4 }
       ],
       interpretation: `The true population mean is estimated to be between ${(mean - me).toFixed(2)} and ${(mean + me).toFixed(2)}.`,
       formula: `CI = \\bar{x} \\pm Z \\frac{s}{\\sqrt{n}}`
@@ -25,10 +25,10 @@ export const ciProportion: CalculatorDefinition<{ x: number, n: number, conf: nu
     
     return {
       results: [
-        { label: 'Point Estimate (p)', value: p.toFixed(4), isMain: true },
-        { label: 'Standard Error', value: se.toFixed(4) },
-        { label: 'Lower Bound', value: (p - me).toFixed(4) },
-        { label: 'Upper Bound', value: (p + me).toFixed(4) }
+        { label: 'Point Estimate (p)', estimate: p, precision: 4, isMain: true },
+        { label: 'Standard Error', estimate: se, precision: 4 },
+        { label: 'Lower Bound', estimate: p - me, precision: 4 },
+        { label: 'Upper Bound', estimate: p + me, precision: 4 }
       ],
       interpretation: `We are ${conf}% confident that the true population proportion lies between ${(p - me).toFixed(4)} and ${(p + me).toFixed(4)}.`,
       formula: `CI = p \\pm Z \\sqrt{\\frac{p(1-p)}{n}}`
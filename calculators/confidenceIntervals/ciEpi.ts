@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from './utils';
+import { computeOR, computeRR, computeRD } from '../epidemiology/utils';
 
 export const ciEpi: CalculatorDefinition<{ 
   exposed_cases: number, 
@@ -35,41 +35,32 @@ export const ciEpi: CalculatorDefinition<{
       unexposed_control: d, 
       conf 
     } = data;
-    const zCrit = ciUtils.getZCritical(conf);
-    
-    // Woolf correction (standard 0.5 addition for stability)
-    const ac = a + 0.5, bc = b + 0.5, cc = c + 0.5, dc = d + 0.5;
-    
-    // OR
+    const table = { a, b, c, d };
+
+    // OR (Woolf); 0.5 is added to every cell only when a cell is zero, as in epi.2by2
     const orPoint = (a * d) / (b * c) || 0;
-    const seLogOr = Math.sqrt(1/ac + 1/bc + 1/cc + 1/dc);
-    const orLower = Math.exp(Math.log((ac * dc) / (bc * cc)) - zCrit * seLogOr);
-    const orUpper = Math.exp(Math.log((ac * dc) / (bc * cc)) + zCrit * seLogOr);
+    const { lower: orLower, upper: orUpper } = computeOR(table, conf);
 
-    // RR
+    // RR (Katz log method)
     const r1 = a / (a + b) || 0;
     const r2 = c / (c + d) || 0;
     const rrPoint = r2 === 0 ? Infinity : r1 / r2;
-    const seLogRr = Math.sqrt((1/ac - 1/(ac+bc)) + (1/cc - 1/(cc+dc)));
-    const rrLower = rrPoint === 0 ? 0 : Math.exp(Math.log(rrPoint) - zCrit * seLogRr);
-    const rrUpper = rrPoint === Infinity ? Infinity : Math.exp(Math.log(rrPoint) + zCrit * seLogRr);
+    const { lower: rrLower, upper: rrUpper } = computeRR(table, conf);
 
-    // RD
+    // RD (Wald)
     const rdPoint = r1 - r2;
-    const seRd = Math.sqrt((r1*(1-r1))/(a+b+0.5) + (r2*(1-r2))/(c+d+0.5));
-    const rdLower = rdPoint - zCrit * seRd;
-    const rdUpper = rdPoint + zCrit * seRd;
+    const { lower: rdLower, upper: rdUpper } = computeRD(table, conf);
 
     const rCode = `# Advanced Epi 2x2 Report\ntab <- matrix(c(${a}, ${c}, ${b}, ${d}), nrow = 2)\ncolnames(tab) <- c("Cases", "Control")\nrownames(tab) <- c("Exposed", "Unexposed")\nepi.2by2(tab, method = "cohort.count")`;
 
     return {
       results: [
-        { label: 'Odds Ratio (OR)', value: isFinite(orPoint) ? orPoint.toFixed(3) : '∞', isMain: true },
-        { label: 'OR Confidence Interval', value: ciUtils.formatCI(orLower, orUpper, 3) },
-        { label: 'Relative Risk (RR)', value: isFinite(rrPoint) ? rrPoint.toFixed(3) : '∞', isMain: true },
-        { label: 'RR Confidence Interval', value: ciUtils.formatCI(rrLower, rrUpper, 3) },
-        { label: 'Risk Difference (RD)', value: rdPoint.toFixed(4) },
-        { label: 'RD Confidence Interval', value: ciUtils.formatCI(rdLower, rdUpper, 4) }
+        { label: 'Odds Ratio (OR)', estimate: orPoint, precision: 3, isMain: true },
+        { label: 'OR Confidence Interval', estimate: orPoint, lower: orLower, upper: orUpper, confLevel: conf, method: 'Woolf', precision: 3 },
+        { label: 'Relative Risk (RR)', estimate: rrPoint, precision: 3, isMain: true },
+        { label: 'RR Confidence Interval', estimate: rrPoint, lower: rrLower, upper: rrUpper, confLevel: conf, method: 'Katz log', precision: 3 },
+        { label: 'Risk Difference (RD)', estimate: rdPoint, precision: 4 },
+        { label: 'RD Confidence Interval', estimate: rdPoint, lower: rdLower, upper: rdUpper, confLevel: conf, method: 'Wald', precision: 4 }
       ],
       interpretation: `The point estimates are OR=${orPoint.toFixed(2)} and RR=${rrPoint.toFixed(2)}. The ${conf}% confidence intervals describe the statistical precision of these findings.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from './utils';
+import * as dist from '../distributions';
 import { parseNumericInput, mean as calcMean, stdev as calcSD } from '../descriptive/utils';
 
 export const ciMean: CalculatorDefinition<{ 
@@ -50,13 +50,13 @@ export const ciMean: CalculatorDefinition<{
 
     const se = sd / Math.sqrt(n);
     const df = n - 1;
-    const tCrit = ciUtils.getTCritical(conf, df);
+    const tCrit = dist.getTCritical(conf, df);
     const lower = mean - tCrit * se;
     const upper = mean + tCrit * se;
     
     const h0 = mu0 ?? 0;
     const tStat = (mean - h0) / se;
-    const pVals = ciUtils.getTPValue(tStat, df);
+    const pVals = dist.getTPValue(tStat, df);
 
     const rCode = numbers 
       ? `# t-test from raw data\nx <- c(${numbers})\nt.test(x, mu = ${h0}, conf.level = ${conf/100})`
@@ -64,11 +64,11 @@ export const ciMean: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Sample Mean (x̄)', value: mean.toFixed(precision), isMain: true },
-        { label: `${conf}% Confidence Interval`, value: ciUtils.formatCI(lower, upper, precision), isMain: true },
-        { label: 'Standard Error (SE)', value: se.toFixed(precision) },
-        { label: 't-statistic', value: tStat.toFixed(precision) },
-        { label: 'p-value (Two-sided)', value: pVals.twoSided < 0.0001 ? "< 0.0001" : pVals.twoSided.toFixed(4), isMain: true, description: `H₀: μ = ${h0}` }
+        { label: 'Sample Mean (x̄)', estimate: mean, precision, isMain: true },
+        { label: `${conf}% Confidence Interval`, estimate: mean, lower, upper, confLevel: conf, method: 't interval', precision, isMain: true },
+        { label: 'Standard Error (SE)', estimate: se, precision },
+        { label: 't-statistic', estimate: tStat, pValue: pVals.twoSided, precision },
+        { label: 'p-value (Two-sided)', pValue: pVals.twoSided, method: 'One-sample t-test', isMain: true, description: `H₀: μ = ${h0}` }
       ],
       interpretation: `The population mean is estimated to fall within [${lower.toFixed(precision)}, ${upper.toFixed(precision)}]. The p-value (${pVals.twoSided.toFixed(4)}) indicates the difference from H₀=${h0} is ${pVals.twoSided < 0.05 ? 'statistically significant' : 'not statistically significant'} at α=0.05.`,
       rCode,
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import * as ciUtils from './utils';
+import { parseNumericInput } from '../descriptive/utils';
+import { hasTies, hodgesLehmann } from '../nonparametric/utils';
+
+// R's wilcox.test switches to the normal approximation from 50 values
+const EXACT_LIMIT = 50;
+
+interface PercentileInput {
+  numbers: string,
+  percentiles: string,
+  resamples: number,
+  seed: number,
+  conf: number,
+  precision: number
+}
+
+// Type 7 quantile (R's default) of an already sorted sample
+const sortedQuantile = (sorted: number[], p: number): number => {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (index - lower) * (sorted[upper] - sorted[lower]);
+};
+
+const percentileName = (p: number): string => {
+  if (p === 50) return 'Median';
+  const suffix = Number.isInteger(p) && ![11, 12, 13].includes(p % 100) ? ['th', 'st', 'nd', 'rd'][p % 10] || 'th' : 'th';
+  return `${p}${suffix} Percentile`;
+};
+
+export const ciPercentile: CalculatorDefinition<PercentileInput> = {
+  metadata: {
+    id: 'ci-percentile',
+    title: 'CI for Median & Percentiles',
+    category: Category.CONFIDENCE_INTERVALS,
+    description: 'Distribution-free confidence intervals for the median or any percentile of a dataset: exact binomial intervals from order statistics, bootstrap percentile and BCa intervals, and the Hodges-Lehmann pseudo-median with its signed-rank interval.',
+    keywords: ['median', 'percentile', 'quantile', 'quartile', 'order statistics', 'distribution-free', 'bootstrap', 'bca', 'hodges-lehmann', 'pseudo-median']
+  },
+  schema: z.object({
+    numbers: z.string().refine(s => parseNumericInput(s).length >= 2, "Enter at least 2 values").describe("Dataset"),
+    percentiles: z.string().default('50')
+      .refine(s => {
+        const p = parseNumericInput(s);
+        return p.length > 0 && p.every(v => v > 0 && v < 100);
+      }, "Enter one or more percentiles between 0 and 100 (exclusive)")
+      .describe("Percentiles (comma separated, e.g. 25, 50, 75)"),
+    resamples: z.number().int().min(100).max(10000).default(2000).describe("Bootstrap Resamples"),
+    seed: z.number().int().min(1).default(1).describe("Random Seed"),
+    conf: z.number().min(80).max(99.9).default(95),
+    precision: z.number().min(0).max(6).default(4)
+  }),
+  examples: [
+    {
+      numbers: '12.1, 14.3, 9.8, 22.6, 17.4, 11.0, 30.2, 15.5, 13.9, 19.7, 8.4, 16.8, 25.1, 12.7, 18.3, 10.5, 14.9, 21.4, 13.2, 27.8',
+      percentiles: '50',
+      resamples: 2000,
+      seed: 1,
+      conf: 95,
+      precision: 4
+    },
+    {
+      numbers: '112, 98, 131, 104, 125, 141, 96, 118, 109, 137, 122, 101, 115, 128, 93, 144, 107, 119, 133, 99, 126, 111, 139, 103, 121, 95, 130, 114, 148, 106, 117, 124, 100, 135, 110, 127, 97, 142, 113, 120',
+      percentiles: '25, 50, 75, 90',
+      resamples: 2000,
+      seed: 1,
+      conf: 95,
+      precision: 2
+    }
+  ],
+  references: [
+    {
+      author: "Hahn GJ, Meeker WQ",
+      year: 1991,
+      title: "Statistical Intervals: A Guide for Practitioners",
+      source: "John Wiley & Sons",
+      doi: "10.1002/9780470316771"
+    },
+    {
+      author: "Efron B",
+      year: 1987,
+      title: "Better bootstrap confidence intervals",
+      source: "Journal of the American Statistical Association 82(397):171-185",
+      doi: "10.1080/01621459.1987.10478410"
+    },
+    {
+      author: "Hodges JL, Lehmann EL",
+      year: 1963,
+      title: "Estimates of location based on rank tests",
+      source: "Annals of Mathematical Statistics 34(2):598-611",
+      doi: "10.1214/aoms/1177704172"
+    }
+  ],
+  compute: (data) => {
+    const { resamples, seed, conf, precision } = data;
+    const x = parseNumericInput(data.numbers);
+    const sorted = [...x].sort((a, b) => a - b);
+    const n = sorted.length;
+    const percentiles = [...new Set(parseNumericInput(data.percentiles))].sort((a, b) => a - b);
+    const alpha = 1 - conf / 100;
+    const zLow = dist.normalQuantile(alpha / 2);
+    const zHigh = dist.normalQuantile(1 - alpha / 2);
+
+    // Bootstrap replicates of every percentile from the same resamples
+    const rand = dist.seededRandom(seed);
+    const replicates = percentiles.map(() => new Array<number>(resamples));
+    for (let b = 0; b < resamples; b++) {
+      const sample = Array.from({ length: n }, () => x[Math.floor(rand() * n)]).sort((u, v) => u - v);
+      percentiles.forEach((p, j) => { replicates[j][b] = sortedQuantile(sample, p / 100); });
+    }
+
+    const results: CalculationResult[] = [{ label: 'Sample Size (n)', estimate: n }];
+    let truncated = false;
+    const summaries = percentiles.map((pct, j) => {
+      const p = pct / 100;
+      const name = percentileName(pct);
+      const estimate = sortedQuantile(sorted, p);
+
+      // Exact: the number of values below the true percentile is Binomial(n, p), so ranks l and u cover it with known probability
+      const l = dist.binomialQuantile(alpha / 2, n, p);
+      const u = dist.binomialQuantile(1 - alpha / 2, n, p) + 1;
+      const lower = l >= 1 ? sorted[l - 1] : -Infinity;
+      const upper = u <= n ? sorted[u - 1] : Infinity;
+      const coverage = (u <= n ? dist.binomialCDF(u - 1, n, p) : 1) - (l >= 1 ? dist.binomialCDF(l - 1, n, p) : 0);
+      if (l < 1 || u > n) truncated = true;
+
+      const boot = [...replicates[j]].sort((a, b) => a - b);
+
+      // BCa: bias correction from the share of replicates below the estimate, acceleration from the jackknife
+      const z0 = dist.normalQuantile(boot.filter(v => v < estimate).length / resamples);
+      const jackknife = sorted.map((_, i) => {
+        const at = (k: number) => sorted[k < i ? k : k + 1];
+        const index = (n - 2) * p;
+        const lo = Math.floor(index);
+        return at(lo) + (index - lo) * (at(Math.ceil(index)) - at(lo));
+      });
+      const jackMean = jackknife.reduce((s, v) => s + v, 0) / n;
+      const d2 = jackknife.reduce((s, v) => s + Math.pow(jackMean - v, 2), 0);
+      const d3 = jackknife.reduce((s, v) => s + Math.pow(jackMean - v, 3), 0);
+      const a = d2 > 0 ? d3 / (6 * Math.pow(d2, 1.5)) : 0;
+      const adjusted = (zq: number) => dist.normalCDF(z0 + (z0 + zq) / (1 - a * (z0 + zq)));
+      const bca = isFinite(z0) ? [sortedQuantile(boot, adjusted(zLow)), sortedQuantile(boot, adjusted(zHigh))] : null;
+
+      results.push(
+        { label: name, estimate, precision, isMain: true, method: 'Type 7 (linear interpolation)' },
+        { label: `${name}: Exact Order-Statistic CI`, estimate, lower, upper, confLevel: conf, method: 'Exact binomial', precision, isMain: true, description: `Order statistics ${l >= 1 ? l : '-'} and ${u <= n ? u : '-'} of ${n}; coverage ${(coverage * 100).toFixed(1)}%` },
+        { label: `${name}: Bootstrap Percentile CI`, estimate, lower: sortedQuantile(boot, alpha / 2), upper: sortedQuantile(boot, 1 - alpha / 2), confLevel: conf, method: 'Bootstrap percentile', precision, description: `${resamples} resamples, seed ${seed}` },
+        bca
+          ? { label: `${name}: Bootstrap BCa CI`, estimate, lower: bca[0], upper: bca[1], confLevel: conf, method: 'Bias-corrected and accelerated', precision, description: `z₀ = ${z0.toFixed(3)}, a = ${a.toFixed(4)}` }
+          : { label: `${name}: Bootstrap BCa CI`, text: 'Not available', description: 'No resample (or every resample) falls below the estimate, so the bias correction is undefined' }
+      );
+      return { name, estimate, lower, upper };
+    });
+
+    // Hodges-Lehmann pseudo-median, exact when wilcox.test would be
+    const exact = n < EXACT_LIMIT && !hasTies(x.map(Math.abs)) && !x.includes(0);
+    const hl = hodgesLehmann(x, conf, exact);
+    results.push({
+      label: 'Hodges-Lehmann Pseudo-median', estimate: hl.estimate, lower: hl.lower, upper: hl.upper, confLevel: conf, precision, isMain: true,
+      method: exact ? 'Exact signed-rank' : 'Normal approximation', description: 'Median of the Walsh averages (xᵢ + xⱼ)/2'
+    });
+
+    const probs = percentiles.map(p => p / 100).join(', ');
+    const rCode = `# Confidence intervals for percentiles
+x <- c(${x.join(', ')})
+p <- c(${probs})
+n <- length(x); xs <- sort(x)
+
+# Exact distribution-free CI from order statistics
+l <- qbinom(${alpha / 2}, n, p); u <- qbinom(${1 - alpha / 2}, n, p) + 1
+cbind(p, estimate = quantile(x, p), lower = ifelse(l >= 1, xs[pmax(l, 1)], -Inf), upper = ifelse(u <= n, xs[pmin(u, n)], Inf))
+
+# Bootstrap percentile and BCa intervals (install.packages("boot"))
+library(boot)
+set.seed(${seed})
+b <- boot(x, function(d, i) quantile(d[i], p), R = ${resamples})
+${percentiles.map((_, j) => `boot.ci(b, conf = ${conf / 100}, type = c("perc", "bca"), index = ${j + 1})`).join('\n')}
+
+# Hodges-Lehmann pseudo-median
+wilcox.test(x, conf.int = TRUE, conf.level = ${conf / 100})`;
+
+    const main = summaries.find(s => s.name === 'Median') || summaries[0];
+    return {
+      results,
+      interpretation: `The ${main.name.toLowerCase()} of the ${n} values is ${main.estimate.toFixed(precision)}, with exact distribution-free ${conf}% CI ${ciUtils.formatCI(main.lower, main.upper, precision)}. The Hodges-Lehmann pseudo-median is ${hl.estimate.toFixed(precision)} ${ciUtils.formatCI(hl.lower, hl.upper, precision)}.${truncated ? ` The sample is too small for an exact ${conf}% interval for some percentiles, so a limit beyond the sample range is reported as unbounded.` : ''}`,
+      rCode,
+      formula: `Exact: [x₍ₗ₎, x₍ᵤ₎], l = Q_Bin(α/2; n, p), u = Q_Bin(1 - α/2; n, p) + 1\nBCa: α₁,₂ = Φ(z₀ + (z₀ + z_α)/(1 - a(z₀ + z_α)))\nHodges-Lehmann: median{(xᵢ + xⱼ)/2 : i ≤ j}`
+    };
+  }
+};
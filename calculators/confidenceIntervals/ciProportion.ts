@@ -2,6 +2,7 @@
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
 import * as ciUtils from './utils';
+import * as dist from '../distributions';
 
 export const ciProportion: CalculatorDefinition<{ 
   successes: number, 
@@ -32,7 +33,7 @@ export const ciProportion: CalculatorDefinition<{
     const { successes: x, total_n: n, conf, precision } = data;
     const p = x / n;
     const alpha = 1 - conf / 100;
-    const zCrit = ciUtils.getZCritical(conf);
+    const zCrit = dist.getZCritical(conf);
     const z2 = zCrit * zCrit;
 
     // 1. Normal Approximation (Wald)
@@ -47,26 +48,23 @@ export const ciProportion: CalculatorDefinition<{
     const wilsonLow = (wilsonCenter - wilsonSpread) / wilsonDenom;
     const wilsonHigh = (wilsonCenter + wilsonSpread) / wilsonDenom;
 
-    // 3. Wilson Score with Continuity Correction (CC)
-    const wilsonCCLow = (2 * n * p + z2 - 1 - zCrit * Math.sqrt(z2 - (2 + 1/n) + 4 * p * (n * (1 - p) + 1))) / (2 * (n + z2));
-    const wilsonCCHigh = (2 * n * p + z2 + 1 + zCrit * Math.sqrt(z2 + (2 - 1/n) + 4 * p * (n * (1 - p) - 1))) / (2 * (n + z2));
+    // 3. Wilson Score with Continuity Correction (CC); bounds are pinned at 0 and 1 as in prop.test
+    const wilsonCCLow = x === 0 ? 0 : (2 * n * p + z2 - 1 - zCrit * Math.sqrt(z2 - (2 + 1/n) + 4 * p * (n * (1 - p) + 1))) / (2 * (n + z2));
+    const wilsonCCHigh = x === n ? 1 : (2 * n * p + z2 + 1 + zCrit * Math.sqrt(z2 + (2 - 1/n) + 4 * p * (n * (1 - p) - 1))) / (2 * (n + z2));
 
-    // 4. Clopper-Pearson (Exact)
-    let cpLow = 0;
-    if (x > 0) {
-      const v1L = 2 * (n - x + 1);
-      const v2L = 2 * x;
-      const fValL = ciUtils.getFCritical(1 - alpha / 2, v1L, v2L);
-      cpLow = x / (x + (n - x + 1) * fValL);
-    }
-    let cpHigh = 1;
-    if (x < n) {
-      const v1U = 2 * (x + 1);
-      const v2U = 2 * (n - x);
-      const fValU = ciUtils.getFCritical(1 - alpha / 2, v1U, v2U);
-      cpHigh = ((x + 1) * fValU) / ((n - x) + (x + 1) * fValU);
-    }
+    // 4. Clopper-Pearson (Exact), via the Beta quantiles used by binom.test
+    const cpLow = x > 0 ? dist.betaQuantile(alpha / 2, x, n - x + 1) : 0;
+    const cpHigh = x < n ? dist.betaQuantile(1 - alpha / 2, x + 1, n - x) : 1;
     
+    // Bounds are clamped to [0, 1]
+    const interval = (low: number, high: number) => ({
+      estimate: p,
+      lower: Math.max(0, low),
+      upper: Math.min(1, high),
+      confLevel: conf,
+      precision
+    });
+
     const rCode = `# Proportion Analysis
 x <- ${x}
 n <- ${n}
@@ -88,11 +86,11 @@ binom.test(x, n, conf.level=conf)$conf.int`;
 
     return {
       results: [
-        { label: 'Observed Proportion (p̂)', value: p.toFixed(precision), isMain: true },
-        { label: 'Wilson Score CI', value: ciUtils.formatPropCI(wilsonLow, wilsonHigh, precision), isMain: true, description: "Standard recommended interval" },
-        { label: 'Clopper-Pearson CI', value: ciUtils.formatPropCI(cpLow, cpHigh, precision), isMain: true, description: "Exact (Conservative) interval" },
-        { label: 'Wilson Score (with CC) CI', value: ciUtils.formatPropCI(wilsonCCLow, wilsonCCHigh, precision), description: "With continuity correction" },
-        { label: 'Normal (Wald) CI', value: ciUtils.formatPropCI(wLow, wHigh, precision), description: "Approximation (unreliable if n*p < 5)" }
+        { label: 'Observed Proportion (p̂)', estimate: p, precision, isMain: true },
+        { label: 'Wilson Score CI', ...interval(wilsonLow, wilsonHigh), method: 'Wilson score', isMain: true, description: "Standard recommended interval" },
+        { label: 'Clopper-Pearson CI', ...interval(cpLow, cpHigh), method: 'Clopper-Pearson', isMain: true, description: "Exact (Conservative) interval" },
+        { label: 'Wilson Score (with CC) CI', ...interval(wilsonCCLow, wilsonCCHigh), method: 'Wilson score with continuity correction', description: "With continuity correction" },
+        { label: 'Normal (Wald) CI', ...interval(wLow, wHigh), method: 'Wald', description: "Approximation (unreliable if n*p < 5)" }
       ],
       interpretation: `The point estimate is ${p.toFixed(precision)}. The Wilson Score interval is ${ciUtils.formatPropCI(wilsonLow, wilsonHigh, precision)}. For clinical exactness, the Clopper-Pearson interval is ${ciUtils.formatPropCI(cpLow, cpHigh, precision)}.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from './utils';
+import * as dist from '../distributions';
 
 export const ciRatePoisson: CalculatorDefinition<{ 
   k: number, 
@@ -31,10 +31,10 @@ export const ciRatePoisson: CalculatorDefinition<{
     const alpha = 1 - conf / 100;
     const rate = k / T;
 
-    const exactLower = k === 0 ? 0 : ciUtils.getChiSqCritical(alpha / 2, 2 * k) / (2 * T);
-    const exactUpper = ciUtils.getChiSqCritical(1 - alpha / 2, 2 * (k + 1)) / (2 * T);
+    const exactLower = k === 0 ? 0 : dist.chiSqQuantile(alpha / 2, 2 * k) / (2 * T);
+    const exactUpper = dist.chiSqQuantile(1 - alpha / 2, 2 * (k + 1)) / (2 * T);
 
-    const zCrit = ciUtils.getZCritical(conf);
+    const zCrit = dist.getZCritical(conf);
     const byarTerm = (zCrit / 3) * Math.sqrt(1 / (k + 0.5));
     const byarLower = ((k + 0.5) * Math.pow(1 - 1 / (9 * (k + 0.5)) - byarTerm, 3)) / T;
     const byarUpper = ((k + 0.5) * Math.pow(1 - 1 / (9 * (k + 0.5)) + byarTerm, 3)) / T;
@@ -45,11 +45,11 @@ export const ciRatePoisson: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Observed Rate', value: f(rate), isMain: true },
-        { label: 'Exact Poisson CI', value: ciUtils.formatCI(exactLower, exactUpper, precision), isMain: true },
-        { label: "Byar's Approximation CI", value: ciUtils.formatCI(byarLower, byarUpper, precision) },
-        { label: 'Events (k)', value: k },
-        { label: 'Person-Time (T)', value: T }
+        { label: 'Observed Rate', estimate: rate, units: 'per person-time', precision, isMain: true },
+        { label: 'Exact Poisson CI', estimate: rate, lower: exactLower, upper: exactUpper, confLevel: conf, units: 'per person-time', method: 'Exact Poisson', precision, isMain: true },
+        { label: "Byar's Approximation CI", estimate: rate, lower: byarLower, upper: byarUpper, confLevel: conf, units: 'per person-time', method: 'Byar', precision },
+        { label: 'Events (k)', estimate: k },
+        { label: 'Person-Time (T)', estimate: T }
       ],
       interpretation: `The observed rate is ${f(rate)} events per person-time unit.`,
       rCode,
@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../../types';
+import * as ciUtils from './utils';
+import * as dist from '../distributions';
+import { computeRR } from '../epidemiology/utils';
+
+// Tables above this size skip the exact unconditional interval, whose cost grows with n1 and n2
+const MAX_EXACT_TABLES = 40000;
+const NUISANCE_GRID = 200;
+
+/**
+ * Restricted MLE of p1 and p2 under p1 - p2 = delta (Miettinen & Nurminen 1985), from the
+ * closed-form root of the likelihood cubic given by Farrington & Manning (1990).
+ */
+const restrictedDifference = (x1: number, n1: number, x2: number, n2: number, delta: number) => {
+  const p1 = x1 / n1;
+  const p2 = x2 / n2;
+  const theta = n2 / n1;
+  const a = 1 + theta;
+  const b = -(1 + theta + p1 + theta * p2 + delta * (theta + 2));
+  const c = delta * delta + delta * (2 * p1 + theta + 1) + p1 + theta * p2;
+  const d = -p1 * delta * (1 + delta);
+  const v = Math.pow(b / (3 * a), 3) - (b * c) / (6 * a * a) + d / (2 * a);
+  const u = (v < 0 ? -1 : 1) * Math.sqrt(Math.max(0, (b * b) / (9 * a * a) - c / (3 * a)));
+  const w = (Math.PI + Math.acos(u === 0 ? 0 : Math.max(-1, Math.min(1, v / Math.pow(u, 3))))) / 3;
+  const r1 = Math.min(1, Math.max(0, 2 * u * Math.cos(w) - b / (3 * a)));
+  return { p1: r1, p2: Math.min(1, Math.max(0, r1 - delta)) };
+};
+
+// Miettinen-Nurminen score statistic for H0: p1 - p2 = delta, with the N / (N - 1) variance factor
+const scoreDifference = (x1: number, n1: number, x2: number, n2: number, delta: number): number => {
+  const diff = x1 / n1 - x2 / n2 - delta;
+  if (diff === 0) return 0;
+  const r = restrictedDifference(x1, n1, x2, n2, delta);
+  const n = n1 + n2;
+  const variance = ((r.p1 * (1 - r.p1)) / n1 + (r.p2 * (1 - r.p2)) / n2) * (n / (n - 1));
+  return variance > 0 ? diff / Math.sqrt(variance) : (diff > 0 ? Infinity : -Infinity);
+};
+
+/**
+ * Koopman (1984) score statistic for H0: p1 / p2 = phi, with the restricted MLE of p1 as the
+ * smaller root of the likelihood quadratic.
+ */
+const scoreRatio = (x1: number, n1: number, x2: number, n2: number, phi: number): number => {
+  const n = n1 + n2;
+  const s = phi * (n1 + x2) + x1 + n2;
+  const p1 = (s - Math.sqrt(Math.max(0, s * s - 4 * phi * n * (x1 + x2)))) / (2 * n);
+  if (p1 <= 0 || p1 >= 1) return x1 === n1 * p1 ? 0 : Infinity;
+  return (Math.pow(x1 - n1 * p1, 2) / (n1 * p1 * (1 - p1))) * (1 + (n1 * (phi - p1)) / (n2 * (1 - p1)));
+};
+
+/**
+ * Chan & Zhang (1999) exact unconditional interval: each limit inverts a one-sided test at α/2
+ * that orders tables by the score statistic and takes the supremum over the nuisance p2.
+ */
+const exactUnconditional = (x1: number, n1: number, x2: number, n2: number, alpha: number) => {
+  const logChoose = (n: number) => Array.from({ length: n + 1 }, (_, k) => dist.logGamma(n + 1) - dist.logGamma(k + 1) - dist.logGamma(n - k + 1));
+  const choose1 = logChoose(n1);
+  const choose2 = logChoose(n2);
+  const pmfs = (n: number, p: number, choose: number[]) => choose.map((c, k) =>
+    p <= 0 ? (k === 0 ? 1 : 0) : p >= 1 ? (k === n ? 1 : 0) : Math.exp(c + k * Math.log(p) + (n - k) * Math.log1p(-p)));
+
+  // Largest probability, over p2, of a table at least as extreme as the observed one in the given direction
+  const tail = (delta: number, upper: boolean): number => {
+    const observed = scoreDifference(x1, n1, x2, n2, delta);
+    const extreme = (y1: number, y2: number) => {
+      const t = scoreDifference(y1, n1, y2, n2, delta);
+      return upper ? t >= observed - 1e-10 : t <= observed + 1e-10;
+    };
+    // The score falls as y2 rises (Barnard's convexity), so for each y1 the extreme tables are the
+    // `count` smallest y2 in the upper tail, or the `count` largest in the lower tail; the boundary
+    // is found by binary search
+    const counts = Array.from({ length: n1 + 1 }, (_, y1) => {
+      let lo = 0;
+      let hi = n2 + 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (extreme(y1, upper ? mid : n2 - mid)) lo = mid + 1;
+        else hi = mid;
+      }
+      return lo;
+    });
+    const lo = Math.max(0, -delta);
+    const hi = Math.min(1, 1 - delta);
+    const probability = (p2: number) => {
+      const b1 = pmfs(n1, p2 + delta, choose1);
+      const b2 = pmfs(n2, p2, choose2);
+      // cumulative[k]: probability of the k smallest (upper) or k largest (lower) values of y2
+      const cumulative = [0];
+      for (let k = 1; k <= n2 + 1; k++) cumulative[k] = cumulative[k - 1] + b2[upper ? k - 1 : n2 + 1 - k];
+      return counts.reduce((s, count, y1) => s + b1[y1] * cumulative[count], 0);
+    };
+    // Coarse grid over the nuisance range, refined around its best point
+    const step = (hi - lo) / NUISANCE_GRID;
+    let best = lo;
+    let max = -1;
+    for (let i = 0; i <= NUISANCE_GRID; i++) {
+      const p = probability(lo + i * step);
+      if (p > max) { max = p; best = lo + i * step; }
+    }
+    for (let i = -10; i <= 10; i++) {
+      const p2 = best + (i * step) / 10;
+      if (p2 >= lo && p2 <= hi) max = Math.max(max, probability(p2));
+    }
+    return max;
+  };
+
+  const d = x1 / n1 - x2 / n2;
+  const lower = d <= -1 ? -1 : dist.bisect(delta => tail(delta, true), alpha / 2, -1 + 1e-9, d, true, 1e-10);
+  const upper = d >= 1 ? 1 : dist.bisect(delta => tail(delta, false), alpha / 2, d, 1 - 1e-9, false, 1e-10);
+  return { lower, upper };
+};
+
+export const ciTwoProportions: CalculatorDefinition<{
+  x1: number,
+  n1: number,
+  x2: number,
+  n2: number,
+  conf: number,
+  precision: number
+}> = {
+  metadata: {
+    id: 'ci-two-proportions',
+    title: 'CI for Two Proportions (Difference & Ratio)',
+    category: Category.CONFIDENCE_INTERVALS,
+    description: 'Newcombe hybrid score, Agresti-Caffo, Miettinen-Nurminen and exact unconditional intervals for the difference of two independent proportions, with Koopman score and Katz log intervals for their ratio.',
+    keywords: ['two proportions', 'risk difference', 'risk ratio', 'newcombe', 'agresti-caffo', 'miettinen-nurminen', 'chan-zhang', 'exact unconditional', 'koopman', 'katz']
+  },
+  schema: z.object({
+    x1: z.number().int().min(0, "Successes cannot be negative").describe("Successes (Group 1)"),
+    n1: z.number().int().min(1, "Sample size must be at least 1").describe("Sample Size (Group 1)"),
+    x2: z.number().int().min(0, "Successes cannot be negative").describe("Successes (Group 2)"),
+    n2: z.number().int().min(1, "Sample size must be at least 1").describe("Sample Size (Group 2)"),
+    conf: z.number().min(80).max(99.9).default(95),
+    precision: z.number().min(0).max(6).default(4)
+  }).refine(data => data.x1 <= data.n1 && data.x2 <= data.n2, {
+    message: "Successes cannot exceed the sample size of their group"
+  }),
+  examples: [
+    { x1: 56, n1: 70, x2: 48, n2: 80, conf: 95, precision: 4 },
+    { x1: 9, n1: 10, x2: 3, n2: 10, conf: 95, precision: 4 }
+  ],
+  references: [
+    {
+      author: "Newcombe RG",
+      year: 1998,
+      title: "Interval estimation for the difference between independent proportions: comparison of eleven methods",
+      source: "Statistics in Medicine 17(8):873-890",
+      doi: "10.1002/(SICI)1097-0258(19980430)17:8<873::AID-SIM779>3.0.CO;2-I"
+    },
+    {
+      author: "Agresti A, Caffo B",
+      year: 2000,
+      title: "Simple and effective confidence intervals for proportions and differences of proportions result from adding two successes and two failures",
+      source: "The American Statistician 54(4):280-288",
+      doi: "10.1080/00031305.2000.10474560"
+    },
+    {
+      author: "Miettinen O, Nurminen M",
+      year: 1985,
+      title: "Comparative analysis of two rates",
+      source: "Statistics in Medicine 4(2):213-226",
+      doi: "10.1002/sim.4780040211"
+    },
+    {
+      author: "Chan ISF, Zhang Z",
+      year: 1999,
+      title: "Test-based exact confidence intervals for the difference of two binomial proportions",
+      source: "Biometrics 55(4):1202-1209",
+      doi: "10.1111/j.0006-341X.1999.01202.x"
+    },
+    {
+      author: "Koopman PAR",
+      year: 1984,
+      title: "Confidence intervals for the ratio of two binomial proportions",
+      source: "Biometrics 40(2):513-517",
+      doi: "10.2307/2531405"
+    }
+  ],
+  compute: (data) => {
+    const { x1, n1, x2, n2, conf, precision } = data;
+    const p1 = x1 / n1;
+    const p2 = x2 / n2;
+    const d = p1 - p2;
+    const alpha = 1 - conf / 100;
+    const zCrit = dist.getZCritical(conf);
+    const chi2Crit = zCrit * zCrit;
+
+    // 1. Newcombe hybrid score (method 10): Wilson limits of each proportion combined
+    const w1 = ciUtils.wilsonInterval(x1, n1, conf);
+    const w2 = ciUtils.wilsonInterval(x2, n2, conf);
+    const newcombeLow = d - Math.sqrt(Math.pow(p1 - w1.lower, 2) + Math.pow(w2.upper - p2, 2));
+    const newcombeHigh = d + Math.sqrt(Math.pow(w1.upper - p1, 2) + Math.pow(p2 - w2.lower, 2));
+
+    // 2. Agresti-Caffo: Wald after adding one success and one failure to each group
+    const a1 = (x1 + 1) / (n1 + 2);
+    const a2 = (x2 + 1) / (n2 + 2);
+    const seAC = Math.sqrt((a1 * (1 - a1)) / (n1 + 2) + (a2 * (1 - a2)) / (n2 + 2));
+    const acLow = a1 - a2 - zCrit * seAC;
+    const acHigh = a1 - a2 + zCrit * seAC;
+
+    // 3. Miettinen-Nurminen: differences whose score statistic stays within the critical value
+    const mnScore = (delta: number) => scoreDifference(x1, n1, x2, n2, delta);
+    const mnLow = d <= -1 ? -1 : dist.bisect(mnScore, zCrit, -1 + 1e-12, d, false, 1e-10);
+    const mnHigh = d >= 1 ? 1 : dist.bisect(mnScore, -zCrit, d, 1 - 1e-12, false, 1e-10);
+
+    // 4. Exact unconditional (Chan-Zhang), for tables small enough to enumerate
+    const exactFeasible = (n1 + 1) * (n2 + 1) <= MAX_EXACT_TABLES;
+    const exact = exactFeasible ? exactUnconditional(x1, n1, x2, n2, alpha) : null;
+
+    // Ratio p1 / p2: Koopman score limits, solved on the log scale
+    const rr = p2 === 0 ? (p1 === 0 ? NaN : Infinity) : p1 / p2;
+    const koopman = (logPhi: number) => scoreRatio(x1, n1, x2, n2, Math.exp(logPhi));
+    const logRR = Math.log(rr);
+    const koopmanLow = x1 === 0 ? 0 : Math.exp(dist.bisect(koopman, chi2Crit, -30, isFinite(logRR) ? logRR : 30, false, 1e-10));
+    const koopmanHigh = x2 === 0 ? Infinity : Math.exp(dist.bisect(koopman, chi2Crit, x1 === 0 ? -30 : logRR, 30, true, 1e-10));
+
+    // Katz log, with 0.5 added to every cell when one is zero (as in epi.2by2)
+    const katz = computeRR({ a: x1, b: n1 - x1, c: x2, d: n2 - x2 }, conf);
+
+    const interval = (low: number, high: number) => ({
+      estimate: d,
+      lower: Math.max(-1, low),
+      upper: Math.min(1, high),
+      confLevel: conf,
+      precision
+    });
+    const ratioInterval = (low: number, high: number) => ({ estimate: rr, lower: low, upper: high, confLevel: conf, precision });
+
+    const rCode = `# Two Independent Proportions
+x <- c(${x1}, ${x2})
+n <- c(${n1}, ${n2})
+conf <- ${conf / 100}
+
+# Risk difference (install.packages(c("DescTools", "exact2x2", "PropCIs")))
+library(DescTools)
+BinomDiffCI(x[1], n[1], x[2], n[2], conf.level = conf, method = c("score", "ac", "mn"))  # Newcombe, Agresti-Caffo, Miettinen-Nurminen
+exact2x2::uncondExact2x2(x[1], n[1], x[2], n[2], parmtype = "difference", method = "score", conf.int = TRUE, conf.level = conf)
+
+# Risk ratio
+PropCIs::riskscoreci(x[1], n[1], x[2], n[2], conf.level = conf)   # Koopman score
+BinomRatioCI(x[1], n[1], x[2], n[2], conf.level = conf, method = "katz.log")`;
+
+    return {
+      results: [
+        { label: 'Risk Difference (p₁ - p₂)', estimate: d, precision, isMain: true, description: `p₁ = ${p1.toFixed(precision)}, p₂ = ${p2.toFixed(precision)}` },
+        { label: 'Newcombe Hybrid Score CI', ...interval(newcombeLow, newcombeHigh), method: 'Newcombe (method 10)', isMain: true, description: "Recommended general-purpose interval" },
+        { label: 'Miettinen-Nurminen CI', ...interval(mnLow, mnHigh), method: 'Miettinen-Nurminen score', isMain: true, description: "Inverts the score test for the difference" },
+        { label: 'Agresti-Caffo CI', ...interval(acLow, acHigh), method: 'Agresti-Caffo', description: "Wald interval after adding one success and one failure per group" },
+        exact
+          ? { label: 'Exact Unconditional CI', ...interval(exact.lower, exact.upper), method: 'Chan-Zhang', description: "Exact (Conservative) interval" }
+          : { label: 'Exact Unconditional CI', text: 'Not computed', description: `Omitted when (n₁ + 1)(n₂ + 1) exceeds ${MAX_EXACT_TABLES.toLocaleString()}; the score intervals are accurate at this size` },
+        { label: 'Risk Ratio (p₁ / p₂)', estimate: rr, precision, isMain: true },
+        { label: 'Koopman Score CI', ...ratioInterval(koopmanLow, koopmanHigh), method: 'Koopman score', isMain: true, description: "Inverts the score test for the ratio" },
+        { label: 'Katz Log CI', ...ratioInterval(katz.lower, katz.upper), method: 'Katz log', description: "Approximation (0.5 added to each cell when one is zero)" }
+      ],
+      interpretation: `The difference in proportions is ${d.toFixed(precision)}. The Newcombe hybrid score interval is ${ciUtils.formatCI(Math.max(-1, newcombeLow), Math.min(1, newcombeHigh), precision)} and the Miettinen-Nurminen interval is ${ciUtils.formatCI(Math.max(-1, mnLow), Math.min(1, mnHigh), precision)}. ${isNaN(rr) ? 'The ratio of proportions is undefined because neither group has any successes.' : `The ratio of proportions is ${isFinite(rr) ? rr.toFixed(precision) : '∞'}, with Koopman score interval ${ciUtils.formatCI(koopmanLow, koopmanHigh, precision)}.`}`,
+      rCode,
+      formula: `Newcombe: d ∓ √[(p₁ - l₁)² + (u₂ - p₂)²], d ± √[(u₁ - p₁)² + (p₂ - l₂)²]\nAgresti-Caffo: p̃ᵢ = (xᵢ + 1)/(nᵢ + 2);  d̃ ± z√(Σ p̃ᵢ(1 - p̃ᵢ)/(nᵢ + 2))\nMiettinen-Nurminen: {δ : |d - δ| / √(Σ p̃ᵢ(1 - p̃ᵢ)/nᵢ · N/(N - 1)) ≤ z}`
+    };
+  }
+};
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from './utils';
+import * as dist from '../distributions';
 
 export const ciVariance: CalculatorDefinition<{ 
   sd: number, 
@@ -31,8 +31,8 @@ export const ciVariance: CalculatorDefinition<{
     const alpha = 1 - conf / 100;
     const s2 = sd * sd;
     
-    const chiLower = ciUtils.getChiSqCritical(1 - alpha / 2, df);
-    const chiUpper = ciUtils.getChiSqCritical(alpha / 2, df);
+    const chiLower = dist.chiSqQuantile(alpha / 2, df);
+    const chiUpper = dist.chiSqQuantile(1 - alpha / 2, df);
 
     const varLower = (df * s2) / chiUpper;
     const varUpper = (df * s2) / chiLower;
@@ -46,12 +46,12 @@ export const ciVariance: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Sample Variance (s²)', value: f(s2), isMain: true },
-        { label: 'Degrees of Freedom (df)', value: df },
-        { label: 'χ² Critical (Lower)', value: f(chiLower) },
-        { label: 'χ² Critical (Upper)', value: f(chiUpper) },
-        { label: 'CI for Variance', value: ciUtils.formatCI(varLower, varUpper, precision), isMain: true },
-        { label: 'CI for Std. Deviation', value: ciUtils.formatCI(sdLower, sdUpper, precision), isMain: true }
+        { label: 'Sample Variance (s²)', estimate: s2, precision, isMain: true },
+        { label: 'Degrees of Freedom (df)', estimate: df },
+        { label: 'χ² Critical (Lower)', estimate: chiLower, precision },
+        { label: 'χ² Critical (Upper)', estimate: chiUpper, precision },
+        { label: 'CI for Variance', estimate: s2, lower: varLower, upper: varUpper, confLevel: conf, method: 'Chi-square', precision, isMain: true },
+        { label: 'CI for Std. Deviation', estimate: sd, lower: sdLower, upper: sdUpper, confLevel: conf, method: 'Chi-square', precision, isMain: true }
       ],
       interpretation: `We are ${conf}% confident that the true population SD lies between ${f(sdLower)} and ${f(sdUpper)}.`,
       rCode,
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../types';
+import * as dist from './distributions';
+
+// Tables visited before the exact test gives up; FEXACT-sized problems are out of reach
+const EXACT_TABLE_LIMIT = 2e6;
+
+/**
+ * Fisher-Freeman-Halton exact p-value: total probability, under fixed margins, of the tables
+ * no more probable than the observed one (R's fisher.test criterion, relative tolerance 1e-7).
+ * Returns null when enumeration would visit more than EXACT_TABLE_LIMIT tables.
+ */
+const fisherFreemanHalton = (table: number[][]): number | null => {
+  const rows = table.length;
+  const cols = table[0].length;
+  const rowSums = table.map(r => r.reduce((s, v) => s + v, 0));
+  const colSums = table[0].map((_, j) => table.reduce((s, r) => s + r[j], 0));
+  const n = rowSums.reduce((s, v) => s + v, 0);
+
+  const logFact = [0];
+  for (let i = 1; i <= n; i++) logFact[i] = logFact[i - 1] + Math.log(i);
+
+  const logConst = rowSums.reduce((s, v) => s + logFact[v], 0) + colSums.reduce((s, v) => s + logFact[v], 0) - logFact[n];
+  const logObserved = table.reduce((s, r) => s - r.reduce((t, v) => t + logFact[v], 0), logConst);
+  const threshold = logObserved + Math.log1p(1e-7);
+
+  const rowLeft = [...rowSums];
+  let total = 0;
+  let visited = 0;
+
+  // Columns are filled left to right, cells top to bottom; the last row and column are implied
+  const fillColumn = (j: number, acc: number) => {
+    if (visited > EXACT_TABLE_LIMIT) return;
+    if (j === cols - 1) {
+      visited++;
+      const logP = rowLeft.reduce((s, v) => s - logFact[v], acc);
+      if (logP <= threshold) total += Math.exp(logP);
+      return;
+    }
+    fillCell(j, 0, colSums[j], acc);
+  };
+
+  const fillCell = (j: number, i: number, colLeft: number, acc: number) => {
+    if (i === rows - 1) {
+      if (colLeft > rowLeft[i]) return;
+      rowLeft[i] -= colLeft;
+      fillColumn(j + 1, acc - logFact[colLeft]);
+      rowLeft[i] += colLeft;
+      return;
+    }
+    let capacityBelow = 0;
+    for (let k = i + 1; k < rows; k++) capacityBelow += rowLeft[k];
+    const hi = Math.min(rowLeft[i], colLeft);
+    // Stop as soon as the limit is passed, rather than walking the rest of the cell tree
+    for (let x = Math.max(0, colLeft - capacityBelow); x <= hi && visited <= EXACT_TABLE_LIMIT; x++) {
+      rowLeft[i] -= x;
+      fillCell(j, i + 1, colLeft - x, acc - logFact[x]);
+      rowLeft[i] += x;
+    }
+  };
+
+  fillColumn(0, logConst);
+  return visited > EXACT_TABLE_LIMIT ? null : Math.min(1, total);
+};
+
+export const contingencyTable: CalculatorDefinition<{ table: number[][], ordered: boolean }> = {
+  metadata: {
+    id: 'contingency-table',
+    title: 'R×C Contingency Table',
+    category: Category.HYPOTHESIS_TESTS,
+    description: "Test independence in any R×C table with Pearson and likelihood-ratio chi-square, residuals, Cramér's V, the Fisher-Freeman-Halton exact test and the Cochran-Armitage trend test.",
+    keywords: ['contingency', 'r x c', 'chi-square', 'likelihood ratio', 'cramer', 'fisher-freeman-halton', 'trend', 'cochran-armitage', 'ordinal']
+  },
+  schema: z.object({
+    table: z.array(z.array(z.number().int("Counts must be whole numbers").min(0, "Counts cannot be negative")))
+      .min(2, "Enter at least 2 rows")
+      .refine(t => t.every(r => r.length === t[0].length), "Every row needs the same number of columns")
+      .refine(t => (t[0] || []).length >= 2, "Enter at least 2 columns")
+      .refine(t => t.every(r => r.some(v => v > 0)) && (t[0] || []).every((_, j) => t.some(r => r[j] > 0)), "Every row and column needs at least one count")
+      .describe("Observed Counts (rows × columns)"),
+    ordered: z.boolean().default(false).describe("Rows are ordered (Cochran-Armitage trend test)")
+  }),
+  examples: [
+    { table: [[83, 3], [90, 3], [129, 7], [70, 12]], ordered: true },
+    { table: [[20, 15, 10], [12, 18, 25], [5, 9, 16]], ordered: false }
+  ],
+  references: [
+    {
+      author: "Agresti A",
+      year: 2002,
+      title: "Categorical Data Analysis",
+      source: "John Wiley & Sons, 2nd Edition",
+      doi: "10.1002/0471249688"
+    },
+    {
+      author: "Freeman GH, Halton JH",
+      year: 1951,
+      title: "Note on an exact treatment of contingency, goodness of fit and other problems of significance",
+      source: "Biometrika 38(1-2):141-149",
+      doi: "10.1093/biomet/38.1-2.141"
+    },
+    {
+      author: "Armitage P",
+      year: 1955,
+      title: "Tests for linear trends in proportions and frequencies",
+      source: "Biometrics 11(3):375-386",
+      doi: "10.2307/3001775"
+    }
+  ],
+  compute: (data) => {
+    const { table, ordered } = data;
+    const rows = table.length;
+    const cols = table[0].length;
+    const rowSums = table.map(r => r.reduce((s, v) => s + v, 0));
+    const colSums = table[0].map((_, j) => table.reduce((s, r) => s + r[j], 0));
+    const n = rowSums.reduce((s, v) => s + v, 0);
+    const df = (rows - 1) * (cols - 1);
+
+    const expected = table.map((r, i) => r.map((_, j) => (rowSums[i] * colSums[j]) / n));
+    // Adjusted (standardized) residuals, as chisq.test()$stdres
+    const stdres = table.map((r, i) => r.map((o, j) => {
+      const e = expected[i][j];
+      return (o - e) / Math.sqrt(e * (1 - rowSums[i] / n) * (1 - colSums[j] / n));
+    }));
+
+    let pearson = 0;
+    let lr = 0;
+    table.forEach((r, i) => r.forEach((o, j) => {
+      const e = expected[i][j];
+      pearson += Math.pow(o - e, 2) / e;
+      if (o > 0) lr += 2 * o * Math.log(o / e);
+    }));
+    const pPearson = dist.getChiSqPValue(pearson, df);
+    const pLR = dist.getChiSqPValue(lr, df);
+    const cramersV = Math.sqrt(pearson / (n * (Math.min(rows, cols) - 1)));
+
+    const exactP = fisherFreemanHalton(table);
+
+    const flatExpected = expected.flat();
+    const smallCells = flatExpected.filter(e => e < 5).length;
+    const sparse = smallCells / flatExpected.length > 0.2 || flatExpected.some(e => e < 1);
+
+    const results: CalculationResult[] = [
+      { label: 'Pearson Chi-Square', estimate: pearson, pValue: pPearson, precision: 4, isMain: true },
+      { label: 'Pearson p-value', pValue: pPearson, method: "Pearson's chi-squared test", isMain: true },
+      { label: 'Likelihood-Ratio Chi-Square (G²)', estimate: lr, pValue: pLR, precision: 4 },
+      { label: 'Likelihood-Ratio p-value', pValue: pLR, method: 'Likelihood-ratio (G) test' },
+      { label: 'Degrees of Freedom', estimate: df },
+      { label: "Cramér's V", estimate: cramersV, precision: 4, isMain: true },
+      exactP === null
+        ? { label: 'Fisher-Freeman-Halton p-value', text: 'Not computed: table too large for exact enumeration' }
+        : { label: 'Fisher-Freeman-Halton p-value', pValue: exactP, method: 'Fisher-Freeman-Halton exact test', isMain: sparse },
+      { label: 'Cells with Expected < 5', estimate: smallCells, description: `of ${flatExpected.length} cells` }
+    ];
+
+    // Cochran-Armitage trend in the first-column proportion across ordered rows (scores 1..R), as prop.trend.test
+    let trendText = '';
+    if (ordered && cols === 2) {
+      const scores = table.map((_, i) => i + 1);
+      const pBar = colSums[0] / n;
+      const sBar = scores.reduce((s, v, i) => s + v * rowSums[i], 0) / n;
+      const numerator = table.reduce((s, r, i) => s + r[0] * (scores[i] - sBar), 0);
+      const ssScores = scores.reduce((s, v, i) => s + rowSums[i] * Math.pow(v - sBar, 2), 0);
+      const trend = (numerator * numerator) / (pBar * (1 - pBar) * ssScores);
+      const pTrend = dist.getChiSqPValue(trend, 1);
+      results.push(
+        { label: 'Trend Chi-Square', estimate: trend, pValue: pTrend, method: 'Cochran-Armitage test, df = 1', precision: 4, isMain: true },
+        { label: 'Trend p-value', pValue: pTrend, method: 'Cochran-Armitage test for trend' }
+      );
+      trendText = ` The Cochran-Armitage test ${pTrend < 0.05 ? 'finds' : 'does not find'} a linear trend across the ordered rows (p = ${pTrend.toFixed(4)}).`;
+    } else if (ordered) {
+      results.push({ label: 'Trend Test', text: 'Needs a binary outcome (2 columns)' });
+    }
+    if (sparse) {
+      results.push({ label: 'Warning', text: 'Over 20% of expected counts below 5; use the Fisher-Freeman-Halton exact p-value' });
+    }
+
+    // One row per cell: adjusted residual with observed and expected counts
+    table.forEach((r, i) => r.forEach((o, j) => {
+      results.push({ label: `Cell (${i + 1}, ${j + 1}) Residual`, estimate: stdres[i][j], precision: 3, description: `Observed ${o}, expected ${expected[i][j].toFixed(2)}` });
+    }));
+
+    const rowLabels = table.map((_, i) => `Row ${i + 1}`);
+    const columnLabels = table[0].map((_, j) => `Col ${j + 1}`);
+    const matrix = `matrix(c(${table.map(r => r.join(', ')).join(',\n              ')}),\n       nrow = ${rows}, byrow = TRUE)`;
+    const rCode = `# R×C Contingency Table
+tab <- ${matrix}
+
+test <- chisq.test(tab, correct = FALSE)
+test
+test$expected
+test$stdres
+
+# Likelihood-ratio (G) test
+G2 <- 2 * sum(tab[tab > 0] * log(tab[tab > 0] / test$expected[tab > 0]))
+pchisq(G2, df = ${df}, lower.tail = FALSE)
+
+# Cramér's V
+sqrt(test$statistic / (sum(tab) * (min(dim(tab)) - 1)))
+
+# Fisher-Freeman-Halton exact test
+fisher.test(tab, workspace = 2e8)${ordered && cols === 2 ? `
+
+# Cochran-Armitage trend test across the ordered rows
+prop.trend.test(tab[, 1], rowSums(tab))` : ''}`;
+
+    const strongest = stdres.flat().reduce((best, v, k) => (Math.abs(v) > Math.abs(best.v) ? { v, k } : best), { v: 0, k: 0 });
+    const cell = `row ${Math.floor(strongest.k / cols) + 1}, column ${(strongest.k % cols) + 1}`;
+
+    return {
+      results,
+      interpretation: `${pPearson < 0.05 ? 'Rows and columns are associated' : 'No association between rows and columns was found'} (χ² = ${pearson.toFixed(3)}, df = ${df}, p = ${pPearson.toFixed(4)}; Cramér's V = ${cramersV.toFixed(3)}). The largest adjusted residual is ${strongest.v.toFixed(2)} in ${cell}${Math.abs(strongest.v) > 1.96 ? ', contributing most to the association' : ''}.${trendText}`,
+      rCode,
+      formula: `χ² = Σ (O - E)² / E;  G² = 2 Σ O·ln(O / E);  V = √(χ² / (n·(min(R, C) - 1)))`,
+      heatmap: {
+        title: 'Adjusted Residuals',
+        rowLabels,
+        columnLabels,
+        values: stdres,
+        cellText: table.map((r, i) => r.map((o, j) => `${o} (${expected[i][j].toFixed(1)})`))
+      }
+    };
+  }
+};
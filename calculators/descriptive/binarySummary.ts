@@ -32,12 +32,12 @@ export const binarySummary: CalculatorDefinition<{ text: string, successValue: s
 
     return {
       results: [
-        { label: 'Total N', value: n },
-        { label: `Success Count (${data.successValue})`, value: successCount, isMain: true },
-        { label: 'Failure Count', value: failureCount },
-        { label: 'Proportion (p̂)', value: p.toFixed(4), isMain: true },
-        { label: 'Percentage', value: (p * 100).toFixed(2) + '%' },
-        { label: 'Odds', value: odds === Infinity ? '∞' : odds.toFixed(4) }
+        { label: 'Total N', estimate: n },
+        { label: `Success Count (${data.successValue})`, estimate: successCount, isMain: true },
+        { label: 'Failure Count', estimate: failureCount },
+        { label: 'Proportion (p̂)', estimate: p, precision: 4, isMain: true },
+        { label: 'Percentage', estimate: p, format: 'percent' },
+        { label: 'Odds', estimate: odds, precision: 4 }
       ],
       interpretation: `Out of ${n} observations, ${successCount} were "${data.successValue}" (${(p * 100).toFixed(1)}%).`,
       rCode,
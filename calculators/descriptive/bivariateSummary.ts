@@ -68,12 +68,12 @@ abline(model, col="red")`;
 
     return {
       results: [
-        { label: 'Pairs (n)', value: n },
-        { label: 'Pearson Correlation (r)', value: f(r), isMain: true },
-        { label: 'Coeff. of Determination (r²)', value: f(r2) },
-        { label: 'Covariance', value: f(covariance) },
-        { label: 'Mean X', value: f(mx) },
-        { label: 'Mean Y', value: f(my) }
+        { label: 'Pairs (n)', estimate: n },
+        { label: 'Pearson Correlation (r)', estimate: r, precision: data.precision, method: 'Pearson', isMain: true },
+        { label: 'Coeff. of Determination (r²)', estimate: r2, precision: data.precision },
+        { label: 'Covariance', estimate: covariance, precision: data.precision },
+        { label: 'Mean X', estimate: mx, precision: data.precision },
+        { label: 'Mean Y', estimate: my, precision: data.precision }
       ],
       interpretation: `The correlation coefficient r = ${f(r)} suggests a ${Math.abs(r) > 0.7 ? 'strong' : 'moderate'} ${r > 0 ? 'positive' : 'negative'} linear relationship.`,
       rCode,
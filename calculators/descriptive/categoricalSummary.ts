@@ -33,16 +33,19 @@ export const categoricalSummary: CalculatorDefinition<{ text: string, ignoreCase
       .sort((a, b) => b[1] - a[1])
       .map(([val, count]) => ({
         label: `Category: ${val}`,
-        value: `${count} (${((count/n)*100).toFixed(1)}%)`
+        estimate: count / n,
+        format: 'percent' as const,
+        precision: 1,
+        description: `${count} of ${n}`
       }));
 
     const rCode = `# Categorical Analysis\nx <- c(${items.map(i => `"${i}"`).join(', ')})\n\n# Frequency Table\ntab <- table(x)\nprint(tab)\n\n# Proportions\nprop.table(tab)\n\n# Visualization\nbarplot(tab, col="lightblue", main="Frequency of Categories")`;
 
     return {
       results: [
-        { label: 'Total Count (n)', value: n },
-        { label: 'Unique Categories', value: unique, isMain: true },
-        { label: 'Mode(s)', value: modes.join(', ') || 'None', isMain: true },
+        { label: 'Total Count (n)', estimate: n },
+        { label: 'Unique Categories', estimate: unique, isMain: true },
+        { label: 'Mode(s)', text: modes.join(', ') || 'None', isMain: true },
         ...freqResults
       ],
       interpretation: `There are ${unique} unique categories. The most frequent is "${modes[0]}" occurring ${counts.get(modes[0])} times.`,
@@ -47,26 +47,27 @@ export const numericSummary: CalculatorDefinition<{ numbers: string, precision:
     const trimmedArr = sorted.slice(trimCount, n - trimCount);
     const tMean = utils.mean(trimmedArr);
 
-    const f = (num: number) => num.toFixed(data.precision);
+    const precision = data.precision;
+    const f = (num: number) => num.toFixed(precision);
 
-    const rCode = `# Create numeric vector\nx <- c(${sorted.join(', ')})\n\n# Basic Summary\nsummary(x)\nsd(x)\n\n# Advanced moments (Requires 'e1071')\n# install.packages("e1071")\nlibrary(e1071)\nskewness(x)\nkurtosis(x)\n\n# Trimmed Mean\nmean(x, trim = ${data.trim/100})\n\n# Visualization\npar(mfrow=c(1,2))\nhist(x, col="lightgreen", main="Histogram")\nboxplot(x, col="tomato", main="Boxplot")`;
+    const rCode = `# Create numeric vector\nx <- c(${sorted.join(', ')})\n\n# Basic Summary\nsummary(x)\nsd(x)\n\n# Advanced moments (Requires 'e1071')\n# install.packages("e1071")\nlibrary(e1071)\nskewness(x, type = 2)\nkurtosis(x, type = 2)\n\n# Trimmed Mean\nmean(x, trim = ${data.trim/100})\n\n# Visualization\npar(mfrow=c(1,2))\nhist(x, col="lightgreen", main="Histogram")\nboxplot(x, col="tomato", main="Boxplot")`;
 
     return {
       results: [
-        { label: 'Sample Size (n)', value: n },
-        { label: 'Mean', value: f(m), isMain: true },
-        { label: 'Median', value: f(med), isMain: true },
-        { label: 'Trimmed Mean ('+data.trim+'%)', value: f(tMean) },
-        { label: 'Std. Deviation (s)', value: f(s), isMain: true },
-        { label: 'Variance (s²)', value: f(v) },
-        { label: 'Coeff. Variation (CV)', value: ((s/m)*100).toFixed(2) + '%' },
-        { label: 'Min', value: sorted[0] },
-        { label: 'Max', value: sorted[n-1] },
-        { label: 'Q1 (25th)', value: f(q1) },
-        { label: 'Q3 (75th)', value: f(q3) },
-        { label: 'IQR', value: f(iqr) },
-        { label: 'Skewness', value: f(skew) },
-        { label: 'Excess Kurtosis', value: f(kurt) }
+        { label: 'Sample Size (n)', estimate: n },
+        { label: 'Mean', estimate: m, precision, isMain: true },
+        { label: 'Median', estimate: med, precision, isMain: true },
+        { label: 'Trimmed Mean ('+data.trim+'%)', estimate: tMean, precision },
+        { label: 'Std. Deviation (s)', estimate: s, precision, isMain: true },
+        { label: 'Variance (s²)', estimate: v, precision },
+        { label: 'Coeff. Variation (CV)', estimate: s / m, format: 'percent' },
+        { label: 'Min', estimate: sorted[0] },
+        { label: 'Max', estimate: sorted[n-1] },
+        { label: 'Q1 (25th)', estimate: q1, precision, method: 'R quantile type 7' },
+        { label: 'Q3 (75th)', estimate: q3, precision, method: 'R quantile type 7' },
+        { label: 'IQR', estimate: iqr, precision },
+        { label: 'Skewness', estimate: skew, precision, method: 'Sample skewness (type 2)' },
+        { label: 'Excess Kurtosis', estimate: kurt, precision, method: 'Sample excess kurtosis (type 2)' }
       ],
       interpretation: `Sample (n=${n}) mean is ${f(m)}. Data is ${Math.abs(skew) < 0.5 ? 'fairly symmetrical' : skew > 0 ? 'right-skewed' : 'left-skewed'}.`,
       rCode,
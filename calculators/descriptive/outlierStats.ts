@@ -38,12 +38,12 @@ export const outlierStats: CalculatorDefinition<{ numbers: string }> = {
 
     return {
       results: [
-        { label: 'Lower Fence', value: lowerFence.toFixed(4) },
-        { label: 'Upper Fence', value: upperFence.toFixed(4) },
-        { label: 'Outlier Count', value: outliers.length, isMain: true },
-        { label: 'Outliers Found', value: outliers.join(', ') || 'None' },
-        { label: 'Median (Robust Central)', value: med.toFixed(4), isMain: true },
-        { label: 'MAD (Robust Dispersion)', value: mad.toFixed(4) }
+        { label: 'Lower Fence', estimate: lowerFence, precision: 4, method: 'Tukey (1.5 × IQR)' },
+        { label: 'Upper Fence', estimate: upperFence, precision: 4, method: 'Tukey (1.5 × IQR)' },
+        { label: 'Outlier Count', estimate: outliers.length, isMain: true },
+        { label: 'Outliers Found', text: outliers.join(', ') || 'None' },
+        { label: 'Median (Robust Central)', estimate: med, precision: 4, isMain: true },
+        { label: 'MAD (Robust Dispersion)', estimate: mad, precision: 4 }
       ],
       interpretation: outliers.length > 0 
         ? `${outliers.length} outliers detected outside [${lowerFence.toFixed(2)}, ${upperFence.toFixed(2)}].`
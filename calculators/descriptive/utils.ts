@@ -2,6 +2,7 @@
 /**
  * EpiStatKit - Core Statistics Utilities
  */
+import { fCDF } from '../distributions';
 
 export const parseNumericInput = (input: string): number[] => {
   if (!input) return [];
@@ -14,6 +15,23 @@ export const parseNumericInput = (input: string): number[] => {
     .filter(v => !isNaN(v));
 };
 
+/**
+ * Parses one group per line: an optional "Label:" followed by the group's numbers.
+ * Unlabelled groups are named Group 1, Group 2, ... by position.
+ */
+export const parseGroups = (input: string): { label: string, values: number[] }[] => {
+  if (!input) return [];
+  return input
+    .split(/[\r\n]+/)
+    .filter(line => line.trim() !== "")
+    .map((line, i) => {
+      const labelled = line.match(/^\s*([^:]*[A-Za-z][^:]*):(.*)$/);
+      return labelled
+        ? { label: labelled[1].trim(), values: parseNumericInput(labelled[2]) }
+        : { label: `Group ${i + 1}`, values: parseNumericInput(line) };
+    });
+};
+
 export const mean = (arr: number[]) => {
   if (arr.length === 0) return 0;
   return arr.reduce((a, b) => a + b, 0) / arr.length;
@@ -35,6 +53,25 @@ export const variance = (arr: number[], population = false) => {
 
 export const stdev = (arr: number[], population = false) => Math.sqrt(variance(arr, population));
 
+/**
+ * Levene-type test of equal variances: one-way ANOVA F on absolute deviations from each
+ * group's centre, the mean (Levene) or the median (Brown-Forsythe, car::leveneTest's default).
+ */
+export const leveneTest = (groups: number[][], centre: (values: number[]) => number) => {
+  const deviations = groups.map(values => {
+    const c = centre(values);
+    return values.map(v => Math.abs(v - c));
+  });
+  const all = deviations.flat();
+  const grand = mean(all);
+  const ssb = deviations.reduce((s, d) => s + d.length * Math.pow(mean(d) - grand, 2), 0);
+  const ssw = deviations.reduce((s, d) => s + d.reduce((t, v) => t + Math.pow(v - mean(d), 2), 0), 0);
+  const df1 = groups.length - 1;
+  const df2 = all.length - groups.length;
+  const f = (ssb / df1) / (ssw / df2);
+  return { f, df1, df2, p: 1 - fCDF(f, df1, df2) };
+};
+
 // Method 7 R-style quantiles (standard for biostats)
 export const quantiles = (arr: number[], p: number) => {
   if (arr.length === 0) return 0;
@@ -43,6 +80,8 @@ export const quantiles = (arr: number[], p: number) => {
   const lower = Math.floor(index);
   const upper = Math.ceil(index);
   const weight = index - lower;
+  // Equal neighbours are returned as they are (as R's quantile does), so ties sit exactly on the cut
+  if (sorted[lower] === sorted[upper]) return sorted[lower];
   return sorted[lower] * (1 - weight) + sorted[upper] * weight;
 };
 
@@ -49,11 +49,11 @@ export const descriptiveStats: CalculatorDefinition<{ numbers: string }> = {
 
     return {
       results: [
-        { label: 'Sample Size (n)', value: n },
-        { label: 'Mean', value: mean.toFixed(4), isMain: true },
-        { label: 'Median', value: medianValue.toFixed(4) },
-        { label: 'Std. Deviation (SD)', value: sd.toFixed(4), isMain: true },
-        { label: 'Variance', value: variance.toFixed(4) }
+        { label: 'Sample Size (n)', estimate: n },
+        { label: 'Mean', estimate: mean, precision: 4, isMain: true },
+        { label: 'Median', estimate: medianValue, precision: 4 },
+        { label: 'Std. Deviation (SD)', estimate: sd, precision: 4, isMain: true },
+        { label: 'Variance', estimate: variance, precision: 4 }
       ],
       interpretation: `Average: ${mean.toFixed(2)}, SD: ${sd.toFixed(2)}.`,
       rCode,
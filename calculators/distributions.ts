@@ -0,0 +1,654 @@
+/**
+ * EpiStatKit - Exact Distribution Engine
+ * Regularized incomplete gamma/beta functions with the CDFs and quantiles built on them.
+ * Results agree with R's pnorm/qt/qchisq/qf/pbinom family to at least 1e-8.
+ */
+
+const EPS = 1e-15;
+const MAX_ITER = 1000;
+const FPMIN = 1e-300;
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+  771.32342877765313, -176.61502916214059, 12.507343278686905,
+  -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+// log Γ(x) via the Lanczos approximation (g = 7)
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const xm = x - 1;
+  let a = LANCZOS[0];
+  const t = xm + 7.5;
+  for (let i = 1; i < 9; i++) a += LANCZOS[i] / (xm + i);
+  return 0.5 * Math.log(2 * Math.PI) + (xm + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+export const logBeta = (a: number, b: number): number => logGamma(a) + logGamma(b) - logGamma(a + b);
+
+// log(n choose k)
+export const logChoose = (n: number, k: number): number => logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+
+// Series expansion of P(a, x), valid for x < a + 1
+const gammaSeries = (a: number, x: number): number => {
+  let ap = a;
+  let del = 1 / a;
+  let sum = del;
+  for (let n = 0; n < MAX_ITER; n++) {
+    ap += 1;
+    del *= x / ap;
+    sum += del;
+    if (Math.abs(del) < Math.abs(sum) * EPS) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+};
+
+// Continued fraction (modified Lentz) for Q(a, x), valid for x >= a + 1
+const gammaContinuedFraction = (a: number, x: number): number => {
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITER; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+};
+
+// Lower regularized incomplete gamma P(a, x)
+export const regularizedGammaP = (a: number, x: number): number => {
+  if (isNaN(a) || isNaN(x) || a <= 0) return NaN;
+  if (x <= 0) return 0;
+  if (x === Infinity) return 1;
+  return x < a + 1 ? gammaSeries(a, x) : 1 - gammaContinuedFraction(a, x);
+};
+
+// Upper regularized incomplete gamma Q(a, x) = 1 - P(a, x)
+export const regularizedGammaQ = (a: number, x: number): number => {
+  if (isNaN(a) || isNaN(x) || a <= 0) return NaN;
+  if (x <= 0) return 1;
+  if (x === Infinity) return 0;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - qab * x / qap;
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < MAX_ITER; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta I_x(a, b)
+export const regularizedBeta = (x: number, a: number, b: number): number => {
+  if (isNaN(x) || isNaN(a) || isNaN(b) || a <= 0 || b <= 0) return NaN;
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(a * Math.log(x) + b * Math.log1p(-x) - logBeta(a, b));
+  if (x < (a + 1) / (a + b + 2)) return front * betaContinuedFraction(x, a, b) / a;
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+};
+
+/**
+ * Safeguarded Halley/Newton root finder for a continuous CDF.
+ * `err(x)` is CDF(x) - p, `logPdf(x)` its log-derivative and `curvature(x)`
+ * the ratio f'(x)/f(x) used for the Halley correction.
+ */
+const solveQuantile = (
+  guess: number,
+  lo: number,
+  hi: number,
+  err: (x: number) => number,
+  logPdf: (x: number) => number,
+  curvature: (x: number) => number
+): number => {
+  let x = guess;
+  if (!(x > lo && x < hi)) x = isFinite(hi) ? (lo + hi) / 2 : lo + 1;
+  for (let i = 0; i < 200; i++) {
+    const e = err(x);
+    if (e === 0) return x;
+    if (e < 0) lo = x; else hi = x;
+    const u = e / Math.exp(logPdf(x));
+    const hc = u * curvature(x);
+    const step = Math.abs(hc) < 1 ? u / (1 - 0.5 * hc) : u;
+    let next = x - step;
+    if (!(next > lo && next < hi) || !isFinite(next)) {
+      if (!isFinite(hi)) next = 2 * x;
+      else if (lo === 0) next = hi * 1e-3;
+      else next = hi / lo > 10 ? Math.sqrt(lo * hi) : (lo + hi) / 2;
+    }
+    if (Math.abs(next - x) <= EPS * Math.abs(x) || next === lo || next === hi) return next;
+    x = next;
+  }
+  return x;
+};
+
+// Solves I_x(a, b) = p for x, working in the tail given by p
+const solveBeta = (p: number, a: number, b: number): number => {
+  if (p <= 0) return 0;
+  if (p >= 1) return 1;
+  let guess: number;
+  if (a >= 1 && b >= 1) {
+    const pp = p < 0.5 ? p : 1 - p;
+    const t = Math.sqrt(-2 * Math.log(pp));
+    let z = (2.30753 + t * 0.27061) / (1 + t * (0.99229 + t * 0.04481)) - t;
+    if (p < 0.5) z = -z;
+    const al = (z * z - 3) / 6;
+    const h = 2 / (1 / (2 * a - 1) + 1 / (2 * b - 1));
+    const w = (z * Math.sqrt(al + h) / h) - (1 / (2 * b - 1) - 1 / (2 * a - 1)) * (al + 5 / 6 - 2 / (3 * h));
+    guess = a / (a + b * Math.exp(2 * w));
+  } else {
+    const t = Math.exp(a * Math.log(a / (a + b))) / a;
+    const u = Math.exp(b * Math.log(b / (a + b))) / b;
+    const w = t + u;
+    guess = p < t / w ? Math.pow(a * w * p, 1 / a) : 1 - Math.pow(b * w * (1 - p), 1 / b);
+  }
+  const lb = logBeta(a, b);
+  return solveQuantile(
+    guess, 0, 1,
+    x => regularizedBeta(x, a, b) - p,
+    x => (a - 1) * Math.log(x) + (b - 1) * Math.log1p(-x) - lb,
+    x => (a - 1) / x - (b - 1) / (1 - x)
+  );
+};
+
+// Solves P(a, x) = p for x (or Q(a, x) = 1 - p in the upper half)
+const solveGamma = (p: number, a: number): number => {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  let guess: number;
+  if (a > 1) {
+    const pp = p < 0.5 ? p : 1 - p;
+    const t = Math.sqrt(-2 * Math.log(pp));
+    let z = (2.30753 + t * 0.27061) / (1 + t * (0.99229 + t * 0.04481)) - t;
+    if (p < 0.5) z = -z;
+    guess = Math.max(1e-3, a * Math.pow(1 - 1 / (9 * a) - z / (3 * Math.sqrt(a)), 3));
+  } else {
+    const t = 1 - a * (0.253 + a * 0.12);
+    guess = p < t ? Math.pow(p / t, 1 / a) : 1 - Math.log(1 - (p - t) / (1 - t));
+  }
+  const lg = logGamma(a);
+  const upper = p > 0.5;
+  const q = 1 - p;
+  return solveQuantile(
+    guess, 0, Infinity,
+    x => upper ? q - regularizedGammaQ(a, x) : regularizedGammaP(a, x) - p,
+    x => (a - 1) * Math.log(x) - x - lg,
+    x => (a - 1) / x - 1
+  );
+};
+
+// --- Normal ---
+
+export const normalPDF = (z: number): number => Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+// Standard Normal CDF: P(Z <= z), accurate in both tails
+export const normalCDF = (z: number): number => {
+  if (isNaN(z)) return NaN;
+  const tail = 0.5 * regularizedGammaQ(0.5, 0.5 * z * z);
+  return z < 0 ? tail : 1 - tail;
+};
+
+// Standard Normal quantile (Wichura, AS 241)
+export const normalQuantile = (p: number): number => {
+  if (isNaN(p) || p < 0 || p > 1) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+  const q = p - 0.5;
+  if (Math.abs(q) <= 0.425) {
+    const r = 0.180625 - q * q;
+    return q * (((((((r * 2509.0809287301226727 + 33430.575583588128105) * r + 67265.770927008700853) * r
+      + 45921.953931549871457) * r + 13731.693765509461125) * r + 1971.5909503065514427) * r + 133.14166789178437745) * r
+      + 3.387132872796366608)
+      / (((((((r * 5226.495278852545925 + 28729.085735721942674) * r + 39307.89580009271061) * r
+      + 21213.794301586595867) * r + 5394.1960214247511077) * r + 687.1870074920579083) * r + 42.313330701600911252) * r + 1);
+  }
+  let r = Math.sqrt(-Math.log(q < 0 ? p : 1 - p));
+  let val: number;
+  if (r <= 5) {
+    r -= 1.6;
+    val = (((((((r * 7.7454501427834140764e-4 + 0.0227238449892691845833) * r + 0.24178072517745061177) * r
+      + 1.27045825245236838258) * r + 3.64784832476320460504) * r + 5.7694972214606914055) * r + 4.6303378461565452959) * r
+      + 1.42343711074968357734)
+      / (((((((r * 1.05075007164441684324e-9 + 5.475938084995344946e-4) * r + 0.0151986665636164571966) * r
+      + 0.14810397642748007459) * r + 0.68976733498510000455) * r + 1.6763848301838038494) * r + 2.05319162663775882187) * r + 1);
+  } else {
+    r -= 5;
+    val = (((((((r * 2.01033439929228813265e-7 + 2.71155556874348757815e-5) * r + 0.0012426609473880784386) * r
+      + 0.026532189526576123093) * r + 0.29656057182850489123) * r + 1.7848265399172913358) * r + 5.4637849111641143699) * r
+      + 6.6579046435011037772)
+      / (((((((r * 2.04426310338993978564e-15 + 1.4215117583164458887e-7) * r + 1.8463183175100546818e-5) * r
+      + 7.868691311456132591e-4) * r + 0.0148753612908506148525) * r + 0.13692988092273580531) * r + 0.59983220655588793769) * r + 1);
+  }
+  return q < 0 ? -val : val;
+};
+
+// --- Student's t ---
+
+export const tCDF = (t: number, df: number): number => {
+  if (isNaN(t) || !(df > 0)) return NaN;
+  if (!isFinite(t)) return t > 0 ? 1 : 0;
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t < 0 ? tail : 1 - tail;
+};
+
+export const tQuantile = (p: number, df: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(df > 0)) return NaN;
+  if (p === 0) return -Infinity;
+  if (p === 1) return Infinity;
+  if (p === 0.5) return 0;
+  const tail = Math.min(p, 1 - p);
+  let t: number;
+  if (tail < 0.25) {
+    // Tail: I_{df/(df+t²)}(df/2, 1/2) = 2 * tail
+    const x = solveBeta(2 * tail, df / 2, 0.5);
+    t = Math.sqrt(df * (1 - x) / x);
+  } else {
+    // Centre: I_{t²/(df+t²)}(1/2, df/2) = 1 - 2 * tail
+    const y = solveBeta(1 - 2 * tail, 0.5, df / 2);
+    t = Math.sqrt(df * y / (1 - y));
+  }
+  return p < 0.5 ? -t : t;
+};
+
+// --- Chi-square ---
+
+export const chiSqCDF = (x: number, df: number): number => regularizedGammaP(df / 2, x / 2);
+
+export const chiSqQuantile = (p: number, df: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(df > 0)) return NaN;
+  return 2 * solveGamma(p, df / 2);
+};
+
+// --- Gamma (unit scale) ---
+
+export const gammaQuantile = (p: number, shape: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(shape > 0)) return NaN;
+  return solveGamma(p, shape);
+};
+
+// --- Beta ---
+
+export const betaCDF = (x: number, a: number, b: number): number => regularizedBeta(x, a, b);
+
+export const betaQuantile = (p: number, a: number, b: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(a > 0) || !(b > 0)) return NaN;
+  // Solve for whichever of x or 1 - x is small so the returned value keeps full precision
+  const upperHalf = p > 0.5 && regularizedBeta(0.5, a, b) < p;
+  return upperHalf ? 1 - solveBeta(1 - p, b, a) : solveBeta(p, a, b);
+};
+
+// --- F ---
+
+export const fCDF = (x: number, d1: number, d2: number): number => {
+  if (isNaN(x) || !(d1 > 0) || !(d2 > 0)) return NaN;
+  if (x <= 0) return 0;
+  return regularizedBeta(d1 * x / (d1 * x + d2), d1 / 2, d2 / 2);
+};
+
+export const fQuantile = (p: number, d1: number, d2: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(d1 > 0) || !(d2 > 0)) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  if (p <= 0.5) {
+    const x = solveBeta(p, d1 / 2, d2 / 2);
+    return (d2 / d1) * x / (1 - x);
+  }
+  // Solve on the complementary Beta(d2/2, d1/2) to keep precision in the upper tail
+  const y = solveBeta(1 - p, d2 / 2, d1 / 2);
+  return (d2 / d1) * (1 - y) / y;
+};
+
+// --- Studentized range (Tukey) ---
+
+// Gauss-Legendre nodes and weights (half of each symmetric set) used by R's ptukey
+const LEGENDRE_12 = {
+  x: [0.981560634246719250690549090149, 0.904117256370474856678465866119, 0.769902674194304687036893833213,
+    0.587317954286617447296702418941, 0.367831498998180193752691536644, 0.125233408511468915472441369464],
+  w: [0.047175336386511827194615961485, 0.106939325995318430960254718194, 0.160078328543346226334652529543,
+    0.203167426723065921749064455810, 0.233492536538354808760849898925, 0.249147045813402785000562436043]
+};
+const LEGENDRE_16 = {
+  x: [0.989400934991649932596154173450, 0.944575023073232576077988415535, 0.865631202387831743880467897712,
+    0.755404408355003033895101194847, 0.617876244402643748446671764049, 0.458016777657227386342419442984,
+    0.281603550779258913230460501460, 0.950125098376374401853193354250e-1],
+  w: [0.271524594117540948517805724560e-1, 0.622535239386478928628438369944e-1, 0.951585116824927848099251076022e-1,
+    0.124628971255533872052476282192, 0.149595988816576732081501730547, 0.169156519395002538189312079030,
+    0.182603415044923588866763667969, 0.189450610455068496285396723208]
+};
+
+// P(range of k standard normals < w), Hartley's form integrated by Gauss-Legendre (R's wprob)
+const rangeProbability = (w: number, k: number): number => {
+  const half = w * 0.5;
+  if (half >= 8) return 1;
+
+  let pr = 2 * normalCDF(half) - 1;
+  pr = pr >= Math.exp(-50 / k) ? Math.pow(pr, k) : 0;
+
+  const intervals = w > 3 ? 2 : 3;
+  const step = (8 - half) / intervals;
+  let lower = half;
+  let upper = half + step;
+  let integral = 0;
+
+  for (let i = 0; i < intervals; i++) {
+    const mid = 0.5 * (upper + lower);
+    const halfWidth = 0.5 * (upper - lower);
+    let sum = 0;
+    for (let jj = 0; jj < 12; jj++) {
+      const j = jj < 6 ? jj : 11 - jj;
+      const x = mid + halfWidth * (jj < 6 ? -LEGENDRE_12.x[j] : LEGENDRE_12.x[j]);
+      const x2 = x * x;
+      if (x2 > 60) break;
+      const inner = normalCDF(x) - normalCDF(x - w);
+      if (inner >= Math.exp(-30 / (k - 1))) {
+        sum += LEGENDRE_12.w[j] * Math.exp(-0.5 * x2) * Math.pow(inner, k - 1);
+      }
+    }
+    integral += sum * (2 * halfWidth * k) / Math.sqrt(2 * Math.PI);
+    lower = upper;
+    upper += step;
+  }
+
+  pr += integral;
+  if (pr <= Math.exp(-30)) return 0;
+  return Math.min(1, pr);
+};
+
+/**
+ * P(Q <= q) for the studentized range of k means with df error degrees of freedom,
+ * following R's ptukey (Copenhaver & Holland 1988).
+ */
+export const ptukey = (q: number, k: number, df: number): number => {
+  if (isNaN(q) || !(k >= 2) || !(df >= 2)) return NaN;
+  if (q <= 0) return 0;
+  if (!isFinite(q)) return 1;
+  if (df > 25000) return rangeProbability(q, k);
+
+  const f2 = df * 0.5;
+  const ulen = df <= 100 ? 1 : df <= 800 ? 0.5 : df <= 5000 ? 0.25 : 0.125;
+  const f2lf = f2 * Math.log(df) - df * Math.LN2 - logGamma(f2) + Math.log(ulen);
+  const f21 = f2 - 1;
+  const ff4 = df * 0.25;
+
+  let total = 0;
+  for (let i = 1; i <= 50; i++) {
+    let intervalSum = 0;
+    const twa1 = (2 * i - 1) * ulen;
+    for (let jj = 0; jj < 16; jj++) {
+      const j = jj < 8 ? jj : jj - 8;
+      const offset = (jj < 8 ? -1 : 1) * LEGENDRE_16.x[j] * ulen;
+      const u = twa1 + offset;
+      const t1 = f2lf + f21 * Math.log(u) - u * ff4;
+      if (t1 >= -30) {
+        intervalSum += rangeProbability(q * Math.sqrt(u * 0.5), k) * LEGENDRE_16.w[j] * Math.exp(t1);
+      }
+    }
+    // At least 1/ulen intervals so the left tail is covered before stopping
+    if (i * ulen >= 1 && intervalSum <= 1e-14) break;
+    total += intervalSum;
+  }
+  return Math.min(1, total);
+};
+
+/**
+ * Where a monotone function crosses `target` on [lo, hi], by bisection; `increasing` gives the
+ * direction of f. Stops once the bracket is narrower than `tol`, or after 200 halvings.
+ */
+export const bisect = (f: (x: number) => number, target: number, lo: number, hi: number, increasing: boolean, tol = 1e-12): number => {
+  for (let i = 0; i < 200 && hi - lo > tol; i++) {
+    const mid = (lo + hi) / 2;
+    if ((f(mid) < target) === increasing) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+// Studentized range quantile, by bisection on ptukey
+export const qtukey = (p: number, k: number, df: number): number => {
+  if (isNaN(p) || p < 0 || p > 1 || !(k >= 2) || !(df >= 2)) return NaN;
+  if (p === 0) return 0;
+  if (p === 1) return Infinity;
+  let hi = 10;
+  while (ptukey(hi, k, df) < p) hi *= 2;
+  return bisect(x => ptukey(x, k, df), p, 0, hi, true, 1e-10);
+};
+
+// --- Discrete distributions ---
+
+// Smallest k with CDF(k) >= p, searching outward from a starting guess
+const discreteQuantile = (p: number, cdf: (k: number) => number, guess: number, max: number): number => {
+  const target = p * (1 - 64 * Number.EPSILON);
+  let k = Math.max(0, Math.min(max, Math.floor(guess)));
+  if (cdf(k) >= target) {
+    while (k > 0 && cdf(k - 1) >= target) k--;
+  } else {
+    while (k < max && cdf(k) < target) k++;
+  }
+  return k;
+};
+
+export const binomialPMF = (k: number, n: number, p: number): number => {
+  if (k < 0 || k > n || !Number.isInteger(k)) return 0;
+  if (p === 0) return k === 0 ? 1 : 0;
+  if (p === 1) return k === n ? 1 : 0;
+  return Math.exp(logChoose(n, k) + k * Math.log(p) + (n - k) * Math.log1p(-p));
+};
+
+// P(X <= k) for X ~ Binomial(n, p)
+export const binomialCDF = (k: number, n: number, p: number): number => {
+  const kf = Math.floor(k);
+  if (kf < 0) return 0;
+  if (kf >= n) return 1;
+  if (p <= 0) return 1;
+  if (p >= 1) return 0;
+  return regularizedBeta(1 - p, n - kf, kf + 1);
+};
+
+export const binomialQuantile = (q: number, n: number, p: number): number => {
+  if (isNaN(q) || q < 0 || q > 1) return NaN;
+  if (q === 0) return 0;
+  if (q === 1) return n;
+  const guess = n * p + normalQuantile(q) * Math.sqrt(n * p * (1 - p));
+  return discreteQuantile(q, k => binomialCDF(k, n, p), guess, n);
+};
+
+export const poissonPMF = (k: number, lambda: number): number => {
+  if (k < 0 || !Number.isInteger(k)) return 0;
+  if (lambda === 0) return k === 0 ? 1 : 0;
+  return Math.exp(k * Math.log(lambda) - lambda - logGamma(k + 1));
+};
+
+// P(X <= k) for X ~ Poisson(lambda)
+export const poissonCDF = (k: number, lambda: number): number => {
+  const kf = Math.floor(k);
+  if (kf < 0) return 0;
+  if (lambda <= 0) return 1;
+  return regularizedGammaQ(kf + 1, lambda);
+};
+
+export const poissonQuantile = (q: number, lambda: number): number => {
+  if (isNaN(q) || q < 0 || q > 1) return NaN;
+  if (q === 0) return 0;
+  if (q === 1) return Infinity;
+  const guess = lambda + normalQuantile(q) * Math.sqrt(lambda);
+  return discreteQuantile(q, k => poissonCDF(k, lambda), guess, Number.MAX_SAFE_INTEGER);
+};
+
+// P(X = x) for X ~ Hypergeometric: x white balls in k draws from m white and n black (R's dhyper)
+export const hypergeometricPMF = (x: number, m: number, n: number, k: number): number => {
+  if (!Number.isInteger(x) || x < Math.max(0, k - n) || x > Math.min(k, m)) return 0;
+  return Math.exp(logChoose(m, x) + logChoose(n, k - x) - logChoose(m + n, k));
+};
+
+// --- Wilcoxon rank statistics (exact null distributions, untied data) ---
+
+const rankSumCache = new Map<string, number[]>();
+const signedRankCache = new Map<number, number[]>();
+
+// Cumulative P(W <= w) for w = 0..m·n, W the Mann-Whitney statistic of samples of size m and n
+const rankSumCumulative = (m: number, n: number): number[] => {
+  const key = `${m},${n}`;
+  const cached = rankSumCache.get(key);
+  if (cached) return cached;
+  // ways[j][s]: subsets of j ranks from 1..r with rank sum s, built up one rank at a time
+  const maxSum = m * (m + n);
+  const ways = Array.from({ length: m + 1 }, () => new Float64Array(maxSum + 1));
+  ways[0][0] = 1;
+  for (let r = 1; r <= m + n; r++) {
+    for (let j = Math.min(r, m); j >= 1; j--) {
+      for (let s = maxSum; s >= r; s--) ways[j][s] += ways[j - 1][s - r];
+    }
+  }
+  const offset = (m * (m + 1)) / 2;
+  const counts = Array.from({ length: m * n + 1 }, (_, w) => ways[m][w + offset]);
+  const total = counts.reduce((s, v) => s + v, 0);
+  let acc = 0;
+  const cumulative = counts.map(c => (acc += c) / total);
+  rankSumCache.set(key, cumulative);
+  return cumulative;
+};
+
+// Cumulative P(V <= v) for v = 0..n(n+1)/2, V the Wilcoxon signed-rank statistic
+const signedRankCumulative = (n: number): number[] => {
+  const cached = signedRankCache.get(n);
+  if (cached) return cached;
+  const maxSum = (n * (n + 1)) / 2;
+  const ways = new Float64Array(maxSum + 1);
+  ways[0] = 1;
+  for (let r = 1; r <= n; r++) {
+    for (let s = maxSum; s >= r; s--) ways[s] += ways[s - r];
+  }
+  const total = Math.pow(2, n);
+  let acc = 0;
+  const cumulative = Array.from(ways, c => (acc += c) / total);
+  signedRankCache.set(n, cumulative);
+  return cumulative;
+};
+
+// P(W <= q) for the Mann-Whitney statistic (R's pwilcox)
+export const wilcoxonCDF = (q: number, m: number, n: number): number => {
+  const qf = Math.floor(q + 1e-7);
+  if (qf < 0) return 0;
+  if (qf >= m * n) return 1;
+  return rankSumCumulative(m, n)[qf];
+};
+
+export const wilcoxonQuantile = (p: number, m: number, n: number): number => {
+  if (isNaN(p) || p < 0 || p > 1) return NaN;
+  const cumulative = rankSumCumulative(m, n);
+  return discreteQuantile(p, k => cumulative[k], (m * n) / 2, m * n);
+};
+
+// P(V <= q) for the signed-rank statistic (R's psignrank)
+export const signedRankCDF = (q: number, n: number): number => {
+  const qf = Math.floor(q + 1e-7);
+  if (qf < 0) return 0;
+  if (qf >= (n * (n + 1)) / 2) return 1;
+  return signedRankCumulative(n)[qf];
+};
+
+export const signedRankQuantile = (p: number, n: number): number => {
+  if (isNaN(p) || p < 0 || p > 1) return NaN;
+  const cumulative = signedRankCumulative(n);
+  return discreteQuantile(p, k => cumulative[k], (n * (n + 1)) / 4, (n * (n + 1)) / 2);
+};
+
+// --- Seeded random variates (reproducible simulation) ---
+
+// Mulberry32: a small 32-bit generator, so a given seed reproduces the same draws
+export const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box-Muller
+export const randomNormal = (rand: () => number, mean = 0, sd = 1): number => {
+  const u = 1 - rand();
+  return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rand());
+};
+
+// Marsaglia-Tsang, with the u^(1/shape) boost for shape < 1; unit scale
+export const randomGamma = (rand: () => number, shape: number): number => {
+  if (shape < 1) return randomGamma(rand, shape + 1) * Math.pow(1 - rand(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = randomNormal(rand);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = 1 - rand();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+// --- Confidence-level helpers used across the calculators ---
+
+// Two-sided critical value z_{1-α/2} for a confidence level given in percent
+export const getZCritical = (confidence: number): number => {
+  const alpha = 1 - confidence / 100;
+  return normalQuantile(1 - alpha / 2);
+};
+
+// Two-sided critical value t_{1-α/2, df} for a confidence level given in percent
+export const getTCritical = (confidence: number, df: number): number => {
+  if (df <= 0) return 0;
+  const alpha = 1 - confidence / 100;
+  return tQuantile(1 - alpha / 2, df);
+};
+
+export const getNormalCDF = normalCDF;
+
+// p-values for a t statistic: two-sided, P(T <= t) and P(T >= t)
+export const getTPValue = (t: number, df: number): { twoSided: number, lower: number, upper: number } => {
+  const lower = tCDF(t, df);
+  const upper = tCDF(-t, df);
+  return { twoSided: Math.min(1, 2 * Math.min(lower, upper)), lower, upper };
+};
+
+// Upper-tail p-value for a chi-square statistic
+export const getChiSqPValue = (chi2: number, df: number): number => {
+  if (chi2 <= 0) return 1;
+  return regularizedGammaQ(df / 2, chi2 / 2);
+};
@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+
+interface CostEffectivenessInput {
+  strategies: string,
+  wtp: number,
+  wtpMax: number,
+  simulations: number,
+  seed: number
+}
+
+interface Strategy {
+  name: string;
+  cost: number;
+  effect: number;
+  costSD: number;
+  effectSD: number;
+}
+
+type Status = { kind: 'frontier', icer: number, versus: number } | { kind: 'reference' } | { kind: 'dominated', by: number } | { kind: 'extended' };
+
+const WTP_STEPS = 10;
+const CEAC_STEPS = 20;
+const PLANE_POINTS = 500;
+
+/**
+ * Parses one strategy per line: a name, cost and effect, optionally followed by the SDs of cost
+ * and effect for the probabilistic analysis. Returns null on a malformed line or repeated name.
+ */
+const parseStrategies = (input: string): Strategy[] | null => {
+  const lines = input.split(/[\r\n]+/).map(l => l.trim()).filter(l => l !== '');
+  const strategies = lines.map((line, i) => {
+    const cells = line.split(/[,;\t]/.test(line) ? /\s*[,;\t]\s*/ : /\s+/).filter(c => c !== '');
+    const named = isNaN(Number(cells[0]));
+    const values = (named ? cells.slice(1) : cells).map(Number);
+    if ((values.length !== 2 && values.length !== 4) || values.some(v => isNaN(v))) return null;
+    const [cost, effect, costSD = 0, effectSD = 0] = values;
+    if (costSD < 0 || effectSD < 0) return null;
+    return { name: named ? cells[0] : `Strategy ${i + 1}`, cost, effect, costSD, effectSD };
+  });
+  if (strategies.some(s => s === null) || new Set(strategies.map(s => s!.name)).size !== strategies.length) return null;
+  return strategies as Strategy[];
+};
+
+/**
+ * Classifies each strategy against the efficiency frontier: strongly dominated (costlier and no more
+ * effective than another), extendedly dominated (an ICER above that of the next more effective
+ * strategy), or on the frontier with its ICER against the previous frontier strategy.
+ */
+const classify = (strategies: { cost: number, effect: number }[]): Status[] => {
+  const status: Status[] = strategies.map(() => ({ kind: 'extended' }));
+  const dominator = (i: number) => strategies.findIndex((t, j) => j !== i
+    && t.cost <= strategies[i].cost && t.effect >= strategies[i].effect
+    && (t.cost < strategies[i].cost || t.effect > strategies[i].effect || j < i));
+  let frontier = strategies.map((_, i) => i).filter(i => {
+    const by = dominator(i);
+    if (by !== -1) status[i] = { kind: 'dominated', by };
+    return by === -1;
+  }).sort((a, b) => strategies[a].cost - strategies[b].cost);
+
+  const icer = (from: number, to: number) => (strategies[to].cost - strategies[from].cost) / (strategies[to].effect - strategies[from].effect);
+  for (;;) {
+    const k = frontier.findIndex((s, i) => i > 0 && i < frontier.length - 1 && icer(frontier[i - 1], s) > icer(s, frontier[i + 1]));
+    if (k === -1) break;
+    frontier = frontier.filter((_, i) => i !== k);
+  }
+  frontier.forEach((s, i) => {
+    status[s] = i === 0 ? { kind: 'reference' } : { kind: 'frontier', icer: icer(frontier[i - 1], s), versus: frontier[i - 1] };
+  });
+  return status;
+};
+
+// Gamma with the given mean and SD (costs), normal for effects; fixed when the SD is zero
+const draw = (rand: () => number, s: Strategy) => ({
+  cost: s.costSD > 0 ? dist.randomGamma(rand, Math.pow(s.cost / s.costSD, 2)) * (s.costSD * s.costSD / s.cost) : s.cost,
+  effect: s.effectSD > 0 ? dist.randomNormal(rand, s.effect, s.effectSD) : s.effect
+});
+
+const money = (v: number) => Math.round(v).toLocaleString();
+
+export const costEffectiveness: CalculatorDefinition<CostEffectivenessInput> = {
+  metadata: {
+    id: 'cost-effectiveness',
+    title: 'Cost-Effectiveness (ICER & NMB)',
+    category: Category.HEALTH_ECONOMICS,
+    description: 'Incremental cost-effectiveness ratios across two or more strategies with strong and extended dominance, net monetary benefit over a willingness-to-pay range, and a probabilistic cost-effectiveness plane and acceptability curve.',
+    keywords: ['ICER', 'cost-effectiveness', 'NMB', 'net monetary benefit', 'dominance', 'extended dominance', 'CEAC', 'willingness to pay', 'PSA', 'health economics', 'QALY']
+  },
+  schema: z.object({
+    strategies: z.string().min(1, "Enter at least two strategies")
+      .refine(s => parseStrategies(s) !== null, "Enter one strategy per line as name, cost, effect, optionally followed by the SD of cost and of effect. Names must be unique.")
+      .refine(s => (parseStrategies(s) || []).length !== 1, "Compare at least two strategies.")
+      .refine(s => (parseStrategies(s) || []).every(t => t.costSD === 0 || t.cost > 0), "Costs with an SD must be positive: they are sampled from a gamma distribution.")
+      .describe("Strategies (one per line: name, cost, effect[, cost SD, effect SD])"),
+    wtp: z.number().min(0).default(50000).describe("Willingness to Pay (per unit of effect)"),
+    wtpMax: z.number().min(1).default(100000).describe("Upper End of WTP Range"),
+    simulations: z.number().int().min(100).max(10000).default(1000).describe("Probabilistic Simulations"),
+    seed: z.number().int().min(1).default(1).describe("Random Seed")
+  }),
+  examples: [
+    {
+      strategies: 'No screening, 10000, 5.0, 1000, 0.15\nTargeted, 18000, 5.2, 1800, 0.15\nClinic-based, 22000, 5.1, 2200, 0.15\nAnnual, 30000, 6.0, 3000, 0.15\nBiannual, 45000, 6.3, 4500, 0.15',
+      wtp: 30000,
+      wtpMax: 100000,
+      simulations: 2000,
+      seed: 1
+    },
+    {
+      strategies: 'Usual care, 1200, 9.80\nScreening, 1650, 9.83',
+      wtp: 20000,
+      wtpMax: 50000,
+      simulations: 1000,
+      seed: 1
+    }
+  ],
+  references: [
+    {
+      author: "Drummond MF, Sculpher MJ, Claxton K, Stoddart GL, Torrance GW",
+      year: 2015,
+      title: "Methods for the Economic Evaluation of Health Care Programmes",
+      source: "Oxford University Press, 4th Edition",
+      doi: "N/A"
+    },
+    {
+      author: "Stinnett AA, Mullahy J",
+      year: 1998,
+      title: "Net health benefits: a new framework for the analysis of uncertainty in cost-effectiveness analysis",
+      source: "Medical Decision Making 18(2 Suppl):S68-S80",
+      doi: "10.1177/0272989X98018002S09"
+    },
+    {
+      author: "Fenwick E, Claxton K, Sculpher M",
+      year: 2001,
+      title: "Representing uncertainty: the role of cost-effectiveness acceptability curves",
+      source: "Health Economics 10(8):779-787",
+      doi: "10.1002/hec.635"
+    }
+  ],
+  compute: (data) => {
+    const { wtp, wtpMax, simulations, seed } = data;
+    const strategies = parseStrategies(data.strategies)!;
+    const status = classify(strategies);
+    const nmb = (s: { cost: number, effect: number }, lambda: number) => lambda * s.effect - s.cost;
+    const best = (values: number[]) => values.reduce((b, v, i) => (v > values[b] ? i : b), 0);
+    const optimal = best(strategies.map(s => nmb(s, wtp)));
+    const base = status.findIndex(s => s.kind === 'reference');
+
+    const results: CalculationResult[] = strategies.map((s, i) => {
+      const st = status[i];
+      const label = `ICER: ${s.name}`;
+      if (st.kind === 'frontier') {
+        const versus = strategies[st.versus];
+        return {
+          label, estimate: st.icer, units: 'per unit of effect', precision: 0, isMain: true,
+          description: `vs ${versus.name}: Δcost ${money(s.cost - versus.cost)}, Δeffect ${(s.effect - versus.effect).toFixed(3)}`
+        };
+      }
+      if (st.kind === 'reference') return { label, text: 'Reference', description: 'Least costly non-dominated strategy' };
+      if (st.kind === 'dominated') return { label, text: 'Dominated', description: `By ${strategies[st.by].name}: costlier and no more effective` };
+      return { label, text: 'Extendedly dominated', description: 'A mix of its neighbours on the frontier is more efficient' };
+    });
+    strategies.forEach(s => {
+      results.push({ label: `NMB: ${s.name}`, estimate: nmb(s, wtp), precision: 0, description: `At WTP ${money(wtp)}` });
+    });
+    results.push({ label: 'Optimal Strategy', text: strategies[optimal].name, isMain: true, description: `Highest net monetary benefit at WTP ${money(wtp)}` });
+
+    // Net monetary benefit over the WTP range, including the entered threshold
+    const range = [...new Set([...Array.from({ length: WTP_STEPS + 1 }, (_, i) => (wtpMax * i) / WTP_STEPS), wtp])].sort((a, b) => a - b);
+
+    // Probabilistic analysis: joint draws of every strategy's cost and effect
+    const probabilistic = strategies.some(s => s.costSD > 0 || s.effectSD > 0);
+    const rand = dist.seededRandom(seed);
+    const draws = probabilistic ? Array.from({ length: simulations }, () => strategies.map(s => draw(rand, s))) : [];
+    const probabilityOptimal = (lambda: number) => {
+      const wins = strategies.map(() => 0);
+      draws.forEach(d => { wins[best(d.map(s => nmb(s, lambda)))]++; });
+      return wins.map(w => w / simulations);
+    };
+    const ceacGrid = [...new Set([...Array.from({ length: CEAC_STEPS + 1 }, (_, i) => (wtpMax * i) / CEAC_STEPS), wtp])].sort((a, b) => a - b);
+    const ceac = probabilistic ? ceacGrid.map(lambda => ({ lambda, p: probabilityOptimal(lambda) })) : [];
+
+    if (probabilistic) {
+      const atWtp = probabilityOptimal(wtp);
+      strategies.forEach((s, i) => {
+        results.push({ label: `Probability Cost-Effective: ${s.name}`, estimate: atWtp[i], format: 'percent', precision: 1, isMain: i === optimal, description: `${simulations} simulations, seed ${seed}` });
+      });
+    }
+
+    // Cost-effectiveness plane: incremental draws of each strategy against the reference
+    const planePoints = draws.slice(0, PLANE_POINTS).flatMap(d => d
+      .map((s, i) => ({ x: s.effect - d[base].effect, y: s.cost - d[base].cost, label: strategies[i].name }))
+      .filter((_, i) => i !== base));
+    const xs = planePoints.map(p => p.x);
+    const planeRange = xs.length > 0 ? [Math.min(0, ...xs), Math.max(0, ...xs)] : [0, 0];
+
+    const frontierText = status
+      .map((st, i) => (st.kind === 'frontier' ? `${strategies[i].name} (${money(st.icer)} per unit of effect vs ${strategies[st.versus].name})` : ''))
+      .filter(Boolean);
+    const excluded = status
+      .map((st, i) => (st.kind === 'dominated' ? `${strategies[i].name} is dominated` : st.kind === 'extended' ? `${strategies[i].name} is extendedly dominated` : ''))
+      .filter(Boolean);
+    const probabilityText = probabilistic ? ` The probability that it is the most cost-effective choice is ${(probabilityOptimal(wtp)[optimal] * 100).toFixed(1)}%.` : '';
+
+    const quoted = strategies.map(s => `"${s.name}"`).join(', ');
+    const rCode = `# Cost-effectiveness analysis (install.packages("dampack"))
+library(dampack)
+strategies <- c(${quoted})
+cost <- c(${strategies.map(s => s.cost).join(', ')})
+effect <- c(${strategies.map(s => s.effect).join(', ')})
+
+# ICERs with strong and extended dominance
+calculate_icers(cost = cost, effect = effect, strategies = strategies)
+
+# Net monetary benefit over the WTP range
+wtp <- c(${range.join(', ')})
+sapply(wtp, function(l) setNames(l * effect - cost, strategies))${probabilistic ? `
+
+# Probabilistic analysis: gamma costs, normal effects
+set.seed(${seed})
+n <- ${simulations}
+cost_sd <- c(${strategies.map(s => s.costSD).join(', ')})
+effect_sd <- c(${strategies.map(s => s.effectSD).join(', ')})
+psa_cost <- sapply(seq_along(cost), function(i) if (cost_sd[i] > 0) rgamma(n, shape = (cost[i] / cost_sd[i])^2, scale = cost_sd[i]^2 / cost[i]) else rep(cost[i], n))
+psa_effect <- sapply(seq_along(effect), function(i) rnorm(n, effect[i], effect_sd[i]))
+psa <- make_psa_obj(cost = as.data.frame(psa_cost), effectiveness = as.data.frame(psa_effect), strategies = strategies)
+plot(psa)                                            # cost-effectiveness plane
+plot(ceac(wtp = seq(0, ${wtpMax}, length.out = ${CEAC_STEPS + 1}), psa = psa))   # acceptability curve` : ''}`;
+
+    return {
+      results,
+      interpretation: `At a willingness to pay of ${money(wtp)} per unit of effect, ${strategies[optimal].name} has the highest net monetary benefit (${money(nmb(strategies[optimal], wtp))}).${frontierText.length > 0 ? ` On the efficiency frontier: ${frontierText.join('; ')}.` : ''}${excluded.length > 0 ? ` ${excluded.join('; ')}.` : ''}${probabilityText}`,
+      rCode,
+      formula: `ICER = (C₂ - C₁) / (E₂ - E₁) between successive non-dominated strategies;  NMB = λ·E - C;  CEAC(λ) = P(strategy has the highest NMB at λ)`,
+      sensitivityTable: {
+        title: 'Net Monetary Benefit by Willingness to Pay',
+        parameter: 'WTP',
+        columns: strategies.map(s => s.name),
+        rows: range.map(lambda => ({ value: money(lambda), cells: strategies.map(s => nmb(s, lambda)), highlight: lambda === wtp })),
+        precision: 0
+      },
+      scatterPlots: probabilistic ? [
+        {
+          title: 'Cost-Effectiveness Plane',
+          xLabel: `Incremental effect vs ${strategies[base].name}`,
+          yLabel: 'Incremental cost',
+          points: planePoints,
+          line: planeRange.map(x => ({ x, y: wtp * x })),
+          series: 'points'
+        },
+        {
+          title: 'Cost-Effectiveness Acceptability Curve',
+          xLabel: 'Willingness to pay',
+          yLabel: 'Probability cost-effective',
+          points: ceac.flatMap(c => strategies.map((s, i) => ({ x: c.lambda, y: c.p[i], label: s.name }))),
+          series: 'lines'
+        }
+      ] : undefined
+    };
+  }
+};
@@ -37,8 +37,8 @@ export const epiMeasures: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Relative Risk (RR)', value: rr.toFixed(3), isMain: true },
-        { label: 'Odds Ratio (OR)', value: or.toFixed(3), isMain: true }
+        { label: 'Relative Risk (RR)', estimate: rr, precision: 3, isMain: true },
+        { label: 'Odds Ratio (OR)', estimate: or, precision: 3, isMain: true }
       ],
       interpretation: `RR is ${rr.toFixed(2)}, OR is ${or.toFixed(2)}. This suggests a ${rr > 1 ? 'positive' : 'negative'} association between exposure and outcome.`,
       rCode,
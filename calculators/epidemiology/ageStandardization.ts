@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { parseNumericInput } from '../descriptive/utils';
+import { parseLabels } from '../survival/utils';
+import { parseAgeStrata, standardWeights, STANDARD_POPULATIONS } from './utils';
+
+interface StandardizationInput {
+  strata: string,
+  groups?: string,
+  standard: 'who-2000' | 'us-2000' | 'esp-2013' | 'custom',
+  customStandard?: string,
+  referenceRates?: string,
+  multiplier: number,
+  conf: number
+}
+
+// Standard population weights for the entered bands, or null when they cannot be matched
+const weightsFor = (d: Partial<StandardizationInput>): number[] | null => {
+  const strata = parseAgeStrata(d.strata || '');
+  if (!strata) return null;
+  if (d.standard !== 'custom') return standardWeights(strata.labels, d.standard || 'who-2000');
+  const custom = parseNumericInput(d.customStandard || '');
+  return custom.length === strata.labels.length && custom.every(v => v >= 0) && custom.some(v => v > 0) ? custom : null;
+};
+
+const fmtNum = (v: number) => String(Number(v.toPrecision(6)));
+
+export const ageStandardization: CalculatorDefinition<StandardizationInput> = {
+  metadata: {
+    id: 'age-standardization',
+    title: 'Age Standardization (Direct & Indirect)',
+    category: Category.EPIDEMIOLOGY,
+    description: 'Directly standardized rates from age-specific events and person-time against the WHO, US 2000, European 2013 or a custom standard population, with Fay-Feuer gamma intervals, comparative rate ratios and indirectly standardized SMRs.',
+    keywords: ['standardization', 'age-adjusted', 'direct', 'indirect', 'DSR', 'SMR', 'standard population', 'WHO', 'fay-feuer', 'comparative mortality figure']
+  },
+  schema: z.object({
+    strata: z.string().min(1, "Enter at least one age band")
+      .refine(s => parseAgeStrata(s) !== null, "Enter one age band per line: a label, then events and person-time for each population. Person-time must be positive.")
+      .describe("Age Bands (one per line: band, then events and person-time per population)"),
+    groups: z.string().optional().describe("Population Names (comma separated)"),
+    standard: z.enum(['who-2000', 'us-2000', 'esp-2013', 'custom']).default('who-2000').describe("Standard Population"),
+    customStandard: z.string().optional().describe("Custom Standard Population (one count per age band)"),
+    referenceRates: z.string().optional().describe("Reference Rates for SMR (per multiplier, one per age band)"),
+    multiplier: z.number().min(1).default(100000).describe("Rates per (person-time units)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => !parseAgeStrata(d.strata || '') || weightsFor(d) !== null, {
+    message: "Age bands must be ranges such as 40-44 or 85+ whose limits match groups of the chosen standard population; a custom standard needs one non-negative count per band."
+  }).refine(d => {
+    const strata = parseAgeStrata(d.strata || '');
+    const rates = parseNumericInput(d.referenceRates || '');
+    return !strata || rates.length === 0 || (rates.length === strata.labels.length && rates.every(v => v >= 0));
+  }, {
+    message: "Reference rates need one non-negative rate per age band."
+  }),
+  examples: [
+    {
+      strata: '0-14, 3, 41200, 5, 18400\n15-44, 18, 88500, 14, 36100\n45-64, 96, 52800, 31, 12700\n65+, 240, 21400, 47, 3900',
+      groups: 'Region A, Region B',
+      standard: 'who-2000',
+      referenceRates: '8, 20, 150, 900',
+      multiplier: 100000,
+      conf: 95
+    },
+    {
+      strata: '0-44, 4, 12000\n45-64, 15, 8000\n65-74, 22, 3100\n75+, 30, 1500',
+      standard: 'esp-2013',
+      multiplier: 1000,
+      conf: 90
+    }
+  ],
+  references: [
+    {
+      author: "Fay MP, Feuer EJ",
+      year: 1997,
+      title: "Confidence intervals for directly standardized rates: a method based on the gamma distribution",
+      source: "Statistics in Medicine 16(7):791-801",
+      doi: "10.1002/(SICI)1097-0258(19970415)16:7<791::AID-SIM500>3.0.CO;2-#"
+    },
+    {
+      author: "Ahmad OB, Boschi-Pinto C, Lopez AD, Murray CJL, Lozano R, Inoue M",
+      year: 2001,
+      title: "Age Standardization of Rates: A New WHO Standard",
+      source: "GPE Discussion Paper Series No. 31, World Health Organization",
+      doi: "N/A"
+    },
+    {
+      author: "Breslow NE, Day NE",
+      year: 1987,
+      title: "Statistical Methods in Cancer Research, Vol. II: The Design and Analysis of Cohort Studies",
+      source: "IARC Scientific Publications No. 82",
+      doi: "N/A"
+    }
+  ],
+  compute: (data) => {
+    const { multiplier, conf } = data;
+    const strata = parseAgeStrata(data.strata)!;
+    const weights = weightsFor(data)!;
+    const names = parseLabels(data.groups || '');
+    const name = (g: number) => names[g] || `Population ${g + 1}`;
+    const refRates = parseNumericInput(data.referenceRates || '').map(r => r / multiplier);
+    const alpha = 1 - conf / 100;
+    const z = dist.getZCritical(conf);
+    const total = weights.reduce((s, w) => s + w, 0);
+    const w = weights.map(v => v / total);
+    const standardName = data.standard === 'custom' ? 'Custom Standard Population' : STANDARD_POPULATIONS[data.standard].name;
+
+    const populations = strata.events.map((events, g) => {
+      const time = strata.time[g];
+      const observed = events.reduce((s, v) => s + v, 0);
+      const crude = observed / time.reduce((s, v) => s + v, 0);
+      const dsr = w.reduce((s, wi, i) => s + (wi * events[i]) / time[i], 0);
+      const variance = w.reduce((s, wi, i) => s + (wi * wi * events[i]) / (time[i] * time[i]), 0);
+
+      // Fay-Feuer: gamma limits matched to the DSR's mean and variance, the upper one inflated by the largest weight per person-time
+      const wm = Math.max(...w.map((wi, i) => wi / time[i]));
+      const lower = dsr === 0 ? 0 : (variance / dsr) * dist.gammaQuantile(alpha / 2, (dsr * dsr) / variance);
+      const upper = ((variance + wm * wm) / (dsr + wm)) * dist.gammaQuantile(1 - alpha / 2, ((dsr + wm) * (dsr + wm)) / (variance + wm * wm));
+
+      const expected = refRates.length > 0 ? refRates.reduce((s, r, i) => s + r * time[i], 0) : NaN;
+      return { events, time, observed, crude, dsr, variance, lower, upper, expected };
+    });
+
+    const results: CalculationResult[] = [];
+    populations.forEach((p, g) => {
+      results.push(
+        { label: `Age-Standardized Rate (${name(g)})`, estimate: p.dsr * multiplier, lower: p.lower * multiplier, upper: p.upper * multiplier, confLevel: conf, method: 'Fay-Feuer gamma', units: `per ${multiplier.toLocaleString()}`, precision: 2, isMain: true },
+        { label: `Crude Rate (${name(g)})`, estimate: p.crude * multiplier, units: `per ${multiplier.toLocaleString()}`, precision: 2, description: `${p.observed} events` }
+      );
+    });
+
+    // Comparative rate ratios against the first population, on the log scale
+    const base = populations[0];
+    const ratios = populations.slice(1).map((p, i) => {
+      const ratio = p.dsr / base.dsr;
+      const se = Math.sqrt(p.variance / (p.dsr * p.dsr) + base.variance / (base.dsr * base.dsr));
+      const finite = p.dsr > 0 && base.dsr > 0;
+      results.push({
+        label: `Rate Ratio (${name(i + 1)} vs ${name(0)})`, estimate: ratio,
+        lower: finite ? ratio * Math.exp(-z * se) : undefined, upper: finite ? ratio * Math.exp(z * se) : undefined,
+        confLevel: conf, method: 'Log-normal, ratio of standardized rates', precision: 3, isMain: true
+      });
+      return ratio;
+    });
+
+    // Indirect standardization: observed events against those expected at the reference rates (exact Poisson limits)
+    if (refRates.length > 0) {
+      populations.forEach((p, g) => {
+        const smr = p.observed / p.expected;
+        const lower = p.observed === 0 ? 0 : dist.chiSqQuantile(alpha / 2, 2 * p.observed) / (2 * p.expected);
+        const upper = dist.chiSqQuantile(1 - alpha / 2, 2 * (p.observed + 1)) / (2 * p.expected);
+        results.push({
+          label: `SMR (${name(g)})`, estimate: smr, lower, upper, confLevel: conf, method: 'Exact Poisson', precision: 3, isMain: true,
+          description: `Observed ${p.observed} / expected ${p.expected.toFixed(2)}`
+        });
+      });
+    }
+    results.push({ label: 'Standard Population', text: standardName, description: `${strata.labels.length} age bands: ${strata.labels.join(', ')}` });
+
+    const stdpop = weights.map(fmtNum).join(', ');
+    const rCode = `# Age Standardization (install.packages("epitools"))
+library(epitools)
+age <- c(${strata.labels.map(l => `"${l}"`).join(', ')})
+stdpop <- c(${stdpop})   # ${standardName}, summed over each band
+${populations.map((p, g) => `
+# ${name(g)}
+count${g + 1} <- c(${p.events.join(', ')})
+pop${g + 1} <- c(${p.time.join(', ')})
+ageadjust.direct(count${g + 1}, pop${g + 1}, stdpop = stdpop, conf.level = ${conf / 100}) * ${multiplier}`).join('\n')}${refRates.length > 0 ? `
+
+# Indirect standardization: SMR with exact Poisson CI
+ref <- c(${refRates.map(r => fmtNum(r * multiplier)).join(', ')}) / ${multiplier}
+${populations.map((_, g) => `poisson.test(sum(count${g + 1}), sum(ref * pop${g + 1}), conf.level = ${conf / 100})`).join('\n')}` : ''}`;
+
+    const unit = `per ${multiplier.toLocaleString()}`;
+    const rateText = populations.map((p, g) => `${name(g)} ${(p.dsr * multiplier).toFixed(1)} ${unit} (crude ${(p.crude * multiplier).toFixed(1)})`).join('; ');
+    const ratioText = ratios.length > 0
+      ? ` Relative to ${name(0)}, the standardized rate ratio${ratios.length > 1 ? 's are' : ' is'} ${ratios.map(r => r.toFixed(2)).join(', ')}.`
+      : '';
+
+    return {
+      results,
+      interpretation: `Standardized to the ${standardName} over ${strata.labels.length} age bands: ${rateText}.${ratioText}`,
+      rCode,
+      formula: `DSR = Σ wᵢ dᵢ/Tᵢ;  Var = Σ wᵢ² dᵢ/Tᵢ²;  Fay-Feuer: Gamma(DSR²/Var, Var/DSR) limits;  SMR = Σ dᵢ / Σ λᵢTᵢ`
+    };
+  }
+};
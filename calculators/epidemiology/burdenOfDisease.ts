@@ -0,0 +1,231 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+
+interface BurdenInput {
+  mode: 'daly' | 'qaly',
+  approach: 'incidence' | 'prevalence',
+  morbidity?: string,
+  mortality?: string,
+  comparator?: string,
+  intervention?: string,
+  discountRate: number,
+  ageWeighting: boolean
+}
+
+// GBD 1996 age-weighting function C·x·e^(-βx)
+const AGE_WEIGHT_C = 0.1658;
+const AGE_WEIGHT_BETA = 0.04;
+const SENSITIVITY_RATES = [0, 1, 2, 3, 4, 5, 6];
+
+// One line per row of numbers; null when a line has a count outside [min, max] or a negative value
+const parseRows = (input: string | undefined, min: number, max: number): number[][] | null => {
+  const lines = (input || '').split(/[\r\n]+/).map(l => l.trim()).filter(l => l !== '');
+  const rows = lines.map(line => line.split(/[,;\s]+/).map(Number));
+  return rows.every(r => r.length >= min && r.length <= max && r.every(v => !isNaN(v) && v >= 0)) ? rows : null;
+};
+
+const morbidityRows = (d: Partial<BurdenInput>) => parseRows(d.morbidity, d.approach === 'prevalence' ? 2 : 4, 4);
+const mortalityRows = (d: Partial<BurdenInput>) => parseRows(d.mortality, 3, 3);
+const profileRows = (input?: string) => parseRows(input, 2, 2);
+
+/**
+ * Weighted years lived from age a for L years at weight w (Murray 1994): the integral of
+ * w·[K·C·x·e^(-βx) + (1 - K)]·e^(-r(x - a)) over [a, a + L], for continuous discount rate r.
+ */
+const burdenYears = (w: number, a: number, L: number, r: number, K: number): number => {
+  const rb = r + AGE_WEIGHT_BETA;
+  const weighted = K === 0 ? 0 : ((K * AGE_WEIGHT_C * Math.exp(r * a)) / (rb * rb))
+    * (Math.exp(-rb * (a + L)) * (-rb * (a + L) - 1) - Math.exp(-rb * a) * (-rb * a - 1));
+  const flat = r === 0 ? (1 - K) * L : ((1 - K) / r) * (1 - Math.exp(-r * L));
+  return w * (weighted + flat);
+};
+
+export const burdenOfDisease: CalculatorDefinition<BurdenInput> = {
+  metadata: {
+    id: 'daly-qaly',
+    title: 'DALY / QALY Burden of Disease',
+    category: Category.EPIDEMIOLOGY,
+    description: 'Disability-adjusted life years from morbidity (YLD) and mortality (YLL) with optional age weighting and discounting, or QALYs gained by an intervention over a comparator, with a sensitivity table over the discount rate.',
+    keywords: ['DALY', 'QALY', 'YLD', 'YLL', 'burden of disease', 'disability weight', 'discounting', 'age weighting', 'utility', 'GBD']
+  },
+  schema: z.object({
+    mode: z.enum(['daly', 'qaly']).default('daly').describe("Measure"),
+    approach: z.enum(['incidence', 'prevalence']).default('incidence').describe("YLD Approach"),
+    morbidity: z.string().optional().describe("Morbidity (one line per sequela: cases, disability weight, duration, age at onset)"),
+    mortality: z.string().optional().describe("Mortality (one line per age group: deaths, age at death, remaining life expectancy)"),
+    comparator: z.string().optional().describe("QALY Comparator (one line per health state: utility, years)"),
+    intervention: z.string().optional().describe("QALY Intervention (one line per health state: utility, years)"),
+    discountRate: z.number().min(0).max(15).default(3).describe("Discount Rate (%)"),
+    ageWeighting: z.boolean().default(false).describe("GBD 1996 Age Weighting")
+  }).refine(d => d.mode !== 'daly' || (morbidityRows(d) !== null && mortalityRows(d) !== null && morbidityRows(d)!.length + mortalityRows(d)!.length > 0), {
+    message: "DALYs need morbidity lines (cases, disability weight, duration, age at onset; cases and weight alone for prevalence-based YLD) and/or mortality lines (deaths, age at death, remaining life expectancy)."
+  }).refine(d => d.mode !== 'daly' || (morbidityRows(d) || []).every(r => r[1] <= 1), {
+    message: "Disability weights must lie between 0 (full health) and 1 (death)."
+  }).refine(d => d.mode !== 'qaly' || ((profileRows(d.comparator) || []).length > 0 && (profileRows(d.intervention) || []).length > 0), {
+    message: "QALYs need comparator and intervention profiles, one health state per line as utility, years."
+  }).refine(d => d.mode !== 'qaly' || [...(profileRows(d.comparator) || []), ...(profileRows(d.intervention) || [])].every(r => r[0] <= 1), {
+    message: "Utilities must not exceed 1 (full health)."
+  }),
+  examples: [
+    {
+      mode: 'daly',
+      approach: 'incidence',
+      morbidity: '1200, 0.051, 0.04, 25\n300, 0.133, 12, 40',
+      mortality: '15, 45, 37.1\n40, 70, 14.0',
+      discountRate: 3,
+      ageWeighting: true
+    },
+    {
+      mode: 'qaly',
+      approach: 'incidence',
+      comparator: '0.62, 4\n0.40, 2',
+      intervention: '0.78, 6\n0.55, 3',
+      discountRate: 3.5,
+      ageWeighting: false
+    }
+  ],
+  references: [
+    {
+      author: "Murray CJL",
+      year: 1994,
+      title: "Quantifying the burden of disease: the technical basis for disability-adjusted life years",
+      source: "Bulletin of the World Health Organization 72(3):429-445",
+      doi: "N/A"
+    },
+    {
+      author: "Fox-Rushby JA, Hanson K",
+      year: 2001,
+      title: "Calculating and presenting disability adjusted life years (DALYs) in cost-effectiveness analysis",
+      source: "Health Policy and Planning 16(3):326-331",
+      doi: "10.1093/heapol/16.3.326"
+    },
+    {
+      author: "Drummond MF, Sculpher MJ, Claxton K, Stoddart GL, Torrance GW",
+      year: 2015,
+      title: "Methods for the Economic Evaluation of Health Care Programmes",
+      source: "Oxford University Press, 4th Edition",
+      doi: "N/A"
+    }
+  ],
+  compute: (data) => {
+    const { mode, discountRate } = data;
+    const r = discountRate / 100;
+    const rateLabel = (rate: number) => `${rate}%`;
+    const sensitivityRates = [...new Set([...SENSITIVITY_RATES, discountRate])].sort((a, b) => a - b);
+
+    if (mode === 'qaly') {
+      const comparator = profileRows(data.comparator)!;
+      const intervention = profileRows(data.intervention)!;
+
+      // Health states follow one another; each is discounted from its start time
+      const qalys = (profile: number[][], rate: number) => {
+        let t = 0;
+        return profile.reduce((s, [u, years]) => {
+          const value = Math.exp(-rate * t) * burdenYears(u, 0, years, rate, 0);
+          t += years;
+          return s + value;
+        }, 0);
+      };
+      const years = (profile: number[][]) => profile.reduce((s, row) => s + row[1], 0);
+      const qComparator = qalys(comparator, r);
+      const qIntervention = qalys(intervention, r);
+      const gained = qIntervention - qComparator;
+
+      const rCode = `# QALYs with continuous discounting at ${discountRate}% a year
+qalys <- function(utility, years, r) {
+  start <- c(0, head(cumsum(years), -1))
+  sum(utility * if (r == 0) years else exp(-r * start) * (1 - exp(-r * years)) / r)
+}
+comparator <- list(utility = c(${comparator.map(row => row[0]).join(', ')}), years = c(${comparator.map(row => row[1]).join(', ')}))
+intervention <- list(utility = c(${intervention.map(row => row[0]).join(', ')}), years = c(${intervention.map(row => row[1]).join(', ')}))
+q <- sapply(list(comparator, intervention), function(p) qalys(p$utility, p$years, ${r}))
+diff(q)   # QALYs gained
+
+# Sensitivity to the discount rate
+rates <- c(${sensitivityRates.map(v => v / 100).join(', ')})
+sapply(rates, function(r) qalys(intervention$utility, intervention$years, r) - qalys(comparator$utility, comparator$years, r))`;
+
+      return {
+        results: [
+          { label: 'QALYs Gained', estimate: gained, units: 'QALYs per person', precision: 3, isMain: true },
+          { label: 'QALYs (Intervention)', estimate: qIntervention, precision: 3, isMain: true },
+          { label: 'QALYs (Comparator)', estimate: qComparator, precision: 3 },
+          { label: 'Undiscounted QALYs Gained', estimate: qalys(intervention, 0) - qalys(comparator, 0), precision: 3 },
+          { label: 'Life Years Gained', estimate: years(intervention) - years(comparator), units: 'years', precision: 2, description: 'Undiscounted' }
+        ],
+        interpretation: `Discounted at ${discountRate}% a year, the intervention yields ${qIntervention.toFixed(2)} QALYs per person against ${qComparator.toFixed(2)} for the comparator, ${gained >= 0 ? 'a gain' : 'a loss'} of ${Math.abs(gained).toFixed(3)} QALYs${gained > 0 ? ' that can be set against its incremental cost' : ''}.`,
+        rCode,
+        formula: `QALY = Σ u_j · e^(-r·t_j) · (1 - e^(-r·L_j)) / r;  t_j = start of state j;  ΔQALY = QALY_intervention - QALY_comparator`,
+        sensitivityTable: {
+          title: 'Sensitivity to the Discount Rate',
+          parameter: 'Discount rate',
+          columns: ['Comparator', 'Intervention', 'QALYs gained'],
+          rows: sensitivityRates.map(rate => {
+            const c = qalys(comparator, rate / 100);
+            const i = qalys(intervention, rate / 100);
+            return { value: rateLabel(rate), cells: [c, i, i - c], highlight: rate === discountRate };
+          }),
+          precision: 3
+        }
+      };
+    }
+
+    const morbidity = morbidityRows(data)!;
+    const mortality = mortalityRows(data)!;
+    const K = data.ageWeighting ? 1 : 0;
+
+    // Prevalence-based YLD is one year of prevalent disability, neither discounted nor age weighted
+    const yldAt = (rate: number, k: number) => morbidity.reduce((s, [cases, dw, duration, onset]) =>
+      s + cases * (data.approach === 'prevalence' ? dw : burdenYears(dw, onset, duration, rate, k)), 0);
+    const yllAt = (rate: number, k: number) => mortality.reduce((s, [deaths, age, le]) => s + deaths * burdenYears(1, age, le, rate, k), 0);
+    const yld = yldAt(r, K);
+    const yll = yllAt(r, K);
+    const daly = yld + yll;
+    const plainDaly = yldAt(0, 0) + yllAt(0, 0);
+    const settings = `${data.ageWeighting ? 'age-weighted, ' : ''}${discountRate > 0 ? `discounted at ${discountRate}%` : 'undiscounted'}`;
+
+    const results: CalculationResult[] = [
+      { label: 'DALYs', estimate: daly, units: 'years', precision: 1, isMain: true, description: settings },
+      { label: 'YLD', estimate: yld, units: 'years', precision: 1, isMain: true, description: `${data.approach === 'prevalence' ? 'Prevalence' : 'Incidence'}-based, ${morbidity.length} sequela${morbidity.length === 1 ? '' : 'e'}` },
+      { label: 'YLL', estimate: yll, units: 'years', precision: 1, isMain: true },
+      daly > 0
+        ? { label: 'YLD Share of DALYs', estimate: yld / daly, format: 'percent', precision: 1 }
+        : { label: 'YLD Share of DALYs', text: 'Not applicable', description: 'There are no DALYs to divide' },
+      { label: 'Undiscounted, Unweighted DALYs', estimate: plainDaly, units: 'years', precision: 1 }
+    ];
+
+    const rows = (input: number[][]) => input.map(row => `c(${row.join(', ')})`).join(',\n  ');
+    const rCode = `# DALYs (Murray 1994): K = ${K} (age weighting), r = ${r} (continuous discount rate)
+burden <- function(w, a, L, r, K, C = ${AGE_WEIGHT_C}, beta = ${AGE_WEIGHT_BETA}) {
+  rb <- r + beta
+  weighted <- K * C * exp(r * a) / rb^2 * (exp(-rb * (a + L)) * (-rb * (a + L) - 1) - exp(-rb * a) * (-rb * a - 1))
+  flat <- if (r == 0) (1 - K) * L else (1 - K) / r * (1 - exp(-r * L))
+  w * (weighted + flat)
+}
+${morbidity.length > 0 ? `morbidity <- rbind(  # cases, disability weight${data.approach === 'incidence' ? ', duration, age at onset' : ''}
+  ${rows(morbidity)})
+yld <- sum(${data.approach === 'prevalence' ? 'morbidity[, 1] * morbidity[, 2]' : `morbidity[, 1] * burden(morbidity[, 2], morbidity[, 4], morbidity[, 3], ${r}, ${K})`})` : 'yld <- 0'}
+${mortality.length > 0 ? `mortality <- rbind(  # deaths, age at death, remaining life expectancy
+  ${rows(mortality)})
+yll <- sum(mortality[, 1] * burden(1, mortality[, 2], mortality[, 3], ${r}, ${K}))` : 'yll <- 0'}
+c(YLD = yld, YLL = yll, DALY = yld + yll)`;
+
+    return {
+      results,
+      interpretation: `The condition causes ${daly.toFixed(1)} DALYs (${settings}): ${yld.toFixed(1)} years lived with disability and ${yll.toFixed(1)} years of life lost${daly > 0 ? `, so ${((yld / daly) * 100).toFixed(1)}% of the burden is non-fatal` : ''}. Without discounting or age weighting the burden is ${plainDaly.toFixed(1)} DALYs.`,
+      rCode,
+      formula: `DALY = YLL + YLD;  YLD = I × DW × L (incidence) or P × DW (prevalence);  YLL = N × e*;  each term: ∫ₐ^(a+L) [K·C·x·e^(-βx) + 1 - K]·e^(-r(x - a)) dx, C = ${AGE_WEIGHT_C}, β = ${AGE_WEIGHT_BETA}`,
+      sensitivityTable: {
+        title: 'Sensitivity to the Discount Rate',
+        parameter: 'Discount rate',
+        columns: ['YLD', 'YLL', 'DALYs'],
+        rows: sensitivityRates.map(rate => {
+          const d = yldAt(rate / 100, K);
+          const l = yllAt(rate / 100, K);
+          return { value: rateLabel(rate), cells: [d, l, d + l], highlight: rate === discountRate };
+        }),
+        precision: 1
+      }
+    };
+  }
+};
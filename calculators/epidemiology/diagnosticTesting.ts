@@ -35,18 +35,18 @@ export const diagnosticTesting: CalculatorDefinition<{ tp: number, fp: number, f
       npvAdj = (spec * (1 - prev)) / (spec * (1 - prev) + (1 - sens) * prev);
     }
 
-    const rCode = `# Requires 'epiR' package\n# install.packages("epiR")\nlibrary(epiR)\n\n# Create 2x2 table for diagnostic tests\n# Table format: [TP, FP, FN, TN]\ndat <- as.table(matrix(c(${tp}, ${fn}, ${fp}, ${tn}), nrow = 2, byrow = TRUE))\n\n# Detailed diagnostic metrics\nepi.tests(dat, conf.level = 0.95)`;
+    const rCode = `# Requires 'epiR' package\n# install.packages("epiR")\nlibrary(epiR)\n\n# Create 2x2 table for diagnostic tests\n# Table format: [TP, FP, FN, TN]\ndat <- as.table(matrix(c(${tp}, ${fp}, ${fn}, ${tn}), nrow = 2, byrow = TRUE))\n\n# Detailed diagnostic metrics\nepi.tests(dat, conf.level = 0.95)${data.prevalence !== undefined ? `\n\n# Predictive values at the stated prevalence\nsens <- ${tp} / ${tp + fn}\nspec <- ${tn} / ${tn + fp}\nprev <- ${data.prevalence / 100}\nppv <- sens * prev / (sens * prev + (1 - spec) * (1 - prev))\nnpv <- spec * (1 - prev) / (spec * (1 - prev) + (1 - sens) * prev)` : ''}`;
 
     const f = (v: number) => (v * 100).toFixed(2) + '%';
 
     return {
       results: [
-        { label: 'Sensitivity (TPR)', value: f(sens), isMain: true },
-        { label: 'Specificity (TNR)', value: f(spec), isMain: true },
-        { label: 'PPV', value: f(ppvAdj), isMain: true },
-        { label: 'NPV', value: f(npvAdj), isMain: true },
-        { label: 'LR+', value: lrPlus.toFixed(2) },
-        { label: 'LR-', value: lrMinus.toFixed(2) }
+        { label: 'Sensitivity (TPR)', estimate: sens, format: 'percent', isMain: true },
+        { label: 'Specificity (TNR)', estimate: spec, format: 'percent', isMain: true },
+        { label: 'PPV', estimate: ppvAdj, format: 'percent', isMain: true },
+        { label: 'NPV', estimate: npvAdj, format: 'percent', isMain: true },
+        { label: 'LR+', estimate: lrPlus, precision: 2 },
+        { label: 'LR-', estimate: lrMinus, precision: 2 }
       ],
       interpretation: `Test catches ${f(sens)} of diseased individuals.`,
       rCode,
@@ -2,7 +2,6 @@
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
 import { computeRD, formatPercent } from './utils';
-import * as ciUtils from '../confidenceIntervals/utils';
 
 export const riskDiffCalc: CalculatorDefinition<{ 
   exposed_cases: number, 
@@ -36,10 +35,10 @@ export const riskDiffCalc: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Risk Difference (RD)', value: res.value.toFixed(4), isMain: true },
-        { label: '95% Confidence Interval', value: ciUtils.formatCI(res.lower, res.upper, 4), isMain: true },
-        { label: 'RD Percentage', value: formatPercent(res.value) },
-        { label: res.value < 0 ? 'Number Needed to Treat (NNT)' : 'Number Needed to Harm (NNH)', value: isFinite(res.nnt) ? res.nnt : 'N/A', isMain: true }
+        { label: 'Risk Difference (RD)', estimate: res.value, precision: 4, isMain: true },
+        { label: '95% Confidence Interval', estimate: res.value, lower: res.lower, upper: res.upper, confLevel: 95, method: 'Wald', precision: 4, isMain: true },
+        { label: 'RD Percentage', estimate: res.value, format: 'percent' },
+        { label: res.value < 0 ? 'Number Needed to Treat (NNT)' : 'Number Needed to Harm (NNH)', ...(isFinite(res.nnt) ? { estimate: res.nnt } : { text: 'N/A' }), isMain: true }
       ],
       interpretation: `The absolute risk difference is ${formatPercent(res.value)}. To see one additional outcome, you need to study ${res.nnt} people.`,
       rCode,
@@ -68,8 +67,8 @@ export const vaccineEffectiveness: CalculatorDefinition<{ r_vac: number, r_unvac
 
     return {
       results: [
-        { label: 'Vaccine Effectiveness', value: formatPercent(ve), isMain: true },
-        { label: 'Relative Risk (RR)', value: rr.toFixed(3) }
+        { label: 'Vaccine Effectiveness', estimate: ve, format: 'percent', isMain: true },
+        { label: 'Relative Risk (RR)', estimate: rr, precision: 3 }
       ],
       interpretation: `The vaccine reduces the risk of disease by ${formatPercent(ve)} compared to the unvaccinated group.`,
       rCode,
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { parseNumericInput } from '../descriptive/utils';
+import { AgeBand, parseAgeBand, parseAgeStrata } from './utils';
+
+interface LifeTableInput {
+  strata: string,
+  yllStandard: 'gbd-2019' | 'life-table' | 'custom',
+  customLifeExpectancy?: string,
+  conf: number
+}
+
+// GBD 2019 theoretical minimum risk reference life table: remaining life expectancy at each exact age
+const GBD_2019: [number, number][] = [
+  [0, 88.87], [1, 88.00], [5, 84.03], [10, 79.05], [15, 74.07], [20, 69.11], [25, 64.15], [30, 59.20], [35, 54.25], [40, 49.32],
+  [45, 44.43], [50, 39.63], [55, 34.91], [60, 30.25], [65, 25.68], [70, 21.29], [75, 17.10], [80, 13.24], [85, 9.99], [90, 7.62], [95, 5.92]
+];
+
+const RADIX = 100000;
+
+const DISTRICT = `0, 22, 5400
+1-4, 4, 21800
+5-9, 2, 27100
+10-14, 2, 26500
+15-19, 6, 25900
+20-24, 11, 28400
+25-29, 13, 31200
+30-34, 15, 30800
+35-39, 21, 29900
+40-44, 34, 31500
+45-49, 58, 33200
+50-54, 92, 32100
+55-59, 141, 28700
+60-64, 210, 25300
+65-69, 305, 22800
+70-74, 412, 17600
+75-79, 530, 12900
+80-84, 640, 8800
+85-89, 610, 4700
+90+, 520, 1900`;
+
+// Age groups with one deaths and population column each, contiguous and ending in an open group
+const parseLifeTable = (input: string): { bands: AgeBand[], deaths: number[], population: number[] } | null => {
+  const strata = parseAgeStrata(input);
+  if (!strata || strata.events.length !== 1) return null;
+  const bands = strata.labels.map(parseAgeBand);
+  if (bands.some(b => b === null)) return null;
+  const contiguous = bands.every((b, i) => i === 0 || b!.lo === bands[i - 1]!.hi + 1);
+  const open = bands.every((b, i) => (b!.hi === Infinity) === (i === bands.length - 1));
+  return contiguous && open && bands.length >= 2 ? { bands: bands as AgeBand[], deaths: strata.events[0], population: strata.time[0] } : null;
+};
+
+// Linear interpolation in a life expectancy schedule, held constant beyond its ends
+const interpolate = (schedule: [number, number][], age: number): number => {
+  if (age <= schedule[0][0]) return schedule[0][1];
+  const j = schedule.findIndex(([x]) => x >= age);
+  if (j === -1) return schedule[schedule.length - 1][1];
+  const [x0, e0] = schedule[j - 1];
+  const [x1, e1] = schedule[j];
+  return e0 + ((age - x0) / (x1 - x0)) * (e1 - e0);
+};
+
+export const lifeTable: CalculatorDefinition<LifeTableInput> = {
+  metadata: {
+    id: 'life-table',
+    title: 'Abridged Life Table & Years of Life Lost',
+    category: Category.EPIDEMIOLOGY,
+    description: 'Period life table from age-group deaths and mid-year populations by the Chiang method, with life expectancy and its CI at each age, and years of life lost (YLL) against a standard life table.',
+    keywords: ['life table', 'life expectancy', 'chiang', 'abridged', 'YLL', 'years of life lost', 'burden of disease', 'mortality', 'GBD']
+  },
+  schema: z.object({
+    strata: z.string().min(1, "Enter at least two age groups")
+      .refine(s => parseLifeTable(s) !== null, "Enter one age group per line as band, deaths, mid-year population. Groups must be contiguous (0, 1-4, 5-9, ...) and end in an open group such as 85+.")
+      .refine(s => { const t = parseLifeTable(s); return !t || t.deaths[t.deaths.length - 1] > 0; }, "The final open-ended age group needs at least one death.")
+      .describe("Age Groups (one per line: band, deaths, mid-year population)"),
+    yllStandard: z.enum(['gbd-2019', 'life-table', 'custom']).default('gbd-2019').describe("YLL Standard Life Table"),
+    customLifeExpectancy: z.string().optional().describe("Custom Life Expectancy at Death (one per age group)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => {
+    const t = parseLifeTable(d.strata || '');
+    return !t || d.yllStandard !== 'custom' || parseNumericInput(d.customLifeExpectancy || '').length === t.bands.length;
+  }, {
+    message: "A custom standard needs one remaining life expectancy per age group."
+  }),
+  examples: [
+    {
+      strata: DISTRICT,
+      yllStandard: 'gbd-2019',
+      conf: 95
+    },
+    {
+      strata: '0-14, 18, 42000\n15-44, 95, 88000\n45-64, 420, 51000\n65-74, 610, 17500\n75+, 1350, 12400',
+      yllStandard: 'custom',
+      customLifeExpectancy: '80, 55, 30, 17, 8',
+      conf: 90
+    }
+  ],
+  references: [
+    {
+      author: "Chiang CL",
+      year: 1984,
+      title: "The Life Table and its Applications",
+      source: "Robert E. Krieger Publishing, Malabar, FL",
+      doi: "N/A"
+    },
+    {
+      author: "Silcocks PBS, Jenner DA, Reza R",
+      year: 2001,
+      title: "Life expectancy as a summary of mortality in a population: statistical considerations and suitability for use by health authorities",
+      source: "Journal of Epidemiology and Community Health 55(1):38-43",
+      doi: "10.1136/jech.55.1.38"
+    },
+    {
+      author: "GBD 2019 Demographics Collaborators",
+      year: 2020,
+      title: "Global age-sex-specific fertility, mortality, healthy life expectancy (HALE), and population estimates in 204 countries and territories, 1950-2019",
+      source: "The Lancet 396(10258):1160-1203",
+      doi: "10.1016/S0140-6736(20)30977-6"
+    }
+  ],
+  compute: (data) => {
+    const { conf } = data;
+    const { bands, deaths, population } = parseLifeTable(data.strata)!;
+    const k = bands.length;
+    const last = k - 1;
+    const z = dist.getZCritical(conf);
+
+    // Chiang II: a = 0.1 for the first year of life, 0.5 elsewhere; q from the central death rate M
+    const width = bands.map(b => b.hi - b.lo + 1);
+    const a = bands.map(b => (b.lo === 0 && b.hi === 0 ? 0.1 : 0.5));
+    const m = deaths.map((d, i) => d / population[i]);
+    const q = m.map((mi, i) => (i === last ? 1 : (width[i] * mi) / (1 + (1 - a[i]) * width[i] * mi)));
+    const l: number[] = [RADIX];
+    for (let i = 1; i < k; i++) l.push(l[i - 1] * (1 - q[i - 1]));
+    const dx = l.map((li, i) => li * q[i]);
+    const L = l.map((li, i) => (i === last ? li / m[last] : width[i] * (li - dx[i]) + a[i] * width[i] * dx[i]));
+    const T = L.map((_, i) => L.slice(i).reduce((s, v) => s + v, 0));
+    const e = T.map((t, i) => t / l[i]);
+
+    // Chiang's variance of e_x, with Silcocks' term for the open-ended group in place of zero
+    const varQ = q.map((qi, i) => (deaths[i] > 0 ? (qi * qi * (1 - qi)) / deaths[i] : 0));
+    const terms = l.map((li, i) => (i === last
+      ? (li * li * deaths[last]) / (Math.pow(m[last], 4) * population[last] * population[last])
+      : li * li * Math.pow((1 - a[i]) * width[i] + e[i + 1], 2) * varQ[i]));
+    const se = l.map((li, i) => Math.sqrt(terms.slice(i).reduce((s, v) => s + v, 0)) / li);
+
+    // YLL: each death counts the standard's remaining life expectancy at the group's mean age at death,
+    // lo + a·n for closed groups and lo + e for the open group (constant hazard beyond lo)
+    const ageAtDeath = bands.map((b, i) => (i === last ? b.lo + e[last] : b.lo + a[i] * width[i]));
+    const ownSchedule = bands.map((b, i): [number, number] => [b.lo, e[i]]);
+    const standardLe = data.yllStandard === 'custom'
+      ? parseNumericInput(data.customLifeExpectancy || '')
+      : ageAtDeath.map(x => interpolate(data.yllStandard === 'gbd-2019' ? GBD_2019 : ownSchedule, x));
+    const yll = deaths.map((d, i) => d * standardLe[i]);
+    const totalYll = yll.reduce((s, v) => s + v, 0);
+    const totalDeaths = deaths.reduce((s, v) => s + v, 0);
+    const totalPopulation = population.reduce((s, v) => s + v, 0);
+    const standardName = data.yllStandard === 'gbd-2019' ? 'GBD 2019 reference life table' : data.yllStandard === 'life-table' ? "population's own life table" : 'custom life expectancies';
+
+    const results: CalculationResult[] = bands.map((b, i) => ({
+      label: `Life Expectancy: ${b.label}`, estimate: e[i], lower: e[i] - z * se[i], upper: e[i] + z * se[i], confLevel: conf,
+      method: 'Chiang variance', units: 'years', precision: 2, isMain: i === 0,
+      description: `q = ${q[i].toFixed(5)}, l = ${Math.round(l[i]).toLocaleString()}, ${deaths[i]} deaths`
+    }));
+    results.push(
+      { label: 'Total YLL', estimate: totalYll, units: 'years', precision: 1, isMain: true, description: `Against the ${standardName}` },
+      { label: 'YLL Rate', estimate: (totalYll / totalPopulation) * 100000, units: 'per 100,000', precision: 1, isMain: true },
+      { label: 'Average YLL per Death', estimate: totalYll / totalDeaths, units: 'years', precision: 2 },
+      { label: 'Total Deaths', estimate: totalDeaths }
+    );
+    const worst = yll.reduce((best, v, i) => (v > yll[best] ? i : best), 0);
+
+    const open = bands[last].lo;
+    const rCode = `# Abridged Life Table (Chiang II) and Years of Life Lost
+age <- c(${bands.map(b => b.lo).join(', ')})
+n <- c(${width.slice(0, last).join(', ')}, NA)   # width of each group; the last is open-ended (${open}+)
+deaths <- c(${deaths.join(', ')})
+pop <- c(${population.join(', ')})
+ax <- c(${a.join(', ')})
+
+k <- length(age)
+M <- deaths / pop
+q <- c(n[-k] * M[-k] / (1 + (1 - ax[-k]) * n[-k] * M[-k]), 1)
+l <- ${RADIX} * cumprod(c(1, 1 - q[-k]))
+d <- l * q
+L <- c(n[-k] * (l[-k] - d[-k]) + ax[-k] * n[-k] * d[-k], l[k] / M[k])
+e <- rev(cumsum(rev(L))) / l
+
+# Chiang variance; Silcocks' term for the open-ended group
+vq <- ifelse(deaths > 0, q^2 * (1 - q) / deaths, 0)
+s <- c(l[-k]^2 * ((1 - ax[-k]) * n[-k] + e[-1])^2 * vq[-k], l[k]^2 / M[k]^4 * deaths[k] / pop[k]^2)
+se <- sqrt(rev(cumsum(rev(s)))) / l
+z <- qnorm(${1 - (1 - conf / 100) / 2})
+data.frame(age, q = round(q, 5), l = round(l), e = round(e, 2), lower = e - z * se, upper = e + z * se)
+
+# Years of life lost: remaining life expectancy at death (${standardName})
+le_std <- c(${standardLe.map(v => Number(v.toFixed(4))).join(', ')})
+sum(deaths * le_std)
+sum(deaths * le_std) / sum(pop) * 1e5`;
+
+    return {
+      results,
+      interpretation: `Life expectancy at age ${bands[0].label} is ${e[0].toFixed(1)} years (${conf}% CI ${(e[0] - z * se[0]).toFixed(1)} to ${(e[0] + z * se[0]).toFixed(1)}). The ${totalDeaths.toLocaleString()} deaths account for ${Math.round(totalYll).toLocaleString()} years of life lost against the ${standardName} (${((totalYll / totalPopulation) * 100000).toFixed(0)} per 100,000), ${(totalYll / totalDeaths).toFixed(1)} years per death; age group ${bands[worst].label} contributes the most (${((yll[worst] / totalYll) * 100).toFixed(1)}%).`,
+      rCode,
+      formula: `q = nM / (1 + (1 - a)nM);  L = n(l - d) + a·n·d, L_w = l_w / M_w;  e_x = T_x / l_x;  Var(e_x) = Σ l_j²[(1 - a_j)n_j + e_{j+1}]² Var(q_j) / l_x²;  YLL = Σ D × e*(age at death)`,
+      scatterPlots: [
+        {
+          title: 'Life Expectancy by Age',
+          xLabel: 'Age',
+          yLabel: 'Remaining life expectancy (years)',
+          points: bands.map((b, i) => ({ x: b.lo, y: e[i], label: b.label }))
+        }
+      ]
+    };
+  }
+};
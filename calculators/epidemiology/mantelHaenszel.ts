@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { Table2x2, computeOR, computeRR, parseStrata } from './utils';
+
+// Expected exposed-cases cell under a common odds ratio, given the stratum margins (Breslow-Day)
+const expectedUnderOR = (t: Table2x2, or: number): number => {
+  const n1 = t.a + t.b;
+  const m1 = t.a + t.c;
+  const n = n1 + t.c + t.d;
+  const lo = Math.max(0, n1 + m1 - n);
+  const hi = Math.min(n1, m1);
+  if (or === 1) return (n1 * m1) / n;
+  // (1 - ψ)A² + (n - n1 - m1 + ψ(n1 + m1))A - ψ·n1·m1 = 0, taking the root inside the margins
+  const qa = 1 - or;
+  const qb = n - n1 - m1 + or * (n1 + m1);
+  const qc = -or * n1 * m1;
+  const disc = Math.sqrt(qb * qb - 4 * qa * qc);
+  const roots = [(-qb + disc) / (2 * qa), (-qb - disc) / (2 * qa)];
+  return roots.find(r => r >= lo - 1e-9 && r <= hi + 1e-9) ?? roots[0];
+};
+
+/**
+ * Pooled MH ratio numerator / denominator with its log-scale interval. A zero sum leaves the ratio
+ * at 0 or ∞ with no interval, and both sums zero leave it undefined; `sums` names the two sums.
+ */
+const pooledRatio = (label: string, method: string, numerator: number, denominator: number, seLog: number, z: number, conf: number, sums: [string, string]): CalculationResult => {
+  const ratio = numerator / denominator;
+  if (ratio > 0 && isFinite(ratio)) {
+    return { label, estimate: ratio, lower: Math.exp(Math.log(ratio) - z * seLog), upper: Math.exp(Math.log(ratio) + z * seLog), confLevel: conf, method, precision: 3, isMain: true };
+  }
+  if (isNaN(ratio)) return { label, text: 'Undefined', isMain: true, description: `${sums[0]} and ${sums[1]} are both 0` };
+  return { label, estimate: ratio, method, precision: 3, isMain: true, description: `${ratio === 0 ? sums[0] : sums[1]} = 0, so the pooled ratio is ${ratio === 0 ? '0' : '∞'} and has no confidence interval` };
+};
+
+// Ratios for the interpretation text: ∞ when infinite, "undefined" for 0/0
+const fmt = (v: number) => (isNaN(v) ? 'undefined' : isFinite(v) ? v.toFixed(3) : '∞');
+
+export const mantelHaenszel: CalculatorDefinition<{ strata: string, conf: number }> = {
+  metadata: {
+    id: 'epi-mantel-haenszel',
+    title: 'Mantel-Haenszel Stratified Analysis',
+    category: Category.EPIDEMIOLOGY,
+    description: 'Confounder-adjusted odds ratio and risk ratio pooled over K stratified 2x2 tables, with the Mantel-Haenszel test and Breslow-Day homogeneity test.',
+    keywords: ['mantel-haenszel', 'stratified', 'confounding', 'adjusted', 'breslow-day', 'homogeneity', 'OR', 'RR']
+  },
+  schema: z.object({
+    strata: z.string().min(1, "Enter at least one stratum")
+      .refine(s => parseStrata(s) !== null, "Enter one stratum per line as four counts: exposed cases, exposed controls, unexposed cases, unexposed controls.")
+      .refine(s => (parseStrata(s) || []).every(t => t.a + t.b + t.c + t.d >= 2), "Every stratum needs a total of at least 2.")
+      .describe("Strata (one per line: exposed cases, exposed controls, unexposed cases, unexposed controls)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }),
+  examples: [
+    { strata: '10 20 15 40\n25 30 12 35\n8 12 5 20', conf: 95 },
+    { strata: '0 6 0 5\n3 3 0 6\n6 0 2 4\n5 1 6 0\n2 0 5 0', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Mantel N, Haenszel W",
+      year: 1959,
+      title: "Statistical aspects of the analysis of data from retrospective studies of disease",
+      source: "Journal of the National Cancer Institute 22(4):719-748",
+      doi: "10.1093/jnci/22.4.719"
+    },
+    {
+      author: "Robins J, Breslow N, Greenland S",
+      year: 1986,
+      title: "Estimators of the Mantel-Haenszel variance consistent in both sparse data and large-strata limiting models",
+      source: "Biometrics 42(2):311-323",
+      doi: "10.2307/2531052"
+    },
+    {
+      author: "Greenland S, Robins JM",
+      year: 1985,
+      title: "Estimation of a common effect parameter from sparse follow-up data",
+      source: "Biometrics 41(1):55-68",
+      doi: "10.2307/2530643"
+    },
+    {
+      author: "Breslow NE, Day NE",
+      year: 1980,
+      title: "Statistical Methods in Cancer Research, Vol. I: The Analysis of Case-Control Studies",
+      source: "IARC Scientific Publications No. 32",
+      doi: "N/A"
+    }
+  ],
+  compute: (data) => {
+    const strata = parseStrata(data.strata) || [];
+    const { conf } = data;
+    const z = dist.getZCritical(conf);
+    const k = strata.length;
+
+    // Mantel-Haenszel OR with the Robins-Breslow-Greenland variance of its log
+    let orR = 0, orS = 0, sumPR = 0, sumPSQR = 0, sumQS = 0;
+    // Mantel-Haenszel RR with the Greenland-Robins variance of its log
+    let rrR = 0, rrS = 0, rrV = 0;
+    // Mantel-Haenszel chi-square: observed minus expected exposed cases and its hypergeometric variance
+    let delta = 0, varA = 0;
+
+    strata.forEach(({ a, b, c, d }) => {
+      const n = a + b + c + d;
+      const n1 = a + b, n0 = c + d, m1 = a + c, m0 = b + d;
+      const r = (a * d) / n, s = (b * c) / n;
+      const p = (a + d) / n, q = (b + c) / n;
+      orR += r;
+      orS += s;
+      sumPR += p * r;
+      sumPSQR += p * s + q * r;
+      sumQS += q * s;
+
+      rrR += (a * n0) / n;
+      rrS += (c * n1) / n;
+      rrV += (n1 * n0 * m1 - a * c * n) / (n * n);
+
+      delta += a - (n1 * m1) / n;
+      varA += (n1 * n0 * m1 * m0) / (n * n * (n - 1));
+    });
+
+    const mhOR = orR / orS;
+    const seLogOR = Math.sqrt(sumPR / (2 * orR * orR) + sumPSQR / (2 * orR * orS) + sumQS / (2 * orS * orS));
+    const mhRR = rrR / rrS;
+    const seLogRR = Math.sqrt(rrV / (rrR * rrS));
+
+    // Continuity-corrected as in mantelhaen.test(correct = TRUE)
+    const yates = Math.min(0.5, Math.abs(delta));
+    const mhChi2 = Math.pow(Math.abs(delta) - yates, 2) / varA;
+    const mhP = dist.getChiSqPValue(mhChi2, 1);
+
+    // Breslow-Day: strata whose margins fix the table carry no information on homogeneity. The strata
+    // are fitted to the pooled odds ratio, so it needs one that is finite and non-zero.
+    const orFinite = mhOR > 0 && isFinite(mhOR);
+    let bdChi2 = 0, bdStrata = 0;
+    if (orFinite) strata.forEach(t => {
+      const A = expectedUnderOR(t, mhOR);
+      const cells = [A, t.a + t.b - A, t.a + t.c - A, t.d - t.a + A];
+      if (cells.some(v => v <= 1e-12)) return;
+      const v = 1 / cells.reduce((sum, x) => sum + 1 / x, 0);
+      bdChi2 += Math.pow(t.a - A, 2) / v;
+      bdStrata++;
+    });
+    const bdDf = bdStrata - 1;
+    const bdP = bdDf > 0 ? dist.getChiSqPValue(bdChi2, bdDf) : NaN;
+
+    // Crude estimates from the collapsed table
+    const crude = strata.reduce((sum, t) => ({ a: sum.a + t.a, b: sum.b + t.b, c: sum.c + t.c, d: sum.d + t.d }), { a: 0, b: 0, c: 0, d: 0 });
+    const crudeOR = computeOR(crude, conf);
+    const crudeRR = computeRR(crude, conf);
+
+    const stratumResults: CalculationResult[] = strata.flatMap((t, i) => {
+      const or = computeOR(t, conf);
+      const rr = computeRR(t, conf);
+      return [
+        { label: `Stratum ${i + 1} OR`, estimate: or.value, lower: or.lower, upper: or.upper, confLevel: conf, method: 'Woolf', precision: 3 },
+        { label: `Stratum ${i + 1} RR`, estimate: rr.value, lower: rr.lower, upper: rr.upper, confLevel: conf, method: 'Katz log', precision: 3 }
+      ];
+    });
+
+    const orChange = orFinite ? (crudeOR.value - mhOR) / mhOR : NaN;
+    const arrayValues = strata.map(t => `${t.a}, ${t.c}, ${t.b}, ${t.d}`).join(',\n                ');
+    const rCode = `# Mantel-Haenszel Stratified Analysis
+tab <- array(c(${arrayValues}),
+             dim = c(2, 2, ${k}),
+             dimnames = list(Exposure = c("Exposed", "Unexposed"),
+                             Outcome = c("Cases", "Control"),
+                             Stratum = 1:${k}))
+
+# MH chi-square and pooled OR (Robins-Breslow-Greenland CI)
+mantelhaen.test(tab, conf.level = ${conf / 100})
+
+# Crude, stratum-specific and MH-adjusted OR/RR with the Breslow-Day test (install.packages("epiR"))
+library(epiR)
+epi.2by2(tab, method = "cohort.count", conf.level = ${conf / 100})`;
+
+    return {
+      results: [
+        pooledRatio('MH Odds Ratio', 'Robins-Breslow-Greenland', orR, orS, seLogOR, z, conf, ['Σaᵢdᵢ/nᵢ', 'Σbᵢcᵢ/nᵢ']),
+        pooledRatio('MH Risk Ratio', 'Greenland-Robins', rrR, rrS, seLogRR, z, conf, ['Σaᵢ(cᵢ+dᵢ)/nᵢ', 'Σcᵢ(aᵢ+bᵢ)/nᵢ']),
+        { label: 'Crude Odds Ratio', estimate: crudeOR.value, lower: crudeOR.lower, upper: crudeOR.upper, confLevel: conf, method: 'Woolf', precision: 3 },
+        { label: 'Crude Risk Ratio', estimate: crudeRR.value, lower: crudeRR.lower, upper: crudeRR.upper, confLevel: conf, method: 'Katz log', precision: 3 },
+        { label: 'MH Chi-Square', estimate: mhChi2, pValue: mhP, method: 'Mantel-Haenszel test with continuity correction', precision: 4, isMain: true },
+        { label: 'MH p-value', pValue: mhP, method: 'Mantel-Haenszel test with continuity correction' },
+        ...(orFinite ? [
+          { label: 'Breslow-Day Chi-Square', estimate: bdChi2, pValue: bdP, method: `Breslow-Day test, df = ${bdDf}`, precision: 4 },
+          { label: 'Homogeneity p-value', pValue: bdP, method: 'Breslow-Day test' }
+        ] : [
+          { label: 'Breslow-Day Chi-Square', text: 'Not computed: the MH odds ratio is not finite and non-zero' }
+        ]),
+        { label: 'Number of Strata', estimate: k },
+        ...stratumResults
+      ],
+      interpretation: `After adjusting for the stratification variable, the Mantel-Haenszel odds ratio is ${fmt(mhOR)} and the risk ratio is ${fmt(mhRR)} (MH test p = ${mhP.toFixed(4)}). ${!orFinite ? 'As the pooled odds ratio is not a finite, non-zero number, it is not compared with the crude odds ratio and the Breslow-Day test is not computed.' : `The crude odds ratio differs from the adjusted one by ${(orChange * 100).toFixed(1)}%${Math.abs(orChange) >= 0.1 ? ', suggesting confounding' : ''}. ${bdDf > 0 ? (bdP < 0.05 ? 'The Breslow-Day test indicates the odds ratio differs across strata, so a single pooled estimate may be misleading.' : 'The Breslow-Day test gives no evidence that the odds ratio differs across strata.') : 'Too few informative strata for the Breslow-Day test.'}`}`,
+      rCode,
+      formula: `OR_MH = Σ(aᵢdᵢ/nᵢ) / Σ(bᵢcᵢ/nᵢ);  RR_MH = Σ(aᵢ(cᵢ+dᵢ)/nᵢ) / Σ(cᵢ(aᵢ+bᵢ)/nᵢ)`
+    };
+  }
+};
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+
+// Root in (0, 1) of a monotone tail probability in π, by bisection on the logit scale
+const solveProportion = (tail: (p: number) => number, target: number, increasing: boolean): number => {
+  const expit = (logit: number) => 1 / (1 + Math.exp(-logit));
+  return expit(dist.bisect(logit => tail(expit(logit)), target, -40, 40, increasing));
+};
+
+export const rateComparison: CalculatorDefinition<{
+  exposed_events: number,
+  exposed_time: number,
+  unexposed_events: number,
+  unexposed_time: number,
+  conf: number
+}> = {
+  metadata: {
+    id: 'epi-rate-comparison',
+    title: 'Incidence Rate Ratio & Rate Difference',
+    category: Category.EPIDEMIOLOGY,
+    description: 'Compares incidence rates between exposed and unexposed person-time: the rate ratio with exact conditional and mid-p CIs, the rate difference and the attributable fraction among the exposed.',
+    keywords: ['IRR', 'rate ratio', 'rate difference', 'person-time', 'cohort', 'poisson', 'mid-p', 'attributable fraction']
+  },
+  schema: z.object({
+    exposed_events: z.number().int().min(0).describe("Exposed Events"),
+    exposed_time: z.number().min(0.000001, "Person-time must be positive").describe("Exposed Person-Time"),
+    unexposed_events: z.number().int().min(0).describe("Unexposed Events"),
+    unexposed_time: z.number().min(0.000001, "Person-time must be positive").describe("Unexposed Person-Time"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }),
+  examples: [
+    { exposed_events: 11, exposed_time: 800, unexposed_events: 21, unexposed_time: 3011, conf: 95 },
+    { exposed_events: 41, exposed_time: 28010, unexposed_events: 15, unexposed_time: 19017, conf: 95 }
+  ],
+  references: [
+    {
+      author: "Rothman KJ, Greenland S, Lash TL",
+      year: 2008,
+      title: "Modern Epidemiology",
+      source: "Lippincott Williams & Wilkins, 3rd Edition, Chapter 14",
+      doi: "N/A"
+    },
+    {
+      author: "Breslow NE, Day NE",
+      year: 1987,
+      title: "Statistical Methods in Cancer Research, Vol. II: The Design and Analysis of Cohort Studies",
+      source: "IARC Scientific Publications No. 82",
+      doi: "N/A"
+    }
+  ],
+  compute: (data) => {
+    const {
+      exposed_events: k1,
+      exposed_time: t1,
+      unexposed_events: k2,
+      unexposed_time: t2,
+      conf
+    } = data;
+    const k = k1 + k2;
+
+    if (k === 0) {
+      return { results: [], interpretation: "No events were observed in either group, so the rates cannot be compared." };
+    }
+
+    const rate1 = k1 / t1;
+    const rate2 = k2 / t2;
+    const irr = k2 === 0 ? Infinity : rate1 / rate2;
+    const alpha = 1 - conf / 100;
+
+    // Given k events in total, k1 ~ Binomial(k, π) with π = IRR·T1 / (IRR·T1 + T2), as in poisson.test
+    const toIrr = (p: number) => (p >= 1 ? Infinity : (p / (1 - p)) * (t2 / t1));
+    const pmf = (p: number) => dist.binomialPMF(k1, k, p);
+    const lowerTail = (p: number) => dist.binomialCDF(k1, k, p);
+    const upperTail = (p: number) => 1 - dist.binomialCDF(k1 - 1, k, p);
+
+    // Exact conditional: Clopper-Pearson limits for π
+    const exactLower = k1 === 0 ? 0 : toIrr(dist.betaQuantile(alpha / 2, k1, k - k1 + 1));
+    const exactUpper = k2 === 0 ? Infinity : toIrr(dist.betaQuantile(1 - alpha / 2, k1 + 1, k - k1));
+
+    // Mid-p: each one-sided tail counts half the probability of the observed split
+    const midLower = k1 === 0 ? 0 : toIrr(solveProportion(p => upperTail(p) - pmf(p) / 2, alpha / 2, true));
+    const midUpper = k2 === 0 ? Infinity : toIrr(solveProportion(p => lowerTail(p) - pmf(p) / 2, alpha / 2, false));
+
+    // Test of IRR = 1: two-sided p sums the splits no more probable than the observed one (binom.test)
+    const p0 = t1 / (t1 + t2);
+    const px = pmf(p0);
+    let pExact = 0;
+    for (let x = 0; x <= k; x++) {
+      const d = dist.binomialPMF(x, k, p0);
+      if (d <= px * (1 + 1e-7)) pExact += d;
+    }
+    pExact = Math.min(1, pExact);
+    const pMid = Math.min(1, 2 * Math.min(lowerTail(p0), upperTail(p0)) - px);
+
+    const rd = rate1 - rate2;
+    const rdSE = Math.sqrt(k1 / (t1 * t1) + k2 / (t2 * t2));
+    const z = dist.getZCritical(conf);
+
+    // Attributable fraction among the exposed, (IRR - 1) / IRR, carried over from the exact IRR limits;
+    // only meaningful when the exposure raises the rate
+    const af = (r: number) => (r === Infinity ? 1 : (r - 1) / r);
+
+    const rCode = `# Incidence Rate Ratio and Rate Difference
+events <- c(${k1}, ${k2})
+time <- c(${t1}, ${t2})
+
+# Exact conditional test and CI for the rate ratio
+poisson.test(events, time, conf.level = ${conf / 100})
+
+# Mid-p CI and rate difference (install.packages("epitools"))
+library(epitools)
+rateratio.midp(c(${k2}, ${k1}, ${t2}, ${t1}), conf.level = ${conf / 100})
+rd <- events[1] / time[1] - events[2] / time[2]
+rd + c(-1, 1) * qnorm(${1 - alpha / 2}) * sqrt(sum(events / time^2))`;
+
+    const fmt = (v: number) => (isFinite(v) ? v.toFixed(3) : '∞');
+
+    const results: CalculationResult[] = [
+      { label: 'Incidence Rate Ratio (IRR)', estimate: irr, lower: exactLower, upper: exactUpper, confLevel: conf, pValue: pExact, method: 'Exact conditional (binomial)', precision: 4, isMain: true },
+      { label: 'IRR Mid-p CI', estimate: irr, lower: midLower, upper: midUpper, confLevel: conf, pValue: pMid, method: 'Mid-p exact', precision: 4 },
+      { label: 'Rate Difference', estimate: rd, lower: rd - z * rdSE, upper: rd + z * rdSE, confLevel: conf, method: 'Wald', units: 'per person-time', precision: 6, isMain: true },
+      ...(irr > 1 ? [{ label: 'Attributable Fraction (Exposed)', estimate: af(irr), lower: af(exactLower), upper: af(exactUpper), confLevel: conf, method: 'From exact IRR limits', format: 'percent' as const, precision: 2 }] : []),
+      { label: 'Rate in Exposed', estimate: rate1, units: 'per person-time', precision: 6 },
+      { label: 'Rate in Unexposed', estimate: rate2, units: 'per person-time', precision: 6 }
+    ];
+    const change = isFinite(irr) && irr !== 1 ? `, ${(Math.abs(irr - 1) * 100).toFixed(1)}% ${irr > 1 ? 'higher' : 'lower'}` : '';
+
+    return {
+      results,
+      interpretation: `The incidence rate in the exposed group is ${fmt(irr)} times the rate in the unexposed group${change} (exact ${conf}% CI ${fmt(exactLower)} to ${fmt(exactUpper)}; p = ${pExact.toFixed(4)}). The rate difference is ${rd.toPrecision(3)} events per unit of person-time${irr > 1 ? `, and ${(af(irr) * 100).toFixed(1)}% of the events among the exposed are attributable to the exposure` : ''}.`,
+      rCode,
+      formula: `IRR = (k₁/T₁) / (k₂/T₂);  k₁ | k ~ Bin(k, IRR·T₁ / (IRR·T₁ + T₂));  RD = k₁/T₁ - k₂/T₂,  SE = √(k₁/T₁² + k₂/T₂²);  AFₑ = (IRR - 1) / IRR`
+    };
+  }
+};
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import { computeRR, computeOR, formatPercent } from './utils';
+import { computeRR, computeOR } from './utils';
 import * as ciUtils from '../confidenceIntervals/utils';
 
 export const riskRatioCalc: CalculatorDefinition<{ 
@@ -36,10 +36,10 @@ export const riskRatioCalc: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Risk Ratio (RR)', value: res.value.toFixed(3), isMain: true },
-        { label: '95% Confidence Interval', value: ciUtils.formatCI(res.lower, res.upper, 3), isMain: true },
-        { label: 'Risk in Exposed', value: formatPercent(table.a / (table.a + table.b)) },
-        { label: 'Risk in Unexposed', value: formatPercent(table.c / (table.c + table.d)) }
+        { label: 'Risk Ratio (RR)', estimate: res.value, precision: 3, isMain: true },
+        { label: '95% Confidence Interval', estimate: res.value, lower: res.lower, upper: res.upper, confLevel: 95, method: 'Katz log', precision: 3, isMain: true },
+        { label: 'Risk in Exposed', estimate: table.a / (table.a + table.b), format: 'percent' },
+        { label: 'Risk in Unexposed', estimate: table.c / (table.c + table.d), format: 'percent' }
       ],
       interpretation: `The risk of the outcome is ${res.value.toFixed(2)} times ${res.value > 1 ? 'higher' : 'lower'} in the exposed group compared to the unexposed group.`,
       rCode,
@@ -76,14 +76,14 @@ export const oddsRatioCalc: CalculatorDefinition<{
       d: data.unexposed_control 
     };
     const res = computeOR(table);
-    const rCode = `# Odds Ratio Analysis\ntab <- matrix(c(${table.a}, ${table.c}, ${table.b}, ${table.d}), nrow = 2)\nfisher.test(tab)`;
+    const rCode = `# Odds Ratio Analysis\ntab <- matrix(c(${table.a}, ${table.c}, ${table.b}, ${table.d}), nrow = 2)\ncolnames(tab) <- c("Cases", "Control")\nrownames(tab) <- c("Exposed", "Unexposed")\n\n# Using epiR (Woolf interval)\nlibrary(epiR)\nepi.2by2(tab, method = "case.control")`;
 
     return {
       results: [
-        { label: 'Odds Ratio (OR)', value: res.value.toFixed(3), isMain: true },
-        { label: '95% Confidence Interval', value: ciUtils.formatCI(res.lower, res.upper, 3), isMain: true },
-        { label: 'Odds in Exposed', value: (table.a / table.b).toFixed(3) },
-        { label: 'Odds in Unexposed', value: (table.c / table.d).toFixed(3) }
+        { label: 'Odds Ratio (OR)', estimate: res.value, precision: 3, isMain: true },
+        { label: '95% Confidence Interval', estimate: res.value, lower: res.lower, upper: res.upper, confLevel: 95, method: 'Woolf', precision: 3, isMain: true },
+        { label: 'Odds in Exposed', estimate: table.a / table.b, precision: 3 },
+        { label: 'Odds in Unexposed', estimate: table.c / table.d, precision: 3 }
       ],
       interpretation: `The odds of exposure were ${res.value.toFixed(2)} times ${res.value > 1 ? 'greater' : 'less'} among cases than among control subjects.`,
       rCode,
@@ -22,9 +22,9 @@ export const incidenceProportion: CalculatorDefinition<{ cases: number, populati
 
     return {
       results: [
-        { label: 'Risk / Incidence Proportion', value: risk.toFixed(4), isMain: true },
-        { label: 'As Percentage', value: formatPercent(risk) },
-        { label: 'Per 1,000 People', value: (risk * 1000).toFixed(2) }
+        { label: 'Risk / Incidence Proportion', estimate: risk, precision: 4, isMain: true },
+        { label: 'As Percentage', estimate: risk, format: 'percent' },
+        { label: 'Per 1,000 People', estimate: risk * 1000, units: 'per 1,000 people', precision: 2 }
       ],
       interpretation: `Risk is ${formatPercent(risk)}.`,
       rCode,
@@ -52,8 +52,8 @@ export const incidenceRate: CalculatorDefinition<{ cases: number, personTime: nu
 
     return {
       results: [
-        { label: 'Incidence Rate', value: rate.toFixed(6), isMain: true },
-        { label: 'Per 100 Person-Years', value: (rate * 100).toFixed(4) }
+        { label: 'Incidence Rate', estimate: rate, units: 'per person-time', precision: 6, isMain: true },
+        { label: 'Per 100 Person-Years', estimate: rate * 100, units: 'per 100 person-years', precision: 4 }
       ],
       interpretation: `The incidence density is ${rate.toFixed(4)} per unit person-time.`,
       rCode,
@@ -81,8 +81,8 @@ export const cfrCalculator: CalculatorDefinition<{ deaths: number, cases: number
 
     return {
       results: [
-        { label: 'Case Fatality Rate', value: formatPercent(cfr), isMain: true },
-        { label: 'Point Estimate', value: cfr.toFixed(4) }
+        { label: 'Case Fatality Rate', estimate: cfr, format: 'percent', isMain: true },
+        { label: 'Point Estimate', estimate: cfr, precision: 4 }
       ],
       interpretation: `Fatality rate is ${formatPercent(cfr)}.`,
       rCode,
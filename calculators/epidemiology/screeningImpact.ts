@@ -33,10 +33,10 @@ cat("ARR:", arr, "\\nNNT:", nnt, "\\nRRR:", rrr)`;
 
     return {
       results: [
-        { label: 'Absolute Risk Reduction (ARR)', value: (arr * 100).toFixed(2) + '%', isMain: true },
-        { label: 'Number Needed to Treat (NNT)', value: Math.ceil(nnt), isMain: true },
-        { label: 'Relative Risk Reduction (RRR)', value: (rrr * 100).toFixed(2) + '%' },
-        { label: 'Number Needed to Harm (NNH)', value: r_exposed > r_control ? Math.ceil(1 / (r_exposed - r_control)) : 'N/A' }
+        { label: 'Absolute Risk Reduction (ARR)', estimate: arr, format: 'percent', isMain: true },
+        { label: 'Number Needed to Treat (NNT)', estimate: Math.ceil(nnt), isMain: true },
+        { label: 'Relative Risk Reduction (RRR)', estimate: rrr, format: 'percent' },
+        { label: 'Number Needed to Harm (NNH)', ...(r_exposed > r_control ? { estimate: Math.ceil(1 / (r_exposed - r_control)) } : { text: 'N/A' }) }
       ],
       interpretation: arr > 0 
         ? `You would need to treat ${Math.ceil(nnt)} patients to prevent one additional adverse outcome.`
@@ -1,7 +1,6 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from '../confidenceIntervals/utils';
 
 export const standardizedRates: CalculatorDefinition<{ observed: number, expected: number }> = {
   metadata: {
@@ -27,10 +26,10 @@ export const standardizedRates: CalculatorDefinition<{ observed: number, expecte
 
     return {
       results: [
-        { label: 'Standardized Ratio', value: ratio.toFixed(3), isMain: true },
-        { label: '95% CI (Byar)', value: ciUtils.formatCI(lower, upper, 3), isMain: true },
-        { label: 'Excess Percentage', value: ((ratio - 1) * 100).toFixed(1) + '%' },
-        { label: 'Observed / Expected', value: `${observed} / ${expected.toFixed(2)}` }
+        { label: 'Standardized Ratio', estimate: ratio, precision: 3, isMain: true },
+        { label: '95% CI (Byar)', estimate: ratio, lower, upper, confLevel: 95, method: 'Byar', precision: 3, isMain: true },
+        { label: 'Excess Percentage', estimate: ratio - 1, format: 'percent', precision: 1 },
+        { label: 'Observed / Expected', text: `${observed} / ${expected.toFixed(2)}` }
       ],
       interpretation: ratio > 1 
         ? `There are ${(ratio * 100 - 100).toFixed(1)}% more events than expected. ${lower > 1 ? 'This is statistically significant.' : 'This could be due to chance.'}`
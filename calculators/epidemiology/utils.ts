@@ -1,4 +1,4 @@
-import * as ciUtils from '../confidenceIntervals/utils';
+import * as dist from '../distributions';
 
 export interface Table2x2 {
   a: number; // Exposed + Disease
@@ -34,7 +34,7 @@ export const computeRR = (table: Table2x2, conf = 95) => {
   const rr = r1 / r2;
   
   const seLog = Math.sqrt((1/t.a - 1/(t.a+t.b)) + (1/t.c - 1/(t.c+t.d)));
-  const z = ciUtils.getZCritical(conf);
+  const z = dist.getZCritical(conf);
   
   return {
     value: rr,
@@ -47,7 +47,7 @@ export const computeOR = (table: Table2x2, conf = 95) => {
   const t = applyContinuityCorrection(table);
   const or = (t.a * t.d) / (t.b * t.c);
   const seLog = Math.sqrt(1/t.a + 1/t.b + 1/t.c + 1/t.d);
-  const z = ciUtils.getZCritical(conf);
+  const z = dist.getZCritical(conf);
   
   return {
     value: or,
@@ -61,7 +61,7 @@ export const computeRD = (table: Table2x2, conf = 95) => {
   const r2 = table.c / (table.c + table.d);
   const rd = r1 - r2;
   const se = Math.sqrt((r1 * (1-r1))/(table.a+table.b) + (r2 * (1-r2))/(table.c+table.d));
-  const z = ciUtils.getZCritical(conf);
+  const z = dist.getZCritical(conf);
   
   return {
     value: rd,
@@ -70,3 +70,113 @@ export const computeRD = (table: Table2x2, conf = 95) => {
     nnt: rd === 0 ? Infinity : Math.ceil(Math.abs(1/rd))
   };
 };
+
+/**
+ * Parses one 2x2 table per line as "a b c d" (commas, semicolons or whitespace between counts).
+ * Returns null when a line does not hold exactly four non-negative counts.
+ */
+export const parseStrata = (input: string): Table2x2[] | null => {
+  const lines = input.split(/[\r\n]+/).map(l => l.trim()).filter(l => l !== '');
+  const tables = lines.map(line => {
+    const counts = line.split(/[,;\s]+/).map(Number);
+    if (counts.length !== 4 || counts.some(v => isNaN(v) || v < 0)) return null;
+    const [a, b, c, d] = counts;
+    return { a, b, c, d };
+  });
+  return tables.length > 0 && tables.every(t => t !== null) ? tables : null;
+};
+
+export interface AgeBand {
+  label: string;
+  lo: number;   // First year of age in the band
+  hi: number;   // Last year of age in the band (Infinity for an open-ended band)
+}
+
+/**
+ * Reads an age band label: "40-44", "85+", "<1" or a single year such as "0".
+ * Returns null for labels that are not age ranges.
+ */
+export const parseAgeBand = (label: string): AgeBand | null => {
+  const text = label.trim();
+  const range = text.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+  if (range) return +range[1] <= +range[2] ? { label: text, lo: +range[1], hi: +range[2] } : null;
+  const open = text.match(/^(\d+)\s*\+$/);
+  if (open) return { label: text, lo: +open[1], hi: Infinity };
+  const under = text.match(/^<\s*(\d+)$/);
+  if (under) return +under[1] > 0 ? { label: text, lo: 0, hi: +under[1] - 1 } : null;
+  return /^\d+$/.test(text) ? { label: text, lo: +text, hi: +text } : null;
+};
+
+export interface AgeStrata {
+  labels: string[];
+  events: number[][];   // events[g][i]: population g, age band i
+  time: number[][];     // person-time, indexed like events
+}
+
+/**
+ * Parses one age band per line: a label, then events and person-time for each population
+ * ("45-54, 12, 3050, 20, 4100"). Every line must carry the same number of populations.
+ */
+export const parseAgeStrata = (input: string): AgeStrata | null => {
+  const lines = input.split(/[\r\n]+/).map(l => l.trim()).filter(l => l !== '');
+  if (lines.length === 0) return null;
+  const rows = lines.map(line => {
+    const [label, ...cells] = line.split(/[,;\t]\s*|\s+/).filter(c => c !== '');
+    const values = cells.map(Number);
+    if (values.length < 2 || values.length % 2 !== 0 || values.some(v => isNaN(v) || v < 0)) return null;
+    if (values.some((v, j) => j % 2 === 1 && v === 0)) return null;
+    return { label, values };
+  });
+  if (rows.some(r => r === null) || new Set(rows.map(r => r!.values.length)).size !== 1) return null;
+  const groups = rows[0]!.values.length / 2;
+  return {
+    labels: rows.map(r => r!.label),
+    events: Array.from({ length: groups }, (_, g) => rows.map(r => r!.values[2 * g])),
+    time: Array.from({ length: groups }, (_, g) => rows.map(r => r!.values[2 * g + 1]))
+  };
+};
+
+// Standard populations as (first age, last age, weight); weights are rescaled to the bands in use
+export const STANDARD_POPULATIONS: Record<string, { name: string, groups: [number, number, number][] }> = {
+  'who-2000': {
+    name: 'WHO World Standard 2000-2025',
+    groups: [
+      [0, 4, 8.86], [5, 9, 8.69], [10, 14, 8.60], [15, 19, 8.47], [20, 24, 8.22], [25, 29, 7.93], [30, 34, 7.61],
+      [35, 39, 7.15], [40, 44, 6.59], [45, 49, 6.04], [50, 54, 5.37], [55, 59, 4.55], [60, 64, 3.72], [65, 69, 2.96],
+      [70, 74, 2.21], [75, 79, 1.52], [80, 84, 0.91], [85, 89, 0.44], [90, 94, 0.15], [95, 99, 0.04], [100, Infinity, 0.005]
+    ]
+  },
+  'us-2000': {
+    name: 'US 2000 Standard Population',
+    groups: [
+      [0, 0, 13818], [1, 4, 55317], [5, 9, 72533], [10, 14, 73032], [15, 19, 72169], [20, 24, 66478], [25, 29, 64529],
+      [30, 34, 71044], [35, 39, 80762], [40, 44, 81851], [45, 49, 72118], [50, 54, 62716], [55, 59, 48454], [60, 64, 38793],
+      [65, 69, 34264], [70, 74, 31773], [75, 79, 26999], [80, 84, 17842], [85, Infinity, 15508]
+    ]
+  },
+  'esp-2013': {
+    name: 'European Standard Population 2013',
+    groups: [
+      [0, 4, 5000], [5, 9, 5500], [10, 14, 5500], [15, 19, 5500], [20, 24, 6000], [25, 29, 6000], [30, 34, 6500],
+      [35, 39, 7000], [40, 44, 7000], [45, 49, 7000], [50, 54, 7000], [55, 59, 6500], [60, 64, 6000], [65, 69, 5500],
+      [70, 74, 5000], [75, 79, 4000], [80, 84, 2500], [85, 89, 1500], [90, 94, 800], [95, Infinity, 200]
+    ]
+  }
+};
+
+/**
+ * Weight of each age band under a standard population, summing the standard's groups the band spans.
+ * Returns null when a label is not an age range or its limits fall inside one of the standard's groups.
+ */
+export const standardWeights = (labels: string[], standard: string): number[] | null => {
+  const groups = STANDARD_POPULATIONS[standard]?.groups;
+  if (!groups) return null;
+  const weights = labels.map(label => {
+    const band = parseAgeBand(label);
+    if (!band) return null;
+    const spanned = groups.filter(([lo, hi]) => lo >= band.lo && hi <= band.hi);
+    const aligned = spanned.length > 0 && spanned[0][0] === band.lo && spanned[spanned.length - 1][1] === band.hi;
+    return aligned ? spanned.reduce((s, g) => s + g[2], 0) : null;
+  });
+  return weights.every(w => w !== null) ? (weights as number[]) : null;
+};
@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../types';
+import * as dist from './distributions';
+
+// Conditional distribution of the exposed-cases cell given the margins, as in R's fisher.test
+const noncentralHypergeometric = (m: number, n: number, k: number) => {
+  const lo = Math.max(0, k - n);
+  const hi = Math.min(k, m);
+  const support = Array.from({ length: hi - lo + 1 }, (_, i) => lo + i);
+  const logdc = support.map(x => Math.log(dist.hypergeometricPMF(x, m, n, k)));
+
+  // Density under odds ratio exp(logOr), normalised on the log scale to avoid overflow
+  const density = (logOr: number) => {
+    const d = logdc.map((l, i) => l + logOr * support[i]);
+    const max = Math.max(...d);
+    const e = d.map(v => Math.exp(v - max));
+    const total = e.reduce((s, v) => s + v, 0);
+    return e.map(v => v / total);
+  };
+  const mean = (logOr: number) => density(logOr).reduce((s, p, i) => s + p * support[i], 0);
+  const lowerTail = (x: number, logOr: number) => density(logOr).reduce((s, p, i) => s + (support[i] <= x ? p : 0), 0);
+  const upperTail = (x: number, logOr: number) => density(logOr).reduce((s, p, i) => s + (support[i] >= x ? p : 0), 0);
+
+  return { lo, hi, support, density, mean, lowerTail, upperTail };
+};
+
+// Root of a monotone function of the log odds ratio by bisection over a wide bracket
+const solveLogOr = (f: (logOr: number) => number, target: number, increasing: boolean): number =>
+  Math.exp(dist.bisect(f, target, -50, 50, increasing));
+
+export const fisherExact: CalculatorDefinition<{
+  exposed_cases: number,
+  unexposed_cases: number,
+  exposed_control: number,
+  unexposed_control: number,
+  conf: number
+}> = {
+  metadata: {
+    id: 'fisher-exact',
+    title: "Fisher's Exact Test (2x2)",
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Exact test of independence for 2x2 tables with small expected counts, with mid-p values and the conditional MLE odds ratio.',
+    keywords: ['fisher', 'exact', 'mid-p', 'small sample', 'odds ratio', 'p-value']
+  },
+  schema: z.object({
+    exposed_cases: z.number().int().min(0).describe("Exposed Cases"),
+    unexposed_cases: z.number().int().min(0).describe("Unexposed Cases"),
+    exposed_control: z.number().int().min(0).describe("Exposed Control"),
+    unexposed_control: z.number().int().min(0).describe("Unexposed Control"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }),
+  examples: [
+    { exposed_cases: 3, unexposed_cases: 1, exposed_control: 1, unexposed_control: 3, conf: 95 },
+    { exposed_cases: 2, unexposed_cases: 10, exposed_control: 15, unexposed_control: 3, conf: 95 }
+  ],
+  references: [
+    {
+      author: "Fisher RA",
+      year: 1935,
+      title: "The Logic of Inductive Inference",
+      source: "Journal of the Royal Statistical Society 98(1):39-82",
+      doi: "10.2307/2342435"
+    },
+    {
+      author: "Agresti A",
+      year: 2002,
+      title: "Categorical Data Analysis",
+      source: "John Wiley & Sons, 2nd Edition",
+      doi: "10.1002/0471249688"
+    }
+  ],
+  compute: (data) => {
+    const {
+      exposed_cases: a,
+      exposed_control: b,
+      unexposed_cases: c,
+      unexposed_control: d,
+      conf
+    } = data;
+
+    if (a + b === 0 || c + d === 0 || a + c === 0 || b + d === 0) {
+      return { results: [], interpretation: "Table contains a row or column with zero totals." };
+    }
+
+    // Margins in fisher.test's notation: m cases, n controls, k exposed
+    const h = noncentralHypergeometric(a + c, b + d, a + b);
+    const null0 = h.density(0);
+    const px = null0[a - h.lo];
+
+    // Two-sided: tables no more probable than the observed one (R's relative tolerance 1e-7)
+    const pTwoSided = Math.min(1, null0.reduce((s, p) => s + (p <= px * (1 + 1e-7) ? p : 0), 0));
+    const pLess = Math.min(1, h.lowerTail(a, 0));
+    const pGreater = Math.min(1, h.upperTail(a, 0));
+
+    // Mid-p counts half the probability of the observed table
+    const midLess = pLess - px / 2;
+    const midGreater = pGreater - px / 2;
+    const midTwoSided = Math.min(1, 2 * Math.min(midLess, midGreater));
+
+    // Conditional MLE: the odds ratio at which the expected cell equals the observed one
+    const mle = a === h.lo ? 0 : a === h.hi ? Infinity : solveLogOr(h.mean, a, true);
+
+    // Exact conditional limits invert the one-sided tests at α/2 each
+    const alpha = (1 - conf / 100) / 2;
+    const lower = a === h.lo ? 0 : solveLogOr(logOr => h.upperTail(a, logOr), alpha, true);
+    const upper = a === h.hi ? Infinity : solveLogOr(logOr => h.lowerTail(a, logOr), alpha, false);
+
+    const sampleOr = (a * d) / (b * c);
+    const expected = [(a + b) * (a + c), (a + b) * (b + d), (c + d) * (a + c), (c + d) * (b + d)].map(v => v / (a + b + c + d));
+    const minExpected = Math.min(...expected);
+
+    const rCode = `# Fisher's Exact Test\ntab <- matrix(c(${a}, ${c}, ${b}, ${d}), nrow = 2)\ncolnames(tab) <- c("Cases", "Control")\nrownames(tab) <- c("Exposed", "Unexposed")\nfisher.test(tab, conf.level = ${conf / 100})\nfisher.test(tab, alternative = "less")$p.value\nfisher.test(tab, alternative = "greater")$p.value\n\n# Mid-p values (install.packages("exact2x2"))\nlibrary(exact2x2)\nexact2x2(tab, midp = TRUE)`;
+
+    return {
+      results: [
+        { label: 'p-value (Two-sided)', pValue: pTwoSided, method: "Fisher's exact test", isMain: true },
+        { label: 'p-value (One-sided, OR < 1)', pValue: pLess, method: "Fisher's exact test" },
+        { label: 'p-value (One-sided, OR > 1)', pValue: pGreater, method: "Fisher's exact test" },
+        { label: 'Mid-p (Two-sided)', pValue: midTwoSided, method: 'Mid-p exact test', isMain: true },
+        { label: 'Mid-p (One-sided, OR < 1)', pValue: midLess, method: 'Mid-p exact test' },
+        { label: 'Mid-p (One-sided, OR > 1)', pValue: midGreater, method: 'Mid-p exact test' },
+        { label: 'Conditional MLE Odds Ratio', estimate: mle, precision: 4, isMain: true },
+        { label: 'OR Confidence Interval', estimate: mle, lower, upper, confLevel: conf, method: 'Exact conditional', precision: 4 },
+        { label: 'Sample Odds Ratio', estimate: sampleOr, precision: 4 },
+        { label: 'Smallest Expected Count', estimate: minExpected, precision: 2 }
+      ],
+      interpretation: `Fisher's exact test gives a two-sided p = ${pTwoSided.toFixed(4)} (mid-p = ${midTwoSided.toFixed(4)}). ${pTwoSided < 0.05 ? 'A statistically significant association exists.' : 'No statistically significant association was found.'}`,
+      rCode,
+      formula: `P(X = x) ∝ C(m, x)·C(n, k - x)·ψˣ over max(0, k - n) ≤ x ≤ min(k, m)`
+    };
+  }
+};
@@ -0,0 +1,41 @@
+/**
+ * EpiStatKit - Result Formatting
+ * Presentation layer that turns structured CalculationResult numbers into display strings.
+ */
+import { CalculationResult, ResultFormat } from '../types';
+import { formatCI } from './confidenceIntervals/utils';
+
+/**
+ * p-values below the displayed precision are shown as a bound, e.g. "< 0.0001".
+ */
+export const formatPValue = (p: number, precision = 4): string => {
+  if (!isFinite(p)) return 'N/A';
+  const floor = Math.pow(10, -precision);
+  return p < floor ? `< ${floor.toFixed(precision)}` : p.toFixed(precision);
+};
+
+export const formatNumber = (x: number, format: ResultFormat = 'number', precision?: number): string => {
+  if (isNaN(x)) return 'N/A';
+  if (format === 'pvalue') return formatPValue(x, precision);
+  if (format === 'percent') {
+    if (!isFinite(x)) return x > 0 ? '∞' : '-∞';
+    return (x * 100).toFixed(precision ?? 2) + '%';
+  }
+  if (!isFinite(x)) return x > 0 ? '∞' : '-∞';
+  return precision === undefined ? String(x) : x.toFixed(precision);
+};
+
+/**
+ * Display string for a result: its text, else its interval, else its estimate, else its p-value.
+ */
+export const formatResult = (result: CalculationResult): string => {
+  const { text, estimate, lower, upper, pValue, format, precision } = result;
+  if (text !== undefined) return text;
+  if (lower !== undefined && upper !== undefined) {
+    if (format === 'percent') return `[${formatNumber(lower, format, precision)}, ${formatNumber(upper, format, precision)}]`;
+    return formatCI(lower, upper, precision ?? 4);
+  }
+  if (estimate !== undefined) return formatNumber(estimate, format, precision);
+  if (pValue !== undefined) return formatPValue(pValue, precision);
+  return '';
+};
@@ -0,0 +1,76 @@
+/**
+ * EpiStatKit - Library Entry Point
+ * Headless API over the calculators: no React, XLSX or DOM dependencies.
+ * Individual calculators are exported by name so bundlers can drop the rest.
+ */
+export * from '../types';
+export { calculatorRegistry, getCalculatorById, getAllCalculators, run } from './registry';
+export { formatResult, formatNumber, formatPValue } from './format';
+export * as distributions from './distributions';
+
+// Descriptive
+export { descriptiveStats } from './descriptiveStats';
+export { numericSummary } from './descriptive/numericSummary';
+export { categoricalSummary } from './descriptive/categoricalSummary';
+export { outlierStats } from './descriptive/outlierStats';
+export { binarySummary } from './descriptive/binarySummary';
+export { bivariateSummary } from './descriptive/bivariateSummary';
+
+// Confidence Intervals
+export { ciMean } from './confidenceIntervals/ciMean';
+export { ciProportion } from './confidenceIntervals/ciProportion';
+export { ciEpi } from './confidenceIntervals/ciEpi';
+export { ciVariance } from './confidenceIntervals/ciVariance';
+export { ciRatePoisson } from './confidenceIntervals/ciRatePoisson';
+export { ciTwoProportions } from './confidenceIntervals/ciTwoProportions';
+export { ciPercentile } from './confidenceIntervals/ciPercentile';
+
+// Hypothesis Tests
+export { oneSampleT } from './oneSampleT';
+export { twoSampleT } from './twoSampleT';
+export { chiSquare } from './chiSquare';
+export { fisherExact } from './fisherExact';
+export { mcnemar } from './mcnemar';
+export { contingencyTable } from './contingencyTable';
+export { anova } from './anova';
+export { mannWhitney } from './nonparametric/mannWhitney';
+export { wilcoxonSignedRank } from './nonparametric/wilcoxonSignedRank';
+export { kruskalWallis } from './nonparametric/kruskalWallis';
+
+// Epidemiology
+export { incidenceProportion, incidenceRate, cfrCalculator } from './epidemiology/riskCalculators';
+export { riskRatioCalc, oddsRatioCalc } from './epidemiology/ratioCalculators';
+export { riskDiffCalc, vaccineEffectiveness } from './epidemiology/impactCalculators';
+export { diagnosticTesting } from './epidemiology/diagnosticTesting';
+export { mantelHaenszel } from './epidemiology/mantelHaenszel';
+export { rateComparison } from './epidemiology/rateComparison';
+export { epiMeasures } from './epiMeasures';
+export { screeningImpact } from './epidemiology/screeningImpact';
+export { standardizedRates } from './epidemiology/standardizedRates';
+export { ageStandardization } from './epidemiology/ageStandardization';
+export { lifeTable } from './epidemiology/lifeTable';
+export { burdenOfDisease } from './epidemiology/burdenOfDisease';
+
+// Sample Size & Power
+export { sampleSizeProp } from './sampleSizeProp';
+export { sampleSizeMeans, sampleSizeMeanEstimate } from './sampleSizeMeans';
+export { sampleSizeTwoProps } from './sampleSizeTwoProps';
+export { sampleSizePaired, sampleSizePairedProps } from './sampleSizePaired';
+export { sampleSizeNonInferiority } from './sampleSizeNonInferiority';
+export { sampleSizeCluster } from './sampleSizeCluster';
+export { powerMeans } from './powerMeans';
+export { powerProportions } from './power/powerProportions';
+export { powerPaired } from './power/powerPaired';
+export { powerNonInf } from './power/powerNonInf';
+
+// Survival Analysis
+export { kaplanMeier } from './survival/kaplanMeier';
+export { sampleSizeSurvival, powerSurvival } from './survival/sampleSizeSurvival';
+
+// Regression
+export { linearRegression } from './regression/linearRegression';
+export { logisticRegression } from './regression/logisticRegression';
+export { poissonRegression } from './regression/poissonRegression';
+
+// Health Economics
+export { costEffectiveness } from './economics/costEffectiveness';
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../types';
+import * as dist from './distributions';
+import { wilsonInterval } from './confidenceIntervals/utils';
+
+export const mcnemar: CalculatorDefinition<{
+  both_pos: number,
+  pos_neg: number,
+  neg_pos: number,
+  both_neg: number,
+  conf: number
+}> = {
+  metadata: {
+    id: 'mcnemar',
+    title: 'McNemar Test (Paired 2x2)',
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Test paired binary outcomes (matched case-control pairs, before/after measurements) with the matched-pair odds ratio and the difference of paired proportions.',
+    keywords: ['mcnemar', 'paired', 'matched', 'before after', 'discordant', 'odds ratio', 'p-value']
+  },
+  schema: z.object({
+    both_pos: z.number().int().min(0).describe("Pairs +/+ (both positive or exposed)"),
+    pos_neg: z.number().int().min(0).describe("Pairs +/− (first only, e.g. case exposed)"),
+    neg_pos: z.number().int().min(0).describe("Pairs −/+ (second only, e.g. control exposed)"),
+    both_neg: z.number().int().min(0).describe("Pairs −/− (both negative or unexposed)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }),
+  examples: [
+    { both_pos: 794, pos_neg: 150, neg_pos: 86, both_neg: 570, conf: 95 },
+    { both_pos: 12, pos_neg: 9, neg_pos: 2, both_neg: 21, conf: 95 }
+  ],
+  references: [
+    {
+      author: "McNemar Q",
+      year: 1947,
+      title: "Note on the sampling error of the difference between correlated proportions or percentages",
+      source: "Psychometrika 12(2):153-157",
+      doi: "10.1007/BF02295996"
+    },
+    {
+      author: "Newcombe RG",
+      year: 1998,
+      title: "Improved confidence intervals for the difference between binomial proportions based on paired data",
+      source: "Statistics in Medicine 17(22):2635-2650",
+      doi: "10.1002/(SICI)1097-0258(19981130)17:22<2635::AID-SIM954>3.0.CO;2-C"
+    }
+  ],
+  compute: (data) => {
+    const { both_pos: a, pos_neg: b, neg_pos: c, both_neg: d, conf } = data;
+    const n = a + b + c + d;
+    const discordant = b + c;
+
+    if (discordant === 0) {
+      return { results: [], interpretation: "There are no discordant pairs, so the paired proportions cannot differ." };
+    }
+
+    // Chi-square on the discordant pairs, with and without the continuity correction
+    const chi2 = Math.pow(b - c, 2) / discordant;
+    const chi2CC = Math.pow(Math.max(0, Math.abs(b - c) - 1), 2) / discordant;
+    const pChi2 = dist.getChiSqPValue(chi2, 1);
+    const pChi2CC = dist.getChiSqPValue(chi2CC, 1);
+
+    // Exact: b ~ Binomial(b + c, 1/2) under the null
+    const pExact = Math.min(1, 2 * Math.min(dist.binomialCDF(b, discordant, 0.5), 1 - dist.binomialCDF(b - 1, discordant, 0.5)));
+
+    // Matched-pair OR b/c; the exact interval maps the Clopper-Pearson limits of b/(b + c)
+    const alpha = 1 - conf / 100;
+    const pLow = b === 0 ? 0 : dist.betaQuantile(alpha / 2, b, c + 1);
+    const pHigh = c === 0 ? 1 : dist.betaQuantile(1 - alpha / 2, b + 1, c);
+    const matchedOR = c === 0 ? Infinity : b / c;
+    const orLower = pLow / (1 - pLow);
+    const orUpper = pHigh === 1 ? Infinity : pHigh / (1 - pHigh);
+
+    // Newcombe (1998) method 10: Wilson limits for each margin, combined through the phi correlation
+    const p1 = (a + b) / n;
+    const p2 = (a + c) / n;
+    const diff = p1 - p2;
+    const w1 = wilsonInterval(a + b, n, conf);
+    const w2 = wilsonInterval(a + c, n, conf);
+    const marginProduct = (a + b) * (c + d) * (a + c) * (b + d);
+    const phi = marginProduct === 0 ? 0 : (a * d - b * c) / Math.sqrt(marginProduct);
+    const dLower = Math.sqrt(Math.pow(p1 - w1.lower, 2) - 2 * phi * (p1 - w1.lower) * (w2.upper - p2) + Math.pow(w2.upper - p2, 2));
+    const dUpper = Math.sqrt(Math.pow(w1.upper - p1, 2) - 2 * phi * (w1.upper - p1) * (p2 - w2.lower) + Math.pow(p2 - w2.lower, 2));
+
+    const rCode = `# McNemar Test for Paired Binary Data
+tab <- matrix(c(${a}, ${c}, ${b}, ${d}), nrow = 2,
+              dimnames = list(First = c("+", "-"), Second = c("+", "-")))
+mcnemar.test(tab, correct = TRUE)
+mcnemar.test(tab, correct = FALSE)
+
+# Exact McNemar test and matched-pair OR (install.packages("exact2x2"))
+library(exact2x2)
+mcnemar.exact(tab, conf.level = ${conf / 100})`;
+
+    return {
+      results: [
+        { label: 'McNemar Chi-Square (corrected)', estimate: chi2CC, pValue: pChi2CC, method: 'Edwards continuity correction', precision: 4, isMain: true },
+        { label: 'McNemar Chi-Square', estimate: chi2, pValue: pChi2, method: 'No continuity correction', precision: 4 },
+        { label: 'p-value (corrected)', pValue: pChi2CC, method: "McNemar's chi-squared test with continuity correction" },
+        { label: 'p-value (uncorrected)', pValue: pChi2, method: "McNemar's chi-squared test" },
+        { label: 'Exact p-value', pValue: pExact, method: 'Exact binomial McNemar test', isMain: true },
+        { label: 'Matched-Pair Odds Ratio', estimate: matchedOR, precision: 4, isMain: true },
+        { label: 'OR Confidence Interval', estimate: matchedOR, lower: orLower, upper: orUpper, confLevel: conf, method: 'Exact (Clopper-Pearson)', precision: 4 },
+        { label: 'Proportion Positive (First)', estimate: p1, format: 'percent', precision: 2 },
+        { label: 'Proportion Positive (Second)', estimate: p2, format: 'percent', precision: 2 },
+        { label: 'Difference in Proportions', estimate: diff, lower: diff - dLower, upper: diff + dUpper, confLevel: conf, method: 'Newcombe (method 10)', format: 'percent', precision: 2, isMain: true },
+        { label: 'Discordant Pairs', estimate: discordant },
+        { label: 'Total Pairs', estimate: n }
+      ],
+      interpretation: `Of ${n} pairs, ${discordant} are discordant (${b} +/− and ${c} −/+). The exact McNemar test gives p = ${pExact.toFixed(4)}; ${pExact < 0.05 ? 'the paired proportions differ significantly.' : 'there is no significant difference between the paired proportions.'} The matched-pair odds ratio is ${isFinite(matchedOR) ? matchedOR.toFixed(3) : '∞'}.`,
+      rCode,
+      formula: `χ² = (|b - c| - 1)² / (b + c);  OR = b / c;  Δ = (b - c) / n`
+    };
+  }
+};
@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { parseGroups, median } from '../descriptive/utils';
+import { rank, tieSum, holmAdjust, formatAdjustedP } from './utils';
+
+export const kruskalWallis: CalculatorDefinition<{ groups: string }> = {
+  metadata: {
+    id: 'kruskal-wallis',
+    title: 'Kruskal-Wallis Test',
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Rank-based comparison of three or more independent groups, with Dunn post-hoc tests adjusted by Holm\'s method.',
+    keywords: ['kruskal-wallis', 'nonparametric', 'rank', 'dunn', 'post-hoc', 'anova on ranks', 'median', 'p-value']
+  },
+  schema: z.object({
+    groups: z.string()
+      .refine(s => parseGroups(s).length >= 2, "Enter at least 2 groups, one per line")
+      .refine(s => parseGroups(s).every(g => g.values.length >= 1), "Every group needs at least one value")
+      .refine(s => new Set(parseGroups(s).flatMap(g => g.values)).size >= 2, "All values are identical, so there is nothing to rank")
+      .describe("Data Groups (one group per line, optional \"Label:\" prefix)")
+  }),
+  examples: [
+    { groups: 'Normal: 2.9, 3.0, 2.5, 2.6, 3.2\nObstructive: 3.8, 2.7, 4.0, 2.4\nAsbestosis: 2.8, 3.4, 3.7, 2.2, 2.0' },
+    { groups: 'ctrl: 4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14\ntrt1: 4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69\ntrt2: 6.31, 5.12, 5.54, 5.50, 5.37, 5.29, 4.92, 6.15, 5.80, 5.26' }
+  ],
+  references: [
+    {
+      author: "Kruskal WH, Wallis WA",
+      year: 1952,
+      title: "Use of ranks in one-criterion variance analysis",
+      source: "Journal of the American Statistical Association 47(260):583-621",
+      doi: "10.1080/01621459.1952.10483441"
+    },
+    {
+      author: "Dunn OJ",
+      year: 1964,
+      title: "Multiple comparisons using rank sums",
+      source: "Technometrics 6(3):241-252",
+      doi: "10.1080/00401706.1964.10490181"
+    },
+    {
+      author: "Holm S",
+      year: 1979,
+      title: "A simple sequentially rejective multiple test procedure",
+      source: "Scandinavian Journal of Statistics 6(2):65-70",
+      doi: "N/A"
+    }
+  ],
+  compute: (data) => {
+    const groups = parseGroups(data.groups);
+    const k = groups.length;
+    const all = groups.flatMap(g => g.values);
+    const N = all.length;
+    const ranks = rank(all);
+
+    // Mean rank of each group, slicing the pooled ranks back into their groups
+    let offset = 0;
+    const meanRanks = groups.map(g => {
+      const r = ranks.slice(offset, offset + g.values.length);
+      offset += g.values.length;
+      return r.reduce((s, v) => s + v, 0) / r.length;
+    });
+
+    const ties = tieSum(all);
+    const tieFactor = 1 - ties / (N * N * N - N);
+    const h = ((12 / (N * (N + 1))) * groups.reduce((s, g, i) => s + g.values.length * meanRanks[i] * meanRanks[i], 0) - 3 * (N + 1)) / tieFactor;
+    const df = k - 1;
+    const p = dist.getChiSqPValue(h, df);
+    const epsilonSq = h / (N - 1);
+
+    const results: CalculationResult[] = [
+      { label: 'Kruskal-Wallis H', estimate: h, pValue: p, method: `Chi-square approximation, df = ${df}`, precision: 4, isMain: true },
+      { label: 'p-value', pValue: p, method: 'Kruskal-Wallis rank sum test', isMain: true },
+      { label: 'Degrees of Freedom', estimate: df },
+      { label: 'Epsilon-Squared (ε²)', estimate: epsilonSq, precision: 4, isMain: true }
+    ];
+
+    groups.forEach((g, i) => {
+      results.push({ label: `Mean Rank (${g.label})`, estimate: meanRanks[i], precision: 3, description: `Median ${median(g.values)}, n = ${g.values.length}` });
+    });
+
+    // Dunn's z for each pair, with the tie-corrected rank variance
+    const variance = (N * (N + 1)) / 12 - ties / (12 * (N - 1));
+    const pairs: { i: number, j: number, z: number, p: number }[] = [];
+    for (let i = 0; i < k - 1; i++) {
+      for (let j = i + 1; j < k; j++) {
+        const se = Math.sqrt(variance * (1 / groups[i].values.length + 1 / groups[j].values.length));
+        const z = (meanRanks[i] - meanRanks[j]) / se;
+        pairs.push({ i, j, z, p: 2 * (1 - dist.normalCDF(Math.abs(z))) });
+      }
+    }
+    const adjusted = holmAdjust(pairs.map(c => c.p));
+    pairs.forEach((c, idx) => {
+      results.push({
+        label: `Dunn: ${groups[c.i].label} − ${groups[c.j].label}`, estimate: c.z, pValue: adjusted[idx], method: 'Dunn test, Holm-adjusted',
+        precision: 4, description: `p = ${formatAdjustedP(c.p)}, Holm p = ${formatAdjustedP(adjusted[idx])}`
+      });
+    });
+
+    const labels = groups.map(g => JSON.stringify(g.label)).join(', ');
+    const rCode = `# Kruskal-Wallis Test
+dat <- data.frame(
+  value = c(${groups.map(g => g.values.join(', ')).join(',\n            ')}),
+  group = factor(rep(c(${labels}), times = c(${groups.map(g => g.values.length).join(', ')})),
+                 levels = c(${labels}))
+)
+kruskal.test(value ~ group, data = dat)
+
+# Dunn post-hoc tests with Holm adjustment (install.packages("FSA"))
+library(FSA)
+dunnTest(value ~ group, data = dat, method = "holm")`;
+
+    const significant = adjusted.filter(v => v < 0.05).length;
+
+    return {
+      results,
+      interpretation: `The Kruskal-Wallis test gives H = ${h.toFixed(3)} (df = ${df}), p = ${p.toFixed(4)}. ${p < 0.05 ? `At least one group tends to have larger values than another; Dunn's tests find ${significant} of ${pairs.length} pairwise differences significant after Holm adjustment.` : 'No significant difference between the groups was detected.'}${N < 5 * k ? ' With small groups the chi-square approximation is rough.' : ''}`,
+      rCode,
+      formula: `H = [12 / (N(N + 1)) · Σ nᵢR̄ᵢ² - 3(N + 1)] / [1 - Σ(t³ - t)/(N³ - N)];  zᵢⱼ = (R̄ᵢ - R̄ⱼ) / √(σ²(1/nᵢ + 1/nⱼ))`
+    };
+  }
+};
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../../types';
+import * as dist from '../distributions';
+import { parseNumericInput, median } from '../descriptive/utils';
+import { rank, tieSum, hasTies, decreasingRoot } from './utils';
+
+// R's wilcox.test switches to the normal approximation from 50 observations per group
+const EXACT_LIMIT = 50;
+
+export const mannWhitney: CalculatorDefinition<{ group1: string, group2: string, conf: number }> = {
+  metadata: {
+    id: 'mann-whitney',
+    title: 'Mann-Whitney U Test',
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Rank-based comparison of two independent groups (Wilcoxon rank-sum test) with exact p-values for small samples and the Hodges-Lehmann shift estimate.',
+    keywords: ['mann-whitney', 'wilcoxon rank-sum', 'nonparametric', 'rank', 'hodges-lehmann', 'median', 'skewed', 'p-value']
+  },
+  schema: z.object({
+    group1: z.string().refine(s => parseNumericInput(s).length >= 1, "Group 1 needs at least one value").describe("Group 1 Data"),
+    group2: z.string().refine(s => parseNumericInput(s).length >= 1, "Group 2 needs at least one value").describe("Group 2 Data"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => parseNumericInput(d.group1).length + parseNumericInput(d.group2).length >= 3, {
+    message: "At least 3 observations in total are required"
+  }).refine(d => new Set([...parseNumericInput(d.group1), ...parseNumericInput(d.group2)]).size >= 2, {
+    message: "All values are identical, so there is nothing to rank"
+  }),
+  examples: [
+    { group1: '0.80, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46', group2: '1.15, 0.88, 0.90, 0.74, 1.21', conf: 95 },
+    { group1: '4.17, 5.58, 5.18, 6.11, 4.50, 4.61, 5.17, 4.53, 5.33, 5.14', group2: '4.81, 4.17, 4.41, 3.59, 5.87, 3.83, 6.03, 4.89, 4.32, 4.69', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Mann HB, Whitney DR",
+      year: 1947,
+      title: "On a test of whether one of two random variables is stochastically larger than the other",
+      source: "Annals of Mathematical Statistics 18(1):50-60",
+      doi: "10.1214/aoms/1177730491"
+    },
+    {
+      author: "Hodges JL, Lehmann EL",
+      year: 1963,
+      title: "Estimates of location based on rank tests",
+      source: "Annals of Mathematical Statistics 34(2):598-611",
+      doi: "10.1214/aoms/1177704172"
+    },
+    {
+      author: "Bauer DF",
+      year: 1972,
+      title: "Constructing confidence sets using rank statistics",
+      source: "Journal of the American Statistical Association 67(339):687-690",
+      doi: "10.1080/01621459.1972.10481279"
+    }
+  ],
+  compute: (data) => {
+    const x = parseNumericInput(data.group1);
+    const y = parseNumericInput(data.group2);
+    const { conf } = data;
+    const nx = x.length;
+    const ny = y.length;
+    const alpha = 1 - conf / 100;
+
+    const ranks = rank([...x, ...y]);
+    const w = ranks.slice(0, nx).reduce((s, r) => s + r, 0) - (nx * (nx + 1)) / 2;
+    const ties = hasTies([...x, ...y]);
+    const exact = nx < EXACT_LIMIT && ny < EXACT_LIMIT && !ties;
+
+    // Tie-corrected normal approximation with continuity correction, as wilcox.test(correct = TRUE)
+    const sigmaFor = (values: number[]) =>
+      Math.sqrt((nx * ny / 12) * ((nx + ny + 1) - tieSum(values) / ((nx + ny) * (nx + ny - 1))));
+    const sigma = sigmaFor([...x, ...y]);
+    const centred = w - (nx * ny) / 2;
+    const zStat = (centred - Math.sign(centred) * 0.5) / sigma;
+
+    const pValue = exact
+      ? Math.min(1, 2 * (w > (nx * ny) / 2 ? 1 - dist.wilcoxonCDF(w - 1, nx, ny) : dist.wilcoxonCDF(w, nx, ny)))
+      : Math.min(1, 2 * Math.min(dist.normalCDF(zStat), 1 - dist.normalCDF(zStat)));
+
+    // Hodges-Lehmann shift: median of the pairwise differences x - y
+    const diffs = x.flatMap(xi => y.map(yj => xi - yj)).sort((a, b) => a - b);
+    let shift: number, lower: number, upper: number;
+    if (exact) {
+      shift = median(diffs);
+      const qu = Math.max(1, dist.wilcoxonQuantile(alpha / 2, nx, ny));
+      const ql = nx * ny - qu;
+      lower = diffs[qu - 1];
+      upper = diffs[ql];
+    } else {
+      // Invert the normal-approximation test in the shift d, as wilcox.test does
+      const wDiff = (d: number, zq: number) => {
+        const shifted = [...x.map(v => v - d), ...y];
+        const dz = rank(shifted).slice(0, nx).reduce((s, r) => s + r, 0) - (nx * (nx + 1)) / 2 - (nx * ny) / 2;
+        return (dz - Math.sign(dz) * 0.5) / sigmaFor(shifted) - zq;
+      };
+      const lo = Math.min(...x) - Math.max(...y);
+      const hi = Math.max(...x) - Math.min(...y);
+      const zq = dist.normalQuantile(1 - alpha / 2);
+      shift = decreasingRoot(d => wDiff(d, 0), lo, hi);
+      lower = decreasingRoot(d => wDiff(d, zq), lo, hi);
+      upper = decreasingRoot(d => wDiff(d, -zq), lo, hi);
+    }
+
+    const superiority = w / (nx * ny);
+    const method = exact ? 'Exact Wilcoxon rank-sum distribution' : `Normal approximation${ties ? ' with tie correction' : ''} and continuity correction`;
+
+    const rCode = `# Mann-Whitney U (Wilcoxon rank-sum) Test
+x <- c(${x.join(', ')})
+y <- c(${y.join(', ')})
+
+wilcox.test(x, y, conf.int = TRUE, conf.level = ${conf / 100})`;
+
+    return {
+      results: [
+        { label: 'W Statistic', estimate: w, pValue, method: 'Mann-Whitney U for group 1', description: `U for group 2 = ${nx * ny - w}`, isMain: true },
+        { label: 'p-value (Two-sided)', pValue, method, isMain: true },
+        { label: 'Z Statistic', estimate: zStat, precision: 4, method: 'Normal approximation' },
+        { label: 'Hodges-Lehmann Shift', estimate: shift, lower, upper, confLevel: conf, method: exact ? 'Exact (Bauer)' : 'Normal approximation', precision: 4, isMain: true },
+        { label: 'Probability of Superiority', estimate: superiority, precision: 4, description: 'P(group 1 > group 2) + ½·P(tie)' },
+        { label: 'Rank-Biserial Correlation', estimate: 2 * superiority - 1, precision: 4 },
+        { label: 'Median (Group 1)', estimate: median(x), precision: 4, description: `n = ${nx}` },
+        { label: 'Median (Group 2)', estimate: median(y), precision: 4, description: `n = ${ny}` }
+      ],
+      interpretation: `The Mann-Whitney test gives W = ${w}, p = ${pValue.toFixed(4)} (${exact ? 'exact' : 'normal approximation'}). ${pValue < alpha ? 'The two distributions differ significantly in location' : 'No significant difference in location was detected'}; the Hodges-Lehmann estimate of the shift (group 1 − group 2) is ${shift.toFixed(4)} (${conf}% CI ${lower.toFixed(4)} to ${upper.toFixed(4)}).${ties && nx < EXACT_LIMIT && ny < EXACT_LIMIT ? ' Tied values rule out the exact test.' : ''}`,
+      rCode,
+      formula: `W = R₁ - n₁(n₁ + 1)/2;  z = (W - n₁n₂/2 ∓ ½) / √(n₁n₂/12 · (N + 1 - Σ(t³ - t)/(N(N - 1))))`
+    };
+  }
+};
@@ -0,0 +1,87 @@
+/**
+ * EpiStatKit - Rank-Based Test Utilities
+ */
+import * as dist from '../distributions';
+import { median } from '../descriptive/utils';
+
+// Average ranks, ties sharing the mean of their positions (R's rank())
+export const rank = (values: number[]): number[] => {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const average = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = average;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+// Σ(t³ - t) over groups of tied values, the tie term in rank-statistic variances
+export const tieSum = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let sum = 0;
+  counts.forEach(t => { sum += t * t * t - t; });
+  return sum;
+};
+
+export const hasTies = (values: number[]): boolean => new Set(values).size < values.length;
+
+/**
+ * Root of a decreasing step function on [lo, hi] by bisection, clamped to the ends as in the
+ * interval search of R's wilcox.test (which stops at uniroot's tolerance of 1e-4).
+ */
+export const decreasingRoot = (f: (d: number) => number, lo: number, hi: number): number => {
+  if (f(lo) <= 0) return lo;
+  if (f(hi) >= 0) return hi;
+  return dist.bisect(d => -f(d), 0, lo, hi, true, 1e-10 * Math.max(1, Math.abs(lo), Math.abs(hi)));
+};
+
+/**
+ * Hodges-Lehmann pseudomedian (median of the Walsh averages (dᵢ + dⱼ)/2, i ≤ j) with the interval
+ * from inverting the signed-rank test: exact Walsh-average order statistics, or otherwise the
+ * normal approximation solved for the location shift, as wilcox.test does.
+ */
+export const hodgesLehmann = (d: number[], conf: number, exact: boolean) => {
+  const n = d.length;
+  const alpha = 1 - conf / 100;
+  if (exact) {
+    const walsh = d.flatMap((di, i) => d.slice(i).map(dj => (di + dj) / 2)).sort((a, b) => a - b);
+    const qu = Math.max(1, dist.signedRankQuantile(alpha / 2, n));
+    const ql = (n * (n + 1)) / 2 - qu;
+    return { estimate: median(walsh), lower: walsh[qu - 1], upper: walsh[ql] };
+  }
+  const wDiff = (shift: number, zq: number) => {
+    const xd = d.map(v => v - shift).filter(v => v !== 0);
+    const nd = xd.length;
+    const dr = rank(xd.map(Math.abs));
+    const zd = dr.reduce((s, r, i) => s + (xd[i] > 0 ? r : 0), 0) - (nd * (nd + 1)) / 4;
+    const sd = Math.sqrt((nd * (nd + 1) * (2 * nd + 1)) / 24 - tieSum(xd.map(Math.abs)) / 48);
+    return (zd - Math.sign(zd) * 0.5) / sd - zq;
+  };
+  const lo = Math.min(...d);
+  const hi = Math.max(...d);
+  const zq = dist.normalQuantile(1 - alpha / 2);
+  return {
+    estimate: decreasingRoot(s => wDiff(s, 0), lo, hi),
+    lower: decreasingRoot(s => wDiff(s, zq), lo, hi),
+    upper: decreasingRoot(s => wDiff(s, -zq), lo, hi)
+  };
+};
+
+// Holm step-down adjustment of a family of p-values, returned in the input order
+export const holmAdjust = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, i }, k) => {
+    running = Math.max(running, Math.min(1, (m - k) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+};
+
+export const formatAdjustedP = (p: number): string => (p < 0.0001 ? '< 0.0001' : p.toFixed(4));
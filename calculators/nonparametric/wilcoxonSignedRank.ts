@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../../types';
+import * as dist from '../distributions';
+import { parseNumericInput, median } from '../descriptive/utils';
+import { rank, tieSum, hasTies, hodgesLehmann } from './utils';
+
+// R's wilcox.test switches to the normal approximation from 50 non-zero differences
+const EXACT_LIMIT = 50;
+
+export const wilcoxonSignedRank: CalculatorDefinition<{ first: string, second: string, conf: number }> = {
+  metadata: {
+    id: 'wilcoxon-signed-rank',
+    title: 'Wilcoxon Signed-Rank Test',
+    category: Category.HYPOTHESIS_TESTS,
+    description: 'Rank-based test of paired measurements (before/after, matched pairs) with exact p-values for small samples and the Hodges-Lehmann pseudomedian of the differences.',
+    keywords: ['wilcoxon', 'signed-rank', 'paired', 'nonparametric', 'rank', 'before after', 'hodges-lehmann', 'p-value']
+  },
+  schema: z.object({
+    first: z.string().refine(s => parseNumericInput(s).length >= 2, "Enter at least 2 values").describe("First Measurements (e.g. before)"),
+    second: z.string().refine(s => parseNumericInput(s).length >= 2, "Enter at least 2 values").describe("Second Measurements (same order as the first)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => parseNumericInput(d.first).length === parseNumericInput(d.second).length, {
+    message: "Both measurement lists need the same number of values"
+  }).refine(d => {
+    const y = parseNumericInput(d.second);
+    return parseNumericInput(d.first).some((v, i) => v !== y[i]);
+  }, {
+    message: "All pairs are equal, so there are no non-zero differences to rank"
+  }),
+  examples: [
+    { first: '1.83, 0.50, 1.62, 2.48, 1.68, 1.88, 1.55, 3.06, 1.30', second: '0.878, 0.647, 0.598, 2.05, 1.06, 1.29, 1.06, 3.14, 1.29', conf: 95 },
+    { first: '125, 132, 138, 120, 145, 128, 140, 135, 150, 130, 142, 126', second: '118, 130, 135, 120, 138, 125, 132, 136, 141, 125, 135, 122', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Wilcoxon F",
+      year: 1945,
+      title: "Individual comparisons by ranking methods",
+      source: "Biometrics Bulletin 1(6):80-83",
+      doi: "10.2307/3001968"
+    },
+    {
+      author: "Hollander M, Wolfe DA, Chicken E",
+      year: 2014,
+      title: "Nonparametric Statistical Methods",
+      source: "John Wiley & Sons, 3rd Edition",
+      doi: "10.1002/9781119196037"
+    }
+  ],
+  compute: (data) => {
+    const first = parseNumericInput(data.first);
+    const second = parseNumericInput(data.second);
+    const { conf } = data;
+    const alpha = 1 - conf / 100;
+
+    // Zero differences carry no sign and are dropped (Wilcoxon's method)
+    const allDiffs = first.map((v, i) => v - second[i]);
+    const d = allDiffs.filter(v => v !== 0);
+    const zeros = allDiffs.length - d.length;
+    const n = d.length;
+
+    const ranks = rank(d.map(Math.abs));
+    const v = ranks.reduce((s, r, i) => s + (d[i] > 0 ? r : 0), 0);
+    const ties = hasTies(d.map(Math.abs));
+    const exact = n < EXACT_LIMIT && !ties && zeros === 0;
+
+    const sigma = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - tieSum(d.map(Math.abs)) / 48);
+    const centred = v - (n * (n + 1)) / 4;
+    const zStat = (centred - Math.sign(centred) * 0.5) / sigma;
+
+    const pValue = exact
+      ? Math.min(1, 2 * (v > (n * (n + 1)) / 4 ? 1 - dist.signedRankCDF(v - 1, n) : dist.signedRankCDF(v, n)))
+      : Math.min(1, 2 * Math.min(dist.normalCDF(zStat), 1 - dist.normalCDF(zStat)));
+
+    const { estimate, lower, upper } = hodgesLehmann(d, conf, exact);
+
+    const method = exact ? 'Exact signed-rank distribution' : `Normal approximation${ties || zeros > 0 ? ' with tie correction' : ''} and continuity correction`;
+
+    const rCode = `# Wilcoxon Signed-Rank Test (paired)
+first <- c(${first.join(', ')})
+second <- c(${second.join(', ')})
+
+wilcox.test(first, second, paired = TRUE, conf.int = TRUE, conf.level = ${conf / 100})`;
+
+    return {
+      results: [
+        { label: 'V Statistic', estimate: v, pValue, method: 'Sum of ranks of positive differences', description: `${n} non-zero differences`, isMain: true },
+        { label: 'p-value (Two-sided)', pValue, method, isMain: true },
+        { label: 'Z Statistic', estimate: zStat, precision: 4, method: 'Normal approximation' },
+        { label: 'Pseudomedian Difference', estimate, lower, upper, confLevel: conf, method: exact ? 'Exact (Hodges-Lehmann)' : 'Normal approximation', precision: 4, isMain: true },
+        { label: 'Median Difference', estimate: median(allDiffs), precision: 4, description: 'First − second' },
+        { label: 'Pairs', estimate: allDiffs.length },
+        { label: 'Zero Differences (dropped)', estimate: zeros }
+      ],
+      interpretation: `The Wilcoxon signed-rank test gives V = ${v}, p = ${pValue.toFixed(4)} (${exact ? 'exact' : 'normal approximation'}). ${pValue < alpha ? 'The paired measurements differ significantly' : 'No significant difference between the paired measurements was detected'}; the Hodges-Lehmann estimate of the typical difference (first − second) is ${estimate.toFixed(4)} (${conf}% CI ${lower.toFixed(4)} to ${upper.toFixed(4)}).${zeros > 0 ? ` ${zeros} zero difference${zeros === 1 ? ' was' : 's were'} dropped.` : ''}`,
+      rCode,
+      formula: `V = Σ rank(|dᵢ|) over dᵢ > 0;  z = (V - n(n + 1)/4 ∓ ½) / √(n(n + 1)(2n + 1)/24 - Σ(t³ - t)/48)`
+    };
+  }
+};
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const oneSampleT: CalculatorDefinition<{ mean: number, mu0: number, sd: number, n: number, conf: number }> = {
   metadata: {
@@ -24,8 +24,8 @@ export const oneSampleT: CalculatorDefinition<{ mean: number, mu0: number, sd: n
     const se = sd / Math.sqrt(n);
     const t = (mean - mu0) / se;
     const df = n - 1;
-    const tCrit = ciUtils.getTCritical(conf, df);
-    const pValues = ciUtils.getTPValue(t, df);
+    const tCrit = dist.getTCritical(conf, df);
+    const pValues = dist.getTPValue(t, df);
     const lower = mean - (tCrit * se);
     const upper = mean + (tCrit * se);
 
@@ -33,10 +33,10 @@ export const oneSampleT: CalculatorDefinition<{ mean: number, mu0: number, sd: n
 
     return {
       results: [
-        { label: 't-statistic', value: t.toFixed(4), isMain: true },
-        { label: 'p (Two-sided)', value: pValues.twoSided.toFixed(4), isMain: true },
-        { label: 'Degrees of Freedom', value: df },
-        { label: `${conf}% CI`, value: ciUtils.formatCI(lower, upper, 4) }
+        { label: 't-statistic', estimate: t, pValue: pValues.twoSided, precision: 4, isMain: true },
+        { label: 'p (Two-sided)', pValue: pValues.twoSided, method: 'One-sample t-test', isMain: true },
+        { label: 'Degrees of Freedom', estimate: df },
+        { label: `${conf}% CI`, estimate: mean, lower, upper, confLevel: conf, method: 't interval', precision: 4 }
       ],
       interpretation: `t=${t.toFixed(3)}, p=${pValues.twoSided.toFixed(4)}.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from '../confidenceIntervals/utils';
+import * as dist from '../distributions';
 
 export const powerNonInf: CalculatorDefinition<{ 
   nPerGroup: number, 
@@ -27,10 +27,10 @@ export const powerNonInf: CalculatorDefinition<{
   examples: [{ nPerGroup: 150, pStandard: 0.8, pTest: 0.8, margin: 0.1, alpha: 0.025 }],
   compute: (data) => {
     const { nPerGroup, pStandard, pTest, margin, alpha } = data;
-    const zAlpha = ciUtils.getZCritical((1 - alpha * 2) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha * 2) * 100);
     const se = Math.sqrt((pStandard * (1 - pStandard) + pTest * (1 - pTest)) / nPerGroup);
     const zBeta = (pTest - pStandard + margin) / se - zAlpha;
-    const power = ciUtils.getNormalCDF(zBeta);
+    const power = dist.getNormalCDF(zBeta);
 
     const rCode = `# Power for Non-Inferiority Proportion
 # install.packages("TrialSize")
@@ -46,9 +46,9 @@ TwoSampleProportion.NonInferiority(
 
     return {
       results: [
-        { label: 'Statistical Power', value: (power * 100).toFixed(2) + '%', isMain: true },
-        { label: 'Standard Error', value: se.toFixed(4) },
-        { label: 'Z-Alpha (One-sided)', value: zAlpha.toFixed(3) }
+        { label: 'Statistical Power', estimate: power, format: 'percent', isMain: true },
+        { label: 'Standard Error', estimate: se, precision: 4 },
+        { label: 'Z-Alpha (One-sided)', estimate: zAlpha, precision: 3 }
       ],
       interpretation: `With ${nPerGroup} subjects per group, power is ${(power * 100).toFixed(1)}% to show non-inferiority within ${margin*100}%.`,
       rCode,
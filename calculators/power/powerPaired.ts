@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from '../confidenceIntervals/utils';
+import * as dist from '../distributions';
 
 export const powerPaired: CalculatorDefinition<{ 
   n: number, 
@@ -27,9 +27,9 @@ export const powerPaired: CalculatorDefinition<{
     const { n, diff, sdDiff, alpha } = data;
     const se = sdDiff / Math.sqrt(n);
     const delta = Math.abs(diff);
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
     const zBeta = (delta / se) - zAlpha;
-    const power = ciUtils.getNormalCDF(zBeta);
+    const power = dist.getNormalCDF(zBeta);
 
     const rCode = `# Power for Paired Means
 library(pwr)
@@ -38,9 +38,9 @@ pwr.t.test(n = ${n}, d = d_val, sig.level = ${alpha}, type = "paired")`;
 
     return {
       results: [
-        { label: 'Statistical Power', value: (power * 100).toFixed(2) + '%', isMain: true },
-        { label: 'Effect Size (dz)', value: (delta / sdDiff).toFixed(3) },
-        { label: 'Standard Error', value: se.toFixed(4) }
+        { label: 'Statistical Power', estimate: power, format: 'percent', isMain: true },
+        { label: 'Effect Size (dz)', estimate: delta / sdDiff, precision: 3 },
+        { label: 'Standard Error', estimate: se, precision: 4 }
       ],
       interpretation: `The design provides ${(power * 100).toFixed(1)}% power for the given difference.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../../types';
-import * as ciUtils from '../confidenceIntervals/utils';
+import * as dist from '../distributions';
 
 export const powerProportions: CalculatorDefinition<{ 
   n1: number, 
@@ -31,13 +31,13 @@ export const powerProportions: CalculatorDefinition<{
     const pAvg = (n1 * p1 + n2 * p2) / (n1 + n2);
     const qAvg = 1 - pAvg;
     
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
     const se0 = Math.sqrt(pAvg * qAvg * (1/n1 + 1/n2));
     const seA = Math.sqrt(p1 * q1 / n1 + p2 * q2 / n2);
     
     const diff = Math.abs(p1 - p2);
     const zBeta = (diff - zAlpha * se0) / seA;
-    const power = ciUtils.getNormalCDF(zBeta);
+    const power = dist.getNormalCDF(zBeta);
 
     const rCode = `# Power for Two Proportions
 # Method 1: pwr package
@@ -51,10 +51,10 @@ power.prop.test(n = ${Math.min(n1, n2)}, p1 = ${p1}, p2 = ${p2}, sig.level = ${a
 
     return {
       results: [
-        { label: 'Statistical Power', value: (power * 100).toFixed(2) + '%', isMain: true },
-        { label: 'Type II Error (β)', value: ((1 - power) * 100).toFixed(2) + '%' },
-        { label: 'Risk Difference', value: diff.toFixed(4) },
-        { label: 'Pooled Proportion', value: pAvg.toFixed(4) }
+        { label: 'Statistical Power', estimate: power, format: 'percent', isMain: true },
+        { label: 'Type II Error (β)', estimate: 1 - power, format: 'percent' },
+        { label: 'Risk Difference', estimate: diff, precision: 4 },
+        { label: 'Pooled Proportion', estimate: pAvg, precision: 4 }
       ],
       interpretation: `A study with these parameters has a ${(power * 100).toFixed(1)}% chance of detecting the ${diff.toFixed(2)} difference.`,
       rCode,
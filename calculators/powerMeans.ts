@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const powerMeans: CalculatorDefinition<{ 
   n1: number, 
@@ -34,7 +34,7 @@ export const powerMeans: CalculatorDefinition<{
     const diff = Math.abs(m1 - m2);
     
     // Z-critical for alpha (two-sided)
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
     
     // Standard error of the difference
     const se = sd * Math.sqrt(1/n1 + 1/n2);
@@ -44,17 +44,17 @@ export const powerMeans: CalculatorDefinition<{
     
     // Power = P(Z > zAlpha - lambda) + P(Z < -zAlpha - lambda)
     // Usually only the first term matters
-    const power = ciUtils.getNormalCDF(lambda - zAlpha) + ciUtils.getNormalCDF(-lambda - zAlpha);
+    const power = dist.getNormalCDF(lambda - zAlpha) + dist.getNormalCDF(-lambda - zAlpha);
 
     const rCode = `# Requires 'pwr' package\nlibrary(pwr)\n\n# Cohen's d\nd_val <- ${diff} / ${sd}\n\n# Post-hoc Power\npwr.t2n.test(n1 = ${n1}, n2 = ${n2}, d = d_val, sig.level = ${alpha}, alternative = "two.sided")`;
 
     return {
       results: [
-        { label: 'Statistical Power (1 - β)', value: (power * 100).toFixed(2) + '%', isMain: true },
-        { label: 'Type II Error (β)', value: ((1 - power) * 100).toFixed(2) + '%' },
-        { label: 'Effect Size (Cohen\'s d)', value: (diff / sd).toFixed(3) },
-        { label: 'Critical Z (α/2)', value: zAlpha.toFixed(3) },
-        { label: 'Standard Error', value: se.toFixed(4) }
+        { label: 'Statistical Power (1 - β)', estimate: power, format: 'percent', isMain: true },
+        { label: 'Type II Error (β)', estimate: 1 - power, format: 'percent' },
+        { label: 'Effect Size (Cohen\'s d)', estimate: diff / sd, precision: 3 },
+        { label: 'Critical Z (α/2)', estimate: zAlpha, precision: 3 },
+        { label: 'Standard Error', estimate: se, precision: 4 }
       ],
       interpretation: `With the current design, you have a ${(power * 100).toFixed(1)}% chance of detecting a difference of ${diff} if it truly exists. ${power < 0.8 ? 'This study may be underpowered (standard target is 80%).' : 'The power is adequate.'}`,
       rCode,
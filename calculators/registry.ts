@@ -2,6 +2,13 @@ import { descriptiveStats } from './descriptiveStats';
 import { oneSampleT } from './oneSampleT';
 import { twoSampleT } from './twoSampleT';
 import { chiSquare } from './chiSquare';
+import { fisherExact } from './fisherExact';
+import { mcnemar } from './mcnemar';
+import { contingencyTable } from './contingencyTable';
+import { anova } from './anova';
+import { mannWhitney } from './nonparametric/mannWhitney';
+import { wilcoxonSignedRank } from './nonparametric/wilcoxonSignedRank';
+import { kruskalWallis } from './nonparametric/kruskalWallis';
 import { epiMeasures } from './epiMeasures';
 import { sampleSizeProp } from './sampleSizeProp';
 import { numericSummary } from './descriptive/numericSummary';
@@ -16,11 +23,13 @@ import { ciProportion } from './confidenceIntervals/ciProportion';
 import { ciEpi } from './confidenceIntervals/ciEpi';
 import { ciVariance } from './confidenceIntervals/ciVariance';
 import { ciRatePoisson } from './confidenceIntervals/ciRatePoisson';
+import { ciTwoProportions } from './confidenceIntervals/ciTwoProportions';
+import { ciPercentile } from './confidenceIntervals/ciPercentile';
 
 // Sample Size Module
 import { sampleSizeMeans, sampleSizeMeanEstimate } from './sampleSizeMeans';
 import { sampleSizeTwoProps } from './sampleSizeTwoProps';
-import { sampleSizePaired } from './sampleSizePaired';
+import { sampleSizePaired, sampleSizePairedProps } from './sampleSizePaired';
 import { sampleSizeNonInferiority } from './sampleSizeNonInferiority';
 import { sampleSizeCluster } from './sampleSizeCluster';
 
@@ -35,12 +44,29 @@ import { incidenceProportion, incidenceRate, cfrCalculator } from './epidemiolog
 import { riskRatioCalc, oddsRatioCalc } from './epidemiology/ratioCalculators';
 import { riskDiffCalc, vaccineEffectiveness } from './epidemiology/impactCalculators';
 import { diagnosticTesting } from './epidemiology/diagnosticTesting';
+import { mantelHaenszel } from './epidemiology/mantelHaenszel';
+import { rateComparison } from './epidemiology/rateComparison';
+import { ageStandardization } from './epidemiology/ageStandardization';
+import { lifeTable } from './epidemiology/lifeTable';
+import { burdenOfDisease } from './epidemiology/burdenOfDisease';
+
+// Survival Module
+import { kaplanMeier } from './survival/kaplanMeier';
+import { sampleSizeSurvival, powerSurvival } from './survival/sampleSizeSurvival';
+
+// Regression Module
+import { linearRegression } from './regression/linearRegression';
+import { logisticRegression } from './regression/logisticRegression';
+import { poissonRegression } from './regression/poissonRegression';
+
+// Health Economics Module
+import { costEffectiveness } from './economics/costEffectiveness';
 
 // Legacy / Other
 import { screeningImpact } from './epidemiology/screeningImpact';
 import { standardizedRates } from './epidemiology/standardizedRates';
 
-import { CalculatorDefinition } from '../types';
+import { CalculatorDefinition, RunResult } from '../types';
 
 export const calculatorRegistry: Record<string, CalculatorDefinition<any>> = {
   // Descriptive
@@ -57,11 +83,20 @@ export const calculatorRegistry: Record<string, CalculatorDefinition<any>> = {
   'ci-epi-2x2': ciEpi,
   'ci-variance': ciVariance,
   'ci-rate-poisson': ciRatePoisson,
+  'ci-two-proportions': ciTwoProportions,
+  'ci-percentile': ciPercentile,
   
   // Hypothesis Tests
   'one-sample-t': oneSampleT,
   'two-sample-t': twoSampleT,
   'chi-square': chiSquare,
+  'fisher-exact': fisherExact,
+  'mcnemar': mcnemar,
+  'contingency-table': contingencyTable,
+  'one-way-anova': anova,
+  'mann-whitney': mannWhitney,
+  'wilcoxon-signed-rank': wilcoxonSignedRank,
+  'kruskal-wallis': kruskalWallis,
   
   // Epidemiology Sub-Modules
   'epi-incidence-prop': incidenceProportion,
@@ -72,11 +107,16 @@ export const calculatorRegistry: Record<string, CalculatorDefinition<any>> = {
   'epi-risk-diff': riskDiffCalc,
   'epi-ve': vaccineEffectiveness,
   'diagnostic-testing': diagnosticTesting,
+  'epi-mantel-haenszel': mantelHaenszel,
+  'epi-rate-comparison': rateComparison,
   
   // Legacy / Advanced Epi
   'epi-measures': epiMeasures,
   'screening-impact': screeningImpact,
   'standardized-rates': standardizedRates,
+  'age-standardization': ageStandardization,
+  'life-table': lifeTable,
+  'daly-qaly': burdenOfDisease,
   
   // Sample Size & Power
   'sample-size-prop': sampleSizeProp,
@@ -84,13 +124,47 @@ export const calculatorRegistry: Record<string, CalculatorDefinition<any>> = {
   'sample-size-mean-est': sampleSizeMeanEstimate,
   'sample-size-two-props': sampleSizeTwoProps,
   'sample-size-paired': sampleSizePaired,
+  'sample-size-paired-props': sampleSizePairedProps,
   'sample-size-noninf': sampleSizeNonInferiority,
   'sample-size-cluster': sampleSizeCluster,
   'power-means': powerMeans,
   'power-proportions': powerProportions,
   'power-paired': powerPaired,
-  'power-noninf': powerNonInf
+  'power-noninf': powerNonInf,
+  'sample-size-survival': sampleSizeSurvival,
+  'power-survival': powerSurvival,
+
+  // Survival Analysis
+  'kaplan-meier': kaplanMeier,
+
+  // Regression
+  'linear-regression': linearRegression,
+  'logistic-regression': logisticRegression,
+  'poisson-regression': poissonRegression,
+
+  // Health Economics
+  'cost-effectiveness': costEffectiveness
 };
 
 export const getCalculatorById = (id: string) => calculatorRegistry[id];
 export const getAllCalculators = () => Object.values(calculatorRegistry);
+
+/**
+ * Validates input against the calculator's schema (applying defaults) and computes it.
+ * Unknown ids and invalid input come back as structured errors rather than exceptions.
+ */
+export const run = (id: string, input: unknown): RunResult => {
+  const calc = Object.hasOwn(calculatorRegistry, id) ? getCalculatorById(id) : undefined;
+  if (!calc) return { ok: false, id, errors: [{ path: '', message: `Unknown calculator "${id}"` }] };
+
+  const parsed = calc.schema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      id,
+      errors: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    };
+  }
+
+  return { ok: true, id, input: parsed.data, output: calc.compute(parsed.data) };
+};
@@ -0,0 +1,195 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { parseDataTable, parseColumnNames, buildDesign, invertMatrix, crossProduct, crossVector, leverages, normalScores, rDataFrame, rFormula } from './utils';
+
+interface RegressionInput {
+  data: string,
+  outcome: string,
+  predictors: string,
+  categorical?: string,
+  conf: number
+}
+
+const design = (d: Partial<RegressionInput>) => {
+  const table = parseDataTable(d.data || '');
+  return table && buildDesign(table, (d.outcome || '').trim(), parseColumnNames(d.predictors), parseColumnNames(d.categorical));
+};
+
+const MTCARS = `mpg, cyl, hp, wt
+21.0, 6, 110, 2.620
+21.0, 6, 110, 2.875
+22.8, 4, 93, 2.320
+21.4, 6, 110, 3.215
+18.7, 8, 175, 3.440
+18.1, 6, 105, 3.460
+14.3, 8, 245, 3.570
+24.4, 4, 62, 3.190
+22.8, 4, 95, 3.150
+19.2, 6, 123, 3.440
+17.8, 6, 123, 3.440
+16.4, 8, 180, 4.070
+17.3, 8, 180, 3.730
+15.2, 8, 180, 3.780
+10.4, 8, 205, 5.250
+10.4, 8, 215, 5.424
+14.7, 8, 230, 5.345
+32.4, 4, 66, 2.200
+30.4, 4, 52, 1.615
+33.9, 4, 65, 1.835
+21.5, 4, 97, 2.465
+15.5, 8, 150, 3.520
+15.2, 8, 150, 3.435
+13.3, 8, 245, 3.840
+19.2, 8, 175, 3.845
+27.3, 4, 66, 1.935
+26.0, 4, 91, 2.140
+30.4, 4, 113, 1.513
+15.8, 8, 264, 3.170
+19.7, 6, 175, 2.770
+15.0, 8, 335, 3.570
+21.4, 4, 109, 2.780`;
+
+export const linearRegression: CalculatorDefinition<RegressionInput> = {
+  metadata: {
+    id: 'linear-regression',
+    title: 'Linear Regression',
+    category: Category.REGRESSION,
+    description: 'Simple and multiple linear regression by least squares, with dummy-coded categorical predictors, coefficient tests and CIs, R², the overall F test and residual diagnostics.',
+    keywords: ['regression', 'linear', 'multiple', 'least squares', 'ols', 'lm', 'coefficients', 'r-squared', 'residuals', 'cook', 'dummy']
+  },
+  schema: z.object({
+    data: z.string().refine(s => parseDataTable(s) !== null, "Enter a header row of column names, then one row per observation with the same number of cells").describe("Data Table (header row, then one row per observation)"),
+    outcome: z.string().trim().min(1, "Name the outcome column").describe("Outcome Column"),
+    predictors: z.string().refine(s => parseColumnNames(s).length > 0, "Name at least one predictor column").describe("Predictor Columns (comma separated)"),
+    categorical: z.string().optional().describe("Categorical Predictors (dummy coded; text columns always are)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => design(d) !== null, {
+    message: "Outcome and predictors must be distinct columns in the data header, and the outcome must be numeric."
+  }).refine(d => { const m = design(d); return !m || m.y.length > m.terms.length; }, {
+    message: "The model needs more complete observations than coefficients."
+  }),
+  examples: [
+    { data: MTCARS, outcome: 'mpg', predictors: 'wt, hp', conf: 95 },
+    { data: MTCARS, outcome: 'mpg', predictors: 'wt, cyl', categorical: 'cyl', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Cook RD",
+      year: 1977,
+      title: "Detection of influential observation in linear regression",
+      source: "Technometrics 19(1):15-18",
+      doi: "10.1080/00401706.1977.10489493"
+    }
+  ],
+  compute: (data) => {
+    const { conf } = data;
+    const table = parseDataTable(data.data)!;
+    const outcome = data.outcome.trim();
+    const predictors = parseColumnNames(data.predictors);
+    const m = design(data)!;
+    const { y, X, terms } = m;
+    const n = y.length;
+    const k = terms.length;
+
+    const inverse = invertMatrix(crossProduct(X));
+    if (!inverse) return { results: [], interpretation: "The predictors are collinear (or a dummy level is empty), so the coefficients are not identifiable. Remove a redundant predictor." };
+
+    const xty = crossVector(X, y);
+    const beta = inverse.map(row => row.reduce((s, v, j) => s + v * xty[j], 0));
+    const fitted = X.map(row => row.reduce((s, v, j) => s + v * beta[j], 0));
+    const residuals = y.map((v, i) => v - fitted[i]);
+
+    const df = n - k;
+    const rss = residuals.reduce((s, e) => s + e * e, 0);
+    const yBar = y.reduce((s, v) => s + v, 0) / n;
+    const tss = y.reduce((s, v) => s + (v - yBar) * (v - yBar), 0);
+    const sigma2 = rss / df;
+    const r2 = 1 - rss / tss;
+    const adjR2 = 1 - ((1 - r2) * (n - 1)) / df;
+    const fStat = ((tss - rss) / (k - 1)) / sigma2;
+    const fP = 1 - dist.fCDF(fStat, k - 1, df);
+    const tCrit = dist.getTCritical(conf, df);
+
+    // Influence: leverage, internally studentized residuals and Cook's distance
+    const h = leverages(X, inverse);
+    const standardized = residuals.map((e, i) => e / Math.sqrt(sigma2 * (1 - h[i])));
+    const cooks = standardized.map((r, i) => (r * r * h[i]) / (k * (1 - h[i])));
+    const cutoff = 4 / n;
+    const rowLabel = (i: number) => `Row ${m.rowIndex[i] + 1}`;
+    const influential = cooks.map((d, i) => (d > cutoff ? rowLabel(i) : '')).filter(Boolean);
+    const maxCook = cooks.reduce((best, d, i) => (d > cooks[best] ? i : best), 0);
+
+    const results: CalculationResult[] = [];
+    const significant: string[] = [];
+    terms.forEach((term, j) => {
+      const se = Math.sqrt(sigma2 * inverse[j][j]);
+      const t = beta[j] / se;
+      const p = dist.getTPValue(t, df).twoSided;
+      if (j > 0 && p < 1 - conf / 100) significant.push(term);
+      results.push({
+        label: `Coefficient: ${term}`, estimate: beta[j], lower: beta[j] - tCrit * se, upper: beta[j] + tCrit * se, confLevel: conf,
+        pValue: p, method: `t-test, df = ${df}`, precision: 4, description: `SE ${se.toFixed(4)}, t = ${t.toFixed(3)}`
+      });
+    });
+    results.push(
+      { label: 'R²', estimate: r2, precision: 4, isMain: true },
+      { label: 'Adjusted R²', estimate: adjR2, precision: 4 },
+      { label: 'F-Statistic', estimate: fStat, pValue: fP, method: `F(${k - 1}, ${df})`, precision: 3, isMain: true },
+      { label: 'Residual Standard Error', estimate: Math.sqrt(sigma2), precision: 4, description: `On ${df} degrees of freedom` },
+      { label: 'Observations (n)', estimate: n, description: n < table.rows.length ? `${table.rows.length - n} rows with missing values dropped` : undefined },
+      { label: "Max Cook's Distance", estimate: cooks[maxCook], precision: 4, description: `${rowLabel(maxCook)}, leverage ${h[maxCook].toFixed(3)}` },
+      { label: "Influential Points (Cook's D > 4/n)", estimate: influential.length, description: influential.length > 0 ? influential.join(', ') : undefined }
+    );
+    m.factors.forEach(f => {
+      results.push({ label: `Reference Level (${f.name})`, text: f.levels[0], description: `Levels: ${f.levels.join(', ')}` });
+    });
+
+    const fittedRange = [Math.min(...fitted), Math.max(...fitted)];
+    const order = standardized.map((_, i) => i).sort((a, b) => standardized[a] - standardized[b]);
+    const scores = normalScores(n);
+    const qqRange = [Math.min(scores[0], standardized[order[0]]), Math.max(scores[n - 1], standardized[order[n - 1]])];
+
+    const formula = rFormula(outcome, predictors, m, table);
+    const rCode = `# Linear Regression
+${rDataFrame(table, [outcome, ...predictors])}
+
+fit <- lm(${formula}, data = dat)
+summary(fit)                      # coefficients, R², F test
+confint(fit, level = ${conf / 100})
+
+# Residual diagnostics
+plot(fit, which = c(1, 2, 4))     # residuals vs fitted, normal QQ, Cook's distance
+cooks.distance(fit)[cooks.distance(fit) > 4 / nobs(fit)]`;
+
+    return {
+      results,
+      interpretation: `The model explains ${(r2 * 100).toFixed(1)}% of the variance in ${outcome} (adjusted R² = ${adjR2.toFixed(3)}; F(${k - 1}, ${df}) = ${fStat.toFixed(2)}, p ${fP < 0.0001 ? '< 0.0001' : `= ${fP.toFixed(4)}`}). ${significant.length > 0 ? `Significant predictors at the ${(100 - conf).toFixed(0)}% level: ${significant.join(', ')}.` : 'No individual predictor is significant.'} ${influential.length > 0 ? `${influential.length} observation${influential.length === 1 ? ' has' : 's have'} Cook's distance above 4/n and may be influential.` : "No observation has Cook's distance above 4/n."}`,
+      rCode,
+      formula: `β = (X'X)⁻¹X'y;  SE(β) = √(σ² diag(X'X)⁻¹);  R² = 1 - RSS/TSS;  D_i = r_i² h_i / (p(1 - h_i))`,
+      scatterPlots: [
+        {
+          title: 'Residuals vs Fitted',
+          xLabel: 'Fitted',
+          yLabel: 'Residual',
+          points: fitted.map((f, i) => ({ x: f, y: residuals[i], label: rowLabel(i) })),
+          line: fittedRange.map(x => ({ x, y: 0 }))
+        },
+        {
+          title: 'Normal Q-Q',
+          xLabel: 'Theoretical quantile',
+          yLabel: 'Standardized residual',
+          points: order.map((i, r) => ({ x: scores[r], y: standardized[i], label: rowLabel(i) })),
+          line: qqRange.map(x => ({ x, y: x }))
+        },
+        {
+          title: "Cook's Distance",
+          xLabel: 'Observation',
+          yLabel: "Cook's D",
+          points: cooks.map((d, i) => ({ x: m.rowIndex[i] + 1, y: d, label: rowLabel(i) })),
+          line: [{ x: 1, y: cutoff }, { x: Math.max(...m.rowIndex) + 1, y: cutoff }]
+        }
+      ]
+    };
+  }
+};
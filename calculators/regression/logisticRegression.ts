@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { quantiles } from '../descriptive/utils';
+import { parseDataTable, parseColumnNames, buildDesign, fitGLM, binomialFamily, profileLimits, rDataFrame, rFormula } from './utils';
+
+interface LogisticInput {
+  data: string,
+  outcome: string,
+  predictors: string,
+  categorical?: string,
+  conf: number
+}
+
+const design = (d: Partial<LogisticInput>) => {
+  const table = parseDataTable(d.data || '');
+  return table && buildDesign(table, (d.outcome || '').trim(), parseColumnNames(d.predictors), parseColumnNames(d.categorical));
+};
+
+// Fitted probabilities this close to 0 or 1 mean a linear predictor beyond ±18: the MLE is at infinity
+const SEPARATION_EPS = 1e-8;
+
+/**
+ * Hosmer-Lemeshow statistic over groups cut at the deciles of fitted risk (ResourceSelection's
+ * hoslem.test: tied cut points merge groups, and df stays g - 2).
+ */
+const hosmerLemeshow = (y: number[], p: number[], g = 10) => {
+  const breaks = [...new Set(Array.from({ length: g + 1 }, (_, i) => quantiles(p, i / g)))];
+  const groups = breaks.slice(1).map(() => ({ observed: 0, expected: 0, n: 0 }));
+  p.forEach((pi, i) => {
+    const b = Math.max(0, breaks.findIndex((cut, j) => j > 0 && pi <= cut) - 1);
+    groups[b].observed += y[i];
+    groups[b].expected += pi;
+    groups[b].n++;
+  });
+  const chi2 = groups.reduce((s, grp) => {
+    const expected0 = grp.n - grp.expected;
+    const observed0 = grp.n - grp.observed;
+    return s + Math.pow(grp.observed - grp.expected, 2) / grp.expected + Math.pow(observed0 - expected0, 2) / expected0;
+  }, 0);
+  return { chi2, df: g - 2, p: dist.getChiSqPValue(chi2, g - 2), groups: groups.length };
+};
+
+/**
+ * Area under the ROC curve of the fitted probabilities (the concordance of cases and non-cases,
+ * ties counting half) with DeLong's standard error.
+ */
+const aucDeLong = (y: number[], p: number[]) => {
+  const cases = p.filter((_, i) => y[i] === 1);
+  const controls = p.filter((_, i) => y[i] === 0);
+  const psi = (a: number, b: number) => (a > b ? 1 : a === b ? 0.5 : 0);
+  const v10 = cases.map(a => controls.reduce((s, b) => s + psi(a, b), 0) / controls.length);
+  const v01 = controls.map(b => cases.reduce((s, a) => s + psi(a, b), 0) / cases.length);
+  const auc = v10.reduce((s, v) => s + v, 0) / cases.length;
+  const spread = (v: number[]) => v.reduce((s, x) => s + (x - auc) * (x - auc), 0) / (v.length - 1);
+  return { auc, se: Math.sqrt(spread(v10) / cases.length + spread(v01) / controls.length) };
+};
+
+const MTCARS = `am, vs, mpg, hp, wt
+1, 0, 21.0, 110, 2.620
+1, 0, 21.0, 110, 2.875
+1, 1, 22.8, 93, 2.320
+0, 1, 21.4, 110, 3.215
+0, 0, 18.7, 175, 3.440
+0, 1, 18.1, 105, 3.460
+0, 0, 14.3, 245, 3.570
+0, 1, 24.4, 62, 3.190
+0, 1, 22.8, 95, 3.150
+0, 1, 19.2, 123, 3.440
+0, 1, 17.8, 123, 3.440
+0, 0, 16.4, 180, 4.070
+0, 0, 17.3, 180, 3.730
+0, 0, 15.2, 180, 3.780
+0, 0, 10.4, 205, 5.250
+0, 0, 10.4, 215, 5.424
+0, 0, 14.7, 230, 5.345
+1, 1, 32.4, 66, 2.200
+1, 1, 30.4, 52, 1.615
+1, 1, 33.9, 65, 1.835
+0, 1, 21.5, 97, 2.465
+0, 0, 15.5, 150, 3.520
+0, 0, 15.2, 150, 3.435
+0, 0, 13.3, 245, 3.840
+0, 0, 19.2, 175, 3.845
+1, 1, 27.3, 66, 1.935
+1, 0, 26.0, 91, 2.140
+1, 1, 30.4, 113, 1.513
+1, 0, 15.8, 264, 3.170
+1, 0, 19.7, 175, 2.770
+1, 0, 15.0, 335, 3.570
+1, 1, 21.4, 109, 2.780`;
+
+export const logisticRegression: CalculatorDefinition<LogisticInput> = {
+  metadata: {
+    id: 'logistic-regression',
+    title: 'Logistic Regression',
+    category: Category.REGRESSION,
+    description: 'Binary logistic regression fitted by IRLS: adjusted odds ratios with Wald and profile-likelihood CIs, likelihood-ratio test, AIC, Hosmer-Lemeshow fit and AUC, with detection of separation.',
+    keywords: ['logistic', 'regression', 'odds ratio', 'adjusted', 'glm', 'binary', 'case-control', 'hosmer-lemeshow', 'auc', 'roc', 'separation']
+  },
+  schema: z.object({
+    data: z.string().refine(s => parseDataTable(s) !== null, "Enter a header row of column names, then one row per observation with the same number of cells").describe("Data Table (header row, then one row per observation)"),
+    outcome: z.string().trim().min(1, "Name the outcome column").describe("Outcome Column (1 = case/event, 0 = control)"),
+    predictors: z.string().refine(s => parseColumnNames(s).length > 0, "Name at least one predictor column").describe("Predictor Columns (comma separated)"),
+    categorical: z.string().optional().describe("Categorical Predictors (dummy coded; text columns always are)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => design(d) !== null, {
+    message: "Outcome and predictors must be distinct columns in the data header, and the outcome must be numeric."
+  }).refine(d => { const m = design(d); return !m || (m.y.every(v => v === 0 || v === 1) && m.y.includes(0) && m.y.includes(1)); }, {
+    message: "The outcome must be coded 1 (event) or 0 (no event), with both values present."
+  }).refine(d => { const m = design(d); return !m || m.y.length > m.terms.length; }, {
+    message: "The model needs more complete observations than coefficients."
+  }),
+  examples: [
+    { data: MTCARS, outcome: 'am', predictors: 'wt, hp', conf: 95 },
+    { data: MTCARS, outcome: 'vs', predictors: 'mpg', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Hosmer DW, Lemeshow S",
+      year: 1980,
+      title: "Goodness of fit tests for the multiple logistic regression model",
+      source: "Communications in Statistics - Theory and Methods 9(10):1043-1069",
+      doi: "10.1080/03610928008827941"
+    },
+    {
+      author: "DeLong ER, DeLong DM, Clarke-Pearson DL",
+      year: 1988,
+      title: "Comparing the areas under two or more correlated receiver operating characteristic curves: a nonparametric approach",
+      source: "Biometrics 44(3):837-845",
+      doi: "10.2307/2531595"
+    },
+    {
+      author: "Albert A, Anderson JA",
+      year: 1984,
+      title: "On the existence of maximum likelihood estimates in logistic regression models",
+      source: "Biometrika 71(1):1-10",
+      doi: "10.1093/biomet/71.1.1"
+    }
+  ],
+  compute: (data) => {
+    const { conf } = data;
+    const table = parseDataTable(data.data)!;
+    const outcome = data.outcome.trim();
+    const predictors = parseColumnNames(data.predictors);
+    const m = design(data)!;
+    const { y, X, terms } = m;
+    const n = y.length;
+    const k = terms.length;
+    const events = y.filter(v => v === 1).length;
+
+    const formula = rFormula(outcome, predictors, m, table);
+    const rData = rDataFrame(table, [outcome, ...predictors]);
+
+    const fit = fitGLM(X, y, binomialFamily);
+    if (!fit) return { results: [], interpretation: "The predictors are collinear (or a dummy level is empty), so the coefficients are not identifiable. Remove a redundant predictor." };
+
+    const separated = !fit.converged || fit.mu.some(p => p < SEPARATION_EPS || p > 1 - SEPARATION_EPS);
+    if (separated) {
+      // Terms whose coefficient moves the log-odds by more than 15 across the observed data
+      const drivers = terms.filter((_, j) => j > 0 && Math.abs(fit.beta[j]) * (Math.max(...X.map(r => r[j])) - Math.min(...X.map(r => r[j]))) > 15);
+      const perfect = fit.mu.filter(p => p < SEPARATION_EPS || p > 1 - SEPARATION_EPS).length;
+      return {
+        results: [
+          { label: 'Separation', text: 'Detected', isMain: true, description: `${perfect} of ${n} observations are predicted perfectly${drivers.length > 0 ? `; involves ${drivers.join(', ')}` : ''}` },
+          { label: 'Observations (n)', estimate: n, description: `${events} events` }
+        ],
+        interpretation: `The outcome is (quasi-)completely separated by ${drivers.length > 0 ? drivers.join(', ') : 'the predictors'}: some combination of predictor values predicts ${outcome} perfectly, so the maximum-likelihood odds ratios are infinite and the usual estimates, standard errors and tests are meaningless. Combine sparse categories, drop the separating predictor, or use Firth's penalized likelihood (logistf).`,
+        rCode: `# Logistic Regression: check for separation
+${rData}
+
+fit <- glm(${formula}, family = binomial, data = dat)
+# install.packages(c("detectseparation", "logistf"))
+glm(${formula}, family = binomial, data = dat, method = detectseparation::detect_separation)
+logistf::logistf(${formula}, data = dat)   # Firth's penalized likelihood`
+      };
+    }
+
+    const z = dist.getZCritical(conf);
+    const critical = dist.chiSqQuantile(conf / 100, 1);
+    const pBar = events / n;
+    const nullDeviance = y.reduce((s, v) => s + binomialFamily.deviance(v, pBar), 0);
+    const lrChi2 = nullDeviance - fit.deviance;
+    const lrP = dist.getChiSqPValue(lrChi2, k - 1);
+    const aic = fit.deviance + 2 * k;
+    const hl = hosmerLemeshow(y, fit.mu);
+    const roc = aucDeLong(y, fit.mu);
+
+    const results: CalculationResult[] = [];
+    const significant: string[] = [];
+    const profiles: CalculationResult[] = [];
+    terms.forEach((term, j) => {
+      const b = fit.beta[j];
+      const se = Math.sqrt(fit.inverse[j][j]);
+      const zStat = b / se;
+      const p = 2 * (1 - dist.normalCDF(Math.abs(zStat)));
+      const detail = `β = ${b.toFixed(4)}, SE ${se.toFixed(4)}, z = ${zStat.toFixed(3)}`;
+      if (j === 0) {
+        results.push({ label: 'Intercept (log-odds)', estimate: b, lower: b - z * se, upper: b + z * se, confLevel: conf, pValue: p, method: 'Wald', precision: 4, description: `SE ${se.toFixed(4)}, z = ${zStat.toFixed(3)}` });
+        return;
+      }
+      if (p < 1 - conf / 100) significant.push(`${term} (OR ${Number(Math.exp(b).toPrecision(3))})`);
+      results.push({
+        label: `Odds Ratio: ${term}`, estimate: Math.exp(b), lower: Math.exp(b - z * se), upper: Math.exp(b + z * se), confLevel: conf,
+        pValue: p, method: 'Wald', precision: 4, isMain: true, description: detail
+      });
+      const [lo, hi] = profileLimits(X, y, binomialFamily, fit, j, critical, se);
+      profiles.push({ label: `Profile CI: ${term}`, estimate: Math.exp(b), lower: Math.exp(lo), upper: Math.exp(hi), confLevel: conf, method: 'Profile likelihood', precision: 4 });
+    });
+    results.push(
+      ...profiles,
+      { label: 'Likelihood-Ratio χ²', estimate: lrChi2, pValue: lrP, method: `Model vs intercept only, df = ${k - 1}`, precision: 4, isMain: true },
+      { label: 'AIC', estimate: aic, precision: 3 },
+      { label: 'Residual Deviance', estimate: fit.deviance, precision: 3, description: `On ${n - k} degrees of freedom; null deviance ${nullDeviance.toFixed(3)} on ${n - 1}` },
+      { label: 'Hosmer-Lemeshow χ²', estimate: hl.chi2, pValue: hl.p, method: `Deciles of risk (${hl.groups} groups), df = ${hl.df}`, precision: 4 },
+      { label: 'AUC (C-statistic)', estimate: roc.auc, lower: Math.max(0, roc.auc - z * roc.se), upper: Math.min(1, roc.auc + z * roc.se), confLevel: conf, method: 'DeLong', precision: 4 },
+      { label: 'Observations (n)', estimate: n, description: `${events} events${n < table.rows.length ? `; ${table.rows.length - n} rows with missing values dropped` : ''}` }
+    );
+    m.factors.forEach(f => {
+      results.push({ label: `Reference Level (${f.name})`, text: f.levels[0], description: `Levels: ${f.levels.join(', ')}` });
+    });
+
+    const rCode = `# Logistic Regression
+${rData}
+
+fit <- glm(${formula}, family = binomial, data = dat)
+summary(fit)
+exp(cbind(OR = coef(fit), confint.default(fit, level = ${conf / 100})))   # Wald CIs
+exp(confint(fit, level = ${conf / 100}))                                 # profile-likelihood CIs
+anova(fit, test = "LRT"); AIC(fit)
+
+# Goodness of fit and discrimination
+# install.packages(c("ResourceSelection", "pROC"))
+ResourceSelection::hoslem.test(fit$y, fitted(fit), g = 10)
+pROC::ci.auc(pROC::roc(fit$y, fitted(fit)), method = "delong")`;
+
+    return {
+      results,
+      interpretation: `The model is ${lrP < 1 - conf / 100 ? 'a significant' : 'not a significant'} improvement on the intercept-only model (LR χ² = ${lrChi2.toFixed(2)}, df = ${k - 1}, p ${lrP < 0.0001 ? '< 0.0001' : `= ${lrP.toFixed(4)}`}). ${significant.length > 0 ? `Adjusted odds ratios significant at the ${(100 - conf).toFixed(0)}% level: ${significant.join(', ')}.` : 'No adjusted odds ratio is significant.'} Discrimination: AUC = ${roc.auc.toFixed(3)}. Calibration: Hosmer-Lemeshow p = ${hl.p.toFixed(4)}${hl.p < 0.05 ? ', suggesting poor fit' : ''}.`,
+      rCode,
+      formula: `logit(p) = β₀ + Σβⱼxⱼ;  OR = exp(β);  Wald CI: exp(β ± z·SE);  profile CI: {β : D(β) - D(β̂) ≤ χ²₁}`
+    };
+  }
+};
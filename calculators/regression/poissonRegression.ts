@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult } from '../../types';
+import * as dist from '../distributions';
+import { mean, stdev } from '../descriptive/utils';
+import { parseDataTable, parseColumnNames, buildDesign, fitGLM, poissonFamily, fitNegativeBinomial, poissonLogLik, rDataFrame, rFormula, rName } from './utils';
+
+interface CountInput {
+  data: string,
+  outcome: string,
+  personTime?: string,
+  predictors: string,
+  categorical?: string,
+  model: 'auto' | 'poisson' | 'negative-binomial',
+  conf: number
+}
+
+const timeColumn = (d: Partial<CountInput>) => (d.personTime || '').trim();
+
+const design = (d: Partial<CountInput>) => {
+  const table = parseDataTable(d.data || '');
+  const time = timeColumn(d);
+  return table && buildDesign(table, (d.outcome || '').trim(), parseColumnNames(d.predictors), parseColumnNames(d.categorical), time ? [time] : []);
+};
+
+// Person-time per observation in design order; null when blank (equal follow-up)
+const personTimes = (d: Partial<CountInput>): number[] | null => {
+  const table = parseDataTable(d.data || '');
+  const m = design(d);
+  const time = timeColumn(d);
+  if (!table || !m || !time) return null;
+  const c = table.names.indexOf(time);
+  return m.rowIndex.map(i => Number(table.rows[i][c]));
+};
+
+// Overdispersion above this p-value keeps the Poisson model when the model is chosen automatically
+const DISPERSION_ALPHA = 0.05;
+
+const DOCTORS = `deaths, pyears, smoker, age
+32, 52407, 1, 35-44
+104, 43248, 1, 45-54
+206, 28612, 1, 55-64
+186, 12663, 1, 65-74
+102, 5317, 1, 75-84
+2, 18790, 0, 35-44
+12, 10673, 0, 45-54
+28, 5710, 0, 55-64
+28, 2585, 0, 65-74
+31, 1462, 0, 75-84`;
+
+const EXACERBATIONS = `events, years, treatment, age
+0, 1.0, A, 45
+6, 2.0, A, 52
+0, 1.5, A, 61
+1, 2.0, A, 67
+0, 1.0, A, 48
+9, 2.0, A, 55
+3, 1.5, A, 70
+0, 2.0, A, 43
+0, 1.0, A, 66
+1, 2.0, A, 58
+0, 1.5, A, 50
+14, 2.0, A, 63
+2, 1.0, B, 47
+16, 2.0, B, 59
+1, 1.5, B, 53
+0, 2.0, B, 68
+0, 1.0, B, 44
+4, 2.0, B, 62
+22, 1.5, B, 71
+3, 2.0, B, 56
+0, 1.0, B, 49
+0, 2.0, B, 51
+8, 1.5, B, 65
+11, 2.0, B, 60`;
+
+export const poissonRegression: CalculatorDefinition<CountInput> = {
+  metadata: {
+    id: 'poisson-regression',
+    title: 'Poisson & Negative Binomial Regression',
+    category: Category.REGRESSION,
+    description: 'Regression for event counts with a person-time offset, from grouped strata or individual records: adjusted incidence rate ratios, an overdispersion test, and a negative binomial model when the counts are overdispersed.',
+    keywords: ['poisson', 'negative binomial', 'regression', 'rate ratio', 'irr', 'incidence rate', 'person-time', 'offset', 'counts', 'overdispersion', 'glm.nb']
+  },
+  schema: z.object({
+    data: z.string().refine(s => parseDataTable(s) !== null, "Enter a header row of column names, then one row per observation with the same number of cells").describe("Data Table (one row per stratum or per subject)"),
+    outcome: z.string().trim().min(1, "Name the count column").describe("Event Count Column"),
+    personTime: z.string().optional().describe("Person-Time Column (offset; blank for equal follow-up)"),
+    predictors: z.string().refine(s => parseColumnNames(s).length > 0, "Name at least one predictor column").describe("Predictor Columns (comma separated)"),
+    categorical: z.string().optional().describe("Categorical Predictors (dummy coded; text columns always are)"),
+    model: z.enum(['auto', 'poisson', 'negative-binomial']).default('auto').describe("Model (auto: negative binomial when overdispersed)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => design(d) !== null, {
+    message: "Outcome, person-time and predictors must be distinct columns in the data header, and the counts must be numeric."
+  }).refine(d => { const m = design(d); return !m || m.y.every(v => Number.isInteger(v) && v >= 0); }, {
+    message: "Event counts must be whole numbers ≥ 0."
+  }).refine(d => { const m = design(d); return !m || m.y.some(v => v > 0); }, {
+    message: "At least one event count must be greater than 0."
+  }).refine(d => (personTimes(d) || []).every(t => t > 0), {
+    message: "Person-time must be positive for every row."
+  }).refine(d => { const m = design(d); return !m || m.y.length > m.terms.length; }, {
+    message: "The model needs more complete observations than coefficients."
+  }),
+  examples: [
+    { data: DOCTORS, outcome: 'deaths', personTime: 'pyears', predictors: 'smoker, age', model: 'poisson', conf: 95 },
+    { data: EXACERBATIONS, outcome: 'events', personTime: 'years', predictors: 'treatment, age', model: 'auto', conf: 95 }
+  ],
+  references: [
+    {
+      author: "Cameron AC, Trivedi PK",
+      year: 1990,
+      title: "Regression-based tests for overdispersion in the Poisson model",
+      source: "Journal of Econometrics 46(3):347-364",
+      doi: "10.1016/0304-4076(90)90014-K"
+    },
+    {
+      author: "Lawless JF",
+      year: 1987,
+      title: "Negative binomial and mixed Poisson regression",
+      source: "Canadian Journal of Statistics 15(3):209-225",
+      doi: "10.2307/3314912"
+    }
+  ],
+  compute: (data) => {
+    const { conf, model } = data;
+    const table = parseDataTable(data.data)!;
+    const outcome = data.outcome.trim();
+    const time = timeColumn(data);
+    const predictors = parseColumnNames(data.predictors);
+    const m = design(data)!;
+    const { y, X, terms } = m;
+    const n = y.length;
+    const k = terms.length;
+    const offset = (personTimes(data) || y.map(() => 1)).map(Math.log);
+
+    const poisson = fitGLM(X, y, poissonFamily, offset);
+    if (!poisson) return { results: [], interpretation: "The predictors are collinear (or a dummy level is empty), so the coefficients are not identifiable. Remove a redundant predictor." };
+
+    // Cameron-Trivedi test of Var(y) = μ against Var(y) = (1 + α)μ, α > 0 (AER's dispersiontest)
+    const aux = y.map((v, i) => (Math.pow(v - poisson.mu[i], 2) - v) / poisson.mu[i]);
+    const dispersionZ = (Math.sqrt(n) * mean(aux)) / stdev(aux);
+    const dispersionP = 1 - dist.normalCDF(dispersionZ);
+    const pearson = y.reduce((s, v, i) => s + Math.pow(v - poisson.mu[i], 2) / poisson.mu[i], 0);
+    const overdispersed = dispersionP < DISPERSION_ALPHA;
+
+    const useNB = model === 'negative-binomial' || (model === 'auto' && overdispersed);
+    const nb = useNB ? fitNegativeBinomial(X, y, offset) : null;
+    if (useNB && !nb) return { results: [], interpretation: "The negative binomial model could not be fitted to these data: the fit did not converge to finite estimates. Use the Poisson model instead." };
+    const fit = nb ? nb.fit : poisson;
+    const poissonLL = poissonLogLik(y, poisson.mu);
+    const logLik = nb ? nb.logLik : poissonLL;
+    const aic = -2 * logLik + 2 * (k + (nb ? 1 : 0));
+    const modelName = nb ? 'Negative binomial' : 'Poisson';
+
+    const z = dist.getZCritical(conf);
+    const results: CalculationResult[] = [{
+      label: 'Model', text: modelName, isMain: true,
+      description: model === 'auto' ? `Chosen automatically: overdispersion test p ${overdispersed ? '<' : '≥'} ${DISPERSION_ALPHA}` : 'Chosen by user'
+    }];
+    const significant: string[] = [];
+    terms.forEach((term, j) => {
+      const b = fit.beta[j];
+      const se = Math.sqrt(fit.inverse[j][j]);
+      const zStat = b / se;
+      const p = 2 * (1 - dist.normalCDF(Math.abs(zStat)));
+      const detail = `β = ${b.toFixed(4)}, SE ${se.toFixed(4)}, z = ${zStat.toFixed(3)}`;
+      if (j === 0) {
+        results.push({ label: 'Baseline Rate (intercept)', estimate: Math.exp(b), lower: Math.exp(b - z * se), upper: Math.exp(b + z * se), confLevel: conf, method: 'Wald', precision: 6, description: `Rate per unit ${time ? 'person-time' : 'observation'} at the reference values; ${detail}` });
+        return;
+      }
+      if (p < 1 - conf / 100) significant.push(`${term} (IRR ${Number(Math.exp(b).toPrecision(3))})`);
+      results.push({
+        label: `IRR: ${term}`, estimate: Math.exp(b), lower: Math.exp(b - z * se), upper: Math.exp(b + z * se), confLevel: conf,
+        pValue: p, method: `Wald, ${modelName.toLowerCase()}`, precision: 4, isMain: true, description: detail
+      });
+    });
+    results.push(
+      { label: 'Overdispersion Test (z)', estimate: dispersionZ, pValue: dispersionP, method: 'Cameron-Trivedi, one-sided', precision: 4, description: `Estimated dispersion ${(1 + mean(aux)).toFixed(3)} (1 under the Poisson model)` },
+      { label: 'Pearson χ² / df', estimate: pearson / (n - k), precision: 4, description: `Poisson fit: χ² = ${pearson.toFixed(3)} on ${n - k} df` }
+    );
+    if (nb) {
+      const lr = Math.max(0, 2 * (nb.logLik - poissonLL));
+      results.push(
+        { label: 'θ (NB shape)', estimate: nb.theta, precision: 4, description: nb.theta === Infinity ? 'No extra-Poisson variation: the negative binomial reduces to the Poisson model' : `SE ${nb.thetaSE.toFixed(4)}; Var = μ + μ²/θ` },
+        { label: 'LR Test (NB vs Poisson)', estimate: lr, pValue: dist.getChiSqPValue(lr, 1) / 2, method: 'Boundary χ²₁ mixture (p halved)', precision: 4 }
+      );
+    }
+    results.push(
+      { label: 'Residual Deviance', estimate: fit.deviance, precision: 3, description: `On ${n - k} degrees of freedom` },
+      { label: 'AIC', estimate: aic, precision: 3 },
+      { label: 'Observations (n)', estimate: n, description: `${y.reduce((s, v) => s + v, 0)} events${n < table.rows.length ? `; ${table.rows.length - n} rows with missing values dropped` : ''}` }
+    );
+    m.factors.forEach(f => {
+      results.push({ label: `Reference Level (${f.name})`, text: f.levels[0], description: `Levels: ${f.levels.join(', ')}` });
+    });
+
+    const formula = rFormula(outcome, predictors, m, table);
+    const offsetR = time ? `log(${rName(time)})` : null;
+    const rCode = `# Poisson and Negative Binomial Regression
+${rDataFrame(table, [outcome, ...(time ? [time] : []), ...predictors])}
+
+fit <- glm(${formula}, family = poisson,${offsetR ? ` offset = ${offsetR},` : ''} data = dat)
+summary(fit)
+exp(cbind(IRR = coef(fit), confint.default(fit, level = ${conf / 100})))
+
+# Overdispersion
+# install.packages("AER")
+AER::dispersiontest(fit)
+
+# Negative binomial alternative
+nb <- MASS::glm.nb(${formula}${offsetR ? ` + offset(${offsetR})` : ''}, data = dat)
+summary(nb)
+exp(cbind(IRR = coef(nb), confint.default(nb, level = ${conf / 100})))
+pchisq(2 * (logLik(nb) - logLik(fit)), df = 1, lower.tail = FALSE) / 2   # NB vs Poisson`;
+
+    return {
+      results,
+      interpretation: `${overdispersed ? `The counts are overdispersed relative to the Poisson model (Cameron-Trivedi z = ${dispersionZ.toFixed(2)}, p = ${dispersionP.toFixed(4)})` : `There is no significant overdispersion (Cameron-Trivedi z = ${dispersionZ.toFixed(2)}, p = ${dispersionP.toFixed(4)})`}; rate ratios are from the ${modelName.toLowerCase()} model. ${significant.length > 0 ? `Adjusted incidence rate ratios significant at the ${(100 - conf).toFixed(0)}% level: ${significant.join(', ')}.` : 'No adjusted rate ratio is significant.'}`,
+      rCode,
+      formula: nb
+        ? `log(μ) = log(T) + β₀ + Σβⱼxⱼ;  Var(y) = μ + μ²/θ;  IRR = exp(β)`
+        : `log(μ) = log(T) + β₀ + Σβⱼxⱼ;  Var(y) = μ;  IRR = exp(β)`
+    };
+  }
+};
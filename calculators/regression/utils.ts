@@ -0,0 +1,385 @@
+/**
+ * EpiStatKit - Regression Utilities
+ */
+import * as dist from '../distributions';
+import { parseLabels } from '../survival/utils';
+
+export interface DataTable {
+  names: string[];
+  rows: string[][];
+}
+
+export interface DesignMatrix {
+  y: number[];
+  X: number[][]; // First column is the intercept
+  terms: string[]; // Column names of X, '(Intercept)' first
+  rowIndex: number[]; // Data row (0-based, after the header) behind each observation
+  factors: { name: string; levels: string[] }[]; // Dummy-coded predictors; the first level is the reference
+}
+
+const MISSING = /^(|na|nan|\.)$/i;
+
+const isNumeric = (cell: string) => cell.trim() !== '' && !isNaN(Number(cell));
+
+/**
+ * Reads a pasted or imported table: a header row of column names, then one row per observation.
+ * Rows are separated by newlines or ";", cells by tabs or commas (or whitespace when a row has
+ * neither). Returns null without a header and at least one row, or when row lengths differ.
+ */
+export const parseDataTable = (text: string): DataTable | null => {
+  if (!text) return null;
+  const lines = text.split(/[;\r\n]+/).filter(line => line.trim() !== '');
+  const split = (line: string) =>
+    (/[\t,]/.test(line) ? line.split(/[\t,]/) : line.trim().split(/\s+/)).map(cell => cell.trim());
+  if (lines.length < 2) return null;
+  const names = split(lines[0]);
+  const rows = lines.slice(1).map(split);
+  if (names.some(n => n === '') || new Set(names).size !== names.length) return null;
+  if (rows.some(row => row.length !== names.length)) return null;
+  return { names, rows };
+};
+
+// Column names listed in a comma/newline separated field, e.g. "wt, hp"
+export const parseColumnNames = (input?: string): string[] => [...new Set(parseLabels(input || ''))];
+
+// R's factor() level order: numeric codes numerically, otherwise alphabetically
+const sortLevels = (levels: string[]): string[] =>
+  levels.every(isNumeric)
+    ? [...levels].sort((a, b) => Number(a) - Number(b))
+    : [...levels].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Model matrix for outcome ~ predictors with an intercept (R's lm/glm default). Predictors listed
+ * as categorical, or holding any non-numeric value, are dummy coded against their first level.
+ * Rows with a missing value in any model column, or in the `extra` columns read alongside the
+ * model (e.g. person-time), are dropped (na.omit). Returns null when a column is unknown or the
+ * outcome is not numeric.
+ */
+export const buildDesign = (table: DataTable, outcome: string, predictors: string[], categorical: string[] = [], extra: string[] = []): DesignMatrix | null => {
+  const col = (name: string) => table.names.indexOf(name);
+  if (col(outcome) < 0 || predictors.some(p => col(p) < 0) || predictors.includes(outcome)) return null;
+  if (extra.some(e => col(e) < 0)) return null;
+
+  const used = [outcome, ...predictors, ...extra].map(col);
+  const rowIndex = table.rows.map((_, i) => i).filter(i => used.every(c => !MISSING.test(table.rows[i][c])));
+  const rows = rowIndex.map(i => table.rows[i]);
+  if (rows.some(row => !isNumeric(row[col(outcome)]))) return null;
+
+  const terms = ['(Intercept)'];
+  const factors: DesignMatrix['factors'] = [];
+  const columns: ((row: string[]) => number)[] = [() => 1];
+  predictors.forEach(name => {
+    const c = col(name);
+    if (categorical.includes(name) || rows.some(row => !isNumeric(row[c]))) {
+      const levels = sortLevels([...new Set(rows.map(row => row[c]))]);
+      factors.push({ name, levels });
+      levels.slice(1).forEach(level => {
+        terms.push(`${name} (${level} vs ${levels[0]})`);
+        columns.push(row => (row[c] === level ? 1 : 0));
+      });
+    } else {
+      terms.push(name);
+      columns.push(row => Number(row[c]));
+    }
+  });
+
+  return {
+    y: rows.map(row => Number(row[col(outcome)])),
+    X: rows.map(row => columns.map(f => f(row))),
+    terms,
+    rowIndex,
+    factors
+  };
+};
+
+/**
+ * Inverse of a symmetric positive semi-definite matrix (a cross-product X'WX) by Gauss-Jordan
+ * elimination with partial pivoting; null when it is singular to working precision (e.g.
+ * collinear predictors). The matrix is first scaled to a unit diagonal, so each pivot measures
+ * the share of its column not explained by the earlier ones, whatever the predictors' units.
+ */
+export const invertMatrix = (m: number[][]): number[][] | null => {
+  const k = m.length;
+  const d = m.map((row, i) => Math.sqrt(Math.abs(row[i])));
+  if (d.some(v => v === 0)) return null;
+  const a = m.map((row, i) => [...row.map((v, j) => v / (d[i] * d[j])), ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < k; col++) {
+    const pivot = a.reduce((best, row, r) => (r >= col && Math.abs(row[col]) > Math.abs(a[best][col]) ? r : best), col);
+    if (Math.abs(a[pivot][col]) <= 1e-10) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let c = 0; c < 2 * k; c++) a[col][c] /= p;
+    for (let r = 0; r < k; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const f = a[r][col];
+      for (let c = 0; c < 2 * k; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  return a.map((row, i) => row.slice(k).map((v, j) => v / (d[i] * d[j])));
+};
+
+// X'WX for a design matrix and optional observation weights
+export const crossProduct = (X: number[][], w?: number[]): number[][] => {
+  const k = X[0].length;
+  const out = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  X.forEach((row, i) => {
+    const wi = w ? w[i] : 1;
+    for (let a = 0; a < k; a++) for (let b = a; b < k; b++) out[a][b] += wi * row[a] * row[b];
+  });
+  for (let a = 0; a < k; a++) for (let b = 0; b < a; b++) out[a][b] = out[b][a];
+  return out;
+};
+
+// X'Wv
+export const crossVector = (X: number[][], v: number[], w?: number[]): number[] =>
+  X[0].map((_, a) => X.reduce((s, row, i) => s + (w ? w[i] : 1) * row[a] * v[i], 0));
+
+// Diagonal of the hat matrix, h_i = w_i · x_i' (X'WX)⁻¹ x_i
+export const leverages = (X: number[][], inverse: number[][], w?: number[]): number[] =>
+  X.map((row, i) => (w ? w[i] : 1) * row.reduce((s, xa, a) => s + xa * row.reduce((t, xb, b) => t + inverse[a][b] * xb, 0), 0));
+
+// Normal quantiles for a QQ plot of n points (R's ppoints)
+export const normalScores = (n: number): number[] => {
+  const a = n <= 10 ? 3 / 8 : 0.5;
+  return Array.from({ length: n }, (_, i) => dist.normalQuantile((i + 1 - a) / (n + 1 - 2 * a)));
+};
+
+// Column name as an R identifier, backquoted when not syntactic
+export const rName = (name: string): string => (/^[A-Za-z.][A-Za-z0-9._]*$/.test(name) ? name : `\`${name}\``);
+
+/**
+ * R data.frame(...) literal for the model columns; numeric columns stay numeric, the rest are quoted.
+ */
+export const rDataFrame = (table: DataTable, columns: string[]): string => {
+  const body = columns.map(name => {
+    const c = table.names.indexOf(name);
+    const cells = table.rows.map(row => row[c]);
+    const numeric = cells.every(v => MISSING.test(v) || isNumeric(v));
+    const values = cells.map(v => (MISSING.test(v) ? 'NA' : numeric ? v : JSON.stringify(v)));
+    return `  ${rName(name)} = c(${values.join(', ')})`;
+  });
+  return `dat <- data.frame(\n${body.join(',\n')},\n  check.names = FALSE\n)`;
+};
+
+// R model formula, wrapping numeric-coded categorical predictors in factor()
+export const rFormula = (outcome: string, predictors: string[], design: DesignMatrix, table: DataTable): string => {
+  const terms = predictors.map(p => {
+    const c = table.names.indexOf(p);
+    const numericCoded = design.factors.some(f => f.name === p) && table.rows.every(row => MISSING.test(row[c]) || isNumeric(row[c]));
+    return numericCoded ? `factor(${rName(p)})` : rName(p);
+  });
+  return `${rName(outcome)} ~ ${terms.length > 0 ? terms.join(' + ') : '1'}`;
+};
+
+export interface GLMFamily {
+  link: (mu: number) => number;
+  linkinv: (eta: number) => number;
+  muEta: (eta: number) => number; // dμ/dη
+  variance: (mu: number) => number;
+  deviance: (y: number, mu: number) => number; // Unit deviance
+  start: (y: number) => number; // Starting fitted value
+}
+
+export interface GLMFit {
+  beta: number[];
+  inverse: number[][]; // (X'WX)⁻¹, the unscaled covariance of beta
+  mu: number[];
+  eta: number[];
+  weights: number[]; // Working weights at the solution
+  deviance: number;
+  converged: boolean;
+  iterations: number;
+}
+
+// y·log(y/μ), taken as 0 at y = 0
+const yLogY = (y: number, mu: number) => (y > 0 ? y * Math.log(y / mu) : 0);
+
+const logitFloor = Number.EPSILON;
+
+export const binomialFamily: GLMFamily = {
+  link: mu => Math.log(mu / (1 - mu)),
+  linkinv: eta => Math.min(1 - logitFloor, Math.max(logitFloor, 1 / (1 + Math.exp(-eta)))),
+  muEta: eta => Math.max(Math.exp(-Math.abs(eta)) / Math.pow(1 + Math.exp(-Math.abs(eta)), 2), logitFloor),
+  variance: mu => mu * (1 - mu),
+  deviance: (y, mu) => 2 * (yLogY(y, mu) + yLogY(1 - y, 1 - mu)),
+  start: y => (y + 0.5) / 2
+};
+
+export const poissonFamily: GLMFamily = {
+  link: mu => Math.log(mu),
+  linkinv: eta => Math.max(Math.exp(eta), Number.EPSILON),
+  muEta: eta => Math.max(Math.exp(eta), Number.EPSILON),
+  variance: mu => mu,
+  deviance: (y, mu) => 2 * (yLogY(y, mu) - (y - mu)),
+  start: y => y + 0.1
+};
+
+// Negative binomial with log link and fixed shape θ (MASS's negative.binomial): Var = μ + μ²/θ
+export const negativeBinomialFamily = (theta: number): GLMFamily => ({
+  ...poissonFamily,
+  variance: mu => mu + (mu * mu) / theta,
+  deviance: (y, mu) => 2 * (yLogY(y, mu) - (y + theta) * Math.log((y + theta) / (mu + theta))),
+  start: y => y + 1 / 6
+});
+
+/**
+ * Maximum-likelihood GLM fit by iteratively reweighted least squares (R's glm.fit: at most 25
+ * iterations, converged when the relative change in deviance is below 1e-8). An optional offset
+ * is added to the linear predictor, and `start` coefficients replace the default starting
+ * values. Null when X'WX is singular.
+ */
+export const fitGLM = (X: number[][], y: number[], family: GLMFamily, offset?: number[], start?: number[]): GLMFit | null => {
+  const n = y.length;
+  const k = X[0] ? X[0].length : 0;
+  const off = offset || new Array<number>(n).fill(0);
+  let eta = start && k > 0
+    ? X.map((row, i) => row.reduce((s, v, j) => s + v * start[j], 0) + off[i])
+    : y.map(v => family.link(family.start(v)));
+  let mu = eta.map(family.linkinv);
+  let deviance = y.reduce((s, v, i) => s + family.deviance(v, mu[i]), 0);
+  let beta = new Array<number>(k).fill(0);
+  let inverse: number[][] = [];
+  let weights: number[] = [];
+  let converged = false;
+  let iterations = 0;
+
+  if (k === 0) {
+    mu = off.map(family.linkinv);
+    const dev = y.reduce((s, v, i) => s + family.deviance(v, mu[i]), 0);
+    return { beta, inverse, mu, eta: off, weights, deviance: dev, converged: true, iterations: 0 };
+  }
+
+  const evaluate = (b: number[]) => {
+    eta = X.map((row, i) => row.reduce((s, v, j) => s + v * b[j], 0) + off[i]);
+    mu = eta.map(family.linkinv);
+    deviance = y.reduce((s, v, i) => s + family.deviance(v, mu[i]), 0);
+  };
+  let previousBeta = start && k > 0 ? start : null;
+
+  while (iterations < 25 && !converged) {
+    iterations++;
+    const gradient = eta.map(family.muEta);
+    weights = mu.map((m, i) => (gradient[i] * gradient[i]) / family.variance(m));
+    const working = y.map((v, i) => eta[i] - off[i] + (v - mu[i]) / gradient[i]);
+    const inv = invertMatrix(crossProduct(X, weights));
+    if (!inv) return null;
+    inverse = inv;
+    const xtwz = crossVector(X, working, weights);
+    const previous = deviance;
+    let next = inverse.map(row => row.reduce((s, v, j) => s + v * xtwz[j], 0));
+    evaluate(next);
+    // Step-halving while the deviance rises (as in glm2), so poor starting values cannot diverge
+    for (let h = 0; previousBeta && !(deviance <= previous) && h < 30; h++) {
+      const back = previousBeta;
+      next = next.map((b, j) => (b + back[j]) / 2);
+      evaluate(next);
+    }
+    beta = next;
+    previousBeta = beta;
+    converged = Math.abs(deviance - previous) / (Math.abs(deviance) + 0.1) < 1e-8;
+  }
+
+  return { beta, inverse, mu, eta, weights, deviance, converged, iterations };
+};
+
+/**
+ * Profile-likelihood limits for coefficient j: where the deviance, refitted with β_j held
+ * fixed (as an offset), rises above its minimum by `critical`. Searched outwards from the
+ * estimate in steps of `step`, then solved by bisection; ±Infinity when the profile never
+ * crosses (e.g. an unbounded limit). Each refit starts from the nearest one already made.
+ */
+export const profileLimits = (X: number[][], y: number[], family: GLMFamily, fit: GLMFit, j: number, critical: number, step: number, offset?: number[]): [number, number] => {
+  const others = X.map(row => row.filter((_, c) => c !== j));
+  let start = fit.beta.filter((_, c) => c !== j);
+  const excess = (b: number) => {
+    const off = X.map((row, i) => row[j] * b + (offset ? offset[i] : 0));
+    const refit = fitGLM(others, y, family, off, start);
+    if (!refit) return Infinity;
+    start = refit.beta;
+    return refit.deviance - fit.deviance - critical;
+  };
+  const limit = (direction: number) => {
+    start = fit.beta.filter((_, c) => c !== j);
+    let inner = fit.beta[j];
+    let outer = inner + direction * step;
+    for (let i = 0; excess(outer) < 0; i++) {
+      if (i >= 30) return direction * Infinity;
+      inner = outer;
+      outer += direction * step;
+    }
+    const tol = 1e-8 * Math.max(1, Math.abs(inner), Math.abs(outer));
+    return direction > 0 ? dist.bisect(excess, 0, inner, outer, true, tol) : dist.bisect(excess, 0, outer, inner, false, tol);
+  };
+  return [limit(-1), limit(1)];
+};
+
+// Σ_{j<y} 1/(θ+j)^power: the digamma (power 1) and trigamma (power 2) differences at θ + y and θ for integer y
+const gammaDifference = (y: number, theta: number, power: number) => {
+  let s = 0;
+  for (let j = 0; j < y; j++) s += 1 / Math.pow(theta + j, power);
+  return s;
+};
+
+export const negativeBinomialLogLik = (y: number[], mu: number[], theta: number): number =>
+  y.reduce((s, v, i) =>
+    s + dist.logGamma(theta + v) - dist.logGamma(theta) - dist.logGamma(v + 1) + theta * Math.log(theta) + (v > 0 ? v * Math.log(mu[i]) : 0) - (theta + v) * Math.log(theta + mu[i]), 0);
+
+export const poissonLogLik = (y: number[], mu: number[]): number =>
+  y.reduce((s, v, i) => s + (v > 0 ? v * Math.log(mu[i]) : 0) - mu[i] - dist.logGamma(v + 1), 0);
+
+// Shape beyond which the negative binomial cannot be told apart from the Poisson model
+const THETA_MAX = 1e8;
+
+/**
+ * Maximum-likelihood θ for fixed means by Newton's method (MASS's theta.ml), with its standard error.
+ * Infinite (with no standard error) once θ passes THETA_MAX, as when the means reproduce the counts
+ * exactly and leave no extra-Poisson variation to estimate.
+ */
+export const thetaML = (y: number[], mu: number[]): { theta: number; se: number } => {
+  const n = y.length;
+  let theta = n / y.reduce((s, v, i) => s + Math.pow(v / mu[i] - 1, 2), 0);
+  let info = 1;
+  for (let it = 0; it < 25; it++) {
+    if (theta > THETA_MAX) break;
+    theta = Math.max(theta, 1e-8);
+    let score = 0;
+    info = 0;
+    y.forEach((v, i) => {
+      score += gammaDifference(v, theta, 1) + Math.log(theta) + 1 - Math.log(theta + mu[i]) - (v + theta) / (mu[i] + theta);
+      info += gammaDifference(v, theta, 2) - 1 / theta + 2 / (mu[i] + theta) - (v + theta) / Math.pow(mu[i] + theta, 2);
+    });
+    const step = score / info;
+    theta += step;
+    if (Math.abs(step) < Math.pow(Number.EPSILON, 0.25)) break;
+  }
+  return theta > THETA_MAX ? { theta: Infinity, se: NaN } : { theta, se: Math.sqrt(1 / info) };
+};
+
+/**
+ * Negative binomial regression alternating IRLS for the coefficients with θ by maximum likelihood,
+ * from a Poisson start (MASS's glm.nb). When the Poisson fit leaves no extra-Poisson variation θ is
+ * infinite and the model is the Poisson fit itself. Null when a fit fails or does not give finite
+ * estimates.
+ */
+export const fitNegativeBinomial = (X: number[][], y: number[], offset?: number[]) => {
+  const poisson = fitGLM(X, y, poissonFamily, offset);
+  if (!poisson) return null;
+  const asPoisson = { fit: poisson, theta: Infinity, thetaSE: NaN, logLik: poissonLogLik(y, poisson.mu) };
+  let { theta, se } = thetaML(y, poisson.mu);
+  if (theta === Infinity) return asPoisson;
+  let fit = poisson;
+  let logLik = negativeBinomialLogLik(y, fit.mu, theta);
+  for (let it = 0; it < 25; it++) {
+    const refit = fitGLM(X, y, negativeBinomialFamily(theta), offset, fit.beta);
+    if (!refit) return null;
+    fit = refit;
+    const previousTheta = theta;
+    ({ theta, se } = thetaML(y, fit.mu));
+    if (theta === Infinity) return asPoisson;
+    const previousLogLik = logLik;
+    logLik = negativeBinomialLogLik(y, fit.mu, theta);
+    if (Math.abs(previousLogLik - logLik) / Math.abs(logLik) + Math.abs(previousTheta - theta) / theta < 1e-8) break;
+  }
+  if (![theta, se, logLik, ...fit.beta].every(isFinite)) return null;
+  return { fit, theta, thetaSE: se, logLik };
+};
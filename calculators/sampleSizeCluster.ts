@@ -41,10 +41,10 @@ print(paste("Clusters Needed:", num_clusters))`;
 
     return {
       results: [
-        { label: 'Adjusted Total N', value: nAdjusted, isMain: true },
-        { label: 'Required Clusters', value: numClusters, isMain: true },
-        { label: 'Design Effect (DEFF)', value: designEffect.toFixed(3) },
-        { label: 'Increase Factor', value: (designEffect * 100 - 100).toFixed(1) + '%' }
+        { label: 'Adjusted Total N', estimate: nAdjusted, isMain: true },
+        { label: 'Required Clusters', estimate: numClusters, isMain: true },
+        { label: 'Design Effect (DEFF)', estimate: designEffect, precision: 3 },
+        { label: 'Increase Factor', estimate: designEffect - 1, format: 'percent', precision: 1 }
       ],
       interpretation: `Because of clustering (ICC=${icc}), the sample size must increase by ${((designEffect-1)*100).toFixed(1)}%.`,
       rCode,
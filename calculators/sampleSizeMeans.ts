@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const sampleSizeMeans: CalculatorDefinition<{ 
   m1: number, 
@@ -32,10 +32,10 @@ export const sampleSizeMeans: CalculatorDefinition<{
   compute: (data) => {
     const { m1, m2, sd, power, alpha, ratio } = data;
     const delta = Math.abs(m1 - m2);
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
     
     const calculateN = (targetPower: number) => {
-      const zPower = ciUtils.getZCritical((targetPower * 2 - 1) * 100);
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
       const n1 = Math.ceil(
         (Math.pow(sd, 2) * (1 + 1/ratio) * Math.pow(zAlpha + zPower, 2)) / Math.pow(delta, 2)
       );
@@ -57,10 +57,10 @@ export const sampleSizeMeans: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Group 1 Size (n1)', value: n1, isMain: true },
-        { label: 'Group 2 Size (n2)', value: n2, isMain: true },
-        { label: 'Total Sample Size', value: n1 + n2 },
-        { label: "Cohen's d", value: d.toFixed(3) }
+        { label: 'Group 1 Size (n1)', estimate: n1, isMain: true },
+        { label: 'Group 2 Size (n2)', estimate: n2, isMain: true },
+        { label: 'Total Sample Size', estimate: n1 + n2 },
+        { label: "Cohen's d", estimate: d, precision: 3 }
       ],
       interpretation: `Required N: ${n1} in G1, ${n2} in G2.`,
       rCode,
@@ -90,15 +90,15 @@ export const sampleSizeMeanEstimate: CalculatorDefinition<{
   examples: [{ sd: 20, precision: 5, conf: 95 }],
   compute: (data) => {
     const { sd, precision, conf } = data;
-    const z = ciUtils.getZCritical(conf);
+    const z = dist.getZCritical(conf);
     const n = Math.ceil(Math.pow(z * sd / precision, 2));
 
     const rCode = `# Calculation using base R\nsd_val <- ${sd}\nme_val <- ${precision}\nconf_level <- ${conf/100}\n\nz_crit <- qnorm(1 - (1 - conf_level)/2)\nn_req <- ceiling((z_crit * sd_val / me_val)^2)\nprint(paste("Required n:", n_req))`;
 
     return {
       results: [
-        { label: 'Required Sample Size (n)', value: n, isMain: true },
-        { label: 'Z-Critical', value: z.toFixed(3) }
+        { label: 'Required Sample Size (n)', estimate: n, isMain: true },
+        { label: 'Z-Critical', estimate: z, precision: 3 }
       ],
       interpretation: `You need a sample size of ${n}.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const sampleSizeNonInferiority: CalculatorDefinition<{ 
   pStandard: number, 
@@ -27,10 +27,10 @@ export const sampleSizeNonInferiority: CalculatorDefinition<{
   examples: [{ pStandard: 0.85, pTest: 0.85, margin: 0.10, power: 0.8, alpha: 0.025 }],
   compute: (data) => {
     const { pStandard, pTest, margin, power, alpha } = data;
-    const zAlpha = ciUtils.getZCritical((1 - alpha * 2) * 100); 
+    const zAlpha = dist.getZCritical((1 - alpha * 2) * 100); 
     
     const calculateN = (targetPower: number) => {
-      const zPower = ciUtils.getZCritical((targetPower * 2 - 1) * 100);
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
       const numerator = Math.pow(zAlpha + zPower, 2) * (pStandard * (1 - pStandard) + pTest * (1 - pTest));
       const denominator = Math.pow(pTest - pStandard - margin, 2);
       const nPerArm = Math.ceil(numerator / denominator);
@@ -61,9 +61,9 @@ TwoSampleProportion.NonInferiority(
 
     return {
       results: [
-        { label: 'Required per Group (n)', value: n, isMain: true },
-        { label: 'Total Sample Size', value: n * 2 },
-        { label: 'Z-Alpha (One-sided)', value: zAlpha.toFixed(3) }
+        { label: 'Required per Group (n)', estimate: n, isMain: true },
+        { label: 'Total Sample Size', estimate: n * 2 },
+        { label: 'Z-Alpha (One-sided)', estimate: zAlpha, precision: 3 }
       ],
       interpretation: `To demonstrate non-inferiority within a ${margin*100}% margin, you need ${n} subjects per arm.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const sampleSizePaired: CalculatorDefinition<{ 
   diff: number, 
@@ -25,10 +25,10 @@ export const sampleSizePaired: CalculatorDefinition<{
   examples: [{ diff: 5, sdDiff: 15, power: 0.8, alpha: 0.05 }],
   compute: (data) => {
     const { diff, sdDiff, power, alpha } = data;
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
     
     const calculateN = (targetPower: number) => {
-      const zPower = ciUtils.getZCritical((targetPower * 2 - 1) * 100);
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
       const n = Math.ceil(Math.pow(sdDiff * (zAlpha + zPower) / diff, 2));
       return { n };
     };
@@ -46,9 +46,9 @@ export const sampleSizePaired: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Required Pairs (n)', value: n, isMain: true },
-        { label: 'Total Observations', value: n * 2 },
-        { label: 'Standardized Effect Size (dz)', value: (diff / sdDiff).toFixed(3) }
+        { label: 'Required Pairs (n)', estimate: n, isMain: true },
+        { label: 'Total Observations', estimate: n * 2 },
+        { label: 'Standardized Effect Size (dz)', estimate: diff / sdDiff, precision: 3 }
       ],
       interpretation: `To detect a mean difference of ${diff} with ${power*100}% power, you need to study ${n} pairs (individuals measured twice).`,
       rCode,
@@ -57,3 +57,75 @@ export const sampleSizePaired: CalculatorDefinition<{
     };
   }
 };
+
+export const sampleSizePairedProps: CalculatorDefinition<{
+  p10: number,
+  p01: number,
+  power: number,
+  alpha: number
+}> = {
+  metadata: {
+    id: 'sample-size-paired-props',
+    title: 'Sample Size: Paired Proportions',
+    category: Category.SAMPLE_SIZE,
+    description: 'Calculate the number of pairs for a McNemar test from the expected proportions of discordant pairs.',
+    keywords: ['mcnemar', 'paired proportions', 'matched case-control', 'discordant', 'sample size']
+  },
+  schema: z.object({
+    p10: z.number().min(0.0001).max(1).describe("Proportion of +/− Discordant Pairs"),
+    p01: z.number().min(0).max(1).describe("Proportion of −/+ Discordant Pairs"),
+    power: z.number().min(0.5).max(0.99).default(0.8),
+    alpha: z.number().min(0.001).max(0.2).default(0.05)
+  }).refine(data => data.p10 + data.p01 <= 1, { message: "Discordant proportions cannot sum to more than 1." })
+    .refine(data => data.p10 !== data.p01, { message: "Discordant proportions must differ." }),
+  examples: [{ p10: 0.2, p01: 0.1, power: 0.8, alpha: 0.05 }],
+  references: [
+    {
+      author: "Connor RJ",
+      year: 1987,
+      title: "Sample size for testing differences in proportions for the paired-sample design",
+      source: "Biometrics 43(1):207-211",
+      doi: "10.2307/2531961"
+    }
+  ],
+  compute: (data) => {
+    const { p10, p01, power, alpha } = data;
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
+    const psi = p10 + p01; // Proportion of discordant pairs
+    const delta = p10 - p01;
+
+    // Connor (1987): n = [z_α/2·√ψ + z_β·√(ψ - δ²)]² / δ²
+    const calculateN = (targetPower: number) => {
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
+      const n = Math.ceil(Math.pow(zAlpha * Math.sqrt(psi) + zPower * Math.sqrt(psi - delta * delta), 2) / (delta * delta));
+      return { n };
+    };
+
+    const n = calculateN(power).n;
+
+    const spectrumPowers = [0.70, 0.75, 0.80, 0.85, 0.90, 0.95, 0.99];
+    const powerSpectrum = spectrumPowers.map(p => ({
+      power: p * 100,
+      ...calculateN(p)
+    }));
+
+    const rCode = `# Sample size for McNemar's test (Connor 1987)
+p10 <- ${p10}; p01 <- ${p01}
+psi <- p10 + p01; delta <- p10 - p01
+z_a <- qnorm(1 - ${alpha} / 2); z_b <- qnorm(${power})
+ceiling((z_a * sqrt(psi) + z_b * sqrt(psi - delta^2))^2 / delta^2)`;
+
+    return {
+      results: [
+        { label: 'Required Pairs (n)', estimate: n, isMain: true },
+        { label: 'Expected Discordant Pairs', estimate: Math.ceil(n * psi) },
+        { label: 'Matched-Pair Odds Ratio', estimate: p01 === 0 ? Infinity : p10 / p01, precision: 3 },
+        { label: 'Difference in Proportions', estimate: delta, format: 'percent', precision: 2 }
+      ],
+      interpretation: `To detect a difference of ${(delta * 100).toFixed(1)} percentage points between paired proportions with ${power * 100}% power, you need ${n} pairs, of which about ${Math.ceil(n * psi)} are expected to be discordant.`,
+      rCode,
+      formula: `n = [Z_α/2·√ψ + Z_β·√(ψ - δ²)]² / δ²,  ψ = p₁₀ + p₀₁,  δ = p₁₀ - p₀₁`,
+      powerSpectrum
+    };
+  }
+};
@@ -37,10 +37,10 @@ export const sampleSizeProp: CalculatorDefinition<{ p: number, d: number, conf:
 
     return {
       results: [
-        { label: 'Estimated Proportion (p)', value: p },
-        { label: 'Margin of Error (d)', value: d },
-        { label: 'Confidence Level', value: conf + '%' },
-        { label: 'Required Sample Size (n)', value: n, isMain: true }
+        { label: 'Estimated Proportion (p)', estimate: p },
+        { label: 'Margin of Error (d)', estimate: d },
+        { label: 'Confidence Level', estimate: conf / 100, format: 'percent', precision: 0 },
+        { label: 'Required Sample Size (n)', estimate: n, isMain: true }
       ],
       interpretation: `At ${conf}% confidence, you need at least ${n} participants.`,
       rCode,
@@ -1,7 +1,7 @@
 
 import { z } from 'zod';
 import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import * as dist from './distributions';
 
 export const sampleSizeTwoProps: CalculatorDefinition<{ 
   p1: number, 
@@ -32,10 +32,10 @@ export const sampleSizeTwoProps: CalculatorDefinition<{
     const pAvg = (p1 + ratio * p2) / (1 + ratio);
     const qAvg = 1 - pAvg;
     
-    const zAlpha = ciUtils.getZCritical((1 - alpha) * 100);
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
 
     const calculateN = (targetPower: number) => {
-      const zPower = ciUtils.getZCritical((targetPower * 2 - 1) * 100);
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
       const n1 = Math.ceil(
         (Math.pow(zAlpha * Math.sqrt((1 + 1/ratio) * pAvg * qAvg) + zPower * Math.sqrt(p1 * q1 + (p2 * q2) / ratio), 2)) / 
         Math.pow(p1 - p2, 2)
@@ -57,11 +57,11 @@ export const sampleSizeTwoProps: CalculatorDefinition<{
 
     return {
       results: [
-        { label: 'Group 1 Size (n1)', value: n1, isMain: true },
-        { label: 'Group 2 Size (n2)', value: n2, isMain: true },
-        { label: 'Total N', value: n1 + n2 },
-        { label: 'Difference (p1 - p2)', value: (p1 - p2).toFixed(4) },
-        { label: 'Average Proportion', value: pAvg.toFixed(4) }
+        { label: 'Group 1 Size (n1)', estimate: n1, isMain: true },
+        { label: 'Group 2 Size (n2)', estimate: n2, isMain: true },
+        { label: 'Total N', estimate: n1 + n2 },
+        { label: 'Difference (p1 - p2)', estimate: p1 - p2, precision: 4 },
+        { label: 'Average Proportion', estimate: pAvg, precision: 4 }
       ],
       interpretation: `To detect a difference between ${p1*100}% and ${p2*100}% with ${power*100}% power, a total of ${n1+n2} subjects are required.`,
       rCode,
@@ -0,0 +1,119 @@
+/**
+ * EpiStatKit - Schema Introspection
+ * Describes a calculator's Zod input schema as plain field descriptors, and coerces
+ * string input (CLI flags, CSV cells) to the declared field types.
+ */
+import { z } from 'zod';
+
+export type FieldType = 'number' | 'string' | 'boolean' | 'enum' | 'table';
+
+export interface FieldDescriptor {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  default?: unknown;
+  description?: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  options?: string[]; // Allowed values of an enum field
+}
+
+// Strips refinements, optional and default wrappers, remembering what they implied
+const unwrap = (schema: z.ZodTypeAny) => {
+  let inner = schema;
+  let required = true;
+  let defaultValue: unknown = undefined;
+  let description = schema.description;
+
+  for (;;) {
+    if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      required = false;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodDefault) {
+      required = false;
+      defaultValue = inner._def.defaultValue();
+      inner = inner._def.innerType;
+    } else {
+      break;
+    }
+    description = description ?? inner.description;
+  }
+
+  return { inner, required, defaultValue, description };
+};
+
+const describeField = (name: string, schema: z.ZodTypeAny): FieldDescriptor => {
+  const { inner, required, defaultValue, description } = unwrap(schema);
+  const field: FieldDescriptor = { name, type: 'string', required };
+  if (defaultValue !== undefined) field.default = defaultValue;
+  if (description) field.description = description;
+
+  if (inner instanceof z.ZodNumber) {
+    field.type = 'number';
+    if (inner.minValue !== null) field.min = inner.minValue;
+    if (inner.maxValue !== null) field.max = inner.maxValue;
+    if (inner.isInt) field.integer = true;
+  } else if (inner instanceof z.ZodBoolean) {
+    field.type = 'boolean';
+  } else if (inner instanceof z.ZodEnum) {
+    field.type = 'enum';
+    field.options = [...inner.options];
+  } else if (inner instanceof z.ZodArray && unwrap(inner.element).inner instanceof z.ZodArray) {
+    field.type = 'table'; // Matrix of counts, entered row by row
+  }
+
+  return field;
+};
+
+/**
+ * Field descriptors for an object schema (possibly wrapped in refinements), in declaration order.
+ */
+export const describeSchema = (schema: z.ZodTypeAny): FieldDescriptor[] => {
+  const { inner } = unwrap(schema);
+  if (!(inner instanceof z.ZodObject)) return [];
+  return Object.entries(inner.shape as z.ZodRawShape).map(([name, field]) => describeField(name, field));
+};
+
+/**
+ * Writes a matrix as text, rows separated by ";" and cells by ",", the form parseTableInput reads.
+ */
+export const formatTableInput = (rows: unknown[][]): string => rows.map(row => row.join(', ')).join('; ');
+
+/**
+ * Reads a matrix written row by row: rows separated by ";" or newlines, cells by "," (or
+ * whitespace when a row has no commas). Cells that are not numbers become NaN for the schema to reject.
+ */
+export const parseTableInput = (text: string): number[][] =>
+  text.split(/[;\r\n]+/)
+    .filter(row => row.trim() !== '')
+    .map(row => (row.includes(',') ? row.split(',') : row.trim().split(/\s+/)))
+    .map(cells => cells.map(cell => (cell.trim() === '' ? NaN : Number(cell))));
+
+/**
+ * Converts string values to the declared field types. Empty values are dropped so schema
+ * defaults apply; values that do not convert are passed on for the schema to reject.
+ */
+export const coerceInput = (fields: FieldDescriptor[], raw: Record<string, string | undefined>): Record<string, unknown> => {
+  const types = new Map(fields.map(f => [f.name, f.type]));
+  const input: Record<string, unknown> = {};
+
+  Object.entries(raw).forEach(([key, value]) => {
+    if (value === undefined || value.trim() === '') return;
+    const text = value.trim();
+    const type = types.get(key);
+    if (type === 'number') {
+      input[key] = isNaN(Number(text)) ? value : Number(text);
+    } else if (type === 'table') {
+      input[key] = parseTableInput(text);
+    } else if (type === 'boolean') {
+      input[key] = /^(true|yes|y|1)$/i.test(text) ? true : /^(false|no|n|0)$/i.test(text) ? false : text;
+    } else {
+      input[key] = value;
+    }
+  });
+
+  return input;
+};
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition, CalculationResult, SurvivalCurveGroup } from '../../types';
+import { parseSurvivalData, groupLabels, kaplanMeier as kmEstimate, medianTime, survivalTest, riskTableTimes } from './utils';
+
+export const kaplanMeier: CalculatorDefinition<{ time: string, event: string, group?: string, conf: number }> = {
+  metadata: {
+    id: 'kaplan-meier',
+    title: 'Kaplan-Meier Survival & Log-Rank Test',
+    category: Category.SURVIVAL,
+    description: 'Kaplan-Meier survival curves from time/event data with Greenwood standard errors, log-log confidence bands, median survival, and log-rank and Peto-Peto tests between groups.',
+    keywords: ['kaplan-meier', 'survival', 'time-to-event', 'censoring', 'log-rank', 'peto', 'median survival', 'greenwood', 'cohort']
+  },
+  schema: z.object({
+    time: z.string().refine(s => s.trim() !== '', "Enter a follow-up time for each subject").describe("Time Column (follow-up time per subject)"),
+    event: z.string().refine(s => s.trim() !== '', "Enter an event status for each subject").describe("Event Column (1 = event, 0 = censored)"),
+    group: z.string().optional().describe("Group Column (optional, one label per subject)"),
+    conf: z.number().min(80).max(99.9).default(95)
+  }).refine(d => parseSurvivalData(d.time, d.event, d.group) !== null, {
+    message: "Time, event and group columns need one entry per subject, with times ≥ 0 and events coded 1 (event) or 0 (censored)."
+  }).refine(d => (parseSurvivalData(d.time, d.event, d.group) || []).some(r => r.event), {
+    message: "At least one event is needed to estimate survival."
+  }),
+  examples: [
+    {
+      time: '9 13 13 18 23 28 31 34 45 48 161 5 5 8 8 12 16 23 27 30 33 43 45',
+      event: '1 1 0 1 1 0 1 1 0 1 0 1 1 1 1 1 0 1 1 1 1 1 1',
+      group: 'Maintained Maintained Maintained Maintained Maintained Maintained Maintained Maintained Maintained Maintained Maintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained Nonmaintained',
+      conf: 95
+    },
+    {
+      time: '6 6 6 6 7 9 10 10 11 13 16 17 19 20 22 23 25 32 32 34 35',
+      event: '1 1 1 0 1 0 1 0 0 1 1 0 0 0 1 1 0 0 0 0 0',
+      conf: 95
+    }
+  ],
+  references: [
+    {
+      author: "Kaplan EL, Meier P",
+      year: 1958,
+      title: "Nonparametric estimation from incomplete observations",
+      source: "Journal of the American Statistical Association 53(282):457-481",
+      doi: "10.1080/01621459.1958.10501452"
+    },
+    {
+      author: "Harrington DP, Fleming TR",
+      year: 1982,
+      title: "A class of rank test procedures for censored survival data",
+      source: "Biometrika 69(3):553-566",
+      doi: "10.1093/biomet/69.3.553"
+    },
+    {
+      author: "Brookmeyer R, Crowley J",
+      year: 1982,
+      title: "A confidence interval for the median survival time",
+      source: "Biometrics 38(1):29-41",
+      doi: "10.2307/2530286"
+    }
+  ],
+  compute: (data) => {
+    const { conf } = data;
+    const records = parseSurvivalData(data.time, data.event, data.group) || [];
+    const grouped = !!(data.group && data.group.trim());
+    const labels = groupLabels(records);
+    const maxTime = Math.max(...records.map(r => r.time));
+    const riskTimes = riskTableTimes(maxTime);
+
+    const results: CalculationResult[] = [];
+    const tableRows: CalculationResult[] = [];
+    const curves: SurvivalCurveGroup[] = [];
+    const medians: string[] = [];
+
+    labels.forEach(label => {
+      const subset = records.filter(r => r.group === label);
+      const steps = kmEstimate(subset, conf);
+      const prefix = grouped ? `${label}: ` : '';
+      const suffix = grouped ? ` (${label})` : '';
+
+      // Median CI from where the confidence band crosses 0.5 (Brookmeyer-Crowley)
+      const median = medianTime(steps, s => s.survival);
+      const medianLower = medianTime(steps, s => s.lower);
+      const medianUpper = medianTime(steps, s => s.upper);
+      results.push(isNaN(median)
+        ? { label: `Median Survival${suffix}`, text: 'Not reached', description: `n = ${subset.length}, events = ${subset.filter(r => r.event).length}` }
+        : {
+          label: `Median Survival${suffix}`, estimate: median, lower: medianLower, upper: isNaN(medianUpper) ? Infinity : medianUpper, confLevel: conf,
+          method: 'Log-log band', precision: 2, isMain: true, description: `n = ${subset.length}, events = ${subset.filter(r => r.event).length}`
+        });
+      medians.push(`${grouped ? `${label}: ` : ''}${isNaN(median) ? 'not reached' : median}`);
+
+      steps.forEach(s => {
+        tableRows.push({
+          label: `${prefix}S(${s.time})`, estimate: s.survival, lower: s.lower, upper: s.upper, confLevel: conf, method: 'Kaplan-Meier, log-log CI',
+          precision: 4, description: `At risk ${s.atRisk}, events ${s.events}, SE ${s.se.toFixed(4)}`
+        });
+      });
+
+      // Curve starts at S = 1 and runs on to the group's last follow-up time
+      const groupMax = Math.max(...subset.map(r => r.time));
+      const last = steps[steps.length - 1];
+      curves.push({
+        label,
+        steps: [
+          { time: 0, survival: 1, lower: 1, upper: 1 },
+          ...steps.map(s => ({ time: s.time, survival: s.survival, lower: s.lower, upper: s.upper })),
+          ...(last && groupMax > last.time ? [{ time: groupMax, survival: last.survival, lower: last.lower, upper: last.upper }] : [])
+        ],
+        atRisk: riskTimes.map(t => subset.filter(r => r.time >= t).length)
+      });
+    });
+
+    let testText = '';
+    if (labels.length >= 2) {
+      const logRank = survivalTest(records, labels, 0);
+      const peto = survivalTest(records, labels, 1);
+      results.push(
+        { label: 'Log-Rank Chi-Square', estimate: logRank.chi2, pValue: logRank.p, method: `Mantel-Cox log-rank test, df = ${logRank.df}`, precision: 4, isMain: true },
+        { label: 'Log-Rank p-value', pValue: logRank.p, method: 'Log-rank test', isMain: true },
+        { label: 'Peto-Peto Chi-Square', estimate: peto.chi2, pValue: peto.p, method: `Peto-Peto test (rho = 1), df = ${peto.df}`, precision: 4 },
+        { label: 'Peto-Peto p-value', pValue: peto.p, method: 'Peto-Peto test' }
+      );
+      labels.forEach((label, i) => {
+        results.push({ label: `Observed / Expected (${label})`, estimate: logRank.observed[i], precision: 0, description: `Expected ${logRank.expected[i].toFixed(2)}, O/E ${(logRank.observed[i] / logRank.expected[i]).toFixed(3)}` });
+      });
+      testText = ` The log-rank test ${logRank.p < 0.05 ? 'shows' : 'does not show'} a difference in survival between the groups (χ² = ${logRank.chi2.toFixed(3)}, df = ${logRank.df}, p = ${logRank.p.toFixed(4)}).`;
+    }
+    results.push(...tableRows);
+
+    const rLabels = records.map(r => JSON.stringify(r.group)).join(', ');
+    const rCode = `# Kaplan-Meier Survival Analysis
+library(survival)
+
+dat <- data.frame(
+  time = c(${records.map(r => r.time).join(', ')}),
+  status = c(${records.map(r => (r.event ? 1 : 0)).join(', ')})${grouped ? `,
+  group = c(${rLabels})` : ''}
+)
+
+fit <- survfit(Surv(time, status) ~ ${grouped ? 'group' : '1'}, data = dat,
+               conf.type = "log-log", conf.int = ${conf / 100})
+fit           # median survival with CI
+summary(fit)  # survival table with Greenwood SEs${grouped ? `
+
+# Log-rank (rho = 0) and Peto-Peto (rho = 1) tests
+survdiff(Surv(time, status) ~ group, data = dat)
+survdiff(Surv(time, status) ~ group, data = dat, rho = 1)` : ''}
+
+plot(fit, conf.int = TRUE, mark.time = TRUE, xlab = "Time", ylab = "Survival")`;
+
+    return {
+      results,
+      interpretation: `Median survival is ${medians.join('; ')}.${testText}`,
+      rCode,
+      formula: `S(t) = Π_{tᵢ ≤ t} (1 - dᵢ/nᵢ);  Var[S(t)] = S(t)² Σ dᵢ / (nᵢ(nᵢ - dᵢ));  log-log CI: S(t)^exp(±z·SE/|log S(t)|)`,
+      survivalCurve: { groups: curves, riskTimes }
+    };
+  }
+};
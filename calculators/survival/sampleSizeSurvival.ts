@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { Category, CalculatorDefinition } from '../../types';
+import * as dist from '../distributions';
+import { eventProbability, logRankEffect } from './utils';
+
+type LogRankMethod = 'schoenfeld' | 'freedman';
+
+interface SurvivalDesign {
+  hr: number,
+  method: LogRankMethod,
+  alpha: number,
+  ratio: number,
+  medianControl: number,
+  accrual: number,
+  followUp: number,
+  dropout: number
+}
+
+const designFields = {
+  hr: z.number().positive().refine(v => v !== 1, "Hazard ratio must differ from 1").describe("Hazard Ratio (experimental vs control)"),
+  method: z.enum(['schoenfeld', 'freedman']).default('schoenfeld').describe("Events Formula"),
+  alpha: z.number().min(0.001).max(0.2).default(0.05).describe("Alpha (two-sided)"),
+  ratio: z.number().min(0.1).max(10).default(1).describe("Allocation Ratio (experimental : control)"),
+  medianControl: z.number().positive().describe("Median Survival in Control Group"),
+  accrual: z.number().min(0).describe("Accrual Time"),
+  followUp: z.number().min(0).describe("Additional Follow-up after Accrual"),
+  dropout: z.number().min(0).max(0.99).default(0).describe("Dropout Rate (proportion lost per time unit)")
+};
+
+// With no accrual and no follow-up nobody is observed, so no events can occur
+const hasStudyTime = (d: Partial<SurvivalDesign>) => (d.accrual ?? 0) + (d.followUp ?? 0) > 0;
+
+const methodLabel = (method: LogRankMethod) => (method === 'schoenfeld' ? 'Schoenfeld' : 'Freedman');
+
+// Control and experimental event probabilities and their allocation-weighted average
+const designEventProbability = (d: SurvivalDesign) => {
+  const hazardControl = Math.LN2 / d.medianControl;
+  const dropoutHazard = -Math.log(1 - d.dropout);
+  const pControl = eventProbability(hazardControl, dropoutHazard, d.accrual, d.followUp);
+  const pExperimental = eventProbability(hazardControl * d.hr, dropoutHazard, d.accrual, d.followUp);
+  return { pControl, pExperimental, pEvent: (pControl + d.ratio * pExperimental) / (1 + d.ratio) };
+};
+
+const designRCode = (d: SurvivalDesign) => `# Event probability: exponential survival and dropout, uniform accrual
+lambda0 <- log(2) / ${d.medianControl}   # control hazard
+lambda1 <- ${d.hr} * lambda0
+eta <- -log(1 - ${d.dropout})            # dropout hazard
+A <- ${d.accrual}; F <- ${d.followUp}; r <- ${d.ratio}
+p_event <- function(l) {
+  h <- l + eta
+  if (A == 0) return(l / h * (1 - exp(-h * F)))
+  l / h * (1 - (exp(-h * F) - exp(-h * (A + F))) / (h * A))
+}
+P <- (p_event(lambda0) + r * p_event(lambda1)) / (1 + r)`;
+
+const designReferences = [
+  {
+    author: "Schoenfeld DA",
+    year: 1983,
+    title: "Sample-size formula for the proportional-hazards regression model",
+    source: "Biometrics 39(2):499-503",
+    doi: "10.2307/2531021"
+  },
+  {
+    author: "Freedman LS",
+    year: 1982,
+    title: "Tables of the number of patients required in clinical trials using the logrank test",
+    source: "Statistics in Medicine 1(2):121-129",
+    doi: "10.1002/sim.4780010204"
+  }
+];
+
+export const sampleSizeSurvival: CalculatorDefinition<SurvivalDesign & { power: number }> = {
+  metadata: {
+    id: 'sample-size-survival',
+    title: 'Sample Size: Survival (Log-Rank)',
+    category: Category.SAMPLE_SIZE,
+    description: 'Required events and total sample size to detect a hazard ratio with the log-rank test (Schoenfeld or Freedman), allowing for accrual, follow-up and dropout.',
+    keywords: ['sample size', 'survival', 'log-rank', 'hazard ratio', 'schoenfeld', 'freedman', 'events', 'time-to-event', 'trial']
+  },
+  schema: z.object({
+    ...designFields,
+    power: z.number().min(0.5).max(0.99).default(0.8)
+  }).refine(hasStudyTime, {
+    message: "Accrual + follow-up must be > 0"
+  }),
+  examples: [
+    { hr: 0.7, method: 'schoenfeld', alpha: 0.05, power: 0.8, ratio: 1, medianControl: 12, accrual: 24, followUp: 12, dropout: 0 },
+    { hr: 0.6, method: 'freedman', alpha: 0.05, power: 0.9, ratio: 2, medianControl: 18, accrual: 12, followUp: 24, dropout: 0.05 }
+  ],
+  references: designReferences,
+  compute: (data) => {
+    const { hr, method, alpha, power, ratio } = data;
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
+    const effect = logRankEffect(hr, ratio, method);
+    const { pControl, pExperimental, pEvent } = designEventProbability(data);
+
+    const calculateN = (targetPower: number) => {
+      const zPower = dist.getZCritical((targetPower * 2 - 1) * 100);
+      const events = Math.ceil(Math.pow(zAlpha + zPower, 2) / (effect * effect));
+      const total = events / pEvent;
+      const nControl = Math.ceil(total / (1 + ratio));
+      const nExperimental = Math.ceil((total * ratio) / (1 + ratio));
+      return { events, nControl, nExperimental };
+    };
+
+    const main = calculateN(power);
+    const nTotal = main.nControl + main.nExperimental;
+
+    const spectrumPowers = [0.70, 0.75, 0.80, 0.85, 0.90, 0.95, 0.99];
+    const powerSpectrum = spectrumPowers.map(p => {
+      const s = calculateN(p);
+      return { power: p * 100, n: s.nControl, nTotal: s.nControl + s.nExperimental };
+    });
+
+    const eventsFormula = method === 'schoenfeld'
+      ? `(qnorm(1 - ${alpha} / 2) + qnorm(${power}))^2 * (1 + r)^2 / (r * log(${hr})^2)`
+      : `(qnorm(1 - ${alpha} / 2) + qnorm(${power}))^2 * (1 + r * ${hr})^2 / (r * (1 - ${hr})^2)`;
+    const rCode = `# Log-Rank Sample Size (${methodLabel(method)})
+${designRCode(data)}
+
+d <- ceiling(${eventsFormula})
+d                                 # required events
+c(control = ceiling(d / P / (1 + r)), experimental = ceiling(d / P * r / (1 + r)))${method === 'schoenfeld' ? `
+
+# Events only, via gsDesign
+# install.packages("gsDesign")
+gsDesign::nEvents(hr = ${hr}, alpha = ${alpha / 2}, beta = ${1 - power}, ratio = ${ratio}, sided = 1)` : ''}`;
+
+    return {
+      results: [
+        { label: 'Required Events', estimate: main.events, method: `${methodLabel(method)} formula`, isMain: true },
+        { label: 'Total N', estimate: nTotal, isMain: true },
+        { label: 'Control Group Size', estimate: main.nControl },
+        { label: 'Experimental Group Size', estimate: main.nExperimental },
+        { label: 'Probability of Event', estimate: pEvent, format: 'percent', precision: 2, description: `Control ${(pControl * 100).toFixed(1)}%, experimental ${(pExperimental * 100).toFixed(1)}%` },
+        { label: 'Log Hazard Ratio', estimate: Math.log(hr), precision: 4 }
+      ],
+      interpretation: `To detect a hazard ratio of ${hr} with ${power * 100}% power at two-sided α = ${alpha}, ${main.events} events are needed. With ${(pEvent * 100).toFixed(1)}% of subjects expected to have an event during the study, ${nTotal} subjects should be enrolled (${main.nControl} control, ${main.nExperimental} experimental).`,
+      rCode,
+      formula: method === 'schoenfeld'
+        ? `d = (Z_α/2 + Z_β)² (1 + r)² / (r · ln(HR)²);  N = d / P(event)`
+        : `d = (Z_α/2 + Z_β)² (1 + r·HR)² / (r · (1 - HR)²);  N = d / P(event)`,
+      powerSpectrum
+    };
+  }
+};
+
+export const powerSurvival: CalculatorDefinition<SurvivalDesign & { n: number }> = {
+  metadata: {
+    id: 'power-survival',
+    title: 'Power: Survival (Log-Rank)',
+    category: Category.SAMPLE_SIZE,
+    description: 'Power of the log-rank test to detect a hazard ratio for a given total sample size (Schoenfeld or Freedman), allowing for accrual, follow-up and dropout.',
+    keywords: ['power', 'survival', 'log-rank', 'hazard ratio', 'schoenfeld', 'freedman', 'events', 'time-to-event']
+  },
+  schema: z.object({
+    n: z.number().int().min(4).describe("Total Sample Size"),
+    ...designFields
+  }).refine(hasStudyTime, {
+    message: "Accrual + follow-up must be > 0"
+  }),
+  examples: [
+    { n: 400, hr: 0.7, method: 'schoenfeld', alpha: 0.05, ratio: 1, medianControl: 12, accrual: 24, followUp: 12, dropout: 0 }
+  ],
+  references: designReferences,
+  compute: (data) => {
+    const { n, hr, method, alpha, ratio } = data;
+    const zAlpha = dist.getZCritical((1 - alpha) * 100);
+    const { pEvent } = designEventProbability(data);
+    const events = n * pEvent;
+    const power = dist.getNormalCDF(Math.sqrt(events) * logRankEffect(hr, ratio, method) - zAlpha);
+
+    const powerFormula = method === 'schoenfeld'
+      ? `sqrt(d * r) * abs(log(${hr})) / (1 + r)`
+      : `sqrt(d * r) * abs(1 - ${hr}) / (1 + r * ${hr})`;
+    const rCode = `# Log-Rank Power (${methodLabel(method)})
+${designRCode(data)}
+
+d <- ${n} * P                     # expected events
+pnorm(${powerFormula} - qnorm(1 - ${alpha} / 2))`;
+
+    return {
+      results: [
+        { label: 'Statistical Power', estimate: power, format: 'percent', method: `${methodLabel(method)} formula`, isMain: true },
+        { label: 'Type II Error (β)', estimate: 1 - power, format: 'percent' },
+        { label: 'Expected Events', estimate: events, precision: 1 },
+        { label: 'Probability of Event', estimate: pEvent, format: 'percent', precision: 2 }
+      ],
+      interpretation: `With ${n} subjects, about ${events.toFixed(0)} events are expected, giving ${(power * 100).toFixed(1)}% power to detect a hazard ratio of ${hr} at two-sided α = ${alpha}.`,
+      rCode,
+      formula: method === 'schoenfeld'
+        ? `Z_β = √(d·r) |ln HR| / (1 + r) - Z_α/2;  d = N · P(event)`
+        : `Z_β = √(d·r) |1 - HR| / (1 + r·HR) - Z_α/2;  d = N · P(event)`
+    };
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * EpiStatKit - Survival Analysis Utilities
+ */
+import * as dist from '../distributions';
+import { parseNumericInput } from '../descriptive/utils';
+
+export interface SurvivalRecord {
+  time: number;
+  event: boolean;
+  group: string;
+}
+
+export interface KMStep {
+  time: number;
+  atRisk: number;
+  events: number;
+  survival: number;
+  se: number; // Greenwood standard error of the survival estimate
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Parses a column of labels: one per line, comma, semicolon or tab; whitespace only when
+ * none of those appear, so pasted single-word labels work either way.
+ */
+export const parseLabels = (input: string): string[] => {
+  if (!input) return [];
+  const separator = /[\r\n,;\t]/.test(input.trim()) ? /[\r\n,;\t]+/ : /\s+/;
+  return input.split(separator).map(v => v.trim()).filter(v => v !== "");
+};
+
+/**
+ * Subject records from time, event (1 = event, 0 = censored) and optional group columns.
+ * Returns null when the columns differ in length or the data are not valid survival times.
+ */
+export const parseSurvivalData = (time: string, event: string, group?: string): SurvivalRecord[] | null => {
+  const times = parseNumericInput(time);
+  const events = parseNumericInput(event);
+  const groups = group && group.trim() ? parseLabels(group) : null;
+  if (times.length === 0 || times.length !== events.length) return null;
+  if (groups && groups.length !== times.length) return null;
+  if (times.some(t => t < 0) || events.some(e => e !== 0 && e !== 1)) return null;
+  return times.map((t, i) => ({ time: t, event: events[i] === 1, group: groups ? groups[i] : 'All' }));
+};
+
+// Group labels in order of first appearance
+export const groupLabels = (records: SurvivalRecord[]): string[] => [...new Set(records.map(r => r.group))];
+
+/**
+ * Kaplan-Meier estimate at each distinct event time with Greenwood standard errors and
+ * log-log confidence limits (survfit's conf.type = "log-log").
+ */
+export const kaplanMeier = (records: SurvivalRecord[], conf: number): KMStep[] => {
+  const z = dist.getZCritical(conf);
+  const eventTimes = [...new Set(records.filter(r => r.event).map(r => r.time))].sort((a, b) => a - b);
+  const steps: KMStep[] = [];
+  let survival = 1;
+  let greenwood = 0;
+  eventTimes.forEach(time => {
+    const atRisk = records.filter(r => r.time >= time).length;
+    const events = records.filter(r => r.event && r.time === time).length;
+    survival *= 1 - events / atRisk;
+    greenwood += atRisk > events ? events / (atRisk * (atRisk - events)) : Infinity;
+    // The band collapses to the estimate where log(-log S) is undefined (S = 1 or S = 0)
+    let lower = survival, upper = survival;
+    if (survival > 0 && survival < 1 && isFinite(greenwood)) {
+      const seLogLog = Math.sqrt(greenwood) / Math.abs(Math.log(survival));
+      lower = Math.pow(survival, Math.exp(z * seLogLog));
+      upper = Math.pow(survival, Math.exp(-z * seLogLog));
+    }
+    const se = isFinite(greenwood) ? survival * Math.sqrt(greenwood) : 0;
+    steps.push({ time, atRisk, events, survival, se, lower, upper });
+  });
+  return steps;
+};
+
+/**
+ * First time a curve falls to 0.5 or below; where it sits at exactly 0.5, the midpoint to the
+ * next drop (R's quantile.survfit rule). NaN when the curve never reaches 0.5.
+ */
+export const medianTime = (steps: KMStep[], curve: (s: KMStep) => number): number => {
+  const toler = Math.sqrt(Number.EPSILON);
+  const i = steps.findIndex(s => curve(s) <= 0.5 + toler);
+  if (i < 0) return NaN;
+  if (Math.abs(curve(steps[i]) - 0.5) < toler) {
+    const next = steps.findIndex((s, j) => j > i && curve(s) < curve(steps[i]) - toler);
+    return next < 0 ? steps[i].time : (steps[i].time + steps[next].time) / 2;
+  }
+  return steps[i].time;
+};
+
+/**
+ * G-rho family test across groups (R's survdiff): rho = 0 is the log-rank test, rho = 1 the
+ * Peto-Peto test weighting each event time by the pooled Kaplan-Meier estimate just before it.
+ */
+export const survivalTest = (records: SurvivalRecord[], labels: string[], rho: number) => {
+  const k = labels.length;
+  const observed = new Array<number>(k).fill(0);
+  const expected = new Array<number>(k).fill(0);
+  const diff = new Array<number>(k).fill(0);
+  const variance = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  const eventTimes = [...new Set(records.filter(r => r.event).map(r => r.time))].sort((a, b) => a - b);
+
+  let km = 1;
+  eventTimes.forEach(time => {
+    const atRisk = labels.map(g => records.filter(r => r.group === g && r.time >= time).length);
+    const deaths = labels.map(g => records.filter(r => r.group === g && r.event && r.time === time).length);
+    const n = atRisk.reduce((s, v) => s + v, 0);
+    const d = deaths.reduce((s, v) => s + v, 0);
+    const w = Math.pow(km, rho);
+    for (let g = 0; g < k; g++) {
+      const e = (d * atRisk[g]) / n;
+      observed[g] += deaths[g];
+      expected[g] += e;
+      diff[g] += w * (deaths[g] - e);
+      if (n > 1) {
+        const scale = (w * w * d * (n - d)) / (n * n * (n - 1));
+        for (let h = 0; h < k; h++) variance[g][h] += scale * atRisk[g] * ((g === h ? n : 0) - atRisk[h]);
+      }
+    }
+    km *= 1 - d / n;
+  });
+
+  // Quadratic form on the first k - 1 groups; the last is implied by the others
+  const m = k - 1;
+  const a = variance.slice(0, m).map((row, i) => [...row.slice(0, m), diff[i]]);
+  for (let col = 0; col < m; col++) {
+    const pivot = a.reduce((best, row, r) => (r >= col && Math.abs(row[col]) > Math.abs(a[best][col]) ? r : best), col);
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < m; r++) {
+      if (r === col || a[col][col] === 0) continue;
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c <= m; c++) a[r][c] -= f * a[col][c];
+    }
+  }
+  const chi2 = diff.slice(0, m).reduce((s, v, i) => s + (a[i][i] === 0 ? 0 : (v * a[i][m]) / a[i][i]), 0);
+  return { chi2, df: m, p: dist.getChiSqPValue(chi2, m), observed, expected };
+};
+
+// Evenly spaced times on a 1-2-5 grid from zero to the longest follow-up, for the number-at-risk table
+export const riskTableTimes = (maxTime: number, intervals = 5): number[] => {
+  if (!(maxTime > 0)) return [0];
+  const raw = maxTime / intervals;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= raw) as number;
+  const times: number[] = [];
+  for (let t = 0; t <= maxTime + 1e-9; t += step) times.push(Math.round(t / step) * step);
+  return times;
+};
+
+/**
+ * Probability that a subject is observed to fail by the end of the study, with exponential
+ * event and dropout hazards, uniform accrual over `accrual` and a further `followUp` after it.
+ */
+export const eventProbability = (hazard: number, dropoutHazard: number, accrual: number, followUp: number): number => {
+  const total = hazard + dropoutHazard;
+  if (!(total > 0)) return 0;
+  const share = hazard / total;
+  if (accrual <= 0) return share * (1 - Math.exp(-total * followUp));
+  return share * (1 - (Math.exp(-total * followUp) - Math.exp(-total * (accrual + followUp))) / (total * accrual));
+};
+
+/**
+ * Standardized log-rank effect per event for allocation ratio r (experimental : control), so
+ * events = (z_α + z_β)² / effect². Schoenfeld works on log(HR); Freedman on (1 - HR)/(1 + r·HR).
+ */
+export const logRankEffect = (hr: number, ratio: number, method: 'schoenfeld' | 'freedman'): number =>
+  method === 'schoenfeld'
+    ? (Math.sqrt(ratio) * Math.abs(Math.log(hr))) / (1 + ratio)
+    : (Math.sqrt(ratio) * Math.abs(1 - hr)) / (1 + ratio * hr);
@@ -1,45 +1,207 @@
-
 import { z } from 'zod';
-import { Category, CalculatorDefinition } from '../types';
-import * as ciUtils from './confidenceIntervals/utils';
+import { Category, CalculatorDefinition, CalculationResult } from '../types';
+import * as dist from './distributions';
+import { parseNumericInput, mean as calcMean, stdev as calcSD, leveneTest } from './descriptive/utils';
+
+type Alternative = 'two-sided' | 'less' | 'greater';
 
-export const twoSampleT: CalculatorDefinition<{ m1: number, s1: number, n1: number, m2: number, s2: number, n2: number, conf: number }> = {
+export const twoSampleT: CalculatorDefinition<{
+  group1?: string,
+  group2?: string,
+  m1?: number, s1?: number, n1?: number,
+  m2?: number, s2?: number, n2?: number,
+  variance: 'pooled' | 'welch',
+  alternative: Alternative,
+  margin?: number,
+  conf: number
+}> = {
   metadata: {
     id: 'two-sample-t',
     title: 'Independent Two-Sample t-test',
     category: Category.HYPOTHESIS_TESTS,
-    description: 'Compare means from two independent groups with p-values for all hypothesis directions.',
-    keywords: ['t-test', 'compare', 'means', 'independent', 'p-value']
+    description: "Compare means from two independent groups (raw data or summary statistics) with Student's pooled or Welch's test, equivalence testing, Cohen's d and Hedges' g, and equal-variance checks.",
+    keywords: ['t-test', 'compare', 'means', 'independent', 'welch', 'pooled', 'equivalence', 'tost', 'cohen', 'hedges', 'effect size', 'p-value']
   },
   schema: z.object({
-    m1: z.number(), s1: z.number().min(0.001), n1: z.number().min(2),
-    m2: z.number(), s2: z.number().min(0.001), n2: z.number().min(2),
+    group1: z.string().optional().describe("Group 1 Data (raw values)"),
+    group2: z.string().optional().describe("Group 2 Data (raw values)"),
+    m1: z.number().optional(), s1: z.number().min(0.001).optional(), n1: z.number().min(2).optional(),
+    m2: z.number().optional(), s2: z.number().min(0.001).optional(), n2: z.number().min(2).optional(),
+    variance: z.enum(['pooled', 'welch']).default('pooled').describe("Variance Assumption (pooled = Student, welch = Welch-Satterthwaite)"),
+    alternative: z.enum(['two-sided', 'less', 'greater']).default('two-sided').describe("Alternative Hypothesis (μ₁ vs μ₂)"),
+    margin: z.number().min(0).optional().describe("Equivalence Margin (± difference, optional)"),
     conf: z.number().min(80).max(99.9).default(95)
+  }).refine(data => (data.group1 && data.group2)
+    ? parseNumericInput(data.group1).length >= 2 && parseNumericInput(data.group2).length >= 2
+    : [data.m1, data.s1, data.n1, data.m2, data.s2, data.n2].every(v => v !== undefined), {
+    message: "Provide two raw datasets with 2+ values each, or Summary Statistics (mean, SD, n) for both groups."
   }),
-  examples: [{ m1: 85, s1: 10, n1: 20, m2: 78, s2: 12, n2: 20, conf: 95 }],
+  examples: [
+    { m1: 85, s1: 10, n1: 20, m2: 78, s2: 12, n2: 20, variance: 'pooled', alternative: 'two-sided', conf: 95 },
+    {
+      group1: '19.1, 22.4, 18.7, 25.3, 21.0, 23.8, 20.2, 24.1, 17.9, 22.6, 26.0, 21.5',
+      group2: '16.2, 21.8, 14.5, 19.9, 12.8, 23.5, 15.1, 18.4, 20.7',
+      variance: 'welch', alternative: 'two-sided', margin: 2, conf: 95
+    }
+  ],
+  references: [
+    {
+      author: "Welch BL",
+      year: 1947,
+      title: "The generalization of 'Student's' problem when several different population variances are involved",
+      source: "Biometrika 34(1-2):28-35",
+      doi: "10.1093/biomet/34.1-2.28"
+    },
+    {
+      author: "Schuirmann DJ",
+      year: 1987,
+      title: "A comparison of the two one-sided tests procedure and the power approach for assessing the equivalence of average bioavailability",
+      source: "Journal of Pharmacokinetics and Biopharmaceutics 15(6):657-680",
+      doi: "10.1007/BF01068419"
+    },
+    {
+      author: "Hedges LV, Olkin I",
+      year: 1985,
+      title: "Statistical Methods for Meta-Analysis",
+      source: "Academic Press",
+      doi: "10.1016/C2009-0-03396-0"
+    }
+  ],
   compute: (data) => {
-    const { m1, s1, n1, m2, s2, n2, conf } = data;
-    const df = n1 + n2 - 2;
-    const pooledSD = Math.sqrt(((n1 - 1) * s1 ** 2 + (n2 - 1) * s2 ** 2) / df);
-    const se = pooledSD * Math.sqrt(1 / n1 + 1 / n2);
-    const t = (m1 - m2) / se;
-    
-    const pValues = ciUtils.getTPValue(t, df);
+    let { m1, s1, n1, m2, s2, n2 } = data;
+    const { variance, alternative, margin, conf, group1, group2 } = data;
+    const raw = !!(group1 && group2);
+    const x = raw ? parseNumericInput(group1) : [];
+    const y = raw ? parseNumericInput(group2) : [];
+    if (raw) {
+      m1 = calcMean(x);
+      s1 = calcSD(x);
+      n1 = x.length;
+      m2 = calcMean(y);
+      s2 = calcSD(y);
+      n2 = y.length;
+    }
+
+    if (m1 === undefined || s1 === undefined || n1 === undefined || m2 === undefined || s2 === undefined || n2 === undefined) {
+      return { results: [], interpretation: "Insufficient data provided." };
+    }
+    const alpha = 1 - conf / 100;
+
+    const diff = m1 - m2;
+    const pooledDf = n1 + n2 - 2;
+    const pooledSD = Math.sqrt(((n1 - 1) * s1 ** 2 + (n2 - 1) * s2 ** 2) / pooledDf);
+    const v1 = s1 ** 2 / n1;
+    const v2 = s2 ** 2 / n2;
+    const welch = variance === 'welch';
+
+    // Welch-Satterthwaite replaces the pooled SE and df when variances are not assumed equal
+    const se = welch ? Math.sqrt(v1 + v2) : pooledSD * Math.sqrt(1 / n1 + 1 / n2);
+    const df = welch ? (v1 + v2) ** 2 / (v1 ** 2 / (n1 - 1) + v2 ** 2 / (n2 - 1)) : pooledDf;
+    const t = diff / se;
+
+    const pValues = dist.getTPValue(t, df);
+    const pValue = alternative === 'less' ? pValues.lower : alternative === 'greater' ? pValues.upper : pValues.twoSided;
     const formatP = (p: number) => p < 0.001 ? "< 0.001" : p.toFixed(4);
 
-    const rCode = `# Method 1: Using summary statistics (Requires 'BSDA' package)\n# install.packages("BSDA")\nlibrary(BSDA)\n\ntsum.test(mean.x = ${m1}, s.x = ${s1}, n.x = ${n1},\n          mean.y = ${m2}, s.y = ${s2}, n.y = ${n2},\n          var.equal = TRUE, conf.level = ${conf/100})\n\n# Method 2: If using raw data vectors x1 and x2\n# t.test(x1, x2, var.equal = TRUE, conf.level = ${conf/100})`;
+    // One-sided alternatives get the matching one-sided bound, as t.test
+    const tOneSided = dist.tQuantile(1 - alpha, df);
+    const tCrit = dist.getTCritical(conf, df);
+    const lower = alternative === 'less' ? -Infinity : diff - (alternative === 'greater' ? tOneSided : tCrit) * se;
+    const upper = alternative === 'greater' ? Infinity : diff + (alternative === 'less' ? tOneSided : tCrit) * se;
+
+    // Standardized differences on the pooled SD; Hedges-Olkin large-sample SE
+    const d = diff / pooledSD;
+    const seD = Math.sqrt((n1 + n2) / (n1 * n2) + d * d / (2 * (n1 + n2)));
+    const z = dist.getZCritical(conf);
+    const j = Math.exp(dist.logGamma(pooledDf / 2) - dist.logGamma((pooledDf - 1) / 2)) / Math.sqrt(pooledDf / 2);
+    const g = j * d;
+
+    // F-test for equal variances, as var.test
+    const varRatio = s1 ** 2 / s2 ** 2;
+    const fLower = dist.fCDF(varRatio, n1 - 1, n2 - 1);
+    const pF = Math.min(1, 2 * Math.min(fLower, 1 - fLower));
+
+    const altLabel = alternative === 'less' ? 'One-sided, μ₁ < μ₂' : alternative === 'greater' ? 'One-sided, μ₁ > μ₂' : 'Two-sided';
+    const testName = welch ? "Welch's t-test" : 'Pooled-variance t-test';
+
+    const results: CalculationResult[] = [
+      { label: 't-statistic', estimate: t, pValue, precision: 4, isMain: true },
+      { label: `p (${altLabel})`, pValue, method: testName, isMain: true },
+      { label: 'Degrees of Freedom (df)', estimate: df, precision: welch ? 3 : undefined },
+      { label: 'Mean Difference', estimate: diff, lower, upper, confLevel: conf, method: testName, precision: 4, isMain: true },
+      { label: 'Standard Error', estimate: se, precision: 4 },
+      { label: 'Pooled SD', estimate: pooledSD, precision: 4 },
+      { label: "Cohen's d", estimate: d, lower: d - z * seD, upper: d + z * seD, confLevel: conf, method: 'Hedges-Olkin normal approximation', precision: 4, isMain: true },
+      { label: "Hedges' g", estimate: g, lower: j * (d - z * seD), upper: j * (d + z * seD), confLevel: conf, method: 'Small-sample corrected d', precision: 4 },
+      { label: 'Variance Ratio (F)', estimate: varRatio, pValue: pF, method: `F-test, df = ${n1 - 1}, ${n2 - 1}`, precision: 4, description: `p = ${formatP(pF)}` }
+    ];
+
+    if (raw) {
+      const levene = leveneTest([x, y], calcMean);
+      results.push({ label: "Levene's Test", estimate: levene.f, pValue: levene.p, method: `Centred on means, df = ${levene.df1}, ${levene.df2}`, precision: 4, description: `p = ${formatP(levene.p)}` });
+    } else {
+      results.push({ label: "Levene's Test", text: 'Requires raw data' });
+    }
+
+    // Two one-sided tests against ±margin; equivalent when the (1 - 2α) interval lies inside the margin
+    let equivalenceText = '';
+    if (margin !== undefined && margin > 0) {
+      const pLow = 1 - dist.tCDF((diff + margin) / se, df);
+      const pHigh = dist.tCDF((diff - margin) / se, df);
+      const pTost = Math.max(pLow, pHigh);
+      const tTost = dist.tQuantile(1 - alpha, df);
+      const tostConf = Math.round((100 - 2 * (100 - conf)) * 10) / 10;
+      results.push({
+        label: 'Equivalence (TOST)', estimate: diff, lower: diff - tTost * se, upper: diff + tTost * se, confLevel: tostConf, pValue: pTost,
+        method: `Two one-sided tests, margin ±${margin}`, precision: 4, isMain: true, description: `p = ${formatP(pTost)}; equivalent if the ${tostConf}% CI lies within ±${margin}`
+      });
+      equivalenceText = ` The two one-sided tests ${pTost < alpha ? 'establish' : 'do not establish'} equivalence within ±${margin} (p = ${formatP(pTost)}).`;
+    }
+
+    const varEqual = welch ? 'FALSE' : 'TRUE';
+    const rAlternative = alternative === 'two-sided' ? 'two.sided' : alternative;
+    const rCode = raw
+      ? `# Two-sample t-test from raw data
+x <- c(${x.join(', ')})
+y <- c(${y.join(', ')})
+
+t.test(x, y, var.equal = ${varEqual}, alternative = "${rAlternative}", conf.level = ${conf / 100})
+
+# Equal-variance checks (install.packages("car"))
+var.test(x, y)
+car::leveneTest(c(x, y), factor(rep(1:2, c(length(x), length(y)))), center = mean)
+
+# Cohen's d and Hedges' g (install.packages("effectsize"))
+library(effectsize)
+cohens_d(x, y, ci = ${conf / 100})
+hedges_g(x, y, ci = ${conf / 100})${margin ? `
+
+# Equivalence: two one-sided tests against ±${margin}
+t.test(x, y, mu = -${margin}, alternative = "greater", var.equal = ${varEqual})$p.value
+t.test(x, y, mu = ${margin}, alternative = "less", var.equal = ${varEqual})$p.value` : ''}`
+      : `# Two-sample t-test from summary statistics (Requires 'BSDA' package)
+# install.packages("BSDA")
+library(BSDA)
+
+tsum.test(mean.x = ${m1}, s.x = ${s1}, n.x = ${n1},
+          mean.y = ${m2}, s.y = ${s2}, n.y = ${n2},
+          var.equal = ${varEqual}, alternative = "${rAlternative}", conf.level = ${conf / 100})
+
+# F-test for equal variances
+F <- ${s1}^2 / ${s2}^2
+2 * min(pf(F, ${n1 - 1}, ${n2 - 1}), pf(F, ${n1 - 1}, ${n2 - 1}, lower.tail = FALSE))${margin ? `
+
+# Equivalence: two one-sided tests against ±${margin}
+tsum.test(${m1}, ${s1}, ${n1}, ${m2}, ${s2}, ${n2}, mu = -${margin}, alternative = "greater", var.equal = ${varEqual})$p.value
+tsum.test(${m1}, ${s1}, ${n1}, ${m2}, ${s2}, ${n2}, mu = ${margin}, alternative = "less", var.equal = ${varEqual})$p.value` : ''}`;
 
     return {
-      results: [
-        { label: 't-statistic', value: t.toFixed(4), isMain: true },
-        { label: 'p (Two-sided)', value: formatP(pValues.twoSided), isMain: true },
-        { label: 'Pooled SD', value: pooledSD.toFixed(4) },
-        { label: 'Degrees of Freedom (df)', value: df },
-        { label: 'Mean Difference', value: (m1 - m2).toFixed(4) }
-      ],
-      interpretation: `The two-sample t-test yields p = ${formatP(pValues.twoSided)}. ${pValues.twoSided < (1 - conf/100) ? 'A significant difference exists' : 'No significant difference was detected'} between the group means.`,
+      results,
+      interpretation: `The ${welch ? "Welch" : "pooled-variance"} two-sample t-test yields p = ${formatP(pValue)} (${altLabel.toLowerCase()}). ${pValue < alpha ? 'A significant difference exists' : 'No significant difference was detected'} between the group means (difference ${diff.toFixed(3)}, Cohen's d = ${d.toFixed(2)}).${!welch && pF < 0.05 ? ' The F-test suggests unequal variances; consider the Welch test.' : ''}${equivalenceText}`,
       rCode,
-      formula: `t = (x̄₁ - x̄₂) / (s_p * √(1/n₁ + 1/n₂))`
+      formula: welch
+        ? `t = (x̄₁ - x̄₂) / √(s₁²/n₁ + s₂²/n₂);  df = (s₁²/n₁ + s₂²/n₂)² / [(s₁²/n₁)²/(n₁ - 1) + (s₂²/n₂)²/(n₂ - 1)]`
+        : `t = (x̄₁ - x̄₂) / (s_p * √(1/n₁ + 1/n₂))`
     };
   }
 };
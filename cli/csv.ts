@@ -0,0 +1,67 @@
+/**
+ * EpiStatKit CLI - CSV reading and writing (RFC 4180 quoting).
+ */
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain commas, quotes ("") and newlines.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines carry no input set
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+/**
+ * Reads CSV text with a header row into one record per data row.
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+  return rows.map(cells => Object.fromEntries(keys.map((key, i) => [key, cells[i] ?? ''])));
+};
+
+const quote = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]): string =>
+  [columns, ...rows.map(row => columns.map(c => row[c]))]
+    .map(cells => cells.map(quote).join(','))
+    .join('\n') + '\n';
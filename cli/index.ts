@@ -0,0 +1,194 @@
+/**
+ * EpiStatKit CLI
+ * List, inspect and run registered calculators from the shell, one input set at a time
+ * or in batches from JSON/CSV files.
+ */
+import { calculatorRegistry, getAllCalculators, getCalculatorById, run } from '../calculators/registry';
+import { coerceInput, describeSchema, formatTableInput, FieldDescriptor } from '../calculators/schema';
+import { parseCsvRecords } from './csv';
+import { BatchRow, OutputFormat, errorText, renderRows } from './output';
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readFile: (path: string) => string;
+  writeFile: (path: string, text: string) => void;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string>;
+}
+
+const USAGE = `Usage: epistatkit <command> [options]
+
+Commands:
+  list [--category <text>]            List registered calculators
+  show <id>                           Show a calculator's input fields and examples
+  run <id> [--<field> <value> ...]    Run one input set given as flags
+  run <id> --input <file.json>        Run an input object, or each object of an array
+  batch <id> <file.csv>               Run each CSV row (header row = field names)
+
+Options for run and batch:
+  --format json|csv|md                Output format (default: json)
+  --out <file>                        Write output to a file instead of stdout
+`;
+
+const RESERVED = new Set(['input', 'format', 'out', 'category']);
+
+const findCalculator = (id: string, io: CliIO) => {
+  const calc = Object.hasOwn(calculatorRegistry, id) ? getCalculatorById(id) : undefined;
+  if (!calc) io.stderr(`Unknown calculator "${id}". Run "epistatkit list" to see the available ids.\n`);
+  return calc;
+};
+
+// "--key value" and "--key=value"; a flag with no value is "true"
+export const parseArgs = (argv: string[]): ParsedArgs => {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    if (eq > -1) {
+      options[arg.slice(2, eq)] = arg.slice(eq + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      options[arg.slice(2)] = argv[++i];
+    } else {
+      options[arg.slice(2)] = 'true';
+    }
+  }
+  return { positional, options };
+};
+
+const describeField = (f: FieldDescriptor): string => {
+  const type = f.type === 'enum' ? (f.options || []).join('|') : f.type === 'table' ? 'table ("a, b; c, d")' : f.type + (f.integer ? ' (integer)' : '');
+  const range = [f.min !== undefined ? `>= ${f.min}` : '', f.max !== undefined ? `<= ${f.max}` : ''].filter(Boolean).join(', ');
+  const extras = [
+    f.required ? 'required' : 'optional',
+    f.default !== undefined ? `default ${JSON.stringify(f.default)}` : '',
+    range
+  ].filter(Boolean).join('; ');
+  return `  --${f.name.padEnd(20)} ${type.padEnd(18)} ${extras}${f.description ? ` — ${f.description}` : ''}`;
+};
+
+// Quotes a value for a POSIX shell: single quotes keep newlines and every other character literal
+const shellQuote = (text: string): string => (/^[\w.,:+\-\/=@%]+$/.test(text) ? text : `'${text.replace(/'/g, `'\\''`)}'`);
+
+const listCommand = (options: Record<string, string>, io: CliIO): number => {
+  const filter = options.category?.toLowerCase();
+  const calcs = getAllCalculators().filter(c => !filter || c.metadata.category.toLowerCase().includes(filter));
+  const width = Math.max(...calcs.map(c => c.metadata.id.length), 2);
+  calcs.forEach(c => io.stdout(`${c.metadata.id.padEnd(width)}  ${c.metadata.title} (${c.metadata.category})\n`));
+  return 0;
+};
+
+const showCommand = (id: string, io: CliIO): number => {
+  const calc = findCalculator(id, io);
+  if (!calc) return 1;
+  const { metadata } = calc;
+  io.stdout(`${metadata.title} [${metadata.id}]\n${metadata.category}\n\n${metadata.description}\n\nInput fields:\n`);
+  describeSchema(calc.schema).forEach(f => io.stdout(describeField(f) + '\n'));
+  io.stdout('\nExamples:\n');
+  calc.examples.forEach(ex => {
+    const flags = Object.entries(ex).map(([k, v]) => {
+      const text = Array.isArray(v) ? formatTableInput(v) : String(v);
+      return `--${k} ${shellQuote(text)}`;
+    }).join(' ');
+    io.stdout(`  epistatkit run ${metadata.id} ${flags}\n`);
+  });
+  return 0;
+};
+
+const runBatch = (id: string, fields: FieldDescriptor[], inputs: Record<string, unknown>[], options: Record<string, string>, io: CliIO): number => {
+  const format = (options.format || 'json') as OutputFormat;
+  if (!['json', 'csv', 'md'].includes(format)) {
+    io.stderr(`Unknown format "${format}". Use json, csv or md.\n`);
+    return 1;
+  }
+
+  const rows: BatchRow[] = inputs.map((input, i) => ({ row: i + 1, input, result: run(id, input) }));
+
+  // Report every failing row, but keep going so the rest of the batch is still written
+  let failures = 0;
+  rows.forEach(({ row, result }) => {
+    if ('errors' in result) {
+      failures++;
+      io.stderr(`Row ${row}: ${errorText(result)}\n`);
+    }
+  });
+
+  const text = renderRows(rows, format, fields.map(f => f.name));
+  if (options.out) io.writeFile(options.out, text);
+  else io.stdout(text);
+
+  return failures > 0 ? 1 : 0;
+};
+
+const runCommand = (id: string, options: Record<string, string>, io: CliIO): number => {
+  const calc = findCalculator(id, io);
+  if (!calc) return 1;
+  const fields = describeSchema(calc.schema);
+  const flags = Object.fromEntries(Object.entries(options).filter(([k]) => !RESERVED.has(k)));
+  const flagInput = coerceInput(fields, flags);
+
+  if (!options.input) return runBatch(id, fields, [flagInput], options, io);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(io.readFile(options.input));
+  } catch (e) {
+    io.stderr(`Could not read JSON input "${options.input}": ${(e as Error).message}\n`);
+    return 1;
+  }
+  // Flags override fields from the file
+  const inputs = (Array.isArray(parsed) ? parsed : [parsed]).map(obj => ({ ...(obj as Record<string, unknown>), ...flagInput }));
+  return runBatch(id, fields, inputs, options, io);
+};
+
+const batchCommand = (id: string, file: string, options: Record<string, string>, io: CliIO): number => {
+  const calc = findCalculator(id, io);
+  if (!calc) return 1;
+  const fields = describeSchema(calc.schema);
+  let records: Record<string, string>[];
+  try {
+    records = parseCsvRecords(io.readFile(file));
+  } catch (e) {
+    io.stderr(`Could not read CSV input "${file}": ${(e as Error).message}\n`);
+    return 1;
+  }
+  return runBatch(id, fields, records.map(rec => coerceInput(fields, rec)), options, io);
+};
+
+/**
+ * Runs the CLI and returns the process exit code: 0 on success, 1 when any input set failed.
+ */
+export const main = (argv: string[], io: CliIO): number => {
+  const { positional, options } = parseArgs(argv);
+  const [command, id, file] = positional;
+
+  if (!command || command === 'help' || options.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (command === 'list') return listCommand(options, io);
+  if (!id) {
+    io.stderr(`Missing calculator id.\n\n${USAGE}`);
+    return 1;
+  }
+  if (command === 'show') return showCommand(id, io);
+  if (command === 'run') return runCommand(id, options, io);
+  if (command === 'batch') {
+    if (!file) {
+      io.stderr(`Missing CSV file.\n\n${USAGE}`);
+      return 1;
+    }
+    return batchCommand(id, file, options, io);
+  }
+
+  io.stderr(`Unknown command "${command}".\n\n${USAGE}`);
+  return 1;
+};
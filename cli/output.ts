@@ -0,0 +1,85 @@
+/**
+ * EpiStatKit CLI - Rendering batch results as JSON, CSV or a Markdown table.
+ */
+import { CalculationResult, RunResult } from '../types';
+import { formatResult } from '../calculators/format';
+import { formatTableInput } from '../calculators/schema';
+import { toCsv } from './csv';
+
+export type OutputFormat = 'json' | 'csv' | 'md';
+
+export interface BatchRow {
+  row: number; // 1-based position in the batch (CSV data row or JSON array element)
+  input: Record<string, unknown>; // Input as given, before validation
+  result: RunResult;
+}
+
+// One CSV column per number: intervals split into bounds, p-values get their own column
+const flattenResult = (r: CalculationResult): [string, unknown][] => {
+  if (r.text !== undefined) return [[r.label, r.text]];
+  const cols: [string, unknown][] = [];
+  if (r.lower !== undefined && r.upper !== undefined) {
+    cols.push([`${r.label} (lower)`, r.lower], [`${r.label} (upper)`, r.upper]);
+  } else if (r.estimate !== undefined) {
+    cols.push([r.label, r.estimate]);
+  }
+  if (r.pValue !== undefined) cols.push([cols.length > 0 ? `${r.label} (p)` : r.label, r.pValue]);
+  return cols;
+};
+
+// Matrix inputs are written back in the "a, b; c, d" form they are read in
+const inputCell = (value: unknown) => (Array.isArray(value) ? formatTableInput(value) : value);
+
+// Union of keys in first-seen order, so rows with different result sets line up
+const collectColumns = (records: Record<string, unknown>[]): string[] => {
+  const seen = new Set<string>();
+  records.forEach(rec => Object.keys(rec).forEach(k => seen.add(k)));
+  return [...seen];
+};
+
+export const errorText = (result: RunResult): string =>
+  'errors' in result ? result.errors.map(e => (e.path ? `${e.path}: ${e.message}` : e.message)).join('; ') : '';
+
+const renderJson = (rows: BatchRow[]): string =>
+  JSON.stringify(rows.map(({ row, input, result }) => 'errors' in result
+    ? { row, ok: false, input, errors: result.errors }
+    : { row, ok: true, input: result.input, results: result.output.results, interpretation: result.output.interpretation }
+  ), null, 2) + '\n';
+
+const renderCsv = (rows: BatchRow[], inputFields: string[]): string => {
+  const records = rows.map(({ row, input, result }) => {
+    const rec: Record<string, unknown> = { row, status: result.ok ? 'ok' : 'error' };
+    const values = result.ok ? result.input : input;
+    inputFields.forEach(f => { rec[f] = inputCell(values[f]); });
+    if (result.ok) result.output.results.forEach(r => flattenResult(r).forEach(([k, v]) => { rec[k] = v; }));
+    return rec;
+  });
+  const columns = collectColumns(records);
+  records.forEach((rec, i) => { rec.errors = errorText(rows[i].result); });
+  return toCsv([...columns, 'errors'], records);
+};
+
+const renderMarkdown = (rows: BatchRow[], inputFields: string[]): string => {
+  const records = rows.map(({ row, input, result }) => {
+    const rec: Record<string, unknown> = { row, status: result.ok ? 'ok' : 'error' };
+    const values = result.ok ? result.input : input;
+    inputFields.forEach(f => { rec[f] = inputCell(values[f]); });
+    if (result.ok) result.output.results.forEach(r => { rec[r.label] = formatResult(r); });
+    return rec;
+  });
+  const columns = [...collectColumns(records), 'errors'];
+  records.forEach((rec, i) => { rec.errors = errorText(rows[i].result); });
+
+  const cell = (v: unknown) => (v === undefined || v === null ? '' : String(v)).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return [
+    `| ${columns.map(cell).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...records.map(rec => `| ${columns.map(c => cell(rec[c])).join(' | ')} |`)
+  ].join('\n') + '\n';
+};
+
+export const renderRows = (rows: BatchRow[], format: OutputFormat, inputFields: string[]): string => {
+  if (format === 'csv') return renderCsv(rows, inputFields);
+  if (format === 'md') return renderMarkdown(rows, inputFields);
+  return renderJson(rows);
+};
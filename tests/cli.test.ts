@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { main, parseArgs, CliIO } from '../cli';
+import { parseCsv, toCsv } from '../cli/csv';
+import { getAllCalculators } from '../calculators/registry';
+
+const memoryIO = (files: Record<string, string> = {}) => {
+  const out = { stdout: '', stderr: '', files: { ...files } };
+  const io: CliIO = {
+    stdout: text => { out.stdout += text; },
+    stderr: text => { out.stderr += text; },
+    readFile: path => {
+      if (!(path in out.files)) throw new Error('no such file');
+      return out.files[path];
+    },
+    writeFile: (path, text) => { out.files[path] = text; }
+  };
+  return { io, out };
+};
+
+// Splits shell text into commands (at unquoted newlines) of words, honouring single quotes and backslash escapes
+const shellCommands = (text: string): string[][] => {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "'") {
+      const end = text.indexOf("'", i + 1);
+      word = (word ?? '') + text.slice(i + 1, end);
+      i = end;
+    } else if (c === '\\') {
+      word = (word ?? '') + text[++i];
+    } else if (/\s/.test(c)) {
+      if (word !== null) words.push(word);
+      word = null;
+      if (c === '\n' && words.length > 0) {
+        commands.push(words);
+        words = [];
+      }
+    } else {
+      word = (word ?? '') + c;
+    }
+  }
+  if (word !== null) words.push(word);
+  if (words.length > 0) commands.push(words);
+  return commands;
+};
+
+describe('csv', () => {
+  it('handles quoted cells, escaped quotes, CRLF and blank lines', () => {
+    expect(parseCsv('a,b\r\n"1,5","say ""hi"""\r\n\r\n3,\n')).toEqual([['a', 'b'], ['1,5', 'say "hi"'], ['3', '']]);
+  });
+
+  it('round-trips through toCsv', () => {
+    const text = toCsv(['x', 'note'], [{ x: 1, note: 'a, "b"' }, { x: 2 }]);
+    expect(text).toBe('x,note\n1,"a, ""b"""\n2,\n');
+    expect(parseCsv(text)).toEqual([['x', 'note'], ['1', 'a, "b"'], ['2', '']]);
+  });
+});
+
+describe('cli', () => {
+  it('parses flags in both forms', () => {
+    expect(parseArgs(['run', 'x', '--a', '-1', '--b=2', '--flag'])).toEqual({
+      positional: ['run', 'x'],
+      options: { a: '-1', b: '2', flag: 'true' }
+    });
+  });
+
+  it('runs a calculator from flags', () => {
+    const { io, out } = memoryIO();
+    const code = main(['run', 'sample-size-two-props', '--p1', '0.3', '--p2', '0.5', '--format', 'csv'], io);
+    expect(code).toBe(0);
+    const [header, row] = parseCsv(out.stdout);
+    expect(row[header.indexOf('Group 1 Size (n1)')]).toBe('93');
+    expect(row[header.indexOf('power')]).toBe('0.8');
+  });
+
+  it('batch-runs a CSV and reports invalid rows without stopping', () => {
+    const { io, out } = memoryIO({
+      'sites.csv': 'exposed_cases,unexposed_cases,exposed_control,unexposed_control\n20,10,80,90\nx,5,5,5\n45,20,55,80\n'
+    });
+    const code = main(['batch', 'epi-risk-ratio', 'sites.csv', '--format', 'csv', '--out', 'out.csv'], io);
+
+    expect(code).toBe(1);
+    expect(out.stderr).toBe('Row 2: exposed_cases: Expected number, received string\n');
+    const [header, ...rows] = parseCsv(out.files['out.csv']);
+    expect(rows.map(r => r[header.indexOf('status')])).toEqual(['ok', 'error', 'ok']);
+    expect(Number(rows[2][header.indexOf('95% Confidence Interval (lower)')])).toBeCloseTo(1.437687, 6);
+    expect(rows[1][header.indexOf('errors')]).toBe('exposed_cases: Expected number, received string');
+  });
+
+  it('runs each object of a JSON array and renders Markdown', () => {
+    const { io, out } = memoryIO({ 'in.json': JSON.stringify([{ observed: 45, expected: 32.5 }, { observed: 10, expected: 0 }]) });
+    const code = main(['run', 'standardized-rates', '--input', 'in.json', '--format', 'md'], io);
+
+    expect(code).toBe(1);
+    const lines = out.stdout.trim().split('\n');
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain('| 1 | ok | 45 | 32.5 | 1.385 | [1.010, 1.853] |');
+    expect(lines[3]).toMatch(/^\| 2 \| error \|/);
+  });
+
+  it('prints examples that run as shown when pasted into a shell', () => {
+    for (const calc of getAllCalculators()) {
+      const { io, out } = memoryIO();
+      expect(main(['show', calc.metadata.id], io)).toBe(0);
+      const commands = shellCommands(out.stdout.slice(out.stdout.indexOf('Examples:') + 'Examples:'.length));
+      expect(commands).toHaveLength(calc.examples.length);
+      commands.forEach(([program, ...args]) => {
+        expect(program).toBe('epistatkit');
+        const run = memoryIO();
+        expect(main(args, run.io), `${calc.metadata.id}: ${run.out.stderr}`).toBe(0);
+      });
+    }
+  });
+
+  it('rejects unknown calculators and commands', () => {
+    const { io, out } = memoryIO();
+    expect(main(['run', 'nope'], io)).toBe(1);
+    expect(main(['frobnicate', 'x'], io)).toBe(1);
+    expect(out.stderr).toContain('Unknown calculator "nope"');
+    expect(out.stderr).toContain('Unknown command "frobnicate"');
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { quantiles } from '../calculators/descriptive/utils';
+
+describe('quantiles', () => {
+  it('interpolates between order statistics like R type 7', () => {
+    expect(quantiles([4, 1, 3, 2], 0.5)).toBe(2.5);
+    expect(quantiles([1, 2, 3, 4, 5], 0.25)).toBe(2);
+    expect(quantiles([], 0.5)).toBe(0);
+  });
+
+  it('returns tied neighbours exactly instead of interpolating between them', () => {
+    expect(quantiles([0.1, 0.1, 0.5], 0.1)).toBe(0.1);
+    expect(quantiles([1 / 3, 1 / 3, 1 / 3, 1 / 3, 1 / 3, 1 / 3, 1 / 3, 1], 0.4)).toBe(1 / 3);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { formatResult, formatPValue } from '../calculators/format';
+
+describe('formatResult', () => {
+  it('prefers text, then interval, then estimate, then p-value', () => {
+    expect(formatResult({ label: 'Mode', text: 'red', estimate: 3 })).toBe('red');
+    expect(formatResult({ label: 'CI', estimate: 2.25, lower: 1.4377, upper: 3.5213, precision: 3 })).toBe('[1.438, 3.521]');
+    expect(formatResult({ label: 'Mean', estimate: 14.5, precision: 4 })).toBe('14.5000');
+    expect(formatResult({ label: 'p', pValue: 0.0018341 })).toBe('0.0018');
+  });
+
+  it('prints counts as-is and percentages on the 0-100 scale', () => {
+    expect(formatResult({ label: 'n', estimate: 7 })).toBe('7');
+    expect(formatResult({ label: 'Power', estimate: 0.705414, format: 'percent' })).toBe('70.54%');
+    expect(formatResult({ label: 'Excess', estimate: 0.384615, format: 'percent', precision: 1 })).toBe('38.5%');
+  });
+
+  it('shows infinite values and open interval bounds as ∞', () => {
+    expect(formatResult({ label: 'OR', estimate: Infinity, precision: 3 })).toBe('∞');
+    expect(formatResult({ label: 'CI', lower: 0.5, upper: Infinity, precision: 2 })).toBe('[0.50, ∞]');
+  });
+});
+
+describe('formatPValue', () => {
+  it('bounds values below the displayed precision', () => {
+    expect(formatPValue(1.37e-12)).toBe('< 0.0001');
+    expect(formatPValue(0.0004, 3)).toBe('< 0.001');
+    expect(formatPValue(0.504036)).toBe('0.5040');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { calculatorRegistry } from '../calculators/registry';
+import { formatResult } from '../calculators/format';
+import { CalculatorDefinition } from '../types';
+import { goldenValues, GoldenCase } from './goldenValues';
+
+const checkCase = (id: string, calc: CalculatorDefinition<any>, input: unknown, golden: GoldenCase): string[] => {
+  const { results } = calc.compute(calc.schema.parse(input));
+  const failures: string[] = [];
+
+  golden.checks.forEach(check => {
+    const result = results.find(r => r.label === check.label);
+    const where = `${id} › ${check.label}`;
+    if (!result) {
+      failures.push(`${where}: missing from results`);
+      return;
+    }
+
+    if (typeof check.expected === 'string') {
+      if (formatResult(result) !== check.expected) failures.push(`${where}: expected "${check.expected}", got "${formatResult(result)}"`);
+      return;
+    }
+
+    // Intervals are compared bound by bound; anything else by its estimate, or its p-value when it has none
+    const expected = Array.isArray(check.expected) ? check.expected : [check.expected];
+    const actual = Array.isArray(check.expected) ? [result.lower, result.upper] : [result.estimate ?? result.pValue];
+
+    const close = expected.every((e, i) => typeof actual[i] === 'number' && (actual[i] === e || Math.abs(actual[i] - e) <= check.tol));
+    if (!close) failures.push(`${where}: expected ${expected.join(', ')} ± ${check.tol}, got ${actual.join(', ')} (R: ${golden.r})`);
+  });
+
+  return failures;
+};
+
+describe('golden values against R', () => {
+  Object.entries(calculatorRegistry).forEach(([id, calc]) => {
+    describe(id, () => {
+      const golden = goldenValues[id];
+
+      it('has a reference case for every example', () => {
+        expect(golden, `no golden entry for ${id}`).toBeDefined();
+        expect(golden.examples).toHaveLength(calc.examples.length);
+      });
+
+      calc.examples.forEach((example, i) => {
+        it(`example ${i + 1}`, () => {
+          const gc = golden?.examples[i];
+          expect(gc, `no golden case for ${id} example ${i + 1}`).toBeDefined();
+          expect(checkCase(id, calc, example, gc)).toEqual([]);
+        });
+      });
+
+      (golden?.edgeCases || []).forEach(gc => {
+        it(`edge case: ${gc.r}`, () => {
+          expect(checkCase(id, calc, gc.input, gc)).toEqual([]);
+        });
+      });
+
+      (golden?.invalid || []).forEach(({ input, message }) => {
+        it(`rejects: ${message}`, () => {
+          const parsed = calc.schema.safeParse(input);
+          expect(parsed.success).toBe(false);
+          expect(parsed.error?.issues.map(issue => issue.message)).toContain(message);
+        });
+      });
+    });
+  });
+
+  it('has no golden entries for unregistered calculators', () => {
+    const unknown = Object.keys(goldenValues).filter(id => !calculatorRegistry[id]);
+    expect(unknown).toEqual([]);
+  });
+});
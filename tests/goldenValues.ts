@@ -0,0 +1,1491 @@
+/**
+ * EpiStatKit - Golden Reference Values
+ * Expected output for every registered calculator, taken from R (4.x) with the
+ * packages named in each case. Numbers are compared with the structured result
+ * (estimate or p-value, or [lower, upper] for intervals; proportions on the 0-1
+ * scale) and `tol` is the allowed absolute deviation. Strings are compared with
+ * the result's display text. Inputs listed under `invalid` must be rejected by
+ * the calculator's schema with the given message.
+ */
+
+export interface GoldenCheck {
+  label: string;
+  expected: number | number[] | string;
+  tol: number;
+  note?: string;
+}
+
+export interface GoldenCase {
+  /** R call the reference values were taken from. */
+  r: string;
+  /** Calculator input; omitted for registry examples, which are matched by position. */
+  input?: Record<string, unknown>;
+  checks: GoldenCheck[];
+}
+
+export interface GoldenRejection {
+  input: Record<string, unknown>;
+  /** Validation message the schema reports for the input. */
+  message: string;
+}
+
+export interface GoldenEntry {
+  examples: GoldenCase[];
+  edgeCases?: GoldenCase[];
+  invalid?: GoldenRejection[];
+}
+
+const FISHER_UNIROOT = 'R solves the conditional MLE and limits with uniroot (tol 1.2e-4); the calculator solves to 1e-12.';
+const QTUKEY_PRECISION = "R's qtukey is accurate to about 1e-4 (eps = 0.0001); the calculator bisects ptukey to 1e-10.";
+const WILCOX_UNIROOT = 'With ties R inverts the normal approximation with uniroot (tol 1e-4); the calculator bisects to 1e-10.';
+const NORMAL_APPROX_POWER = 'Calculator uses the normal approximation; pwr uses the noncentral t.';
+const PROFILE_SPLINE = "R's confint.glm interpolates the profile deviance with a spline; the calculator solves for the limits to 1e-8.";
+
+export const goldenValues: Record<string, GoldenEntry> = {
+  // --- Descriptive ---
+  'descriptive-stats': {
+    examples: [
+      {
+        r: 'x <- c(10, 15, 20, 25, 30, 35, 40); mean(x); median(x); sd(x); var(x)',
+        checks: [
+          { label: 'Sample Size (n)', expected: 7, tol: 0 },
+          { label: 'Mean', expected: 25, tol: 1e-5 },
+          { label: 'Median', expected: 25, tol: 1e-5 },
+          { label: 'Std. Deviation (SD)', expected: 10.801234, tol: 1e-5 },
+          { label: 'Variance', expected: 116.666667, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'x <- c(1.2, 4.5, 3.3, 8.9, 2.1); mean(x); median(x); sd(x); var(x)',
+        checks: [
+          { label: 'Sample Size (n)', expected: 5, tol: 0 },
+          { label: 'Mean', expected: 4, tol: 1e-5 },
+          { label: 'Median', expected: 3.3, tol: 1e-5 },
+          { label: 'Std. Deviation (SD)', expected: 3.008322, tol: 1e-5 },
+          { label: 'Variance', expected: 9.05, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'numeric-summary': {
+    examples: [
+      {
+        r: 'x <- c(10, 12, 12, 13, 15, 18, 22, 25, 30, 100); mean(x); mean(x, trim = 0.1); sd(x); quantile(x, c(.25, .75)); e1071::skewness(x, type = 2); e1071::kurtosis(x, type = 2)',
+        checks: [
+          { label: 'Sample Size (n)', expected: 10, tol: 0 },
+          { label: 'Mean', expected: 25.7, tol: 1e-5 },
+          { label: 'Median', expected: 16.5, tol: 1e-5 },
+          { label: 'Trimmed Mean (10%)', expected: 18.375, tol: 1e-5 },
+          { label: 'Std. Deviation (s)', expected: 26.895064, tol: 1e-5 },
+          { label: 'Variance (s²)', expected: 723.344444, tol: 1e-5 },
+          { label: 'Coeff. Variation (CV)', expected: 1.04650054, tol: 1e-5 },
+          { label: 'Min', expected: 10, tol: 0 },
+          { label: 'Max', expected: 100, tol: 0 },
+          { label: 'Q1 (25th)', expected: 12.25, tol: 1e-5 },
+          { label: 'Q3 (75th)', expected: 24.25, tol: 1e-5 },
+          { label: 'IQR', expected: 12, tol: 1e-5 },
+          { label: 'Skewness', expected: 2.837536, tol: 1e-5 },
+          { label: 'Excess Kurtosis', expected: 8.445840, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'categorical-summary': {
+    examples: [
+      {
+        r: 'x <- tolower(c("Red", "Blue", "Red", "Green", "Blue", "Red", "Yellow")); table(x); prop.table(table(x)) * 100',
+        checks: [
+          { label: 'Total Count (n)', expected: 7, tol: 0 },
+          { label: 'Unique Categories', expected: 4, tol: 0 },
+          { label: 'Category: red', expected: 0.428571, tol: 1e-5 },
+          { label: 'Category: blue', expected: 0.285714, tol: 1e-5 },
+          { label: 'Category: green', expected: 0.142857, tol: 1e-5 },
+          { label: 'Category: yellow', expected: 0.142857, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'outlier-stats': {
+    examples: [
+      {
+        r: 'x <- c(1, 10, 11, 12, 13, 14, 15, 16, 50, 100); q <- quantile(x, c(.25, .75)); q + c(-1.5, 1.5) * IQR(x); median(x); mad(x, constant = 1)',
+        checks: [
+          { label: 'Lower Fence', expected: 4.5, tol: 1e-5 },
+          { label: 'Upper Fence', expected: 22.5, tol: 1e-5 },
+          { label: 'Outlier Count', expected: 3, tol: 0 },
+          { label: 'Outliers Found', expected: '1, 50, 100', tol: 0 },
+          { label: 'Median (Robust Central)', expected: 13.5, tol: 1e-5 },
+          { label: 'MAD (Robust Dispersion)', expected: 2.5, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'binary-summary': {
+    examples: [
+      {
+        r: 'x <- c("Yes", "No", "Yes", "Yes", "No"); p <- mean(x == "Yes"); p; p / (1 - p)',
+        checks: [
+          { label: 'Total N', expected: 5, tol: 0 },
+          { label: 'Proportion (p̂)', expected: 0.6, tol: 1e-5 },
+          { label: 'Percentage', expected: 0.6, tol: 1e-5 },
+          { label: 'Odds', expected: 1.5, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'x <- c(1, 0, 1, 1, 1, 0); p <- mean(x == 1); p; p / (1 - p)',
+        checks: [
+          { label: 'Total N', expected: 6, tol: 0 },
+          { label: 'Proportion (p̂)', expected: 0.666667, tol: 1e-5 },
+          { label: 'Percentage', expected: 0.66666667, tol: 1e-5 },
+          { label: 'Odds', expected: 2, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'bivariate-summary': {
+    examples: [
+      {
+        r: 'x <- 1:5; y <- c(2, 4, 5, 4, 5); cor(x, y); cor(x, y)^2; cov(x, y)',
+        checks: [
+          { label: 'Pairs (n)', expected: 5, tol: 0 },
+          { label: 'Pearson Correlation (r)', expected: 0.774597, tol: 1e-5 },
+          { label: 'Coeff. of Determination (r²)', expected: 0.6, tol: 1e-5 },
+          { label: 'Covariance', expected: 1.5, tol: 1e-5 },
+          { label: 'Mean X', expected: 3, tol: 1e-5 },
+          { label: 'Mean Y', expected: 4, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+
+  // --- Confidence Intervals ---
+  'ci-mean-pro': {
+    examples: [
+      {
+        r: 't.test(c(12, 15, 14, 11, 19, 13, 15, 17), mu = 10)',
+        checks: [
+          { label: 'Sample Mean (x̄)', expected: 14.5, tol: 1e-5 },
+          { label: '95% Confidence Interval', expected: [12.310783, 16.689217], tol: 1e-5 },
+          { label: 'Standard Error (SE)', expected: 0.925820, tol: 1e-5 },
+          { label: 't-statistic', expected: 4.860556, tol: 1e-5 },
+          { label: 'p-value (Two-sided)', expected: 0.001834, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'se <- 15 / sqrt(50); 120 + c(-1, 1) * qt(0.975, 49) * se; t <- (120 - 100) / se; 2 * pt(-t, 49)',
+        checks: [
+          { label: 'Sample Mean (x̄)', expected: 120, tol: 1e-5 },
+          { label: '95% Confidence Interval', expected: [115.737047, 124.262953], tol: 1e-5 },
+          { label: 'Standard Error (SE)', expected: 2.121320, tol: 1e-5 },
+          { label: 't-statistic', expected: 9.428090, tol: 1e-5 },
+          { label: 'p-value (Two-sided)', expected: 1.37e-12, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'ci-proportion-pro': {
+    examples: [
+      {
+        r: 'prop.test(5, 100, correct = FALSE)$conf.int; prop.test(5, 100)$conf.int; binom.test(5, 100)$conf.int',
+        checks: [
+          { label: 'Observed Proportion (p̂)', expected: 0.05, tol: 1e-5 },
+          { label: 'Wilson Score CI', expected: [0.0215437, 0.1117505], tol: 1e-5 },
+          { label: 'Clopper-Pearson CI', expected: [0.0164319, 0.1128349], tol: 1e-5 },
+          { label: 'Wilson Score (with CC) CI', expected: [0.0185526, 0.1182995], tol: 1e-5 },
+          { label: 'Normal (Wald) CI', expected: [0.0072836, 0.0927164], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'prop.test(45, 100, correct = FALSE)$conf.int; prop.test(45, 100)$conf.int; binom.test(45, 100)$conf.int',
+        checks: [
+          { label: 'Observed Proportion (p̂)', expected: 0.45, tol: 1e-5 },
+          { label: 'Wilson Score CI', expected: [0.3561454, 0.5475540], tol: 1e-5 },
+          { label: 'Clopper-Pearson CI', expected: [0.3503202, 0.5527198], tol: 1e-5 },
+          { label: 'Wilson Score (with CC) CI', expected: [0.3514281, 0.5524574], tol: 1e-5 },
+          { label: 'Normal (Wald) CI', expected: [0.3524930, 0.5475070], tol: 1e-5 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'binom.test(0, 20)$conf.int; prop.test(0, 20, correct = FALSE)$conf.int; prop.test(0, 20)$conf.int',
+        input: { successes: 0, total_n: 20, conf: 95, precision: 4 },
+        checks: [
+          { label: 'Clopper-Pearson CI', expected: [0, 0.1684335], tol: 1e-5 },
+          { label: 'Wilson Score CI', expected: [0, 0.1611252], tol: 1e-5 },
+          { label: 'Wilson Score (with CC) CI', expected: [0, 0.2004533], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'binom.test(20, 20)$conf.int',
+        input: { successes: 20, total_n: 20, conf: 95, precision: 4 },
+        checks: [
+          { label: 'Clopper-Pearson CI', expected: [0.8315665, 1], tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'ci-epi-2x2': {
+    examples: [
+      {
+        r: 'epiR::epi.2by2(matrix(c(20, 10, 80, 90), nrow = 2), method = "cohort.count")',
+        checks: [
+          { label: 'Odds Ratio (OR)', expected: 2.25, tol: 1e-5 },
+          { label: 'OR Confidence Interval', expected: [0.994295, 5.091548], tol: 1e-5 },
+          { label: 'Relative Risk (RR)', expected: 2, tol: 1e-5 },
+          { label: 'RR Confidence Interval', expected: [0.986563, 4.054479], tol: 1e-5 },
+          { label: 'Risk Difference (RD)', expected: 0.1, tol: 1e-5 },
+          { label: 'RD Confidence Interval', expected: [0.002002, 0.197998], tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'ci-variance': {
+    examples: [
+      {
+        r: 'df <- 29; v <- 15^2; qchisq(c(.025, .975), df); df * v / qchisq(c(.975, .025), df)',
+        checks: [
+          { label: 'Sample Variance (s²)', expected: 225, tol: 1e-5 },
+          { label: 'Degrees of Freedom (df)', expected: 29, tol: 0 },
+          { label: 'χ² Critical (Lower)', expected: 16.047072, tol: 1e-5 },
+          { label: 'χ² Critical (Upper)', expected: 45.722286, tol: 1e-5 },
+          { label: 'CI for Variance', expected: [142.709401, 406.616243], tol: 1e-5 },
+          { label: 'CI for Std. Deviation', expected: [11.946104, 20.164728], tol: 1e-5 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'df <- 1; v <- 2^2; df * v / qchisq(c(.975, .025), df)',
+        input: { sd: 2, n: 2, conf: 95, precision: 4 },
+        checks: [
+          { label: 'CI for Variance', expected: [0.796196, 4073.033], tol: 1e-3 }
+        ]
+      }
+    ]
+  },
+  'ci-rate-poisson': {
+    examples: [
+      {
+        r: 'poisson.test(5, 1000)$conf.int; epitools::pois.byar(5, 1000)',
+        checks: [
+          { label: 'Observed Rate', expected: 0.005, tol: 1e-5 },
+          { label: 'Exact Poisson CI', expected: [0.00162349, 0.01166833], tol: 1e-5 },
+          { label: "Byar's Approximation CI", expected: [0.00189639, 0.01095956], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'poisson.test(25, 500)$conf.int; epitools::pois.byar(25, 500)',
+        checks: [
+          { label: 'Observed Rate', expected: 0.05, tol: 1e-5 },
+          { label: 'Exact Poisson CI', expected: [0.03235736, 0.07380986], tol: 1e-5 },
+          { label: "Byar's Approximation CI", expected: [0.03315306, 0.07261903], tol: 1e-5 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'poisson.test(0, 100)$conf.int',
+        input: { k: 0, T: 100, conf: 95, precision: 4 },
+        checks: [
+          { label: 'Exact Poisson CI', expected: [0, 0.03688879], tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+
+  // --- Hypothesis Tests ---
+  'one-sample-t': {
+    examples: [
+      {
+        r: 'se <- 15 / sqrt(30); t <- (105 - 100) / se; t; 2 * pt(-t, 29); 105 + c(-1, 1) * qt(0.975, 29) * se',
+        checks: [
+          { label: 't-statistic', expected: 1.825742, tol: 1e-5 },
+          { label: 'p (Two-sided)', expected: 0.078203, tol: 1e-5 },
+          { label: 'Degrees of Freedom', expected: 29, tol: 0 },
+          { label: '95% CI', expected: [99.398908, 110.601092], tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'two-sample-t': {
+    examples: [
+      {
+        r: 'sp <- sqrt((19 * 10^2 + 19 * 12^2) / 38); t <- 7 / (sp * sqrt(2 / 20)); t; 2 * pt(-t, 38)',
+        checks: [
+          { label: 't-statistic', expected: 2.004094, tol: 1e-5 },
+          { label: 'p (Two-sided)', expected: 0.052226, tol: 1e-5 },
+          { label: 'Pooled SD', expected: 11.045361, tol: 1e-5 },
+          { label: 'Degrees of Freedom (df)', expected: 38, tol: 0 },
+          { label: 'Mean Difference', expected: 7, tol: 1e-5 },
+          { label: 'Mean Difference', expected: [-0.070905, 14.070905], tol: 1e-5 },
+          { label: 'Variance Ratio (F)', expected: 0.694444, tol: 1e-5 },
+          { label: "Levene's Test", expected: 'Requires raw data', tol: 0 }
+        ]
+      },
+      {
+        r: 'x <- c(19.1, 22.4, 18.7, 25.3, 21.0, 23.8, 20.2, 24.1, 17.9, 22.6, 26.0, 21.5); y <- c(16.2, 21.8, 14.5, 19.9, 12.8, 23.5, 15.1, 18.4, 20.7); t.test(x, y); car::leveneTest(c(x, y), factor(rep(1:2, c(12, 9))), center = mean); effectsize::hedges_g(x, y)',
+        checks: [
+          { label: 't-statistic', expected: 2.640785, tol: 1e-6 },
+          { label: 'p (Two-sided)', expected: 0.0194949, tol: 1e-7 },
+          { label: 'Degrees of Freedom (df)', expected: 13.86944, tol: 1e-5 },
+          { label: 'Mean Difference', expected: [0.7078783, 6.8587883], tol: 1e-6 },
+          { label: "Levene's Test", expected: 1.955553, tol: 1e-6 },
+          { label: "Cohen's d", expected: 1.222082, tol: 1e-6 },
+          { label: "Hedges' g", expected: 1.173089, tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'tsum.test(85, 10, 20, 78, 12, 20, alternative = "greater")  # Welch',
+        input: { m1: 85, s1: 10, n1: 20, m2: 78, s2: 12, n2: 20, variance: 'welch', alternative: 'greater' },
+        checks: [
+          { label: 'p (One-sided, μ₁ > μ₂)', expected: 0.02623068, tol: 1e-8 },
+          { label: 'Degrees of Freedom (df)', expected: 36.80323, tol: 1e-5 },
+          { label: 'Mean Difference', expected: [1.106426, Infinity], tol: 1e-6 }
+        ]
+      }
+    ]
+  },
+  'chi-square': {
+    examples: [
+      {
+        r: 'chisq.test(matrix(c(10, 30, 20, 40), nrow = 2), correct = TRUE)',
+        checks: [
+          { label: 'Chi-Square (χ²)', expected: 0.446429, tol: 1e-5 },
+          { label: 'p-value', expected: 0.504036, tol: 1e-5 },
+          { label: 'Degrees of Freedom', expected: 1, tol: 0 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'chisq.test(matrix(c(10, 30, 20, 40), nrow = 2), correct = FALSE)',
+        input: { exposed_cases: 10, unexposed_cases: 30, exposed_control: 20, unexposed_control: 40, yates: false },
+        checks: [
+          { label: 'Chi-Square (χ²)', expected: 0.793651, tol: 1e-5 },
+          { label: 'p-value', expected: 0.372998, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'chisq.test(matrix(c(3, 1, 1, 3), nrow = 2), correct = TRUE)  # warns: approximation may be incorrect',
+        input: { exposed_cases: 3, unexposed_cases: 1, exposed_control: 1, unexposed_control: 3, yates: true },
+        checks: [
+          { label: 'Chi-Square (χ²)', expected: 0.5, tol: 1e-6 },
+          { label: 'p-value', expected: 0.4795001, tol: 1e-6 },
+          { label: 'Warning', expected: "Expected count below 5; use Fisher's Exact Test (fisher-exact)", tol: 0 }
+        ]
+      }
+    ]
+  },
+
+  'fisher-exact': {
+    examples: [
+      {
+        r: 'TeaTasting <- matrix(c(3, 1, 1, 3), nrow = 2); fisher.test(TeaTasting); fisher.test(TeaTasting, alternative = "greater"); exact2x2::exact2x2(TeaTasting, midp = TRUE)',
+        checks: [
+          { label: 'p-value (Two-sided)', expected: 0.4857143, tol: 1e-6 },
+          { label: 'p-value (One-sided, OR > 1)', expected: 0.2428571, tol: 1e-6 },
+          { label: 'p-value (One-sided, OR < 1)', expected: 0.9857143, tol: 1e-6 },
+          { label: 'Mid-p (Two-sided)', expected: 0.2571429, tol: 1e-6 },
+          { label: 'Conditional MLE Odds Ratio', expected: 6.408309, tol: 1e-4, note: FISHER_UNIROOT },
+          { label: 'OR Confidence Interval', expected: [0.2117329, 621.9337505], tol: 5, note: FISHER_UNIROOT },
+          { label: 'Sample Odds Ratio', expected: 9, tol: 1e-9 }
+        ]
+      },
+      {
+        r: 'Convictions <- matrix(c(2, 10, 15, 3), nrow = 2); fisher.test(Convictions); fisher.test(Convictions, alternative = "less")',
+        checks: [
+          { label: 'p-value (Two-sided)', expected: 0.0005367241, tol: 1e-9 },
+          { label: 'p-value (One-sided, OR < 1)', expected: 0.0004651809, tol: 1e-9 },
+          { label: 'Conditional MLE Odds Ratio', expected: 0.04693661, tol: 1e-6, note: FISHER_UNIROOT },
+          { label: 'OR Confidence Interval', expected: [0.003325764, 0.363182271], tol: 1e-4, note: FISHER_UNIROOT }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'fisher.test(matrix(c(5, 0, 1, 4), nrow = 2))',
+        input: { exposed_cases: 5, unexposed_cases: 0, exposed_control: 1, unexposed_control: 4 },
+        checks: [
+          { label: 'p-value (Two-sided)', expected: 0.04761905, tol: 1e-7 },
+          { label: 'Conditional MLE Odds Ratio', expected: Infinity, tol: 0 }
+        ]
+      }
+    ]
+  },
+
+  // --- Epidemiology ---
+  'mcnemar': {
+    examples: [
+      {
+        r: 'tab <- matrix(c(794, 86, 150, 570), nrow = 2); mcnemar.test(tab); mcnemar.test(tab, correct = FALSE); exact2x2::mcnemar.exact(tab)',
+        checks: [
+          { label: 'McNemar Chi-Square (corrected)', expected: 16.81780, tol: 1e-5 },
+          { label: 'p-value (corrected)', expected: 4.114562e-05, tol: 1e-10 },
+          { label: 'McNemar Chi-Square', expected: 17.35593, tol: 1e-5 },
+          { label: 'p-value (uncorrected)', expected: 3.099293e-05, tol: 1e-10 },
+          { label: 'Exact p-value', expected: 3.715936e-05, tol: 1e-10 },
+          { label: 'Matched-Pair Odds Ratio', expected: 1.744186, tol: 1e-6 },
+          { label: 'OR Confidence Interval', expected: [1.329228, 2.300979], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'tab <- matrix(c(12, 2, 9, 21), nrow = 2); mcnemar.test(tab); exact2x2::mcnemar.exact(tab)',
+        checks: [
+          { label: 'McNemar Chi-Square (corrected)', expected: 3.272727, tol: 1e-6 },
+          { label: 'p-value (corrected)', expected: 0.07044043, tol: 1e-7 },
+          { label: 'Exact p-value', expected: 0.06542969, tol: 1e-7 },
+          { label: 'OR Confidence Interval', expected: [0.9314123, 42.79972], tol: 1e-4 },
+          { label: 'Difference in Proportions', expected: [0.01821023, 0.2891567], tol: 1e-6, note: 'Newcombe (1998) method 10, computed from Wilson limits as in the paper.' }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'exact2x2::mcnemar.exact(matrix(c(10, 0, 6, 4), nrow = 2))',
+        input: { both_pos: 10, pos_neg: 6, neg_pos: 0, both_neg: 4 },
+        checks: [
+          { label: 'Exact p-value', expected: 0.03125, tol: 1e-9 },
+          { label: 'Matched-Pair Odds Ratio', expected: Infinity, tol: 0 }
+        ]
+      }
+    ]
+  },
+  'contingency-table': {
+    examples: [
+      {
+        r: 'smokers <- c(83, 90, 129, 70); patients <- c(86, 93, 136, 82); tab <- cbind(smokers, patients - smokers); prop.test(smokers, patients); prop.trend.test(smokers, patients); chisq.test(tab)$stdres; fisher.test(tab)',
+        checks: [
+          { label: 'Pearson Chi-Square', expected: 12.60041, tol: 1e-5 },
+          { label: 'Pearson p-value', expected: 0.005585477, tol: 1e-8 },
+          { label: 'Degrees of Freedom', expected: 3, tol: 0 },
+          { label: 'Trend Chi-Square', expected: 8.224922, tol: 1e-5 },
+          { label: 'Trend p-value', expected: 0.004131897, tol: 1e-8 },
+          { label: 'Fisher-Freeman-Halton p-value', expected: 0.01447191, tol: 1e-7 },
+          { label: 'Cell (4, 2) Residual', expected: 3.489004, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'tab <- matrix(c(20, 15, 10, 12, 18, 25, 5, 9, 16), nrow = 3, byrow = TRUE); chisq.test(tab); DescTools::GTest(tab); DescTools::CramerV(tab); fisher.test(tab)',
+        checks: [
+          { label: 'Pearson Chi-Square', expected: 11.80753, tol: 1e-5 },
+          { label: 'Pearson p-value', expected: 0.01884141, tol: 1e-8 },
+          { label: 'Likelihood-Ratio Chi-Square (G²)', expected: 11.98715, tol: 1e-5 },
+          { label: 'Likelihood-Ratio p-value', expected: 0.01744711, tol: 1e-8 },
+          { label: "Cramér's V", expected: 0.2131046, tol: 1e-7 },
+          { label: 'Fisher-Freeman-Halton p-value', expected: 0.01968837, tol: 1e-7 },
+          { label: 'Cell (1, 1) Residual', expected: 2.938497, tol: 1e-5 },
+          { label: 'Cell (1, 3) Residual', expected: -2.889884, tol: 1e-5 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'fisher.test(matrix(c(3, 1, 1, 3), nrow = 2))',
+        input: { table: [[3, 1], [1, 3]] },
+        checks: [
+          { label: 'Fisher-Freeman-Halton p-value', expected: 0.4857143, tol: 1e-7 },
+          { label: 'Warning', expected: 'Over 20% of expected counts below 5; use the Fisher-Freeman-Halton exact p-value', tol: 0 }
+        ]
+      },
+      {
+        r: 'Job <- matrix(c(1, 2, 1, 0, 3, 3, 6, 1, 10, 10, 14, 9, 6, 7, 12, 11), 4, 4); chisq.test(Job); fisher.test(Job)  # 0.7827 needs ~40M tables',
+        input: { table: [[1, 3, 10, 6], [2, 3, 10, 7], [1, 6, 14, 12], [0, 1, 9, 11]] },
+        checks: [
+          { label: 'Pearson Chi-Square', expected: 5.965515, tol: 1e-5 },
+          { label: 'Pearson p-value', expected: 0.7433647, tol: 1e-7 },
+          { label: 'Fisher-Freeman-Halton p-value', expected: 'Not computed: table too large for exact enumeration', tol: 0 }
+        ]
+      },
+      {
+        r: 'chisq.test(matrix(50, 6, 6))  # enumeration must stop at the table limit instead of walking ~1e18 tables',
+        input: { table: Array.from({ length: 6 }, () => [50, 50, 50, 50, 50, 50]) },
+        checks: [
+          { label: 'Pearson Chi-Square', expected: 0, tol: 1e-9 },
+          { label: 'Fisher-Freeman-Halton p-value', expected: 'Not computed: table too large for exact enumeration', tol: 0 }
+        ]
+      }
+    ]
+  },
+  'one-way-anova': {
+    examples: [
+      {
+        r: 'fit <- aov(weight ~ group, data = PlantGrowth); summary(fit); TukeyHSD(fit); oneway.test(weight ~ group, PlantGrowth); car::leveneTest(weight ~ group, PlantGrowth); car::leveneTest(weight ~ group, PlantGrowth, center = mean)',
+        checks: [
+          { label: 'F-statistic', expected: 4.846088, tol: 1e-6 },
+          { label: 'p-value', expected: 0.01590996, tol: 1e-8 },
+          { label: 'Sum of Squares (Between)', expected: 3.76634, tol: 1e-5 },
+          { label: 'Sum of Squares (Within)', expected: 10.49209, tol: 1e-5 },
+          { label: 'df (Within)', expected: 27, tol: 0 },
+          { label: 'Eta-Squared (η²)', expected: 0.2641483, tol: 1e-7 },
+          { label: 'Welch F', expected: 5.180972, tol: 1e-6 },
+          { label: 'Welch p-value', expected: 0.01739282, tol: 1e-7 },
+          { label: "Levene's Test", expected: 1.236963, tol: 1e-6 },
+          { label: 'Brown-Forsythe Test', expected: 1.119186, tol: 1e-6 },
+          { label: 'Brown-Forsythe p-value', expected: 0.3412266, tol: 1e-7 },
+          { label: 'Tukey: trt1 − ctrl', expected: [-1.0622161, 0.3202161], tol: 1e-4, note: QTUKEY_PRECISION },
+          { label: 'Tukey: trt2 − trt1', expected: [0.1737839, 1.5562161], tol: 1e-4, note: QTUKEY_PRECISION },
+          { label: 'Tukey: trt2 − trt1', expected: 0.865, tol: 1e-10 }
+        ]
+      },
+      {
+        r: 'm <- c(24.5, 21.3, 18.9); s <- c(6.2, 5.8, 7.1); n <- c(30, 28, 31); N <- sum(n); ssb <- sum(n * (m - sum(n * m) / N)^2); ssw <- sum((n - 1) * s^2); F <- (ssb / 2) / (ssw / (N - 3)); pf(F, 2, N - 3, lower.tail = FALSE)',
+        checks: [
+          { label: 'F-statistic', expected: 5.844491, tol: 1e-6 },
+          { label: 'p-value', expected: 0.004169397, tol: 1e-8 },
+          { label: 'Sum of Squares (Within)', expected: 3535.34, tol: 1e-6 },
+          { label: "Levene's Test", expected: 'Requires raw data', tol: 0 }
+        ]
+      }
+    ],
+    invalid: [
+      {
+        input: { groups: 'a: 5, 5, 5\nb: 7, 7, 7\nc: 9, 9', conf: 95 },
+        message: 'Every group is constant, so there is no within-group variation to test against. At least one group needs differing values.'
+      }
+    ]
+  },
+  'mann-whitney': {
+    examples: [
+      {
+        r: 'x <- c(0.80, 0.83, 1.89, 1.04, 1.45, 1.38, 1.91, 1.64, 0.73, 1.46); y <- c(1.15, 0.88, 0.90, 0.74, 1.21); wilcox.test(x, y, conf.int = TRUE)',
+        checks: [
+          { label: 'W Statistic', expected: 35, tol: 0 },
+          { label: 'p-value (Two-sided)', expected: 0.2544123, tol: 1e-7 },
+          { label: 'Hodges-Lehmann Shift', expected: 0.305, tol: 1e-10 },
+          { label: 'Hodges-Lehmann Shift', expected: [-0.15, 0.76], tol: 1e-10 }
+        ]
+      },
+      {
+        r: 'pg <- droplevels(subset(PlantGrowth, group != "trt2")); wilcox.test(weight ~ group, data = pg, conf.int = TRUE)',
+        checks: [
+          { label: 'W Statistic', expected: 67.5, tol: 0 },
+          { label: 'p-value (Two-sided)', expected: 0.1986, tol: 1e-4 },
+          { label: 'Hodges-Lehmann Shift', expected: 0.37, tol: 1e-4, note: WILCOX_UNIROOT },
+          { label: 'Hodges-Lehmann Shift', expected: [-0.29, 1.01], tol: 1e-4, note: WILCOX_UNIROOT }
+        ]
+      }
+    ],
+    invalid: [
+      { input: { group1: '3, 3, 3', group2: '3, 3', conf: 95 }, message: 'All values are identical, so there is nothing to rank' }
+    ]
+  },
+  'wilcoxon-signed-rank': {
+    examples: [
+      {
+        r: 'x <- c(1.83, 0.50, 1.62, 2.48, 1.68, 1.88, 1.55, 3.06, 1.30); y <- c(0.878, 0.647, 0.598, 2.05, 1.06, 1.29, 1.06, 3.14, 1.29); wilcox.test(x, y, paired = TRUE, conf.int = TRUE)',
+        checks: [
+          { label: 'V Statistic', expected: 40, tol: 0 },
+          { label: 'p-value (Two-sided)', expected: 0.0390625, tol: 1e-10 },
+          { label: 'Pseudomedian Difference', expected: 0.46, tol: 1e-10 },
+          { label: 'Pseudomedian Difference', expected: [0.01, 0.786], tol: 1e-10 }
+        ]
+      },
+      {
+        r: 'x <- c(125, 132, 138, 120, 145, 128, 140, 135, 150, 130, 142, 126); y <- c(118, 130, 135, 120, 138, 125, 132, 136, 141, 125, 135, 122); wilcox.test(x, y, paired = TRUE, conf.int = TRUE)',
+        checks: [
+          { label: 'V Statistic', expected: 65, tol: 0 },
+          { label: 'p-value (Two-sided)', expected: 0.004990659, tol: 1e-8 },
+          { label: 'Zero Differences (dropped)', expected: 1, tol: 0 },
+          { label: 'Pseudomedian Difference', expected: 5, tol: 1e-4, note: WILCOX_UNIROOT },
+          { label: 'Pseudomedian Difference', expected: [3, 7], tol: 1e-4, note: WILCOX_UNIROOT }
+        ]
+      }
+    ]
+  },
+  'kruskal-wallis': {
+    examples: [
+      {
+        r: 'x <- c(2.9, 3.0, 2.5, 2.6, 3.2); y <- c(3.8, 2.7, 4.0, 2.4); z <- c(2.8, 3.4, 3.7, 2.2, 2.0); kruskal.test(list(x, y, z))',
+        checks: [
+          { label: 'Kruskal-Wallis H', expected: 0.7714286, tol: 1e-7 },
+          { label: 'p-value', expected: 0.6799648, tol: 1e-7 },
+          { label: 'Degrees of Freedom', expected: 2, tol: 0 }
+        ]
+      },
+      {
+        r: 'kruskal.test(weight ~ group, data = PlantGrowth); FSA::dunnTest(weight ~ group, data = PlantGrowth, method = "holm")',
+        checks: [
+          { label: 'Kruskal-Wallis H', expected: 7.988229, tol: 1e-6 },
+          { label: 'p-value', expected: 0.01842376, tol: 1e-8 },
+          { label: 'Mean Rank (trt2)', expected: 21.4, tol: 1e-10 },
+          { label: 'Dunn: ctrl − trt1', expected: 1.117725, tol: 1e-6 },
+          { label: 'Dunn: ctrl − trt2', expected: -1.689290, tol: 1e-6 },
+          { label: 'Dunn: trt1 − trt2', expected: -2.807015, tol: 1e-6 }
+        ]
+      }
+    ]
+  },
+  'epi-incidence-prop': {
+    examples: [
+      {
+        r: '50 / 1000',
+        checks: [
+          { label: 'Risk / Incidence Proportion', expected: 0.05, tol: 1e-5 },
+          { label: 'As Percentage', expected: 0.05, tol: 1e-5 },
+          { label: 'Per 1,000 People', expected: 50, tol: 0.01 }
+        ]
+      }
+    ]
+  },
+  'epi-incidence-rate': {
+    examples: [
+      {
+        r: '10 / 500',
+        checks: [
+          { label: 'Incidence Rate', expected: 0.02, tol: 1e-6 },
+          { label: 'Per 100 Person-Years', expected: 2, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'epi-cfr': {
+    examples: [
+      {
+        r: '15 / 300',
+        checks: [
+          { label: 'Case Fatality Rate', expected: 0.05, tol: 1e-5 },
+          { label: 'Point Estimate', expected: 0.05, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'epi-risk-ratio': {
+    examples: [
+      {
+        r: 'epiR::epi.2by2(matrix(c(45, 20, 55, 80), nrow = 2), method = "cohort.count")',
+        checks: [
+          { label: 'Risk Ratio (RR)', expected: 2.25, tol: 1e-5 },
+          { label: '95% Confidence Interval', expected: [1.437687, 3.521281], tol: 1e-5 },
+          { label: 'Risk in Exposed', expected: 0.45, tol: 1e-5 },
+          { label: 'Risk in Unexposed', expected: 0.2, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'epi-odds-ratio': {
+    examples: [
+      {
+        r: 'epiR::epi.2by2(matrix(c(70, 40, 30, 60), nrow = 2), method = "case.control")',
+        checks: [
+          { label: 'Odds Ratio (OR)', expected: 3.5, tol: 1e-5 },
+          { label: '95% Confidence Interval', expected: [1.948601, 6.286561], tol: 1e-5 },
+          { label: 'Odds in Exposed', expected: 2.333333, tol: 1e-5 },
+          { label: 'Odds in Unexposed', expected: 0.666667, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'epi-risk-diff': {
+    examples: [
+      {
+        r: 'epiR::epi.2by2(matrix(c(10, 50, 90, 50), nrow = 2), method = "cohort.count")',
+        checks: [
+          { label: 'Risk Difference (RD)', expected: -0.4, tol: 1e-5 },
+          { label: '95% Confidence Interval', expected: [-0.514285, -0.285715], tol: 1e-5 },
+          { label: 'RD Percentage', expected: -0.4, tol: 1e-5 },
+          { label: 'Number Needed to Treat (NNT)', expected: 3, tol: 0 }
+        ]
+      }
+    ]
+  },
+  'epi-ve': {
+    examples: [
+      {
+        r: 'rr <- 0.02 / 0.15; (1 - rr) * 100; rr',
+        checks: [
+          { label: 'Vaccine Effectiveness', expected: 0.86666667, tol: 1e-5 },
+          { label: 'Relative Risk (RR)', expected: 0.133333, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'diagnostic-testing': {
+    examples: [
+      {
+        r: 'se <- 80 / 90; sp <- 190 / 210; prev <- 0.05; se * prev / (se * prev + (1 - sp) * (1 - prev)); sp * (1 - prev) / (sp * (1 - prev) + (1 - se) * prev)',
+        checks: [
+          { label: 'Sensitivity (TPR)', expected: 0.88888889, tol: 1e-5 },
+          { label: 'Specificity (TNR)', expected: 0.9047619, tol: 1e-5 },
+          { label: 'PPV', expected: 0.32941176, tol: 1e-5 },
+          { label: 'NPV', expected: 0.99357798, tol: 1e-5 },
+          { label: 'LR+', expected: 9.333333, tol: 0.01 },
+          { label: 'LR-', expected: 0.122807, tol: 0.01 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'epiR::epi.tests(as.table(matrix(c(80, 20, 10, 190), nrow = 2, byrow = TRUE)))',
+        input: { tp: 80, fp: 20, fn: 10, tn: 190 },
+        checks: [
+          { label: 'PPV', expected: 0.8, tol: 1e-5 },
+          { label: 'NPV', expected: 0.95, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'epi-mantel-haenszel': {
+    examples: [
+      {
+        r: 'tab <- array(c(10, 15, 20, 40, 25, 12, 30, 35, 8, 5, 12, 20), dim = c(2, 2, 3)); mantelhaen.test(tab); epiR::epi.2by2(tab, method = "cohort.count")',
+        checks: [
+          { label: 'MH Odds Ratio', expected: 2.006620, tol: 1e-5 },
+          { label: 'MH Odds Ratio', expected: [1.138469, 3.536789], tol: 1e-5 },
+          { label: 'MH Risk Ratio', expected: 1.603972, tol: 1e-5 },
+          { label: 'MH Risk Ratio', expected: [1.084396, 2.372496], tol: 1e-5 },
+          { label: 'Crude Odds Ratio', expected: [1.178022, 3.598715], tol: 1e-5 },
+          { label: 'Crude Risk Ratio', expected: [1.114198, 2.370847], tol: 1e-5 },
+          { label: 'MH Chi-Square', expected: 5.123417, tol: 1e-5 },
+          { label: 'MH p-value', expected: 0.02360510, tol: 1e-7 },
+          { label: 'Breslow-Day Chi-Square', expected: 1.070469, tol: 1e-5 },
+          { label: 'Homogeneity p-value', expected: 0.5855319, tol: 1e-6 },
+          { label: 'Stratum 2 OR', expected: [1.045573, 5.650107], tol: 1e-5 },
+          { label: 'Stratum 3 RR', expected: [0.7733832, 5.172080], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'Rabbits <- array(c(0, 0, 6, 5, 3, 0, 3, 6, 6, 2, 0, 4, 5, 6, 1, 0, 2, 5, 0, 0), dim = c(2, 2, 5)); mantelhaen.test(Rabbits)',
+        checks: [
+          { label: 'MH Chi-Square', expected: 3.928571, tol: 1e-5 },
+          { label: 'MH p-value', expected: 0.04747226, tol: 1e-7 },
+          { label: 'MH Odds Ratio', expected: 7, tol: 1e-9 },
+          { label: 'MH Odds Ratio', expected: [1.026713, 47.725133], tol: 1e-5 },
+          { label: 'Number of Strata', expected: 5, tol: 0 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'tab <- array(c(5, 0, 0, 5, 3, 2, 0, 4), dim = c(2, 2, 2)); mantelhaen.test(tab); epiR::epi.2by2(tab)  # no stratum has b·c > 0',
+        input: { strata: '5 0 0 5\n3 0 2 4', conf: 95 },
+        checks: [
+          { label: 'MH Odds Ratio', expected: '∞', tol: 0 },
+          { label: 'MH Risk Ratio', expected: 6.75, tol: 1e-9 },
+          { label: 'MH Risk Ratio', expected: [1.547356, 29.44538], tol: 1e-5 },
+          { label: 'MH Chi-Square', expected: 8.888889, tol: 1e-6 },
+          { label: 'Breslow-Day Chi-Square', expected: 'Not computed: the MH odds ratio is not finite and non-zero', tol: 0 }
+        ]
+      }
+    ]
+  },
+  'epi-measures': {
+    examples: [
+      {
+        r: 'epiR::epi.2by2(matrix(c(20, 10, 80, 90), nrow = 2), method = "cohort.count")',
+        checks: [
+          { label: 'Relative Risk (RR)', expected: 2, tol: 1e-5 },
+          { label: 'Odds Ratio (OR)', expected: 2.25, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'screening-impact': {
+    examples: [
+      {
+        r: 'arr <- 0.12 - 0.05; arr * 100; ceiling(1 / arr); arr / 0.12 * 100',
+        checks: [
+          { label: 'Absolute Risk Reduction (ARR)', expected: 0.07, tol: 1e-5 },
+          { label: 'Number Needed to Treat (NNT)', expected: 15, tol: 0 },
+          { label: 'Relative Risk Reduction (RRR)', expected: 0.58333333, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'standardized-rates': {
+    examples: [
+      {
+        r: 'poisson.test(45, 32.5)',
+        checks: [
+          { label: 'Standardized Ratio', expected: 1.384615, tol: 1e-5 },
+          { label: '95% CI (Byar)', expected: [1.009948, 1.852724], tol: 1e-3, note: "Byar's approximation agrees with the exact interval to display precision." },
+          { label: 'Excess Percentage', expected: 0.38461538, tol: 0.001 }
+        ]
+      }
+    ]
+  },
+
+  // --- Sample Size ---
+  'sample-size-prop': {
+    examples: [
+      {
+        r: 'ceiling(qnorm(0.975)^2 * 0.5 * 0.5 / 0.05^2)',
+        checks: [
+          { label: 'Required Sample Size (n)', expected: 385, tol: 0 }
+        ]
+      }
+    ]
+  },
+  'sample-size-means': {
+    examples: [
+      {
+        r: 'ceiling(pwr::pwr.t.test(d = 10 / 15, power = 0.8, sig.level = 0.05)$n)',
+        checks: [
+          { label: 'Group 1 Size (n1)', expected: 37, tol: 1, note: NORMAL_APPROX_POWER },
+          { label: 'Group 2 Size (n2)', expected: 37, tol: 1, note: NORMAL_APPROX_POWER },
+          { label: "Cohen's d", expected: 0.666667, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'sample-size-mean-est': {
+    examples: [
+      {
+        r: 'ceiling((qnorm(0.975) * 20 / 5)^2)',
+        checks: [
+          { label: 'Required Sample Size (n)', expected: 62, tol: 0 },
+          { label: 'Z-Critical', expected: 1.959964, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'sample-size-two-props': {
+    examples: [
+      {
+        r: 'ceiling(pwr::pwr.2p.test(h = pwr::ES.h(0.3, 0.5), power = 0.8, sig.level = 0.05)$n)',
+        checks: [
+          { label: 'Group 1 Size (n1)', expected: 93, tol: 0 },
+          { label: 'Group 2 Size (n2)', expected: 93, tol: 0 },
+          { label: 'Difference (p1 - p2)', expected: -0.2, tol: 1e-5 },
+          { label: 'Average Proportion', expected: 0.4, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'sample-size-paired': {
+    examples: [
+      {
+        r: 'ceiling(pwr::pwr.t.test(d = 5 / 15, power = 0.8, sig.level = 0.05, type = "paired")$n)',
+        checks: [
+          { label: 'Required Pairs (n)', expected: 73, tol: 2, note: NORMAL_APPROX_POWER },
+          { label: 'Standardized Effect Size (dz)', expected: 0.333333, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'sample-size-paired-props': {
+    examples: [
+      {
+        r: 'psi <- 0.3; delta <- 0.1; ceiling((qnorm(0.975) * sqrt(psi) + qnorm(0.8) * sqrt(psi - delta^2))^2 / delta^2)',
+        checks: [
+          { label: 'Required Pairs (n)', expected: 234, tol: 0 },
+          { label: 'Expected Discordant Pairs', expected: 71, tol: 0 },
+          { label: 'Matched-Pair Odds Ratio', expected: 2, tol: 1e-9 }
+        ]
+      }
+    ]
+  },
+  'sample-size-noninf': {
+    examples: [
+      {
+        r: 'ceiling(2 * 0.85 * 0.15 * (qnorm(0.975) + qnorm(0.8))^2 / 0.1^2)  # TrialSize::TwoSampleProportion.NIS',
+        checks: [
+          { label: 'Required per Group (n)', expected: 201, tol: 0 },
+          { label: 'Total Sample Size', expected: 402, tol: 0 }
+        ]
+      }
+    ]
+  },
+  'sample-size-cluster': {
+    examples: [
+      {
+        r: 'deff <- 1 + (20 - 1) * 0.05; ceiling(200 * deff); ceiling(ceiling(200 * deff) / 20)',
+        checks: [
+          { label: 'Adjusted Total N', expected: 391, tol: 0, note: 'R also rounds 200 * 1.95 up to 391 in double precision.' },
+          { label: 'Required Clusters', expected: 20, tol: 0 },
+          { label: 'Design Effect (DEFF)', expected: 1.95, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+
+  // --- Power ---
+  'power-means': {
+    examples: [
+      {
+        r: 'pwr::pwr.t2n.test(n1 = 50, n2 = 50, d = 0.5, sig.level = 0.05)$power * 100',
+        checks: [
+          { label: 'Statistical Power (1 - β)', expected: 0.696893, tol: 0.01, note: NORMAL_APPROX_POWER },
+          { label: "Effect Size (Cohen's d)", expected: 0.5, tol: 1e-5 },
+          { label: 'Standard Error', expected: 4, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'power-proportions': {
+    examples: [
+      {
+        r: 'power.prop.test(n = 100, p1 = 0.2, p2 = 0.35)$power * 100',
+        checks: [
+          { label: 'Statistical Power', expected: 0.663285, tol: 1e-5 },
+          { label: 'Type II Error (β)', expected: 0.336715, tol: 1e-5 },
+          { label: 'Pooled Proportion', expected: 0.275, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'power-paired': {
+    examples: [
+      {
+        r: 'pwr::pwr.t.test(n = 30, d = 5 / 12, sig.level = 0.05, type = "paired")$power * 100',
+        checks: [
+          { label: 'Statistical Power', expected: 0.597261, tol: 0.035, note: NORMAL_APPROX_POWER },
+          { label: 'Standard Error', expected: 2.190890, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'power-noninf': {
+    examples: [
+      {
+        r: 'se <- sqrt(2 * 0.8 * 0.2 / 150); pnorm(0.1 / se - qnorm(0.975)) * 100  # TrialSize power for non-inferiority',
+        checks: [
+          { label: 'Statistical Power', expected: 0.581253, tol: 1e-5 },
+          { label: 'Standard Error', expected: 0.046188, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'sample-size-survival': {
+    examples: [
+      {
+        r: 'gsDesign::nEvents(hr = 0.7, alpha = 0.025, beta = 0.2, sided = 1); P = mean over uniform entry of 1 - exp(-log(2)/12 * hr * T), T in [12, 36]',
+        checks: [
+          { label: 'Required Events', expected: 247, tol: 0 },
+          { label: 'Total N', expected: 370, tol: 0 },
+          { label: 'Control Group Size', expected: 185, tol: 0 },
+          { label: 'Experimental Group Size', expected: 185, tol: 0 },
+          { label: 'Probability of Event', expected: 0.667761, tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'ceiling((qnorm(0.975) + qnorm(0.9))^2 * (1 + 2 * 0.6)^2 / (2 * (1 - 0.6)^2))  # Freedman events, 2:1 allocation',
+        checks: [
+          { label: 'Required Events', expected: 159, tol: 0 },
+          { label: 'Total N', expected: 503, tol: 0 },
+          { label: 'Control Group Size', expected: 168, tol: 0 },
+          { label: 'Experimental Group Size', expected: 335, tol: 0 },
+          { label: 'Probability of Event', expected: 0.316874, tol: 1e-5 }
+        ]
+      }
+    ],
+    invalid: [
+      { input: { hr: 0.7, medianControl: 12, accrual: 0, followUp: 0 }, message: 'Accrual + follow-up must be > 0' }
+    ]
+  },
+  'power-survival': {
+    examples: [
+      {
+        r: 'd <- 400 * 0.6677607; pnorm(sqrt(d) * abs(log(0.7)) / 2 - qnorm(0.975))',
+        checks: [
+          { label: 'Statistical Power', expected: 0.830126, tol: 1e-5 },
+          { label: 'Expected Events', expected: 267.1043, tol: 1e-3 }
+        ]
+      }
+    ],
+    invalid: [
+      { input: { n: 400, hr: 0.7, medianControl: 12, accrual: 0, followUp: 0 }, message: 'Accrual + follow-up must be > 0' }
+    ]
+  },
+  'kaplan-meier': {
+    examples: [
+      {
+        r: 'library(survival); fit <- survfit(Surv(time, status) ~ x, data = aml, conf.type = "log-log"); fit; summary(fit); survdiff(Surv(time, status) ~ x, data = aml); survdiff(Surv(time, status) ~ x, data = aml, rho = 1)',
+        checks: [
+          { label: 'Median Survival (Maintained)', expected: 31, tol: 0 },
+          { label: 'Median Survival (Nonmaintained)', expected: 23, tol: 0 },
+          { label: 'Median Survival (Nonmaintained)', expected: [5, 33], tol: 0 },
+          { label: 'Log-Rank Chi-Square', expected: 3.396389, tol: 1e-6 },
+          { label: 'Log-Rank p-value', expected: 0.06533932, tol: 1e-8 },
+          { label: 'Peto-Peto Chi-Square', expected: 2.779280, tol: 1e-6 },
+          { label: 'Observed / Expected (Maintained)', expected: 7, tol: 0 },
+          { label: 'Maintained: S(48)', expected: 0.1840909, tol: 1e-7 },
+          { label: 'Nonmaintained: S(12)', expected: 0.5833333, tol: 1e-7 }
+        ]
+      },
+      {
+        r: 'library(survival); sixmp <- subset(MASS::gehan, treat == "6-MP"); summary(survfit(Surv(time, cens) ~ 1, data = sixmp, conf.type = "log-log"))',
+        checks: [
+          { label: 'Median Survival', expected: 23, tol: 0 },
+          { label: 'S(6)', expected: 0.8571429, tol: 1e-7 },
+          { label: 'S(6)', expected: [0.6197180, 0.9515517], tol: 1e-6 },
+          { label: 'S(13)', expected: 0.6901961, tol: 1e-7 },
+          { label: 'S(23)', expected: 0.4481793, tol: 1e-7 },
+          { label: 'S(23)', expected: [0.1880520, 0.6801426], tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'library(survival); survdiff(Surv(time, cens) ~ treat, data = MASS::gehan); survdiff(Surv(time, cens) ~ treat, data = MASS::gehan, rho = 1)',
+        input: {
+          time: '6 6 6 6 7 9 10 10 11 13 16 17 19 20 22 23 25 32 32 34 35 1 1 2 2 3 4 4 5 5 8 8 8 8 11 11 12 12 15 17 22 23',
+          event: '1 1 1 0 1 0 1 0 0 1 1 0 0 0 1 1 0 0 0 0 0 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1',
+          group: Array(21).fill('6-MP').concat(Array(21).fill('control')).join('\n')
+        },
+        checks: [
+          { label: 'Log-Rank Chi-Square', expected: 16.79294, tol: 1e-5 },
+          { label: 'Peto-Peto Chi-Square', expected: 14.45715, tol: 1e-5 },
+          { label: 'Median Survival (control)', expected: 8, tol: 0 }
+        ]
+      },
+      {
+        r: 'library(survival); d <- rbind(MASS::gehan[, c("time", "cens", "treat")], setNames(data.frame(aml$time, aml$status, "aml")[aml$x == "Maintained", ], c("time", "cens", "treat"))); survdiff(Surv(time, cens) ~ treat, data = d)',
+        input: {
+          time: '6 6 6 6 7 9 10 10 11 13 16 17 19 20 22 23 25 32 32 34 35 1 1 2 2 3 4 4 5 5 8 8 8 8 11 11 12 12 15 17 22 23 9 13 13 18 23 28 31 34 45 48 161',
+          event: '1 1 1 0 1 0 1 0 0 1 1 0 0 0 1 1 0 0 0 0 0 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 1 0 1 1 0 1 1 0 1 0',
+          group: Array(21).fill('6-MP').concat(Array(21).fill('control'), Array(11).fill('aml')).join(', ')
+        },
+        checks: [
+          { label: 'Log-Rank Chi-Square', expected: 28.55269, tol: 1e-5 },
+          { label: 'Log-Rank p-value', expected: 6.307565e-7, tol: 1e-12 },
+          { label: 'Peto-Peto Chi-Square', expected: 26.08723, tol: 1e-5 }
+        ]
+      }
+    ]
+  },
+  'linear-regression': {
+    examples: [
+      {
+        r: 'fit <- lm(mpg ~ wt + hp, data = mtcars); summary(fit); confint(fit); max(cooks.distance(fit))',
+        checks: [
+          { label: 'Coefficient: (Intercept)', expected: 37.22727, tol: 1e-5 },
+          { label: 'Coefficient: wt', expected: -3.87783, tol: 1e-5 },
+          { label: 'Coefficient: wt', expected: [-5.171916, -2.583745], tol: 1e-5 },
+          { label: 'Coefficient: hp', expected: -0.03177295, tol: 1e-7 },
+          { label: 'Coefficient: hp', expected: [-0.05024078, -0.01330512], tol: 1e-7 },
+          { label: 'R²', expected: 0.8267855, tol: 1e-6 },
+          { label: 'Adjusted R²', expected: 0.8148396, tol: 1e-6 },
+          { label: 'F-Statistic', expected: 69.21121, tol: 1e-4 },
+          { label: 'Residual Standard Error', expected: 2.593412, tol: 1e-5 },
+          { label: "Max Cook's Distance", expected: 0.4236109, tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'summary(lm(mpg ~ wt + factor(cyl), data = mtcars))',
+        checks: [
+          { label: 'Coefficient: (Intercept)', expected: 33.99079, tol: 1e-5 },
+          { label: 'Coefficient: wt', expected: -3.205613, tol: 1e-5 },
+          { label: 'Coefficient: cyl (6 vs 4)', expected: -4.255582, tol: 1e-5 },
+          { label: 'Coefficient: cyl (8 vs 4)', expected: -6.070860, tol: 1e-5 },
+          { label: 'R²', expected: 0.8374325, tol: 1e-6 },
+          { label: 'F-Statistic', expected: 48.07872, tol: 1e-4 },
+          { label: 'Reference Level (cyl)', expected: '4', tol: 0 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'summary(lm(weight ~ group, data = PlantGrowth))  # text column, dummy coded against ctrl',
+        input: {
+          data: ['weight\tgroup',
+            ...'4.17 5.58 5.18 6.11 4.50 4.61 5.17 4.53 5.33 5.14'.split(' ').map(v => `${v}\tctrl`),
+            ...'4.81 4.17 4.41 3.59 5.87 3.83 6.03 4.89 4.32 4.69'.split(' ').map(v => `${v}\ttrt1`),
+            ...'6.31 5.12 5.54 5.50 5.37 5.29 4.92 6.15 5.80 5.26'.split(' ').map(v => `${v}\ttrt2`)].join('\n'),
+          outcome: 'weight',
+          predictors: 'group'
+        },
+        checks: [
+          { label: 'Coefficient: group (trt1 vs ctrl)', expected: -0.371, tol: 1e-6 },
+          { label: 'Coefficient: group (trt2 vs ctrl)', expected: 0.494, tol: 1e-6 },
+          { label: 'R²', expected: 0.2641483, tol: 1e-6 },
+          { label: 'F-Statistic', expected: 4.846088, tol: 1e-5 },
+          { label: 'Residual Standard Error', expected: 0.6233746, tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'coef(lm(outcome ~ income + frac, data = d))  # income in dollars, frac on 0-1: well conditioned despite the scales',
+        input: { data: 'outcome, income, frac\n5.59, 41200, 0.12\n6.36, 55800, 0.45\n6.93, 63100, 0.33\n7.15, 48900, 0.81\n8.34, 97400, 0.27\n8.14, 72300, 0.64\n7.49, 85600, 0.09\n6.89, 59400, 0.58\n8.40, 66700, 0.92\n8.16, 91800, 0.36\n6.62, 44500, 0.71\n7.80, 78200, 0.50', outcome: 'outcome', predictors: 'income, frac' },
+        checks: [
+          { label: 'Coefficient: income', expected: 4.7697588e-5, tol: 1e-12 },
+          { label: 'Coefficient: frac', expected: 2.0045544, tol: 1e-6 },
+          { label: 'R²', expected: 0.9533127, tol: 1e-6 }
+        ]
+      }
+    ]
+  },
+  'logistic-regression': {
+    examples: [
+      {
+        r: 'fit <- glm(am ~ wt + hp, family = binomial, data = mtcars); summary(fit); exp(confint.default(fit)); exp(confint(fit)); ResourceSelection::hoslem.test(fit$y, fitted(fit)); pROC::auc(fit$y, fitted(fit))',
+        checks: [
+          { label: 'Intercept (log-odds)', expected: 18.86630, tol: 1e-4 },
+          { label: 'Odds Ratio: wt', expected: 0.000308597, tol: 1e-8 },
+          { label: 'Odds Ratio: wt', expected: [7.539288e-7, 0.1263142], tol: 1e-6 },
+          { label: 'Odds Ratio: hp', expected: 1.036921, tol: 1e-5 },
+          { label: 'Odds Ratio: hp', expected: [1.001498, 1.073596], tol: 1e-5 },
+          { label: 'Profile CI: wt', expected: [3.365419e-8, 0.02306290], tol: 1e-4, note: PROFILE_SPLINE },
+          { label: 'Profile CI: hp', expected: [1.010651, 1.094779], tol: 1e-4, note: PROFILE_SPLINE },
+          { label: 'Likelihood-Ratio χ²', expected: 33.17062, tol: 1e-4 },
+          { label: 'AIC', expected: 16.05911, tol: 1e-4 },
+          { label: 'Residual Deviance', expected: 10.05911, tol: 1e-4 },
+          { label: 'Hosmer-Lemeshow χ²', expected: 4.951742, tol: 1e-5 },
+          { label: 'AUC (C-statistic)', expected: 0.9838057, tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'fit <- glm(vs ~ mpg, family = binomial, data = mtcars); summary(fit); exp(confint(fit)); ResourceSelection::hoslem.test(fit$y, fitted(fit)); pROC::auc(fit$y, fitted(fit))',
+        checks: [
+          { label: 'Intercept (log-odds)', expected: -8.833073, tol: 1e-5 },
+          { label: 'Odds Ratio: mpg', expected: 1.537893, tol: 1e-5 },
+          { label: 'Profile CI: mpg', expected: [1.203043, 2.280485], tol: 1e-4, note: PROFILE_SPLINE },
+          { label: 'Likelihood-Ratio χ²', expected: 18.32677, tol: 1e-4 },
+          { label: 'AIC', expected: 29.53334, tol: 1e-4 },
+          { label: 'Hosmer-Lemeshow χ²', expected: 9.392932, tol: 1e-5 },
+          { label: 'AUC (C-statistic)', expected: 0.9107143, tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'glm(y ~ x, family = binomial, data = data.frame(y = c(0, 0, 0, 1, 1, 1), x = 1:6))  # warning: fitted probabilities numerically 0 or 1',
+        input: { data: 'y, x\n0, 1\n0, 2\n0, 3\n1, 4\n1, 5\n1, 6', outcome: 'y', predictors: 'x' },
+        checks: [
+          { label: 'Separation', expected: 'Detected', tol: 0 }
+        ]
+      },
+      {
+        r: 'exp(coef(glm(high ~ income + frac, family = binomial, data = d)))  # predictors on very different scales',
+        input: { data: 'high, income, frac\n0, 41200, 0.12\n1, 55800, 0.45\n0, 63100, 0.33\n1, 48900, 0.81\n1, 97400, 0.27\n0, 72300, 0.64\n1, 85600, 0.09\n0, 59400, 0.58\n1, 66700, 0.92\n1, 91800, 0.36\n0, 44500, 0.71\n1, 78200, 0.50', outcome: 'high', predictors: 'income, frac' },
+        checks: [
+          { label: 'Intercept (log-odds)', expected: -6.9960027, tol: 1e-5 },
+          { label: 'Odds Ratio: frac', expected: 12.076588, tol: 1e-4 }
+        ]
+      }
+    ]
+  },
+  'poisson-regression': {
+    examples: [
+      {
+        r: 'fit <- glm(deaths ~ smoker + age, family = poisson, offset = log(pyears), data = doctors); exp(confint.default(fit)); AER::dispersiontest(fit)  # Breslow & Day British doctors',
+        checks: [
+          { label: 'Model', expected: 'Poisson', tol: 0 },
+          { label: 'IRR: smoker', expected: 1.425519, tol: 1e-5 },
+          { label: 'IRR: smoker', expected: [1.154984, 1.759421], tol: 1e-5 },
+          { label: 'IRR: age (75-84 vs 35-44)', expected: 40.45121, tol: 1e-4 },
+          { label: 'Overdispersion Test (z)', expected: 0.3127660, tol: 1e-5 },
+          { label: 'Residual Deviance', expected: 12.13237, tol: 1e-4 },
+          { label: 'AIC', expected: 79.20031, tol: 1e-4 }
+        ]
+      },
+      {
+        r: 'pois <- glm(events ~ treatment + age, family = poisson, offset = log(years), data = dat); AER::dispersiontest(pois); nb <- MASS::glm.nb(events ~ treatment + age + offset(log(years)), data = dat); exp(confint.default(nb))',
+        checks: [
+          { label: 'Model', expected: 'Negative binomial', tol: 0 },
+          { label: 'IRR: treatment (B vs A)', expected: 1.580490, tol: 1e-5 },
+          { label: 'IRR: treatment (B vs A)', expected: [0.4992922, 5.002981], tol: 1e-5 },
+          { label: 'IRR: age', expected: 1.106719, tol: 1e-5 },
+          { label: 'Overdispersion Test (z)', expected: 3.733500, tol: 1e-5 },
+          { label: 'Pearson χ² / df', expected: 5.272287, tol: 1e-5 },
+          { label: 'θ (NB shape)', expected: 0.628574, tol: 1e-5 },
+          { label: 'LR Test (NB vs Poisson)', expected: 61.45200, tol: 1e-4 },
+          { label: 'Residual Deviance', expected: 24.25872, tol: 1e-4 },
+          { label: 'AIC', expected: 113.3866, tol: 1e-3 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'dat <- data.frame(y = c(3, 3, 3, 3, 3), x = c(1, 2, 1, 2, 5)); fit <- glm(y ~ x, family = poisson, data = dat); exp(confint.default(fit)); AIC(fit)  # MASS::glm.nb drives theta to Inf',
+        input: { data: 'y, x\n3, 1\n3, 2\n3, 1\n3, 2\n3, 5', outcome: 'y', predictors: 'x', model: 'negative-binomial' },
+        checks: [
+          { label: 'IRR: x', expected: 1, tol: 1e-9 },
+          { label: 'IRR: x', expected: [0.7086946, 1.4110450], tol: 1e-6 },
+          { label: 'θ (NB shape)', expected: '∞', tol: 0 },
+          { label: 'LR Test (NB vs Poisson)', expected: 0, tol: 1e-9 },
+          { label: 'AIC', expected: 18.959226 + 2, tol: 1e-5, note: 'Poisson AIC plus one parameter for θ' }
+        ]
+      }
+    ],
+    invalid: [
+      { input: { data: 'y, x\n0, 1\n0, 2\n0, 1\n0, 2', outcome: 'y', predictors: 'x' }, message: 'At least one event count must be greater than 0.' }
+    ]
+  },
+
+  'epi-rate-comparison': {
+    examples: [
+      {
+        r: 'poisson.test(c(11, 6 + 8 + 7), c(800, 1083 + 1050 + 878)); epitools::rateratio.midp(c(21, 11, 3011, 800))  # ?poisson.test example',
+        checks: [
+          { label: 'Incidence Rate Ratio (IRR)', expected: 1.971488, tol: 1e-6 },
+          { label: 'Incidence Rate Ratio (IRR)', expected: [0.8584264, 4.2772659], tol: 1e-6 },
+          { label: 'IRR Mid-p CI', expected: [0.9166021, 4.0584043], tol: 1e-5 },
+          { label: 'Rate Difference', expected: [-0.001880240, 0.015431386], tol: 1e-8 },
+          { label: 'Attributable Fraction (Exposed)', expected: 0.4927689, tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'poisson.test(c(41, 15), c(28010, 19017)); epitools::rateratio.midp(c(15, 41, 19017, 28010))  # Rothman breast cancer and radiation',
+        checks: [
+          { label: 'Incidence Rate Ratio (IRR)', expected: 1.855759, tol: 1e-6 },
+          { label: 'Incidence Rate Ratio (IRR)', expected: [1.0056841, 3.6093003], tol: 1e-6 },
+          { label: 'IRR Mid-p CI', expected: [1.0410752, 3.4494228], tol: 1e-5 },
+          { label: 'Rate Difference', expected: 0.000674995, tol: 1e-9 },
+          { label: 'Attributable Fraction (Exposed)', expected: [0.005651937, 0.7229380], tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'poisson.test(c(5, 0), c(100, 100))',
+        input: { exposed_events: 5, exposed_time: 100, unexposed_events: 0, unexposed_time: 100, conf: 95 },
+        checks: [
+          { label: 'Incidence Rate Ratio (IRR)', expected: Infinity, tol: 0 },
+          { label: 'IRR Mid-p CI', expected: [1.2186737, Infinity], tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'poisson.test(c(0, 5), c(100, 100))$conf.int  # IRR 0: no attributable fraction is reported',
+        input: { exposed_events: 0, exposed_time: 100, unexposed_events: 5, unexposed_time: 100, conf: 95 },
+        checks: [
+          { label: 'Incidence Rate Ratio (IRR)', expected: [0, 1.0912791], tol: 1e-6 },
+          { label: 'Rate Difference', expected: -0.05, tol: 1e-9 }
+        ]
+      }
+    ]
+  },
+
+  'age-standardization': {
+    examples: [
+      {
+        r: 'who <- c(26.15, 45.97, 19.68, 8.235); ageadjust.direct(c(3, 18, 96, 240), c(41200, 88500, 52800, 21400), stdpop = who) * 1e5; ageadjust.direct(c(5, 14, 31, 47), c(18400, 36100, 12700, 3900), stdpop = who) * 1e5; poisson.test(357, sum(c(8, 20, 150, 900) / 1e5 * c(41200, 88500, 52800, 21400)))',
+        checks: [
+          { label: 'Age-Standardized Rate (Region A)', expected: 139.3421, tol: 1e-4 },
+          { label: 'Age-Standardized Rate (Region A)', expected: [125.1962, 154.9230], tol: 1e-4 },
+          { label: 'Crude Rate (Region A)', expected: 175.0858, tol: 1e-4 },
+          { label: 'Age-Standardized Rate (Region B)', expected: [139.0539, 211.0925], tol: 1e-4 },
+          { label: 'Rate Ratio (Region B vs Region A)', expected: 1.235474, tol: 1e-6 },
+          { label: 'Rate Ratio (Region B vs Region A)', expected: [0.9837805, 1.5515602], tol: 1e-6 },
+          { label: 'SMR (Region A)', expected: 1.219279, tol: 1e-6 },
+          { label: 'SMR (Region A)', expected: [1.096066, 1.352553], tol: 1e-5 },
+          { label: 'Standard Population', expected: 'WHO World Standard 2000-2025', tol: 0 }
+        ]
+      },
+      {
+        r: 'esp <- c(54000, 26500, 10500, 9000); ageadjust.direct(c(4, 15, 22, 30), c(12000, 8000, 3100, 1500), stdpop = esp, conf.level = 0.9) * 1000',
+        checks: [
+          { label: 'Age-Standardized Rate (Population 1)', expected: 3.222036, tol: 1e-6 },
+          { label: 'Age-Standardized Rate (Population 1)', expected: [2.597641, 3.969601], tol: 1e-5 },
+          { label: 'Crude Rate (Population 1)', expected: 2.886179, tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'ageadjust.direct(c(0, 6), c(5000, 3000), stdpop = c(60, 40)) * 1000',
+        input: { strata: '0-39, 0, 5000\n40+, 6, 3000', standard: 'custom', customStandard: '60 40', multiplier: 1000, conf: 95 },
+        checks: [
+          { label: 'Age-Standardized Rate (Population 1)', expected: 0.8, tol: 1e-9 },
+          { label: 'Age-Standardized Rate (Population 1)', expected: [0.2935859, 1.7412632], tol: 1e-6 }
+        ]
+      }
+    ]
+  },
+
+  'life-table': {
+    examples: [
+      {
+        r: 'Chiang II life table as in the generated rCode (PHEindicatormethods::phe_life_expectancy uses the same method); sum(deaths * le_std) with GBD 2019 reference values interpolated at the mean age at death',
+        checks: [
+          { label: 'Life Expectancy: 0', expected: 80.13758, tol: 1e-5 },
+          { label: 'Life Expectancy: 0', expected: [79.76687, 80.50829], tol: 1e-5 },
+          { label: 'Life Expectancy: 65-69', expected: 18.53410, tol: 1e-5 },
+          { label: 'Life Expectancy: 90+', expected: [3.339798, 3.967895], tol: 1e-5 },
+          { label: 'Total YLL', expected: 63675.27, tol: 0.01 },
+          { label: 'YLL Rate', expected: 14260.98, tol: 0.01 }
+        ]
+      },
+      {
+        r: 'Chiang II life table as in the generated rCode, conf 0.90; sum(c(18, 95, 420, 610, 1350) * c(80, 55, 30, 17, 8))',
+        checks: [
+          { label: 'Life Expectancy: 0-14', expected: [73.76981, 74.77383], tol: 1e-5 },
+          { label: 'Life Expectancy: 75+', expected: 9.185185, tol: 1e-6 },
+          { label: 'Total YLL', expected: 40435, tol: 1e-6 },
+          { label: 'Average YLL per Death', expected: 16.21941, tol: 1e-5 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'Two groups, YLL against the own life table: e(65+) = 1/M = 25 with SE sqrt(D / (M^4 P^2)) = 1.25',
+        input: { strata: '0-64, 100, 50000\n65+, 400, 10000', yllStandard: 'life-table', conf: 95 },
+        checks: [
+          { label: 'Life Expectancy: 0-64', expected: 82.98122, tol: 1e-5 },
+          { label: 'Life Expectancy: 65+', expected: [22.55005, 27.44995], tol: 1e-5 },
+          { label: 'Total YLL', expected: 15399.06, tol: 0.01 }
+        ]
+      }
+    ]
+  },
+
+  'daly-qaly': {
+    examples: [
+      {
+        r: 'f <- function(x, a, r, K) (K * 0.1658 * x * exp(-0.04 * x) + 1 - K) * exp(-r * (x - a)); b <- function(w, a, L) w * integrate(f, a, a + L, a = a, r = 0.03, K = 1)$value; 1200 * b(0.051, 25, 0.04) + 300 * b(0.133, 40, 12); 15 * b(1, 45, 37.1) + 40 * b(1, 70, 14)',
+        checks: [
+          { label: 'DALYs', expected: 1072.596, tol: 1e-3 },
+          { label: 'YLD', expected: 493.5153, tol: 1e-3 },
+          { label: 'YLL', expected: 579.0807, tol: 1e-3 },
+          { label: 'Undiscounted, Unweighted DALYs', expected: 1597.748, tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'q <- function(u, y, r) sum(u * exp(-r * c(0, head(cumsum(y), -1))) * (1 - exp(-r * y)) / r); q(c(0.78, 0.55), c(6, 3), 0.035) - q(c(0.62, 0.40), c(4, 2), 0.035)',
+        checks: [
+          { label: 'QALYs Gained', expected: 2.504979, tol: 1e-6 },
+          { label: 'QALYs (Intervention)', expected: 5.490907, tol: 1e-6 },
+          { label: 'Undiscounted QALYs Gained', expected: 3.05, tol: 1e-9 },
+          { label: 'Life Years Gained', expected: 3, tol: 0 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: '500 * 0.2  # prevalence-based YLD is neither discounted nor age weighted',
+        input: { mode: 'daly', approach: 'prevalence', morbidity: '500, 0.2', discountRate: 3, ageWeighting: true },
+        checks: [
+          { label: 'DALYs', expected: 100, tol: 1e-9 },
+          { label: 'YLD Share of DALYs', expected: 1, tol: 1e-9 }
+        ]
+      },
+      {
+        r: '10 * 0 + 0 * 30  # a zero disability weight and no deaths leave no burden to divide',
+        input: { mode: 'daly', morbidity: '10, 0, 5, 30', mortality: '0, 50, 30', discountRate: 3 },
+        checks: [
+          { label: 'DALYs', expected: 0, tol: 0 },
+          { label: 'YLD Share of DALYs', expected: 'Not applicable', tol: 0 }
+        ]
+      }
+    ]
+  },
+
+  'cost-effectiveness': {
+    examples: [
+      {
+        r: 'dampack::calculate_icers(cost = c(10000, 18000, 22000, 30000, 45000), effect = c(5.0, 5.2, 5.1, 6.0, 6.3), strategies = c("No screening", "Targeted", "Clinic-based", "Annual", "Biannual"))',
+        checks: [
+          { label: 'ICER: No screening', expected: 'Reference', tol: 0 },
+          { label: 'ICER: Targeted', expected: 'Extendedly dominated', tol: 0 },
+          { label: 'ICER: Clinic-based', expected: 'Dominated', tol: 0 },
+          { label: 'ICER: Annual', expected: 20000, tol: 1e-6 },
+          { label: 'ICER: Biannual', expected: 50000, tol: 1e-6 },
+          { label: 'NMB: Annual', expected: 150000, tol: 1e-6 },
+          { label: 'Optimal Strategy', expected: 'Annual', tol: 0 },
+          { label: 'Probability Cost-Effective: Annual', expected: 0.7198, tol: 0.03, note: 'Monte Carlo: reference from 100,000 draws, compared at the example\'s 2,000 seeded draws.' }
+        ]
+      },
+      {
+        r: 'dampack::calculate_icers(cost = c(1200, 1650), effect = c(9.80, 9.83), strategies = c("Usual care", "Screening")); 20000 * c(9.80, 9.83) - c(1200, 1650)',
+        checks: [
+          { label: 'ICER: Screening', expected: 15000, tol: 1e-6 },
+          { label: 'NMB: Usual care', expected: 194800, tol: 1e-6 },
+          { label: 'NMB: Screening', expected: 194950, tol: 1e-6 },
+          { label: 'Optimal Strategy', expected: 'Screening', tol: 0 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'dampack::calculate_icers(cost = c(100, 80), effect = c(1, 2), strategies = c("A", "B"))  # B is cheaper and more effective',
+        input: { strategies: 'A, 100, 1\nB, 80, 2', wtp: 50, wtpMax: 100 },
+        checks: [
+          { label: 'ICER: A', expected: 'Dominated', tol: 0 },
+          { label: 'ICER: B', expected: 'Reference', tol: 0 },
+          { label: 'Optimal Strategy', expected: 'B', tol: 0 }
+        ]
+      }
+    ]
+  },
+  'ci-two-proportions': {
+    examples: [
+      {
+        r: 'DescTools::BinomDiffCI(56, 70, 48, 80, method = c("score", "mn", "ac")); PropCIs::riskscoreci(56, 70, 48, 80, 0.95)',
+        checks: [
+          { label: 'Risk Difference (p₁ - p₂)', expected: 0.2, tol: 1e-9 },
+          { label: 'Newcombe Hybrid Score CI', expected: [0.0524, 0.3339], tol: 1e-4, note: 'Newcombe (1998) Table II, example (a), method 10.' },
+          { label: 'Miettinen-Nurminen CI', expected: [0.0528, 0.3382], tol: 1e-4, note: 'Newcombe (1998) Table II, example (a), method 11.' },
+          { label: 'Agresti-Caffo CI', expected: [0.05245293, 0.33575846], tol: 1e-6 },
+          { label: 'Exact Unconditional CI', expected: [0.0382193, 0.3452563], tol: 1e-4 },
+          { label: 'Koopman Score CI', expected: [1.0798215, 1.6708056], tol: 1e-5 },
+          { label: 'Katz Log CI', expected: [1.0766264, 1.6512485], tol: 1e-6 }
+        ]
+      },
+      {
+        r: 'DescTools::BinomDiffCI(9, 10, 3, 10, method = c("score", "mn", "ac")); exact2x2::uncondExact2x2(9, 10, 3, 10, parmtype = "difference", method = "score", conf.int = TRUE)',
+        checks: [
+          { label: 'Newcombe Hybrid Score CI', expected: [0.1705, 0.8090], tol: 1e-4, note: 'Newcombe (1998) Table II, example (b), method 10.' },
+          { label: 'Miettinen-Nurminen CI', expected: [0.1700, 0.8406], tol: 1e-4, note: 'Newcombe (1998) Table II, example (b), method 11.' },
+          { label: 'Agresti-Caffo CI', expected: [0.16000080, 0.83999920], tol: 1e-6 },
+          { label: 'Exact Unconditional CI', expected: [0.1607683, 0.8794719], tol: 1e-4 },
+          { label: 'Koopman Score CI', expected: [1.3532372, 8.4676687], tol: 1e-5 },
+          { label: 'Katz Log CI', expected: [1.1383504, 7.9061775], tol: 1e-6 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'DescTools::BinomDiffCI(10, 10, 0, 10, method = "mn"); PropCIs::riskscoreci(10, 10, 0, 10, 0.95)',
+        input: { x1: 10, n1: 10, x2: 0, n2: 10 },
+        checks: [
+          { label: 'Miettinen-Nurminen CI', expected: [0.6636416, 1], tol: 1e-5 },
+          { label: 'Exact Unconditional CI', expected: [0.6631331, 1], tol: 1e-4 },
+          { label: 'Koopman Score CI', expected: [3.8770750, Infinity], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'exact2x2::uncondExact2x2(100, 199, 80, 199, parmtype = "difference", method = "score", conf.int = TRUE)  # 200 x 200 tables, at the enumeration cap',
+        input: { x1: 100, n1: 199, x2: 80, n2: 199 },
+        checks: [
+          { label: 'Exact Unconditional CI', expected: [0.0014493, 0.1981324], tol: 1e-5 }
+        ]
+      },
+      {
+        r: 'DescTools::BinomDiffCI(120, 300, 90, 300, method = "mn")  # 301 x 301 tables: exact interval skipped',
+        input: { x1: 120, n1: 300, x2: 90, n2: 300 },
+        checks: [
+          { label: 'Miettinen-Nurminen CI', expected: [0.0236604, 0.1753115], tol: 1e-5 },
+          { label: 'Exact Unconditional CI', expected: 'Not computed', tol: 0 }
+        ]
+      }
+    ]
+  },
+  'ci-percentile': {
+    examples: [
+      {
+        r: 'x <- c(12.1, 14.3, 9.8, 22.6, 17.4, 11.0, 30.2, 15.5, 13.9, 19.7, 8.4, 16.8, 25.1, 12.7, 18.3, 10.5, 14.9, 21.4, 13.2, 27.8); k <- qbinom(0.025, 20, 0.5); sort(x)[c(k, 21 - k)]; wilcox.test(x, conf.int = TRUE)' ,
+        checks: [
+          { label: 'Median', expected: 15.2, tol: 1e-9 },
+          { label: 'Median: Exact Order-Statistic CI', expected: [12.7, 19.7], tol: 1e-9 },
+          { label: 'Median: Bootstrap Percentile CI', expected: [12.95, 19.0], tol: 0.5, note: 'Monte Carlo: reference from 100,000 resamples, compared at the example\'s 2,000 seeded resamples.' },
+          { label: 'Hodges-Lehmann Pseudo-median', expected: 16.2, tol: 1e-9 },
+          { label: 'Hodges-Lehmann Pseudo-median', expected: [13.5, 19.7], tol: 1e-9 }
+        ]
+      },
+      {
+        r: '# x: the example\'s 40 values\np <- c(0.25, 0.5, 0.75, 0.9); b <- boot::boot(x, function(d, i) quantile(d[i], p), R = 100000); quantile(x, p); xs <- sort(x); xs[qbinom(0.025, 40, p)]; xs[qbinom(0.975, 40, p) + 1]; boot.ci(b, type = "bca", index = 2)',
+        checks: [
+          { label: '25th Percentile', expected: 105.5, tol: 1e-9 },
+          { label: '25th Percentile: Exact Order-Statistic CI', expected: [98, 113], tol: 1e-9 },
+          { label: 'Median: Exact Order-Statistic CI', expected: [110, 125], tol: 1e-9 },
+          { label: '75th Percentile: Exact Order-Statistic CI', expected: [121, 139], tol: 1e-9 },
+          { label: '90th Percentile', expected: 139.2, tol: 1e-9 },
+          { label: '90th Percentile: Exact Order-Statistic CI', expected: [131, 148], tol: 1e-9 },
+          { label: 'Median: Bootstrap BCa CI', expected: [110.0, 124.0], tol: 1, note: 'Monte Carlo: reference from 100,000 resamples, compared at the example\'s 2,000 seeded resamples.' },
+          { label: 'Hodges-Lehmann Pseudo-median', expected: [112, 122.5], tol: 1e-9 }
+        ]
+      }
+    ],
+    edgeCases: [
+      {
+        r: 'pbinom(0, 5, 0.5) > 0.025  # even [x(1), x(5)] covers the median with probability 0.9375',
+        input: { numbers: '3, 7, 1, 9, 4', percentiles: '2.5, 50' },
+        checks: [
+          { label: 'Median: Exact Order-Statistic CI', expected: '[-∞, ∞]', tol: 0 },
+          { label: '2.5th Percentile: Exact Order-Statistic CI', expected: '[-∞, 3.0000]', tol: 0 }
+        ]
+      }
+    ]
+  }
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import * as lib from '../calculators';
+
+describe('library entry point', () => {
+  it('exposes the registry and every calculator by name', () => {
+    expect(lib.getCalculatorById('epi-risk-ratio')).toBe(lib.riskRatioCalc);
+    expect(lib.getAllCalculators()).toHaveLength(Object.keys(lib.calculatorRegistry).length);
+    expect(Object.values(lib.calculatorRegistry)).toContain(lib.powerNonInf);
+  });
+
+  it('runs a calculator and applies schema defaults', () => {
+    const result = lib.run('ci-proportion-pro', { successes: 5, total_n: 100 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.input).toMatchObject({ conf: 95, precision: 4 });
+    const cp = result.output.results.find(r => r.label === 'Clopper-Pearson CI');
+    expect(cp?.lower).toBeCloseTo(0.0164319, 6);
+    expect(cp?.upper).toBeCloseTo(0.1128349, 6);
+  });
+
+  it('returns structured validation errors instead of throwing', () => {
+    const result = lib.run('ci-proportion-pro', { successes: 120, total_n: 100 });
+    expect(result).toEqual({
+      ok: false,
+      id: 'ci-proportion-pro',
+      errors: [{ path: '', message: 'Successes cannot exceed total sample size' }]
+    });
+
+    expect(lib.run('one-sample-t', { mean: 105 })).toMatchObject({
+      ok: false,
+      errors: [{ path: 'mu0' }, { path: 'sd' }, { path: 'n' }]
+    });
+  });
+
+  it('rejects unknown calculator ids', () => {
+    for (const id of ['no-such-calculator', 'toString']) {
+      expect(lib.run(id, {})).toEqual({ ok: false, id, errors: [{ path: '', message: `Unknown calculator "${id}"` }] });
+    }
+  });
+});
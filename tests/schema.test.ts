@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { describeSchema, coerceInput, formatTableInput, parseTableInput } from '../calculators/schema';
+import { ciProportion } from '../calculators/confidenceIntervals/ciProportion';
+import { chiSquare } from '../calculators/chiSquare';
+import { diagnosticTesting } from '../calculators/epidemiology/diagnosticTesting';
+import { contingencyTable } from '../calculators/contingencyTable';
+
+describe('schema introspection', () => {
+  it('describes fields through refinements and defaults', () => {
+    expect(describeSchema(ciProportion.schema)).toEqual([
+      { name: 'successes', type: 'number', required: true, min: 0, integer: true },
+      { name: 'total_n', type: 'number', required: true, min: 1, integer: true },
+      { name: 'conf', type: 'number', required: false, default: 95, min: 80, max: 99.9 },
+      { name: 'precision', type: 'number', required: false, default: 4, min: 0, max: 6 }
+    ]);
+  });
+
+  it('describes booleans and optional fields with their descriptions', () => {
+    expect(describeSchema(chiSquare.schema)[4]).toEqual({ name: 'yates', type: 'boolean', required: false, default: false, description: 'Apply Yates Correction?' });
+    expect(describeSchema(diagnosticTesting.schema)[4]).toEqual({
+      name: 'prevalence', type: 'number', required: false, description: 'Clinical Prevalence % (Optional)', min: 0, max: 100
+    });
+  });
+
+  it('coerces strings and drops empty values so defaults apply', () => {
+    const fields = describeSchema(ciProportion.schema);
+    expect(coerceInput(fields, { successes: ' 5 ', total_n: 'ten', conf: '' })).toEqual({ successes: 5, total_n: 'ten' });
+    expect(coerceInput(describeSchema(chiSquare.schema), { yates: 'false', exposed_cases: '3' })).toEqual({ yates: false, exposed_cases: 3 });
+  });
+
+  it('describes matrix fields as tables and reads them row by row', () => {
+    const fields = describeSchema(contingencyTable.schema);
+    expect(fields[0]).toMatchObject({ name: 'table', type: 'table', required: true });
+    expect(coerceInput(fields, { table: '1, 2, 3; 4, 5, 6', ordered: 'no' })).toEqual({ table: [[1, 2, 3], [4, 5, 6]], ordered: false });
+    expect(parseTableInput('1 2\n3 4\n')).toEqual([[1, 2], [3, 4]]);
+    expect(parseTableInput('1, ; x, 4')).toEqual([[1, NaN], [NaN, 4]]);
+    expect(parseTableInput(formatTableInput([[83, 3], [90, 3]]))).toEqual([[83, 3], [90, 3]]);
+  });
+});
@@ -6,7 +6,10 @@ export enum Category {
   CONFIDENCE_INTERVALS = 'Confidence Intervals',
   HYPOTHESIS_TESTS = 'Hypothesis Testing',
   EPIDEMIOLOGY = 'Epidemiology Tools',
-  SAMPLE_SIZE = 'Sample Size & Power'
+  SAMPLE_SIZE = 'Sample Size & Power',
+  SURVIVAL = 'Survival Analysis',
+  REGRESSION = 'Regression',
+  HEALTH_ECONOMICS = 'Health Economics'
 }
 
 export interface CalculatorMetadata {
@@ -17,9 +20,24 @@ export interface CalculatorMetadata {
   keywords: string[];
 }
 
+export type ResultFormat = 'number' | 'percent' | 'pvalue';
+
+/**
+ * A single calculator output. Numbers stay numbers (proportions on the 0-1
+ * scale); turning them into display strings is done by formatResult.
+ */
 export interface CalculationResult {
   label: string;
-  value: string | number;
+  estimate?: number;
+  lower?: number;
+  upper?: number;
+  confLevel?: number; // Percent, e.g. 95, for [lower, upper]
+  pValue?: number;
+  units?: string;
+  method?: string;
+  format?: ResultFormat;
+  precision?: number; // Decimal places shown; whole numbers print as-is when omitted
+  text?: string; // Display text for results that are not numbers (modes, lists, notes)
   description?: string;
   isMain?: boolean;
 }
@@ -32,17 +50,68 @@ export interface Reference {
   doi?: string;
 }
 
+export interface CalculatorOutput {
+  results: CalculationResult[];
+  interpretation: string;
+  steps?: string[];
+  formula?: string;
+  rCode?: string; // Generated R code string based on inputs
+  powerSpectrum?: { power: number; n: number; nTotal?: number }[]; // Optional power spectrum data
+  heatmap?: Heatmap; // Optional cell-level matrix, e.g. contingency table residuals
+  survivalCurve?: SurvivalCurve; // Optional step-function survival plot
+  scatterPlots?: ScatterPlot[]; // Optional diagnostic plots, e.g. regression residuals
+  sensitivityTable?: SensitivityTable; // Optional one-way sensitivity analysis, e.g. over the discount rate
+}
+
+export interface Heatmap {
+  title: string;
+  rowLabels: string[];
+  columnLabels: string[];
+  values: number[][]; // Colour scale: negative, zero, positive
+  cellText?: string[][]; // Shown in each cell in place of the value
+}
+
+export interface ScatterPlot {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  points: { x: number; y: number; label?: string }[]; // label names the observation in the tooltip, or its series when `series` is set
+  line?: { x: number; y: number }[]; // Reference line, e.g. y = 0 or the QQ line
+  series?: 'points' | 'lines'; // Points sharing a label form one coloured series with a legend; 'lines' joins each in x order
+}
+
+export interface SensitivityTable {
+  title: string;
+  parameter: string; // Heading of the column of varied values
+  columns: string[];
+  rows: { value: string; cells: number[]; highlight?: boolean }[]; // highlight marks the row of the entered value
+  precision?: number;
+}
+
+export interface SurvivalCurve {
+  groups: SurvivalCurveGroup[];
+  riskTimes: number[]; // Times of the number-at-risk table under the plot
+}
+
+export interface SurvivalCurveGroup {
+  label: string;
+  steps: { time: number; survival: number; lower: number; upper: number }[]; // From time 0, one step per event time
+  atRisk: number[]; // Number at risk at each of riskTimes
+}
+
 export interface CalculatorDefinition<T extends Record<string, any>> {
   metadata: CalculatorMetadata;
-  schema: z.ZodType<T>;
-  compute: (data: T) => {
-    results: CalculationResult[];
-    interpretation: string;
-    steps?: string[];
-    formula?: string;
-    rCode?: string; // Generated R code string based on inputs
-    powerSpectrum?: { power: number; n: number; nTotal?: number }[]; // Optional power spectrum data
-  };
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>; // Input may omit fields that have defaults
+  compute: (data: T) => CalculatorOutput;
   examples: T[];
   references?: Reference[];
 }
+
+export interface ValidationIssue {
+  path: string; // Dotted path of the offending field; empty for the input as a whole
+  message: string;
+}
+
+export type RunResult =
+  | { ok: true; id: string; input: Record<string, any>; output: CalculatorOutput }
+  | { ok: false; id: string; errors: ValidationIssue[] };
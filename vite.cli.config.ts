@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Node build of the command-line runner; run with `npm run build:cli`
+export default defineConfig({
+  build: {
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    ssr: 'cli/bin.ts',
+    target: 'node20',
+    minify: false,
+    rollupOptions: {
+      output: { entryFileNames: 'epistatkit.js' }
+    }
+  },
+  ssr: {
+    noExternal: true
+  }
+});
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Headless library build of calculators/ (no React shell); run with `npm run build:lib`
+export default defineConfig({
+  build: {
+    outDir: 'dist/lib',
+    emptyOutDir: true,
+    sourcemap: true,
+    minify: false,
+    lib: {
+      entry: 'calculators/index.ts',
+      formats: ['es', 'cjs'],
+      fileName: (format) => format === 'es' ? 'epistatkit.js' : 'epistatkit.cjs'
+    },
+    rollupOptions: {
+      external: ['zod']
+    }
+  }
+});